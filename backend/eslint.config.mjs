@@ -0,0 +1,21 @@
+import { defineConfig, globalIgnores } from "eslint/config";
+import js from "@eslint/js";
+import tseslint from "typescript-eslint";
+
+const eslintConfig = defineConfig([
+  js.configs.recommended,
+  ...tseslint.configs.recommended,
+  {
+    rules: {
+      // Payloads from agents, RPCs and facilitators are untyped JSON throughout
+      "@typescript-eslint/no-explicit-any": "off",
+      "@typescript-eslint/no-unused-vars": ["warn", { argsIgnorePattern: "^_", caughtErrors: "none", ignoreRestSiblings: true }],
+      "@typescript-eslint/no-require-imports": "warn",
+      "no-case-declarations": "warn",
+      "prefer-const": "warn",
+    },
+  },
+  globalIgnores(["dist/**", "coverage/**"]),
+]);
+
+export default eslintConfig;
@@ -0,0 +1,8 @@
+/** @type {import('jest').Config} */
+module.exports = {
+  preset: 'ts-jest',
+  testEnvironment: 'node',
+  roots: ['<rootDir>/src'],
+  // Specs run against the in-memory storage backend
+  setupFiles: ['<rootDir>/jest.setup.js'],
+};
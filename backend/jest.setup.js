@@ -0,0 +1 @@
+process.env.STORAGE = 'memory';
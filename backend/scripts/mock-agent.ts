@@ -0,0 +1,76 @@
+/**
+ * Mock x402 Agent
+ * A minimal third-party specialist for testing remote specialists end to end.
+ * Answers 402 with a v2 payment-required header until an x-payment header is sent.
+ *
+ * Usage:
+ *   npm run mock-agent
+ *   curl -X POST localhost:3000/v1/specialists -H "X-API-Key: $ADMIN_KEY" -H "Content-Type: application/json" \
+ *     -d '{"id":"mockagent","name":"Mock Agent","description":"Echo agent","endpoint":"http://localhost:4021/","fee":0.05}'
+ */
+
+import express, { Request, Response } from 'express';
+
+const PORT = parseInt(process.env.MOCK_AGENT_PORT || '4021', 10);
+const FEE_USDC = parseFloat(process.env.MOCK_AGENT_FEE || '0.05');
+const PAY_TO = process.env.MOCK_AGENT_PAY_TO || '5xUugg8ysgqpcGneM6qpM2AZ8ZGuMaH5TnGNWdCQC1Z1';
+const NETWORK = 'solana:EtWTRABZaYq6iMfeYKouRu166VU2xqa1';
+const DEVNET_USDC_MINT = '4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU';
+
+const app = express();
+app.use(express.json());
+
+app.post('/', (req: Request, res: Response) => {
+  const { prompt } = req.body || {};
+  const paymentHeader = req.headers['x-payment'] as string | undefined;
+
+  if (!paymentHeader) {
+    const paymentRequired = {
+      x402Version: 2,
+      accepts: [
+        {
+          scheme: 'exact',
+          network: NETWORK,
+          asset: DEVNET_USDC_MINT,
+          amount: String(Math.floor(FEE_USDC * 1_000_000)),
+          payTo: PAY_TO,
+          extra: { name: 'mock agent', description: 'Echoes the prompt' },
+        },
+      ],
+    };
+    console.log(`[MockAgent] 402 for "${String(prompt).slice(0, 40)}"`);
+    res.setHeader('payment-required', Buffer.from(JSON.stringify(paymentRequired)).toString('base64'));
+    return res.status(402).json({ error: 'Payment required', fee: `${FEE_USDC} USDC` });
+  }
+
+  let payment: any;
+  try {
+    payment = JSON.parse(Buffer.from(paymentHeader, 'base64').toString('utf8'));
+  } catch {
+    return res.status(402).json({ error: 'Malformed x-payment header' });
+  }
+
+  const receipt = payment.payload?.receipt || `mock-${Date.now()}`;
+  console.log(`[MockAgent] Paid (${payment.payload?.transaction ? 'signed transaction' : 'receipt'}), answering`);
+
+  res.setHeader('x-payment-response', Buffer.from(JSON.stringify({
+    success: true,
+    transaction: receipt,
+    network: NETWORK,
+  })).toString('base64'));
+
+  res.json({
+    success: true,
+    data: {
+      summary: `Mock agent received: ${prompt}`,
+      prompt,
+    },
+    confidence: 1,
+    timestamp: new Date().toISOString(),
+    executionTimeMs: 1,
+  });
+});
+
+app.listen(PORT, () => {
+  console.log(`[MockAgent] Listening on http://localhost:${PORT}/ (fee: ${FEE_USDC} USDC)`);
+});
@@ -0,0 +1,27 @@
+/**
+ * Update Token Registry
+ * Refreshes names, mints and decimals in data/tokens.json from Jupiter's token
+ * list, and adds tokens by symbol or mint.
+ *
+ * Usage:
+ *   npm run tokens:update
+ *   npm run tokens:update -- ORCA <mint>
+ */
+
+import { updateTokenList } from '../src/token-registry';
+
+async function main() {
+  const { updated, added, notFound } = await updateTokenList(process.argv.slice(2));
+
+  console.log(`Updated: ${updated.join(', ') || 'none'}`);
+  console.log(`Added:   ${added.join(', ') || 'none'}`);
+  if (notFound.length > 0) {
+    console.log(`Not found on Jupiter: ${notFound.join(', ')}`);
+  }
+  process.exit(notFound.length > 0 ? 1 : 0);
+}
+
+main().catch(err => {
+  console.error('Token update failed:', err.message);
+  process.exit(1);
+});
@@ -0,0 +1,175 @@
+import * as crypto from 'crypto';
+import { afterAll, afterEach, describe, expect, it, jest } from '@jest/globals';
+import {
+  authenticateApiKey,
+  createApiKey,
+  hasScope,
+  importLegacyKeys,
+  listApiKeys,
+  revokeApiKey,
+  rotateApiKey,
+  toPublicKey,
+  validateKeyRequest,
+} from './api-keys';
+import { createMemoryStorage, createSqliteStorage, getStorage, Storage } from './storage';
+import { Task } from './types';
+
+const sha256 = (value: string) => crypto.createHash('sha256').update(value).digest('hex');
+
+const task = (id: string, userId: string): Task => ({
+  id,
+  prompt: id,
+  userId,
+  status: 'completed',
+  specialist: 'magos',
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  payments: [],
+  messages: [],
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+// Runs first: the import happens on the first authenticateApiKey call in this file
+describe('legacy keys', () => {
+  afterAll(() => {
+    delete process.env.API_KEYS;
+    delete process.env.ADMIN_API_KEYS;
+  });
+
+  it('imports environment keys and moves data stored under the raw key to their user', () => {
+    process.env.API_KEYS = 'legacy-user-key';
+    process.env.ADMIN_API_KEYS = 'legacy-admin-key';
+    const storage = getStorage();
+    storage.saveTask(task('legacy-task', 'legacy-user-key'));
+    storage.setDocument('budget-limits', { 'legacy-user-key': { daily: 2 } });
+
+    const user = authenticateApiKey('legacy-user-key')!;
+    const admin = authenticateApiKey('legacy-admin-key')!;
+
+    expect(user).toMatchObject({ userId: `usr_${sha256('legacy-user-key').slice(0, 16)}`, scopes: ['dispatch', 'bankr-execute', 'reputation-vote'], source: 'env' });
+    expect(admin.scopes).toContain('admin');
+    expect(storage.getTask('legacy-task')!.userId).toBe(user.userId);
+    expect(storage.getDocument('budget-limits')).toEqual({ [user.userId]: { daily: 2 } });
+  });
+
+  it('moves data once and never brings back a revoked key', () => {
+    const user = authenticateApiKey('legacy-user-key')!;
+    getStorage().saveTask(task('later-task', 'legacy-user-key'));
+    revokeApiKey(user.id);
+
+    expect(importLegacyKeys()).toBe(0);
+    expect(getStorage().getTask('later-task')!.userId).toBe('legacy-user-key');
+    expect(authenticateApiKey('legacy-user-key')).toBeNull();
+  });
+});
+
+describe('api keys', () => {
+  it('stores only the hash of a new key', () => {
+    const { key, record } = createApiKey({ scopes: ['dispatch', 'dispatch'], name: 'ci' });
+
+    expect(key).toMatch(/^hm_[A-Za-z0-9_-]{43}$/);
+    expect(record).toMatchObject({ keyHash: sha256(key), prefix: key.slice(0, 8), scopes: ['dispatch'], name: 'ci' });
+    expect(record.userId).toMatch(/^usr_[0-9a-f]{16}$/);
+    expect(JSON.stringify(listApiKeys(record.userId))).not.toContain(key);
+    expect(toPublicKey(record)).not.toHaveProperty('keyHash');
+  });
+
+  it('authenticates live keys only', () => {
+    const { key, record } = createApiKey({ scopes: ['dispatch'], userId: 'usr_owner' });
+    expect(authenticateApiKey(key)).toMatchObject({ id: record.id, userId: 'usr_owner', lastUsedAt: expect.any(Number) });
+    expect(authenticateApiKey(`${key}x`)).toBeNull();
+    expect(authenticateApiKey(undefined)).toBeNull();
+
+    expect(revokeApiKey(record.id)!.revokedAt).toEqual(expect.any(Number));
+    expect(revokeApiKey(record.id)).toBeNull();
+    expect(authenticateApiKey(key)).toBeNull();
+
+    const expiring = createApiKey({ scopes: ['dispatch'], expiresAt: Date.now() - 1 });
+    expect(authenticateApiKey(expiring.key)).toBeNull();
+  });
+
+  it('rotates a key for the same user and scopes', () => {
+    const { key, record } = createApiKey({ scopes: ['dispatch', 'bankr-execute'] });
+    const rotated = rotateApiKey(record.id)!;
+
+    expect(rotated.record).toMatchObject({ userId: record.userId, scopes: record.scopes, rotatedFrom: record.id });
+    expect(authenticateApiKey(rotated.key)!.id).toBe(rotated.record.id);
+    expect(authenticateApiKey(key)).toBeNull();
+    expect(rotateApiKey(record.id)).toBeNull();
+  });
+
+  it('keeps the old key working through a grace period', () => {
+    jest.useFakeTimers({ now: Date.UTC(2026, 0, 1) });
+    const { key, record } = createApiKey({ scopes: ['dispatch'] });
+    const rotated = rotateApiKey(record.id, 60_000)!;
+
+    expect(rotated.previous.revokedAt).toBeUndefined();
+    expect(authenticateApiKey(key)).not.toBeNull();
+    jest.advanceTimersByTime(60_000);
+    expect(authenticateApiKey(key)).toBeNull();
+    expect(authenticateApiKey(rotated.key)).not.toBeNull();
+  });
+
+  it('grants every scope to admin keys', () => {
+    expect(hasScope(['dispatch'], 'dispatch')).toBe(true);
+    expect(hasScope(['dispatch'], 'bankr-execute')).toBe(false);
+    expect(hasScope(['admin'], 'bankr-execute')).toBe(true);
+    expect(hasScope(undefined, 'dispatch')).toBe(false);
+  });
+
+  it('validates key requests', () => {
+    expect(validateKeyRequest({ scopes: ['dispatch'], name: 'ci', expiresAt: '2027-01-01T00:00:00Z' })).toEqual([]);
+    expect(validateKeyRequest({ scopes: ['root'], name: 3, userId: '', expiresAt: 'soon' })).toEqual([
+      'Unknown scope: root',
+      'name must be a string',
+      'userId must be a non-empty string',
+      'expiresAt must be an ISO date',
+    ]);
+    expect(validateKeyRequest({ scopes: [] })).toEqual(['scopes must be a non-empty array of: dispatch, bankr-execute, reputation-vote, admin']);
+  });
+});
+
+describe.each([
+  ['memory', () => createMemoryStorage()],
+  ['sqlite', () => createSqliteStorage(':memory:')],
+])('reassignUser (%s)', (_name, create) => {
+  let storage: Storage;
+
+  afterEach(() => storage.close());
+
+  it('moves tasks, spend, trades and user-keyed documents to the new user', () => {
+    storage = create();
+    storage.saveTask(task('t1', 'old'));
+    storage.saveTask(task('t2', 'someone'));
+    storage.addSpend({ userId: 'old', taskId: 't1', specialist: 'magos', amount: 0.1, timestamp: 1000 });
+    storage.addPaperTrade({ userId: 'old', type: 'swap', from: 'SOL', to: 'USDC', amountIn: 1, amountOut: 150, timestamp: 1000 });
+    storage.setDocument('budget-limits', { old: { daily: 1 }, someone: { daily: 3 } });
+    storage.setDocument('reputation', { votes: { 'old:magos': { voterId: 'old', vote: 1 } } });
+    storage.saveRateLimitBuckets([{ key: 'dispatch:old', tokens: 0, updatedAt: 1000 }]);
+
+    const changed = storage.reassignUser('old', 'new');
+
+    expect(changed).toBe(5);
+    expect(storage.getTask('t1')!.userId).toBe('new');
+    expect(storage.listTasks({ userId: 'new' }).map(t => t.id)).toEqual(['t1']);
+    expect(storage.getTask('t2')!.userId).toBe('someone');
+    expect(storage.listSpend('new', 0)).toHaveLength(1);
+    expect(storage.listPaperTrades('new')).toHaveLength(1);
+    expect(storage.countPaperTrades('old')).toBe(0);
+    expect(storage.getDocument('budget-limits')).toEqual({ new: { daily: 1 }, someone: { daily: 3 } });
+    expect(storage.getDocument('reputation')).toEqual({ votes: { 'new:magos': { voterId: 'new', vote: 1 } } });
+    expect(storage.getRateLimitBucket('dispatch:old')).toBeUndefined();
+  });
+
+  it('keeps the entries the new user already has', () => {
+    storage = create();
+    storage.setDocument('budget-limits', { old: { daily: 1 }, new: { daily: 5 } });
+
+    storage.reassignUser('old', 'new');
+
+    expect(storage.getDocument('budget-limits')).toEqual({ new: { daily: 5 } });
+  });
+});
@@ -0,0 +1,254 @@
+/**
+ * API Keys - Hashed key store with scopes, expiry, rotation and revocation
+ *
+ * Keys are only stored as SHA-256 hashes and each belongs to a stable user id,
+ * so a key can be rotated without the user losing their tasks, budget or
+ * settings. Keys from the legacy API_KEYS / ADMIN_API_KEYS variables are
+ * imported on first use.
+ */
+
+import * as crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { ApiKeyScope } from './types';
+import { getStorage, ApiKeyRecord } from './storage';
+
+export const API_KEY_SCOPES: ApiKeyScope[] = ['dispatch', 'bankr-execute', 'reputation-vote', 'admin'];
+
+// What keys from API_KEYS could do before scopes existed
+const LEGACY_SCOPES: ApiKeyScope[] = ['dispatch', 'bankr-execute', 'reputation-vote'];
+
+const LEGACY_MIGRATIONS_KEY = 'legacy-key-migrations';
+
+// lastUsedAt is written at most this often per key
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+let legacyImported = false;
+
+export type PublicApiKey = Omit<ApiKeyRecord, 'keyHash'>;
+
+function hashKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+function generateKey(): string {
+  return `hm_${crypto.randomBytes(32).toString('base64url')}`;
+}
+
+function newUserId(): string {
+  return `usr_${uuidv4().replace(/-/g, '').slice(0, 16)}`;
+}
+
+/**
+ * A key record without its hash, for API responses
+ */
+export function toPublicKey(record: ApiKeyRecord): PublicApiKey {
+  const { keyHash, ...rest } = record;
+  return rest;
+}
+
+/**
+ * Whether a set of scopes grants `scope` ('admin' grants everything)
+ */
+export function hasScope(scopes: ApiKeyScope[] | undefined, scope: ApiKeyScope): boolean {
+  return !!scopes && (scopes.includes(scope) || scopes.includes('admin'));
+}
+
+/**
+ * Validate a key request, returning a list of problems
+ */
+export function validateKeyRequest(body: any): string[] {
+  if (!body || typeof body !== 'object') {
+    return ['Body must be an object'];
+  }
+  const errors: string[] = [];
+  if (!Array.isArray(body.scopes) || body.scopes.length === 0) {
+    errors.push(`scopes must be a non-empty array of: ${API_KEY_SCOPES.join(', ')}`);
+  } else {
+    for (const scope of body.scopes) {
+      if (!API_KEY_SCOPES.includes(scope)) errors.push(`Unknown scope: ${scope}`);
+    }
+  }
+  if (body.name !== undefined && typeof body.name !== 'string') {
+    errors.push('name must be a string');
+  }
+  if (body.userId !== undefined && (typeof body.userId !== 'string' || !body.userId)) {
+    errors.push('userId must be a non-empty string');
+  }
+  if (body.expiresAt !== undefined && isNaN(new Date(body.expiresAt).getTime())) {
+    errors.push('expiresAt must be an ISO date');
+  }
+  return errors;
+}
+
+function saveNewKey(key: string, fields: Omit<ApiKeyRecord, 'id' | 'prefix' | 'keyHash' | 'createdAt'>): ApiKeyRecord {
+  const record: ApiKeyRecord = {
+    id: `key_${uuidv4()}`,
+    // Short legacy keys only show a fraction of themselves
+    prefix: key.slice(0, Math.min(8, Math.floor(key.length / 4))),
+    keyHash: hashKey(key),
+    createdAt: Date.now(),
+    ...fields,
+  };
+  getStorage().saveApiKey(record);
+  return record;
+}
+
+/**
+ * Mint a key. The plaintext key is only returned here.
+ * Without a userId the key gets a new user of its own.
+ */
+export function createApiKey(options: {
+  scopes: ApiKeyScope[];
+  userId?: string;
+  name?: string;
+  expiresAt?: number;
+}): { key: string; record: ApiKeyRecord } {
+  const key = generateKey();
+  const record = saveNewKey(key, {
+    userId: options.userId || newUserId(),
+    name: options.name,
+    scopes: [...new Set(options.scopes)],
+    expiresAt: options.expiresAt,
+  });
+  console.log(`[ApiKeys] Created ${record.id} for ${record.userId} (${record.scopes.join(', ')})`);
+  return { key, record };
+}
+
+/**
+ * Import keys from API_KEYS and ADMIN_API_KEYS that are not in the store yet.
+ * Each legacy key gets a user id derived from its hash; keys revoked or rotated
+ * since are not brought back. Data stored under a raw key from before keys had
+ * user ids is moved to the key's user once, and the raw key dropped from it.
+ */
+export function importLegacyKeys(): number {
+  const parse = (value?: string) => (value || '').split(',').map(k => k.trim()).filter(k => k.length > 0);
+  const adminKeys = parse(process.env.ADMIN_API_KEYS);
+  const keys = [...new Set([...parse(process.env.API_KEYS), ...adminKeys])];
+  const storage = getStorage();
+
+  let imported = 0;
+  let migrated = 0;
+  storage.transaction(() => {
+    // Hashes of keys whose data was moved already, never the keys themselves
+    const migrations = storage.getDocument<Record<string, number>>(LEGACY_MIGRATIONS_KEY) || {};
+    for (const key of keys) {
+      const keyHash = hashKey(key);
+      let record = storage.getApiKeyByHash(keyHash);
+      if (!record) {
+        record = saveNewKey(key, {
+          userId: `usr_${keyHash.slice(0, 16)}`,
+          name: adminKeys.includes(key) ? 'ADMIN_API_KEYS' : 'API_KEYS',
+          scopes: adminKeys.includes(key) ? [...API_KEY_SCOPES] : [...LEGACY_SCOPES],
+          source: 'env',
+        });
+        imported++;
+      }
+      if (migrations[keyHash]) continue;
+      migrated += storage.reassignUser(key, record.userId);
+      migrations[keyHash] = Date.now();
+    }
+    storage.setDocument(LEGACY_MIGRATIONS_KEY, migrations);
+  });
+
+  if (imported > 0) {
+    console.log(`[ApiKeys] Imported ${imported} key(s) from the environment`);
+  }
+  if (migrated > 0) {
+    console.log(`[ApiKeys] Moved ${migrated} record(s) stored under raw legacy keys to their users`);
+  }
+  return imported;
+}
+
+/**
+ * Look up a presented key. Returns null for unknown, revoked or expired keys.
+ */
+export function authenticateApiKey(key: string | undefined): ApiKeyRecord | null {
+  if (!key) return null;
+  if (!legacyImported) {
+    legacyImported = true;
+    importLegacyKeys();
+  }
+
+  const record = getStorage().getApiKeyByHash(hashKey(key));
+  const now = Date.now();
+  if (!record || record.revokedAt || (record.expiresAt && record.expiresAt <= now)) {
+    return null;
+  }
+
+  if (!record.lastUsedAt || now - record.lastUsedAt > LAST_USED_RESOLUTION_MS) {
+    record.lastUsedAt = now;
+    getStorage().saveApiKey(record);
+  }
+  return record;
+}
+
+/**
+ * Keys in the store, optionally only one user's
+ */
+export function listApiKeys(userId?: string): ApiKeyRecord[] {
+  return getStorage().listApiKeys(userId);
+}
+
+export function getApiKey(id: string): ApiKeyRecord | undefined {
+  return getStorage().getApiKey(id);
+}
+
+/**
+ * Revoke a key. Returns null if it does not exist or was already revoked.
+ */
+export function revokeApiKey(id: string): ApiKeyRecord | null {
+  const record = getStorage().getApiKey(id);
+  if (!record || record.revokedAt) return null;
+
+  record.revokedAt = Date.now();
+  getStorage().saveApiKey(record);
+  console.log(`[ApiKeys] Revoked ${id}`);
+  return record;
+}
+
+/**
+ * Replace a key with a new one for the same user and scopes. The old key stops
+ * working immediately, or after `gracePeriodMs` so clients can switch over.
+ * Returns null if the key does not exist, was revoked or has expired.
+ */
+export function rotateApiKey(id: string, gracePeriodMs: number = 0): { key: string; record: ApiKeyRecord; previous: ApiKeyRecord } | null {
+  const storage = getStorage();
+  const previous = storage.getApiKey(id);
+  if (!previous || previous.revokedAt || (previous.expiresAt && previous.expiresAt <= Date.now())) return null;
+
+  const key = generateKey();
+  const expiresAt = previous.expiresAt;
+  const record = storage.transaction(() => {
+    const now = Date.now();
+    if (gracePeriodMs > 0) {
+      previous.expiresAt = Math.min(previous.expiresAt ?? Infinity, now + gracePeriodMs);
+    } else {
+      previous.revokedAt = now;
+    }
+    storage.saveApiKey(previous);
+
+    return saveNewKey(key, {
+      userId: previous.userId,
+      name: previous.name,
+      scopes: previous.scopes,
+      expiresAt,
+      rotatedFrom: previous.id,
+    });
+  });
+
+  console.log(`[ApiKeys] Rotated ${id} -> ${record.id}`);
+  return { key, record, previous };
+}
+
+export default {
+  createApiKey,
+  authenticateApiKey,
+  importLegacyKeys,
+  listApiKeys,
+  getApiKey,
+  revokeApiKey,
+  rotateApiKey,
+  hasScope,
+  toPublicKey,
+  validateKeyRequest,
+};
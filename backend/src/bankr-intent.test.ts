@@ -0,0 +1,29 @@
+import fs from 'fs';
+import path from 'path';
+import { describe, expect, it } from '@jest/globals';
+import { parseBankrIntent, IntentAction, IntentContact } from './bankr-intent';
+
+interface IntentFixture {
+  prompt: string;
+  contacts?: IntentContact[];  // The user's contacts when the prompt was written
+  actions?: IntentAction[];
+  error?: string;           // Expected to appear in the parse error
+}
+
+const fixtures: IntentFixture[] = JSON.parse(
+  fs.readFileSync(path.join(__dirname, '__fixtures__/bankr-intents.json'), 'utf8'),
+);
+
+describe('parseBankrIntent', () => {
+  it.each(fixtures.filter(f => f.error === undefined).map(f => [f.prompt, f] as const))('reads "%s"', (_prompt, fixture) => {
+    const result = parseBankrIntent(fixture.prompt, { contacts: fixture.contacts });
+    expect(result.error).toBeUndefined();
+    expect(result.actions).toEqual(fixture.actions);
+  });
+
+  it.each(fixtures.filter(f => f.error !== undefined).map(f => [f.prompt, f] as const))('rejects "%s"', (_prompt, fixture) => {
+    const result = parseBankrIntent(fixture.prompt, { contacts: fixture.contacts });
+    expect(result.actions).toEqual([]);
+    expect(result.error).toContain(fixture.error);
+  });
+});
@@ -0,0 +1,634 @@
+/**
+ * bankr Intents - Grammar for bankr's trading prompts
+ *
+ * Turns "swap half my SOL for BONK and send it to <address>" into a typed list
+ * of actions. A prompt is one or more clauses, each starting with a verb (swap,
+ * buy, sell, send, stake). Amounts are absolute ("0.5 SOL"), a share of the
+ * balance ("half my SOL", "25% of my BONK"), a USD value ("$20 of WIF") or
+ * everything ("all my BONK", or "it" for what the previous step produced).
+ * Recipients are addresses or the user's contacts by name ("send 0.2 SOL to alice").
+ * Anything the grammar can't read is a parse error, never a default trade.
+ * Phrasings are pinned in src/__fixtures__/bankr-intents.json (bankr-intent.test.ts).
+ */
+
+import { getToken, getMint, listTradableSymbols } from './token-registry';
+
+export type IntentAmount =
+  | { kind: 'absolute'; value: string; token: string }  // In `token`, which is the token bought for "buy 1000 BONK"
+  | { kind: 'percent'; percent: number; source: 'balance' | 'previous' }  // Of the balance of the token spent, or of the previous step's output
+  | { kind: 'usd'; usd: number }                        // USD worth of the token spent
+  | { kind: 'all'; source: 'balance' | 'previous' };    // The whole balance, or what the previous step produced
+
+export type IntentAction =
+  | { type: 'swap'; from: string; to: string; amount: IntentAmount }
+  | { type: 'stake'; token: string; amount: IntentAmount }
+  | { type: 'transfer'; token: string; to: string; amount: IntentAmount; contact?: string }  // contact: name `to` was resolved from
+  | { type: 'balance' };
+
+export interface IntentParse {
+  actions: IntentAction[];
+  error?: string;           // Set, with no actions, when the prompt can't be read
+}
+
+/**
+ * A saved recipient the parser resolves by name (see contacts.ts)
+ */
+export interface IntentContact {
+  name: string;
+  address: string;
+  defaultToken?: string;    // Sent when the prompt names no token ("send 5 to alice")
+}
+
+// Liquid staking token SOL is staked into
+export const STAKED_SOL = 'JITOSOL';
+
+const DEFAULT_SELL_FOR = 'USDC';
+
+type Verb = 'swap' | 'buy' | 'sell' | 'send' | 'stake' | 'unstake';
+
+const VERBS: Record<string, Verb> = {
+  swap: 'swap',
+  trade: 'swap',
+  exchange: 'swap',
+  convert: 'swap',
+  buy: 'buy',
+  purchase: 'buy',
+  sell: 'sell',
+  dump: 'sell',
+  send: 'send',
+  transfer: 'send',
+  pay: 'send',
+  withdraw: 'send',
+  stake: 'stake',
+  unstake: 'unstake',
+};
+
+// Words that add nothing inside a clause ("sell half of my SOL please")
+const FILLER = new Set(['my', 'the', 'some', 'please', 'our', 'just', 'now', 'over', 'back', 'pls']);
+
+// Words joining one clause to the next ("... and then send it")
+const CONNECTORS = new Set(['and', 'then', 'also', 'next', 'finally', 'afterwards', 'after']);
+
+const FRACTIONS: Record<string, number> = { half: 50, third: 100 / 3, quarter: 25 };
+const ALL_WORDS = new Set(['all', 'everything', 'max', 'entire']);
+const PRONOUNS = new Set(['it', 'them', 'that', 'those', 'proceeds']);
+const USD_WORDS = new Set(['dollar', 'dollars', 'usd', 'bucks']);
+
+// Asking for advice ("should I buy BONK?") shows the balance instead of trading
+const ADVICE_QUESTION = /^\s*(should|shall)\s+(i|we)\b|\b(should|shall)\s+(i|we)\b[^?]*\?/i;
+// Advice words only count when the prompt doesn't read as a trade ("I'd recommend BONK")
+const ADVICE = /\b(should|recommend(ed)?)\b/i;
+
+const NUMBER_SOURCE = '(\\d{1,3}(?:,\\d{3})+(?:\\.\\d+)?|\\d+(?:\\.\\d+)?|\\.\\d+)(?:([km])(?![a-z]))?';
+const USD = new RegExp(`\\$\\s?${NUMBER_SOURCE}`, 'iy');
+const NUMBER = new RegExp(`${NUMBER_SOURCE}(\\s*%)?`, 'iy');
+const ADDRESS = /(?=[1-9]*[A-HJ-NP-Za-km-z])[1-9A-HJ-NP-Za-km-z]{32,44}(?![A-Za-z0-9])/y;
+const WORD = /\$?([A-Za-z][A-Za-z0-9'’]*)/y;
+
+type Lexeme = { start: number; end: number } & (
+  | { kind: 'number'; value: number; text: string }
+  | { kind: 'usd'; value: number }
+  | { kind: 'percent'; value: number }
+  | { kind: 'address'; text: string }
+  | { kind: 'word'; text: string; lower: string }
+  | { kind: 'break' }
+);
+
+type Amount =
+  | { kind: 'absolute'; value: string }
+  | { kind: 'percent'; percent: number; ofPrevious?: boolean }
+  | { kind: 'usd'; usd: number }
+  | { kind: 'all' }
+  | { kind: 'previous' };
+
+function toNumber(digits: string, suffix?: string): { value: number; text: string } {
+  const plain = digits.replace(/,/g, '');
+  const multiplier = suffix ? (suffix.toLowerCase() === 'k' ? 1e3 : 1e6) : 1;
+  const value = parseFloat((parseFloat(plain) * multiplier).toPrecision(12));
+  return { value, text: suffix ? String(value) : plain.replace(/^\./, '0.') };
+}
+
+/**
+ * Split a prompt into numbers, USD amounts, percentages, addresses, words and clause breaks
+ */
+function lex(prompt: string): Lexeme[] {
+  const lexemes: Lexeme[] = [];
+  let i = 0;
+  const at = (re: RegExp): RegExpExecArray | null => {
+    re.lastIndex = i;
+    const match = re.exec(prompt);
+    if (match) i = re.lastIndex;
+    return match;
+  };
+
+  while (i < prompt.length) {
+    const start = i;
+    let match: RegExpExecArray | null;
+    if (/\s/.test(prompt[i])) {
+      i++;
+    } else if ((match = at(USD))) {
+      lexemes.push({ kind: 'usd', value: toNumber(match[1], match[2]).value, start, end: i });
+    } else if ((match = at(ADDRESS))) {
+      lexemes.push({ kind: 'address', text: match[0], start, end: i });
+    } else if ((match = at(NUMBER))) {
+      const { value, text } = toNumber(match[1], match[2]);
+      lexemes.push(match[3] ? { kind: 'percent', value, start, end: i } : { kind: 'number', value, text, start, end: i });
+    } else if ((match = at(WORD))) {
+      lexemes.push({ kind: 'word', text: match[1], lower: match[1].toLowerCase(), start, end: i });
+    } else {
+      if (/[,;!?]/.test(prompt[i]) || (prompt[i] === '.' && !/\d/.test(prompt[i + 1] || ''))) {
+        lexemes.push({ kind: 'break', start, end: i + 1 });
+      }
+      i++;
+    }
+  }
+  return lexemes;
+}
+
+const isWord = (lexeme: Lexeme | undefined, words: Set<string> | string[]): boolean =>
+  lexeme?.kind === 'word' && (Array.isArray(words) ? words.includes(lexeme.lower) : words.has(lexeme.lower));
+
+/**
+ * Group lexemes into clauses, each starting at a verb. Anything before the
+ * first verb ("can you please") is dropped, as are connectors between clauses.
+ */
+function splitClauses(lexemes: Lexeme[]): Array<{ verb: Verb; lexemes: Lexeme[] }> {
+  const clauses: Array<{ verb: Verb; lexemes: Lexeme[] }> = [];
+  for (const lexeme of lexemes) {
+    if (lexeme.kind === 'word' && VERBS[lexeme.lower]) {
+      clauses.push({ verb: VERBS[lexeme.lower], lexemes: [lexeme] });
+    } else if (clauses.length > 0) {
+      clauses[clauses.length - 1].lexemes.push(lexeme);
+    }
+  }
+
+  clauses.forEach((clause, index) => {
+    const rest = clause.lexemes;
+    const last = index === clauses.length - 1;
+    for (;;) {
+      const tail = rest[rest.length - 1];
+      if (tail?.kind === 'break' || (!last && isWord(tail, CONNECTORS))) {
+        rest.pop();
+      } else if (!last && isWord(tail, ['that']) && isWord(rest[rest.length - 2], ['after'])) {
+        rest.splice(-2);
+      } else if (isRemark(rest)) {
+        rest.splice(rest.map(l => l.kind).lastIndexOf('break'));
+      } else {
+        break;
+      }
+    }
+  });
+  return clauses;
+}
+
+/**
+ * Whether a clause ends in a remark after a break ("swap 1 SOL for BONK, good stuff"):
+ * plain words naming no token, which can't change the trade
+ */
+function isRemark(lexemes: Lexeme[]): boolean {
+  const start = lexemes.map(l => l.kind).lastIndexOf('break');
+  if (start < 1) return false;
+  const remark = lexemes.slice(start + 1);
+  return remark.length > 0 && remark.every(l => l.kind === 'word' && !getToken(l.text));
+}
+
+/**
+ * Cursor over one clause's lexemes (verb excluded, filler words removed)
+ */
+function reader(lexemes: Lexeme[]) {
+  const items = lexemes.filter(l => !isWord(l, FILLER) && l.kind !== 'break');
+  let position = 0;
+  return {
+    peek: (offset = 0): Lexeme | undefined => items[position + offset],
+    next: (): Lexeme | undefined => items[position++],
+    word(...words: string[]): boolean {
+      if (isWord(items[position], words)) {
+        position++;
+        return true;
+      }
+      return false;
+    },
+    done: (): boolean => position >= items.length,
+    rest: (): Lexeme[] => items.slice(position),
+  };
+}
+
+type Reader = ReturnType<typeof reader>;
+
+/**
+ * Read an amount: "0.5", "$20", "20 dollars", "25%", "half", "all", "it"
+ */
+function readAmount(r: Reader): Amount | null {
+  const first = r.peek();
+  if (!first) return null;
+  const ofWorth = () => {
+    r.word('worth');
+    r.word('of');
+  };
+
+  if (first.kind === 'usd') {
+    r.next();
+    ofWorth();
+    return { kind: 'usd', usd: first.value };
+  }
+  // "half of it" is a share of what the previous step produced
+  const percent = (value: number): Amount => (r.word('of') && r.word(...PRONOUNS) ? { kind: 'percent', percent: value, ofPrevious: true } : { kind: 'percent', percent: value });
+
+  if (first.kind === 'percent') {
+    r.next();
+    return percent(first.value);
+  }
+  if (first.kind === 'number') {
+    r.next();
+    if (r.word(...USD_WORDS)) {
+      ofWorth();
+      return { kind: 'usd', usd: first.value };
+    }
+    if (r.word('percent')) {
+      return percent(first.value);
+    }
+    return { kind: 'absolute', value: first.text };
+  }
+  if (first.kind !== 'word') return null;
+
+  const fraction = isWord(first, ['a', 'one']) ? r.peek(1) : first;
+  if (fraction?.kind === 'word' && FRACTIONS[fraction.lower] !== undefined) {
+    if (fraction !== first) r.next();
+    r.next();
+    return percent(FRACTIONS[fraction.lower]);
+  }
+  if (ALL_WORDS.has(first.lower)) {
+    r.next();
+    r.word('of');
+    return r.word(...PRONOUNS) ? { kind: 'previous' } : { kind: 'all' };
+  }
+  if (PRONOUNS.has(first.lower)) {
+    r.next();
+    return { kind: 'previous' };
+  }
+  return null;
+}
+
+/**
+ * Read a registry token (one or two words, e.g. "usd coin"), a cashtag or a mint address
+ */
+function readToken(r: Reader): string | null {
+  const first = r.peek();
+  if (first?.kind === 'address') {
+    r.next();
+    return getToken(first.text)?.symbol || first.text;
+  }
+  if (first?.kind !== 'word') return null;
+
+  const second = r.peek(1);
+  const pair = second?.kind === 'word' && getToken(`${first.text} ${second.text}`);
+  if (pair) {
+    r.next();
+    r.next();
+    return pair.symbol;
+  }
+  const token = getToken(first.text);
+  if (token) {
+    r.next();
+    return token.symbol;
+  }
+  return null;
+}
+
+const KEYWORDS = new Set(['for', 'to', 'into', 'with', 'of', 'worth', 'on', 'via', 'and', 'then', 'at', 'from']);
+
+/**
+ * Read a token, failing with `question` when there is none or naming an unknown one
+ */
+function expectToken(r: Reader, question: string): string {
+  const token = readToken(r);
+  if (token) return token;
+  const next = r.peek();
+  if (next?.kind === 'word' && !KEYWORDS.has(next.lower) && !PRONOUNS.has(next.lower)) {
+    throw new Error(`Unknown token "${next.text}"; bankr can trade ${listTradableSymbols().join(', ')}`);
+  }
+  throw new Error(question);
+}
+
+/**
+ * Fail unless `token` has a Solana mint (or is a mint address)
+ */
+function tradable(token: string): string {
+  if (!getMint(token) && !/^[1-9A-HJ-NP-Za-km-z]{32,44}$/.test(token)) {
+    throw new Error(`${token} has no Solana mint, so bankr can't trade it`);
+  }
+  return token;
+}
+
+/**
+ * A swap of two different tradable tokens
+ */
+function swap(from: string, to: string, amount: Amount, amountToken: string = from): IntentAction {
+  if (from === to) {
+    throw new Error(`Can't swap ${from} for itself`);
+  }
+  return { type: 'swap', from: tradable(from), to: tradable(to), amount: toIntentAmount(amount, amountToken) };
+}
+
+function toIntentAmount(amount: Amount, token: string): IntentAmount {
+  switch (amount.kind) {
+    case 'absolute':
+      if (!(parseFloat(amount.value) > 0)) throw new Error('Amounts must be greater than zero');
+      return { kind: 'absolute', value: amount.value, token };
+    case 'percent':
+      if (!(amount.percent > 0 && amount.percent <= 100)) throw new Error('Percentages must be between 0 and 100');
+      return { kind: 'percent', percent: Math.round(amount.percent * 100) / 100, source: amount.ofPrevious ? 'previous' : 'balance' };
+    case 'usd':
+      if (!(amount.usd > 0)) throw new Error('Amounts must be greater than zero');
+      return { kind: 'usd', usd: amount.usd };
+    case 'all':
+      return { kind: 'all', source: 'balance' };
+    case 'previous':
+      return { kind: 'all', source: 'previous' };
+  }
+}
+
+function readableToken(r: Reader): boolean {
+  const next = r.peek();
+  return next?.kind === 'address' || (next?.kind === 'word' && !!getToken(next.text));
+}
+
+/**
+ * The token an amount is of: the previous step's output for "it" (and for a bare
+ * "all" after another step), otherwise the token named next
+ */
+function subject(r: Reader, amount: Amount | null, previous: string | null, question: string): { amount: Amount | null; token: string } {
+  const ofPrevious = amount?.kind === 'previous' || (amount?.kind === 'percent' && amount.ofPrevious) ||
+    (amount?.kind === 'all' && previous && !readableToken(r));
+  if (!ofPrevious) {
+    return { amount, token: expectToken(r, question) };
+  }
+  if (!previous) {
+    throw new Error('Nothing earlier in the request for "it" to refer to');
+  }
+  // "swap it (BONK) for SOL" may repeat the token
+  const named = readToken(r);
+  if (named && named !== previous) {
+    throw new Error(`The previous step produces ${previous}, not ${named}`);
+  }
+  return { amount: amount.kind === 'percent' ? amount : { kind: 'previous' }, token: previous };
+}
+
+function swapClause(r: Reader, previous: string | null): IntentAction {
+  const { amount, token: from } = subject(r, readAmount(r), previous, 'Which token should I swap? e.g. "swap 1 SOL for BONK"');
+  if (!r.word('for', 'to', 'into')) {
+    throw new Error(`What should I swap ${from} for? e.g. "swap 1 ${from} for USDC"`);
+  }
+  const to = expectToken(r, `What should I swap ${from} for? e.g. "swap 1 ${from} for USDC"`);
+  if (!amount) {
+    throw new Error(`How much ${from} should I swap? e.g. "swap 1 ${from} for ${to}" or "swap half my ${from} for ${to}"`);
+  }
+  return swap(from, to, amount);
+}
+
+function sellClause(r: Reader, previous: string | null): IntentAction {
+  const { amount, token: from } = subject(r, readAmount(r), previous, 'Which token should I sell? e.g. "sell half my BONK"');
+  let to = from === DEFAULT_SELL_FOR ? 'SOL' : DEFAULT_SELL_FOR;
+  if (r.word('for', 'into', 'to')) {
+    to = expectToken(r, `What should I sell ${from} for? e.g. "sell 1 ${from} for USDC"`);
+  }
+  if (!amount) {
+    throw new Error(`How much ${from} should I sell? e.g. "sell half my ${from}" or "sell 10 ${from}"`);
+  }
+  return swap(from, to, amount);
+}
+
+/**
+ * "buy 0.1 SOL of BONK", "buy $20 of WIF", "buy 1000 BONK", "buy BONK with half my SOL"
+ */
+function buyClause(r: Reader, previous: string | null): IntentAction {
+  const amount = readAmount(r);
+  const funding = (to: string, usd: boolean) => r.word('with', 'using')
+    ? expectToken(r, `What should I buy ${to} with? e.g. "buy ${to} with 0.1 SOL"`)
+    : (usd ? (to === 'USDC' ? 'SOL' : 'USDC') : (to === 'SOL' ? 'USDC' : 'SOL'));
+
+  if (amount?.kind === 'absolute') {
+    const named = expectToken(r, `${amount.value} of what? e.g. "buy 0.1 SOL of BONK"`);
+    if (r.word('worth') || isWord(r.peek(), ['of'])) {
+      // "buy 0.1 SOL (worth) of BONK" spends the amount named
+      r.word('of');
+      const to = expectToken(r, `What should I buy with ${amount.value} ${named}? e.g. "buy ${amount.value} ${named} of BONK"`);
+      return swap(named, to, amount);
+    }
+    // "buy 1000 BONK" is an amount of the token bought
+    const from = funding(named, false);
+    return swap(from, named, amount, named);
+  }
+
+  if (amount?.kind === 'usd') {
+    const to = expectToken(r, `What should I buy with $${amount.usd}? e.g. "buy $${amount.usd} of WIF"`);
+    const from = funding(to, true);
+    return swap(from, to, amount);
+  }
+
+  if (amount) {
+    throw new Error('Say what to buy and what to pay with, e.g. "buy BONK with half my SOL"');
+  }
+
+  const to = expectToken(r, 'Which token should I buy? e.g. "buy 0.1 SOL of BONK" or "buy $20 of WIF"');
+  if (!r.word('with', 'using')) {
+    throw new Error(`How much ${to} should I buy? e.g. "buy 0.1 SOL of ${to}" or "buy $20 of ${to}"`);
+  }
+  const paid = readAmount(r);
+  if (!paid) {
+    throw new Error(`How much should I spend on ${to}? e.g. "buy ${to} with 0.1 SOL"`);
+  }
+  const { amount: spend, token: from } = paid.kind === 'usd'
+    ? { amount: paid, token: readToken(r) || (to === 'USDC' ? 'SOL' : 'USDC') }
+    : subject(r, paid, previous, `What should I pay for ${to} with? e.g. "buy ${to} with 0.1 SOL"`);
+  return swap(from, to, spend);
+}
+
+// Longest contact name, in words
+const MAX_CONTACT_WORDS = 3;
+
+/**
+ * The contact named by the words at `offset`: the longest full name that matches,
+ * else a first name ("alice" for "Alice Smith") that only one contact has.
+ * Fails when a first name belongs to several contacts.
+ */
+function matchContact(r: Reader, contacts: IntentContact[], offset: number = 0): { contact: IntentContact; words: number } | null {
+  const words: string[] = [];
+  while (words.length < MAX_CONTACT_WORDS && r.peek(offset + words.length)?.kind === 'word') {
+    words.push((r.peek(offset + words.length) as { lower: string }).lower);
+  }
+  if (words.length === 0 || contacts.length === 0) return null;
+
+  for (let n = words.length; n > 0; n--) {
+    const phrase = words.slice(0, n).join(' ');
+    const exact = contacts.find(c => c.name.toLowerCase() === phrase);
+    if (exact) return { contact: exact, words: n };
+  }
+  const partial = contacts.filter(c => c.name.toLowerCase().split(' ')[0] === words[0]);
+  if (partial.length > 1) {
+    const names = partial.map(c => c.name);
+    throw new Error(`"${words[0]}" could be ${names.slice(0, -1).join(', ')} or ${names[names.length - 1]}; use the full name or the address`);
+  }
+  return partial.length === 1 ? { contact: partial[0], words: 1 } : null;
+}
+
+/**
+ * "send 0.5 SOL to <address>", "send 0.2 SOL to alice", "send it to <address>",
+ * "pay <address> 5 USDC", "send 5 to alice" (in alice's default token)
+ */
+function sendClause(r: Reader, previous: string | null, contacts: IntentContact[]): IntentAction {
+  const readRecipient = (): { address: string; contact?: IntentContact } | null => {
+    const next = r.peek();
+    if (next?.kind === 'address') {
+      r.next();
+      return { address: next.text };
+    }
+    const match = matchContact(r, contacts);
+    if (!match) return null;
+    for (let i = 0; i < match.words; i++) r.next();
+    return { address: match.contact.address, contact: match.contact };
+  };
+  const recipientAt = (offset: number) => r.peek(offset)?.kind === 'address' || !!matchContact(r, contacts, offset);
+  const expectRecipient = () => {
+    const recipient = readRecipient();
+    if (recipient) return recipient;
+    const next = r.peek();
+    throw new Error(next?.kind === 'word' ? `"${next.text}" isn't a Solana address or one of your contacts` : 'The recipient must be a Solana address or a contact');
+  };
+
+  // The recipient may come first ("pay <address> 5 USDC", "pay alice 5 USDC")
+  let to = recipientAt(0) || (recipientAt(1) && r.word('to')) ? readRecipient() : null;
+  const read = readAmount(r);
+  const sized = read?.kind === 'absolute' || read?.kind === 'usd';
+  // A sized amount with no token is in the contact's default token ("send 5 to alice")
+  if (sized && !to && !readableToken(r) && r.word('to')) {
+    to = expectRecipient();
+  }
+  const implied = sized && !readableToken(r) ? to?.contact?.defaultToken : undefined;
+  const { amount, token } = implied
+    ? { amount: read, token: implied }
+    : subject(r, read, previous, to?.contact
+      ? `Which token should I send to ${to.contact.name}? e.g. "send 0.5 SOL to ${to.contact.name}"`
+      : 'Which token should I send? e.g. "send 0.5 SOL to <address>"');
+  if (!to) {
+    if (!r.word('to')) {
+      throw new Error(`Who should I send the ${token} to? e.g. "send 0.5 ${token} to <address>"`);
+    }
+    to = expectRecipient();
+  }
+  if (!amount) {
+    throw new Error(`How much ${token} should I send? e.g. "send 0.5 ${token} to ${to.contact?.name || `${to.address.slice(0, 8)}...`}"`);
+  }
+  const action: IntentAction = { type: 'transfer', token: tradable(token), to: to.address, amount: toIntentAmount(amount, token) };
+  return to.contact ? { ...action, contact: to.contact.name } : action;
+}
+
+// Words a contact can't be called, since the grammar reads them as something else
+const RESERVED_NAMES = new Set([
+  ...Object.keys(VERBS), ...FILLER, ...CONNECTORS, ...KEYWORDS, ...ALL_WORDS, ...PRONOUNS, ...USD_WORDS,
+  ...Object.keys(FRACTIONS), 'a', 'one', 'percent', 'jito', 'me', 'balance', 'unstake',
+]);
+
+/**
+ * Why `name` can't be a contact name (it must read back as the same words), or null
+ */
+export function contactNameProblem(name: string): string | null {
+  if (!/^[A-Za-z][A-Za-z0-9']*( [A-Za-z][A-Za-z0-9']*){0,2}$/.test(name) || name.length > 24) {
+    return `name must be 1-${MAX_CONTACT_WORDS} words of letters, digits and apostrophes (24 characters at most), starting with a letter`;
+  }
+  for (const word of name.toLowerCase().split(' ')) {
+    if (RESERVED_NAMES.has(word)) return `"${word}" can't be part of a name`;
+    if (getToken(word)) return `"${word}" is a token`;
+  }
+  if (getToken(name)) return `"${name}" is a token`;
+  return null;
+}
+
+function stakeClause(r: Reader, previous: string | null): IntentAction {
+  const read = readAmount(r);
+  // SOL is implied: "stake 2" stakes 2 SOL
+  const { amount, token } = readableToken(r) || read?.kind === 'previous' || (read?.kind === 'percent' && read.ofPrevious) || (read?.kind === 'all' && previous)
+    ? subject(r, read, previous, '')
+    : { amount: read, token: 'SOL' };
+  if (token !== 'SOL') {
+    throw new Error(`Only SOL can be staked (into ${STAKED_SOL}), not ${token}`);
+  }
+  // "stake 1 SOL with Jito" / "... into JitoSOL"
+  if (r.word('with', 'on', 'via', 'into', 'for', 'to') && !r.word('jito') && readToken(r) !== STAKED_SOL) {
+    throw new Error(`SOL is staked into ${STAKED_SOL}; other staking options aren't supported`);
+  }
+  if (!amount) {
+    throw new Error('How much SOL should I stake? e.g. "stake 1 SOL" or "stake half my SOL"');
+  }
+  return { type: 'stake', token, amount: toIntentAmount(amount, token) };
+}
+
+/**
+ * Token an action leaves behind for the next clause's "it"
+ */
+function outputOf(action: IntentAction): string | null {
+  if (action.type === 'swap') return action.to;
+  if (action.type === 'stake') return STAKED_SOL;
+  return null;
+}
+
+/**
+ * Parse a bankr prompt into actions, or an error explaining what is missing.
+ * `contacts` are the recipients that may be named instead of an address.
+ * Prompts without a trading verb, questions like "should I buy BONK?" and advice that
+ * doesn't read as a trade are balance checks.
+ */
+export function parseBankrIntent(prompt: string, options: { contacts?: IntentContact[] } = {}): IntentParse {
+  const clauses = splitClauses(lex(prompt));
+  if (clauses.length === 0 || ADVICE_QUESTION.test(prompt)) {
+    return { actions: [{ type: 'balance' }] };
+  }
+
+  try {
+
+    const actions: IntentAction[] = [];
+    let previous: string | null = null;
+    for (const clause of clauses) {
+      const r = reader(clause.lexemes.slice(1));
+      let action: IntentAction;
+      switch (clause.verb) {
+        case 'swap': action = swapClause(r, previous); break;
+        case 'sell': action = sellClause(r, previous); break;
+        case 'buy': action = buyClause(r, previous); break;
+        case 'send': action = sendClause(r, previous, options.contacts || []); break;
+        case 'stake': action = stakeClause(r, previous); break;
+        case 'unstake': throw new Error(`Unstaking isn't supported; sell your ${STAKED_SOL} for SOL instead`);
+      }
+      if (!r.done()) {
+        const rest = r.rest();
+        const text = prompt.slice(clause.lexemes[0].start, clause.lexemes[clause.lexemes.length - 1].end);
+        throw new Error(`Couldn't read "${prompt.slice(rest[0].start, rest[rest.length - 1].end)}" in "${text}"`);
+      }
+      actions.push(action);
+      previous = outputOf(action);
+    }
+    return { actions };
+  } catch (error: any) {
+    if (ADVICE.test(prompt)) {
+      return { actions: [{ type: 'balance' }] };
+    }
+    return { actions: [], error: error.message };
+  }
+}
+
+/**
+ * Human-readable amount of `token`, e.g. "half your SOL" or "$20 of USDC"
+ */
+export function describeAmount(amount: IntentAmount, token: string): string {
+  switch (amount.kind) {
+    case 'absolute': return `${amount.value} ${amount.token}`;
+    case 'percent': return `${amount.percent}% of ${amount.source === 'previous' ? `the ${token} from the previous step` : `your ${token}`}`;
+    case 'usd': return `$${amount.usd} of ${token}`;
+    case 'all': return amount.source === 'previous' ? `the ${token} from the previous step` : `all your ${token}`;
+  }
+}
+
+export default {
+  parseBankrIntent,
+  describeAmount,
+};
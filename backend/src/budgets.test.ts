@@ -0,0 +1,214 @@
+import { afterEach, describe, expect, it, jest } from '@jest/globals';
+import { checkBudget, getBudgetLimits, getBudgetStatus, recordSpend, releaseBudget, setBudgetLimits, validateBudgetLimits } from './budgets';
+import { dispatch, getTask } from './dispatcher';
+import { registerSpecialist } from './specialists/registry';
+import { createPaymentRecord } from './x402';
+import { Task } from './types';
+
+let userCount = 0;
+const newUser = () => `budget-user-${++userCount}`;
+
+describe('checkBudget', () => {
+  it('allows anything without limits', () => {
+    expect(checkBudget(newUser(), 'magos', 100)).toEqual({ allowed: true });
+  });
+
+  it('enforces the daily, monthly and per-specialist caps against the ledger', () => {
+    const userId = newUser();
+    setBudgetLimits(userId, { daily: 1, monthly: 2, perSpecialist: { magos: 0.5 } });
+    recordSpend(userId, 'task-1', 'magos', 0.4);
+
+    expect(checkBudget(userId, 'magos', 0.1).allowed).toBe(true);
+    expect(checkBudget(userId, 'magos', 0.2)).toMatchObject({ allowed: false, reason: expect.stringMatching(/^Daily limit for magos reached/) });
+    expect(checkBudget(userId, 'aura', 0.6).allowed).toBe(true);
+    expect(checkBudget(userId, 'aura', 0.7)).toMatchObject({ allowed: false, reason: expect.stringMatching(/^Daily budget reached/) });
+
+    setBudgetLimits(userId, { daily: null, monthly: 0.5 });
+    expect(checkBudget(userId, 'aura', 0.2)).toMatchObject({ allowed: false, reason: expect.stringMatching(/^Monthly budget reached/) });
+  });
+
+  it('caps a task at the lower of perTask and maxPayment', () => {
+    const userId = newUser();
+    setBudgetLimits(userId, { perTask: 1 });
+
+    expect(checkBudget(userId, 'magos', 0.5, 0.4).allowed).toBe(true);
+    expect(checkBudget(userId, 'magos', 0.5, 0.4, 0.8)).toMatchObject({ allowed: false, reason: expect.stringMatching(/^Task limit reached/) });
+  });
+
+  it('counts reservations against the caps until they are released', () => {
+    const userId = newUser();
+    setBudgetLimits(userId, { daily: 0.15 });
+
+    const first = checkBudget(userId, 'magos', 0.1, 0, undefined, 'task-1');
+    expect(first).toMatchObject({ allowed: true, reservationId: expect.stringMatching(/^res_/) });
+    expect(checkBudget(userId, 'aura', 0.1, 0, undefined, 'task-2').allowed).toBe(false);
+
+    releaseBudget(first.reservationId!);
+    expect(checkBudget(userId, 'aura', 0.1, 0, undefined, 'task-2').allowed).toBe(true);
+  });
+
+  it('counts a task\'s own reservations against its per-task cap', () => {
+    const userId = newUser();
+
+    expect(checkBudget(userId, 'magos', 0.1, 0, 0.15, 'task-1').allowed).toBe(true);
+    expect(checkBudget(userId, 'aura', 0.1, 0, 0.15, 'task-1')).toMatchObject({ allowed: false, reason: expect.stringMatching(/^Task limit reached/) });
+    expect(checkBudget(userId, 'aura', 0.1, 0, 0.15, 'task-2').allowed).toBe(true);
+  });
+
+  it('settles a reservation into the ledger when the hop is paid', () => {
+    const userId = newUser();
+    setBudgetLimits(userId, { daily: 0.15 });
+
+    const check = checkBudget(userId, 'magos', 0.1, 0, undefined, 'task-1');
+    recordSpend(userId, 'task-1', 'magos', 0.08, check.reservationId);
+
+    expect(getBudgetStatus(userId).spent.today).toBe(0.08);
+    expect(checkBudget(userId, 'aura', 0.07).allowed).toBe(true);
+    expect(checkBudget(userId, 'aura', 0.08).allowed).toBe(false);
+  });
+});
+
+describe('budget windows', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('starts a new day and month at UTC midnight', () => {
+    const userId = newUser();
+    setBudgetLimits(userId, { daily: 0.5, monthly: 0.8, perSpecialist: { magos: 0.3 } });
+
+    jest.useFakeTimers({ now: Date.UTC(2026, 2, 31, 23, 0) });
+    recordSpend(userId, 'task-1', 'magos', 0.3);
+    expect(checkBudget(userId, 'magos', 0.1).allowed).toBe(false);
+
+    jest.setSystemTime(Date.UTC(2026, 3, 1, 0, 0));
+    expect(getBudgetStatus(userId).spent).toEqual({ today: 0, month: 0, perSpecialist: {} });
+    expect(checkBudget(userId, 'magos', 0.3).allowed).toBe(true);
+
+    recordSpend(userId, 'task-2', 'aura', 0.4);
+    jest.setSystemTime(Date.UTC(2026, 3, 2, 12, 0));
+    expect(getBudgetStatus(userId).spent).toEqual({ today: 0, month: 0.4, perSpecialist: {} });
+    expect(checkBudget(userId, 'aura', 0.5)).toMatchObject({ allowed: false, reason: expect.stringMatching(/^Monthly budget reached/) });
+  });
+
+  it('stops counting a reservation left behind for an hour', () => {
+    const userId = newUser();
+    setBudgetLimits(userId, { daily: 0.15 });
+
+    jest.useFakeTimers({ now: Date.UTC(2026, 5, 1, 8, 0) });
+    checkBudget(userId, 'magos', 0.1, 0, undefined, 'task-1');
+    jest.advanceTimersByTime(59 * 60 * 1000);
+    expect(checkBudget(userId, 'aura', 0.1).allowed).toBe(false);
+
+    jest.advanceTimersByTime(2 * 60 * 1000);
+    expect(checkBudget(userId, 'aura', 0.1).allowed).toBe(true);
+  });
+});
+
+describe('budget limits', () => {
+  afterEach(() => {
+    delete process.env.BUDGET_DAILY_USDC;
+  });
+
+  it('validates updates', () => {
+    expect(validateBudgetLimits({ daily: 1, monthly: null, perSpecialist: { magos: 0 } })).toEqual([]);
+    expect(validateBudgetLimits({ daily: -1, perTask: 'lots', perSpecialist: { magos: Infinity } })).toEqual([
+      'daily must be a non-negative number or null',
+      'perTask must be a non-negative number or null',
+      'perSpecialist.magos must be a non-negative number',
+    ]);
+    expect(validateBudgetLimits({ perSpecialist: [1] })).toEqual(['perSpecialist must be an object of specialist id -> amount']);
+    expect(validateBudgetLimits(null)).toEqual(['Budget must be an object']);
+  });
+
+  it('falls back to the default per field, and null restores it', () => {
+    process.env.BUDGET_DAILY_USDC = '5';
+    const userId = newUser();
+    expect(getBudgetLimits(userId).daily).toBe(5);
+
+    setBudgetLimits(userId, { daily: 1, perTask: 0.5 });
+    expect(getBudgetLimits(userId)).toMatchObject({ daily: 1, perTask: 0.5 });
+
+    setBudgetLimits(userId, { daily: null });
+    expect(getBudgetLimits(userId)).toMatchObject({ daily: 5, perTask: 0.5 });
+  });
+
+  it('reports what is left of each cap', () => {
+    const userId = newUser();
+    setBudgetLimits(userId, { daily: 1, perSpecialist: { magos: 0.25, aura: 0.1 } });
+    recordSpend(userId, 'task-1', 'magos', 0.2);
+    recordSpend(userId, 'task-1', 'aura', 0.3);
+
+    expect(getBudgetStatus(userId)).toMatchObject({
+      spent: { today: 0.5, month: 0.5, perSpecialist: { magos: 0.2, aura: 0.3 } },
+      remaining: { daily: 0.5, monthly: null, perTask: null, perSpecialist: { magos: 0.05, aura: 0 } },
+    });
+  });
+});
+
+describe('dispatcher budget enforcement', () => {
+  // Paid test specialist: takes a moment, then reports the fee it was paid over x402
+  registerSpecialist({
+    id: 'budgetprobe',
+    name: 'Budget Probe',
+    description: 'Test specialist with a fee',
+    capabilities: [],
+    fee: 0.1,
+    builtIn: false,
+    handler: {
+      async handle(prompt) {
+        await new Promise(resolve => setTimeout(resolve, 50));
+        return {
+          success: true,
+          data: { summary: `probed ${prompt}` },
+          timestamp: new Date(),
+          executionTimeMs: 50,
+          payment: createPaymentRecord('0.1', 'USDC', 'solana', 'budgetprobe', 'sig'),
+        };
+      },
+    },
+  });
+
+  async function finished(taskId: string): Promise<Task> {
+    for (let i = 0; i < 100; i++) {
+      const task = getTask(taskId);
+      if (task && ['completed', 'failed', 'budget_exceeded', 'timed_out', 'cancelled'].includes(task.status)) return task;
+      await new Promise(resolve => setTimeout(resolve, 50));
+    }
+    throw new Error(`Task ${taskId} did not finish`);
+  }
+
+  it('stops parallel workflow nodes whose combined fees exceed the cap', async () => {
+    const userId = newUser();
+    setBudgetLimits(userId, { perTask: 0.15 });
+
+    const { taskId } = await dispatch({
+      prompt: 'probe',
+      userId,
+      workflow: {
+        nodes: [
+          { id: 'a', specialist: 'budgetprobe', prompt: '{{prompt}} a' },
+          { id: 'b', specialist: 'budgetprobe', prompt: '{{prompt}} b' },
+        ],
+      },
+    });
+    const task = await finished(taskId);
+
+    expect(task.status).toBe('budget_exceeded');
+    expect(task.payments).toHaveLength(1);
+    expect(getBudgetStatus(userId).spent.today).toBe(0.1);
+  });
+
+  it('stops concurrent tasks whose combined fees exceed the daily budget', async () => {
+    const userId = newUser();
+    setBudgetLimits(userId, { daily: 0.15 });
+
+    const dispatched = await Promise.all(['one', 'two'].map(prompt =>
+      dispatch({ prompt, userId, preferredSpecialist: 'budgetprobe' })
+    ));
+    const tasks = await Promise.all(dispatched.map(d => finished(d.taskId)));
+
+    expect(tasks.map(t => t.status).sort()).toEqual(['budget_exceeded', 'completed']);
+    expect(getBudgetStatus(userId).spent.today).toBe(0.1);
+  });
+});
@@ -0,0 +1,313 @@
+/**
+ * Spending Budgets - Per-user caps on specialist fees
+ *
+ * Each user may set daily and monthly caps, a per-task maximum and per-specialist
+ * daily limits (all in USDC). The dispatcher checks the budget before every hop,
+ * reserving the fee so concurrent hops can't all pass the same check, and records
+ * what was actually paid in the spend ledger when the reservation is settled.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { getStorage } from './storage';
+
+export interface BudgetLimits {
+  daily?: number;                         // Max USDC per UTC day
+  monthly?: number;                       // Max USDC per UTC month
+  perTask?: number;                       // Max USDC for a single task (all hops)
+  perSpecialist?: Record<string, number>; // Max USDC per UTC day for one specialist
+}
+
+export interface BudgetCheck {
+  allowed: boolean;
+  reason?: string;
+  reservationId?: string;   // Held until settled by recordSpend or released
+}
+
+/**
+ * A fee set aside for a hop in flight, counted as spent until it is settled or released
+ */
+interface BudgetReservation {
+  userId: string;
+  taskId: string;
+  specialist: string;
+  amount: number;
+  timestamp: number;
+}
+
+export interface BudgetStatus {
+  userId: string;
+  limits: BudgetLimits;
+  spent: {
+    today: number;
+    month: number;
+    perSpecialist: Record<string, number>;  // Today
+  };
+  remaining: {
+    daily: number | null;                   // null = no cap
+    monthly: number | null;
+    perTask: number | null;
+    perSpecialist: Record<string, number>;
+  };
+}
+
+const LIMITS_KEY = 'budget-limits';
+const RESERVATIONS_KEY = 'budget-reservations';
+
+// Reservations left behind by a crash stop counting after this long
+const RESERVATION_TTL_MS = 60 * 60 * 1000;
+
+// Ledger entries older than this are dropped (longest window is a calendar month)
+const LEDGER_RETENTION_MS = 62 * 24 * 60 * 60 * 1000;
+
+/**
+ * Per-user limits saved in storage
+ */
+function loadLimits(): Record<string, BudgetLimits> {
+  return getStorage().getDocument<Record<string, BudgetLimits>>(LIMITS_KEY) || {};
+}
+
+/**
+ * Default limits for users without their own budget (BUDGET_DAILY_USDC, etc.)
+ */
+function defaultLimits(): BudgetLimits {
+  const parse = (value?: string) => (value && !isNaN(parseFloat(value)) ? parseFloat(value) : undefined);
+  return {
+    daily: parse(process.env.BUDGET_DAILY_USDC),
+    monthly: parse(process.env.BUDGET_MONTHLY_USDC),
+    perTask: parse(process.env.BUDGET_PER_TASK_USDC),
+  };
+}
+
+function startOfDay(now: Date): number {
+  return Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+}
+
+function startOfMonth(now: Date): number {
+  return Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1);
+}
+
+function round(amount: number): number {
+  return Math.round(amount * 1_000_000) / 1_000_000;
+}
+
+/**
+ * Effective limits for a user (their own budget, falling back to the defaults per field)
+ */
+export function getBudgetLimits(userId: string): BudgetLimits {
+  return { ...defaultLimits(), ...loadLimits()[userId] };
+}
+
+/**
+ * Validate a budget update, returning a list of problems (empty if valid)
+ */
+export function validateBudgetLimits(limits: any): string[] {
+  const errors: string[] = [];
+  if (!limits || typeof limits !== 'object') {
+    return ['Budget must be an object'];
+  }
+
+  const isAmount = (value: any) => typeof value === 'number' && isFinite(value) && value >= 0;
+  for (const field of ['daily', 'monthly', 'perTask']) {
+    if (limits[field] !== undefined && limits[field] !== null && !isAmount(limits[field])) {
+      errors.push(`${field} must be a non-negative number or null`);
+    }
+  }
+
+  if (limits.perSpecialist !== undefined && limits.perSpecialist !== null) {
+    if (typeof limits.perSpecialist !== 'object' || Array.isArray(limits.perSpecialist)) {
+      errors.push('perSpecialist must be an object of specialist id -> amount');
+    } else {
+      for (const [id, value] of Object.entries(limits.perSpecialist)) {
+        if (!isAmount(value)) errors.push(`perSpecialist.${id} must be a non-negative number`);
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Set a user's budget. Fields set to null are removed (falling back to the default).
+ */
+export function setBudgetLimits(userId: string, update: Record<string, any>): BudgetLimits {
+  const allLimits = loadLimits();
+  const limits: BudgetLimits = { ...allLimits[userId] };
+  for (const field of ['daily', 'monthly', 'perTask', 'perSpecialist'] as const) {
+    if (update[field] === null) {
+      delete limits[field];
+    } else if (update[field] !== undefined) {
+      (limits as any)[field] = update[field];
+    }
+  }
+  allLimits[userId] = limits;
+  getStorage().setDocument(LIMITS_KEY, allLimits);
+  console.log(`[Budgets] Updated budget for ${userId.slice(0, 8)}...`);
+  return getBudgetLimits(userId);
+}
+
+/**
+ * Reservations that have not expired, keyed by id
+ */
+function loadReservations(): Record<string, BudgetReservation> {
+  const all = getStorage().getDocument<Record<string, BudgetReservation>>(RESERVATIONS_KEY) || {};
+  const cutoff = Date.now() - RESERVATION_TTL_MS;
+  return Object.fromEntries(Object.entries(all).filter(([, r]) => r.timestamp >= cutoff));
+}
+
+/**
+ * Amounts a user has spent today, this month and per specialist today,
+ * plus `reserved` fees of hops still in flight
+ */
+function getSpent(
+  userId: string,
+  now: Date = new Date(),
+  reserved: BudgetReservation[] = []
+): BudgetStatus['spent'] {
+  const dayStart = startOfDay(now);
+  const monthStart = startOfMonth(now);
+  const spent = { today: 0, month: 0, perSpecialist: {} as Record<string, number> };
+
+  for (const entry of [...getStorage().listSpend(userId, monthStart), ...reserved]) {
+    spent.month += entry.amount;
+    if (entry.timestamp >= dayStart) {
+      spent.today += entry.amount;
+      spent.perSpecialist[entry.specialist] = (spent.perSpecialist[entry.specialist] || 0) + entry.amount;
+    }
+  }
+
+  spent.today = round(spent.today);
+  spent.month = round(spent.month);
+  for (const id of Object.keys(spent.perSpecialist)) {
+    spent.perSpecialist[id] = round(spent.perSpecialist[id]);
+  }
+  return spent;
+}
+
+/**
+ * Check whether a user may spend `amount` on a specialist hop.
+ * `taskSpent` is what the task has already paid; `maxPayment` is the request's own per-task cap.
+ * With a `taskId`, an allowed amount is reserved in the same transaction as the check
+ * and counted against every cap until it is settled (recordSpend) or released.
+ */
+export function checkBudget(
+  userId: string,
+  specialist: string,
+  amount: number,
+  taskSpent: number = 0,
+  maxPayment?: number,
+  taskId?: string
+): BudgetCheck {
+  if (amount <= 0) return { allowed: true };
+
+  const storage = getStorage();
+  return storage.transaction(() => {
+    const reservations = loadReservations();
+    const reserved = Object.values(reservations).filter(r => r.userId === userId);
+    const check = evaluateBudget(userId, specialist, amount, taskSpent, maxPayment, reserved, taskId);
+    if (!check.allowed || !taskId) return check;
+
+    const reservationId = `res_${uuidv4()}`;
+    reservations[reservationId] = { userId, taskId, specialist, amount, timestamp: Date.now() };
+    storage.setDocument(RESERVATIONS_KEY, reservations);
+    return { allowed: true, reservationId };
+  });
+}
+
+function evaluateBudget(
+  userId: string,
+  specialist: string,
+  amount: number,
+  taskSpent: number,
+  maxPayment: number | undefined,
+  reserved: BudgetReservation[],
+  taskId?: string
+): BudgetCheck {
+  const limits = getBudgetLimits(userId);
+  const spent = getSpent(userId, new Date(), reserved);
+  taskSpent += reserved.filter(r => r.taskId === taskId).reduce((sum, r) => sum + r.amount, 0);
+
+  const taskCaps = [limits.perTask, maxPayment].filter((cap): cap is number => typeof cap === 'number');
+  if (taskCaps.length > 0) {
+    const taskCap = Math.min(...taskCaps);
+    if (round(taskSpent + amount) > taskCap) {
+      return { allowed: false, reason: `Task limit reached: ${round(taskSpent)} + ${amount} USDC exceeds ${taskCap} USDC per task` };
+    }
+  }
+
+  if (limits.daily !== undefined && round(spent.today + amount) > limits.daily) {
+    return { allowed: false, reason: `Daily budget reached: ${spent.today} + ${amount} USDC exceeds ${limits.daily} USDC` };
+  }
+
+  if (limits.monthly !== undefined && round(spent.month + amount) > limits.monthly) {
+    return { allowed: false, reason: `Monthly budget reached: ${spent.month} + ${amount} USDC exceeds ${limits.monthly} USDC` };
+  }
+
+  const specialistLimit = limits.perSpecialist?.[specialist];
+  const specialistSpent = spent.perSpecialist[specialist] || 0;
+  if (specialistLimit !== undefined && round(specialistSpent + amount) > specialistLimit) {
+    return { allowed: false, reason: `Daily limit for ${specialist} reached: ${specialistSpent} + ${amount} USDC exceeds ${specialistLimit} USDC` };
+  }
+
+  return { allowed: true };
+}
+
+/**
+ * Record a completed payment against a user's budget, settling the hop's reservation
+ */
+export function recordSpend(userId: string, taskId: string, specialist: string, amount: number, reservationId?: string): void {
+  const storage = getStorage();
+  storage.transaction(() => {
+    if (reservationId) releaseBudget(reservationId);
+    if (!(amount > 0)) return;
+    storage.pruneSpend(Date.now() - LEDGER_RETENTION_MS);
+    storage.addSpend({ userId, taskId, specialist, amount, timestamp: Date.now() });
+  });
+}
+
+/**
+ * Drop a reservation whose hop failed or was never paid (no-op once settled)
+ */
+export function releaseBudget(reservationId: string): void {
+  const storage = getStorage();
+  storage.transaction(() => {
+    const reservations = loadReservations();
+    if (!(reservationId in reservations)) return;
+    delete reservations[reservationId];
+    storage.setDocument(RESERVATIONS_KEY, reservations);
+  });
+}
+
+/**
+ * Limits, spend and remaining allowance for a user
+ */
+export function getBudgetStatus(userId: string): BudgetStatus {
+  const limits = getBudgetLimits(userId);
+  const spent = getSpent(userId);
+
+  const remainingPerSpecialist: Record<string, number> = {};
+  for (const [id, limit] of Object.entries(limits.perSpecialist || {})) {
+    remainingPerSpecialist[id] = Math.max(0, round(limit - (spent.perSpecialist[id] || 0)));
+  }
+
+  return {
+    userId,
+    limits,
+    spent,
+    remaining: {
+      daily: limits.daily !== undefined ? Math.max(0, round(limits.daily - spent.today)) : null,
+      monthly: limits.monthly !== undefined ? Math.max(0, round(limits.monthly - spent.month)) : null,
+      perTask: limits.perTask !== undefined ? limits.perTask : null,
+      perSpecialist: remainingPerSpecialist,
+    },
+  };
+}
+
+export default {
+  checkBudget,
+  recordSpend,
+  releaseBudget,
+  getBudgetStatus,
+  getBudgetLimits,
+  setBudgetLimits,
+  validateBudgetLimits,
+};
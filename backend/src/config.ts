@@ -73,6 +73,8 @@ export const config = {
 
   // Security & Gating
   enforcePayments: process.env.ENFORCE_PAYMENTS === 'true',
+  // Demo-payer receipts move no funds, so they are only accepted when asked for (never with ENFORCE_PAYMENTS)
+  acceptDemoReceipts: process.env.X402_ACCEPT_DEMO_RECEIPTS === 'true' && process.env.ENFORCE_PAYMENTS !== 'true',
 
   // Specialist endpoints (ClawArena, MoltX, etc.)
   specialists: {
@@ -97,6 +99,56 @@ export const config = {
     ultraUrl: process.env.JUPITER_ULTRA_URL || 'https://api.jup.ag/ultra',
   },
   
+  // Max time a single specialist call may take before its hop is timed out
+  specialistTimeoutMs: parseInt(process.env.SPECIALIST_TIMEOUT_MS || '60000', 10),
+
+  // Sign-In With Solana: domain named in the signed message, session lifetime, session scopes
+  siws: {
+    domain: process.env.SIWS_DOMAIN || `localhost:${process.env.PORT || '3000'}`,
+    sessionTtlMs: parseInt(process.env.SIWS_SESSION_TTL_HOURS || '24', 10) * 60 * 60 * 1000,
+    sessionScopes: (process.env.SIWS_SESSION_SCOPES || 'dispatch,reputation-vote').split(',').map(s => s.trim()).filter(Boolean),
+  },
+
+  // Token-bucket rate limits (requests per minute; a full bucket allows a minute's worth at once)
+  rateLimits: {
+    ip: parseInt(process.env.RATE_LIMIT_IP_PER_MINUTE || '300', 10),
+    user: parseInt(process.env.RATE_LIMIT_USER_PER_MINUTE || '60', 10),
+    dispatch: parseInt(process.env.RATE_LIMIT_DISPATCH_PER_MINUTE || '10', 10),
+    specialistEndpoint: parseInt(process.env.RATE_LIMIT_SPECIALIST_ENDPOINT_PER_MINUTE || '30', 10),
+    // Upstream APIs, shared by all users
+    coingecko: parseInt(process.env.RATE_LIMIT_COINGECKO_PER_MINUTE || '30', 10),
+    brave: parseInt(process.env.RATE_LIMIT_BRAVE_PER_MINUTE || '60', 10),
+    moltx: parseInt(process.env.RATE_LIMIT_MOLTX_PER_MINUTE || '60', 10),
+  },
+
+  // Paper-trading accounts: what every user's account starts (and resets) with, e.g. "SOL:10,USDC:1000"
+  paperTrading: {
+    startingBalances: Object.fromEntries(
+      (process.env.PAPER_STARTING_BALANCES || 'SOL:10,USDC:1000')
+        .split(',')
+        .map(entry => entry.split(':').map(s => s.trim()))
+        .filter(([token, amount]) => token && !isNaN(parseFloat(amount)))
+        .map(([token, amount]) => [token.toUpperCase(), parseFloat(amount)])
+    ) as Record<string, number>,
+  },
+
+  // Conditional bankr orders: how often open orders are checked against the price feed
+  limitOrders: {
+    pollMs: parseInt(process.env.LIMIT_ORDER_POLL_MS || '30000', 10),
+  },
+
+  // How often watched wallets are polled for new transactions
+  walletWatch: {
+    pollMs: parseInt(process.env.WALLET_WATCH_POLL_MS || '15000', 10),
+  },
+
+  // Webhook delivery: attempts per event, first retry delay (doubles each time), request timeout
+  webhooks: {
+    maxAttempts: parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '6', 10),
+    retryBaseMs: parseInt(process.env.WEBHOOK_RETRY_BASE_MS || '5000', 10),
+    timeoutMs: parseInt(process.env.WEBHOOK_TIMEOUT_MS || '5000', 10),
+  },
+
   // Specialist Fees (USDC) - Higher fees to ensure on-chain settlement
   fees: {
     bankr: 0.10,
@@ -104,6 +156,10 @@ export const config = {
     seeker: 0.10,
     magos: 0.10,
     aura: 0.10,
+    alphahunter: 0.10,
+    riskbot: 0.10,
+    newsdigest: 0.10,
+    whalespy: 0.10,
     general: 0,
   },
 
@@ -114,11 +170,18 @@ export const config = {
     bankr: process.env.WALLET_BANKR || 'Bq48PaxtoWv62QHeX3WYfmHHw9E7hJp38sx5t6tugDyd',
     seeker: process.env.WALLET_SEEKER || '9vK86u6Ndf2sScb9jS6s55VnB7rN68f3T4E4E4E4E4E4',
     scribe: process.env.WALLET_SCRIBE || 'CvK86u6Ndf2sScb9jS6s55VnB7rN68f3T4E4E4E4E4E4',
+    alphahunter: process.env.WALLET_ALPHAHUNTER || process.env.WALLET_MAGOS || '7vK86u6Ndf2sScb9jS6s55VnB7rN68f3T4E4E4E4E4E4',
+    riskbot: process.env.WALLET_RISKBOT || process.env.WALLET_MAGOS || '7vK86u6Ndf2sScb9jS6s55VnB7rN68f3T4E4E4E4E4E4',
+    newsdigest: process.env.WALLET_NEWSDIGEST || process.env.WALLET_SEEKER || '9vK86u6Ndf2sScb9jS6s55VnB7rN68f3T4E4E4E4E4E4',
+    whalespy: process.env.WALLET_WHALESPY || process.env.WALLET_AURA || '8vK86u6Ndf2sScb9jS6s55VnB7rN68f3T4E4E4E4E4E4',
   } as Record<string, string>,
 
   x402: {
     facilitator: 'https://x402.org/facilitator',
     network: 'solana:EtWTRABZaYq6iMfeYKouRu166VU2xqa1',
+    // Compute budget an incoming payment may ask for; we pay its fees when co-signing
+    maxComputeUnitLimit: parseInt(process.env.X402_MAX_COMPUTE_UNIT_LIMIT || '200000', 10),
+    maxComputeUnitPrice: parseInt(process.env.X402_MAX_COMPUTE_UNIT_PRICE || '50000', 10), // micro-lamports per unit
   }
 };
 
@@ -0,0 +1,80 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+
+jest.mock('./specialists/bankr', () => ({ quoteBankrPrompt: jest.fn() }));
+
+import { BankrQuoteStep, quoteBankrPrompt } from './specialists/bankr';
+import { checkConfirmation, checkRequote, rememberRecipients, setConfirmationSettings } from './confirmations';
+
+const quote = quoteBankrPrompt as jest.MockedFunction<typeof quoteBankrPrompt>;
+
+const RECIPIENT = '9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM';
+
+const SWAP: BankrQuoteStep = {
+  type: 'swap', token: 'SOL', amount: '1', to: 'BONK',
+  estimatedOutput: '1000.000000', minOutput: '990.000000', route: 'stub', valueUsd: 150,
+};
+const TRANSFER: BankrQuoteStep = { type: 'transfer', token: 'USDC', amount: '5', to: RECIPIENT, valueUsd: 5 };
+
+let userId: string;
+let userCount = 0;
+
+beforeEach(() => {
+  userId = `confirm-user-${++userCount}`;
+  quote.mockReset();
+});
+
+describe('checkConfirmation', () => {
+  it('lets small trades to known recipients through', async () => {
+    rememberRecipients(userId, [TRANSFER]);
+    quote.mockResolvedValue([{ ...SWAP, valueUsd: 20 }, TRANSFER]);
+    expect(await checkConfirmation(userId, 'swap 1 SOL for BONK', false)).toBeNull();
+  });
+
+  it('asks about large, unpriced, automated and new-recipient trades', async () => {
+    setConfirmationSettings(userId, { thresholdUsd: 100 });
+    quote.mockResolvedValue([SWAP, { ...TRANSFER, valueUsd: undefined }]);
+
+    const check = await checkConfirmation(userId, 'prompt', true);
+    expect(check!.reasons).toEqual([
+      'Written by a workflow step, not by you',
+      'The swap of 1 SOL is worth $150.00, over your $100 threshold',
+      'No live price to value the transfer of 5 USDC',
+      `${RECIPIENT} is a new recipient`,
+    ]);
+    expect(check!.quote[0].minOutput).toBe('990.000000');
+  });
+});
+
+describe('checkRequote', () => {
+  it('accepts a quote within the slippage tolerance', async () => {
+    quote.mockResolvedValue([{ ...SWAP, estimatedOutput: '990.000000' }, TRANSFER]);
+    expect(await checkRequote(userId, 'prompt', [SWAP, TRANSFER])).toBeNull();
+  });
+
+  it('refuses a swap that now quotes below the confirmed minimum', async () => {
+    quote.mockResolvedValue([{ ...SWAP, estimatedOutput: '989.999999' }]);
+    expect(await checkRequote(userId, 'prompt', [SWAP])).toBe(
+      'The SOL → BONK swap now quotes 989.999999 BONK, below the 990.000000 you confirmed (1000.000000 less slippage)'
+    );
+  });
+
+  it('refuses a step that now spends more', async () => {
+    quote.mockResolvedValue([SWAP, { ...TRANSFER, amount: '6' }]);
+    expect(await checkRequote(userId, 'prompt', [SWAP, TRANSFER])).toBe(
+      'The transfer of USDC now spends 6 USDC, more than the 5 you confirmed'
+    );
+  });
+
+  it('refuses a trade that no longer quotes the same steps', async () => {
+    quote.mockResolvedValue([{ ...SWAP, to: 'WIF' }]);
+    expect(await checkRequote(userId, 'prompt', [SWAP])).toBe('The trade changed since you confirmed it');
+
+    quote.mockResolvedValue([]);
+    expect(await checkRequote(userId, 'prompt', [SWAP])).toBe('The trade changed since you confirmed it');
+  });
+
+  it('refuses a swap that can no longer be sized', async () => {
+    quote.mockResolvedValue([{ type: 'swap', token: 'SOL', to: 'BONK', error: 'Insufficient SOL balance' }]);
+    expect(await checkRequote(userId, 'prompt', [SWAP])).toMatch(/now spends an unknown amount of SOL/);
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * Trade Confirmations - When a bankr hop must wait for the user to confirm it
+ *
+ * Before a live bankr hop moves funds, the dispatcher quotes it and asks for
+ * confirmation if any swap or transfer is worth more than the user's threshold,
+ * sends to an address they haven't confirmed before, or was written by a
+ * workflow step rather than the user. The task waits in awaiting_confirmation.
+ * Once confirmed the trade is quoted again, and it only runs if no step spends
+ * more or gets less than the confirmed quote allowed (its output less slippage).
+ */
+
+import { getStorage } from './storage';
+import { BankrQuoteStep, quoteBankrPrompt } from './specialists/bankr';
+
+export interface ConfirmationSettings {
+  thresholdUsd?: number;       // Swaps and transfers worth more than this need confirming
+  knownAddresses?: string[];   // Recipients that don't need confirming
+}
+
+/**
+ * What the user is asked to confirm, kept on task.metadata.confirmation
+ */
+export interface ConfirmationRequest {
+  prompt: string;
+  nodeId?: string;             // Workflow node waiting on it
+  reasons: string[];
+  quote: BankrQuoteStep[];     // With each swap's estimated and minimum output
+  requestedAt: string;
+  expiresAt: string;
+}
+
+const SETTINGS_KEY = 'bankr-confirmation';
+
+// Unconfirmed trades are dropped after this long (BANKR_CONFIRM_TIMEOUT_MS)
+export const CONFIRMATION_TIMEOUT_MS = parseInt(process.env.BANKR_CONFIRM_TIMEOUT_MS || '', 10) || 10 * 60 * 1000;
+
+function loadSettings(): Record<string, ConfirmationSettings> {
+  return getStorage().getDocument<Record<string, ConfirmationSettings>>(SETTINGS_KEY) || {};
+}
+
+function saveSettings(userId: string, settings: ConfirmationSettings): void {
+  const all = loadSettings();
+  all[userId] = settings;
+  getStorage().setDocument(SETTINGS_KEY, all);
+}
+
+/**
+ * Threshold for users without their own (BANKR_CONFIRM_THRESHOLD_USD, default $100)
+ */
+function defaultThreshold(): number {
+  const value = parseFloat(process.env.BANKR_CONFIRM_THRESHOLD_USD || '');
+  return isNaN(value) ? 100 : value;
+}
+
+/**
+ * Effective settings for a user
+ */
+export function getConfirmationSettings(userId: string): Required<ConfirmationSettings> {
+  const settings = loadSettings()[userId] || {};
+  return {
+    thresholdUsd: settings.thresholdUsd ?? defaultThreshold(),
+    knownAddresses: settings.knownAddresses || [],
+  };
+}
+
+/**
+ * Validate a settings update, returning a list of problems (empty if valid)
+ */
+export function validateConfirmationSettings(update: any): string[] {
+  if (!update || typeof update !== 'object' || Array.isArray(update)) {
+    return ['Settings must be an object'];
+  }
+  const errors: string[] = [];
+  const { thresholdUsd, knownAddresses } = update;
+  if (thresholdUsd !== undefined && thresholdUsd !== null && !(typeof thresholdUsd === 'number' && isFinite(thresholdUsd) && thresholdUsd >= 0)) {
+    errors.push('thresholdUsd must be a non-negative number or null');
+  }
+  if (knownAddresses !== undefined && knownAddresses !== null) {
+    if (!Array.isArray(knownAddresses)) {
+      errors.push('knownAddresses must be an array of Solana addresses');
+    } else {
+      knownAddresses.forEach((address: any, i: number) => {
+        if (typeof address !== 'string' || !/^[1-9A-HJ-NP-Za-km-z]{32,44}$/.test(address)) {
+          errors.push(`knownAddresses[${i}] must be a Solana address`);
+        }
+      });
+    }
+  }
+  return errors;
+}
+
+/**
+ * Update a user's settings. Fields set to null are removed (falling back to the default).
+ */
+export function setConfirmationSettings(userId: string, update: Record<string, any>): Required<ConfirmationSettings> {
+  const settings: ConfirmationSettings = { ...loadSettings()[userId] };
+  if (update.thresholdUsd === null) {
+    delete settings.thresholdUsd;
+  } else if (update.thresholdUsd !== undefined) {
+    settings.thresholdUsd = update.thresholdUsd;
+  }
+  if (update.knownAddresses === null) {
+    delete settings.knownAddresses;
+  } else if (update.knownAddresses !== undefined) {
+    settings.knownAddresses = [...new Set<string>(update.knownAddresses)];
+  }
+  saveSettings(userId, settings);
+  console.log(`[Confirmations] Updated settings for ${userId.slice(0, 8)}...`);
+  return getConfirmationSettings(userId);
+}
+
+/**
+ * Trust the recipients of a trade the user confirmed, so sending to them again doesn't ask
+ */
+export function rememberRecipients(userId: string, quote: BankrQuoteStep[]): void {
+  const settings: ConfirmationSettings = { ...loadSettings()[userId] };
+  const known = new Set(settings.knownAddresses || []);
+  const before = known.size;
+  for (const step of quote) {
+    if (step.type === 'transfer') known.add(step.to);
+  }
+  if (known.size === before) return;
+  saveSettings(userId, { ...settings, knownAddresses: [...known] });
+}
+
+/**
+ * Quote a bankr prompt and decide whether it needs confirming.
+ * `automated` is set for prompts a workflow step wrote. Returns null when it can run as is.
+ */
+export async function checkConfirmation(
+  userId: string,
+  prompt: string,
+  automated: boolean
+): Promise<{ reasons: string[]; quote: BankrQuoteStep[] } | null> {
+  const quote = await quoteBankrPrompt(prompt, userId);
+  if (quote.length === 0) return null;
+
+  const { thresholdUsd, knownAddresses } = getConfirmationSettings(userId);
+  const reasons: string[] = [];
+  if (automated) {
+    reasons.push('Written by a workflow step, not by you');
+  }
+  for (const step of quote) {
+    // Steps that can't be sized fail when they run; there is nothing to confirm
+    if (step.error) continue;
+    const label = `${step.type} of ${step.amount} ${step.token}`;
+    if (step.valueUsd === undefined) {
+      reasons.push(`No live price to value the ${label}`);
+    } else if (step.valueUsd > thresholdUsd) {
+      reasons.push(`The ${label} is worth $${step.valueUsd.toFixed(2)}, over your $${thresholdUsd} threshold`);
+    }
+    if (step.type === 'transfer' && !knownAddresses.includes(step.to)) {
+      reasons.push(`${step.contact ? `${step.contact} (${step.to})` : step.to} is a new recipient`);
+    }
+  }
+  return reasons.length > 0 ? { reasons, quote } : null;
+}
+
+/**
+ * Quote a confirmed prompt again and compare it with the quote the user confirmed.
+ * Returns why the trade may no longer run, or null if it is no worse than confirmed.
+ */
+export async function checkRequote(userId: string, prompt: string, confirmed: BankrQuoteStep[]): Promise<string | null> {
+  const quote = await quoteBankrPrompt(prompt, userId);
+  if (quote.length !== confirmed.length) {
+    return 'The trade changed since you confirmed it';
+  }
+  for (let i = 0; i < quote.length; i++) {
+    const now = quote[i];
+    const then = confirmed[i];
+    if (now.type !== then.type || now.token !== then.token || now.to !== then.to) {
+      return 'The trade changed since you confirmed it';
+    }
+    const label = now.type === 'transfer' ? `The transfer of ${now.token}` : `The ${now.token} → ${now.to} ${now.type}`;
+    if (then.amount !== undefined && !(parseFloat(now.amount ?? '') <= parseFloat(then.amount))) {
+      return `${label} now spends ${now.amount ?? 'an unknown amount of'} ${now.token}, more than the ${then.amount} you confirmed`;
+    }
+    if (then.minOutput !== undefined && !(parseFloat(now.estimatedOutput ?? '') >= parseFloat(then.minOutput))) {
+      return `${label} now quotes ${now.estimatedOutput ?? 'no'} ${now.to}, below the ${then.minOutput} you confirmed (${then.estimatedOutput} less slippage)`;
+    }
+  }
+  return null;
+}
+
+export default {
+  checkConfirmation,
+  checkRequote,
+  getConfirmationSettings,
+  setConfirmationSettings,
+  validateConfirmationSettings,
+  rememberRecipients,
+};
@@ -0,0 +1,166 @@
+/**
+ * Contacts - Per-user address book for bankr transfers
+ *
+ * Users save Solana addresses under a name ("alice") with an optional label and
+ * default token, and then send to the name instead of the address. Names must
+ * read back unambiguously, so they can't be tokens or words the intent grammar uses.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { getStorage } from './storage';
+import { isSolanaAddress } from './wallet-auth';
+import { contactNameProblem, IntentContact } from './bankr-intent';
+import { getMint, normalizeSymbol } from './token-registry';
+
+export interface Contact {
+  id: string;
+  name: string;
+  address: string;
+  label?: string;           // Free text, e.g. "cold wallet"
+  defaultToken?: string;    // Sent when a prompt names no token
+  createdAt: number;
+  updatedAt: number;
+}
+
+const CONTACTS_KEY = 'contacts';
+const MAX_CONTACTS_PER_USER = 100;
+const MAX_LABEL_LENGTH = 64;
+
+function loadContacts(): Record<string, Contact[]> {
+  return getStorage().getDocument<Record<string, Contact[]>>(CONTACTS_KEY) || {};
+}
+
+/**
+ * Validate a new contact, or the fields of an update when `partial` is set
+ */
+export function validateContact(body: any, partial: boolean = false): string[] {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return ['Contact must be an object'];
+  }
+  const errors: string[] = [];
+  for (const field of Object.keys(body)) {
+    if (!['name', 'address', 'label', 'defaultToken'].includes(field)) errors.push(`Unknown field ${field}`);
+  }
+  if (body.name !== undefined || !partial) {
+    const problem = typeof body.name === 'string' ? contactNameProblem(body.name.trim()) : 'name is required';
+    if (problem) errors.push(problem);
+  }
+  if ((body.address !== undefined || !partial) && !isSolanaAddress(body.address)) {
+    errors.push('address must be a Solana address');
+  }
+  if (body.label !== undefined && body.label !== null && !(typeof body.label === 'string' && body.label.length <= MAX_LABEL_LENGTH)) {
+    errors.push(`label must be a string of at most ${MAX_LABEL_LENGTH} characters`);
+  }
+  if (body.defaultToken !== undefined && body.defaultToken !== null &&
+      !(typeof body.defaultToken === 'string' && getMint(normalizeSymbol(body.defaultToken)))) {
+    errors.push('defaultToken must be a token bankr can trade');
+  }
+  return errors;
+}
+
+/**
+ * A user's contacts, in the order they were added
+ */
+export function listContacts(userId: string): Contact[] {
+  return loadContacts()[userId] || [];
+}
+
+export function getContact(userId: string, id: string): Contact | undefined {
+  return listContacts(userId).find(c => c.id === id);
+}
+
+/**
+ * Whether another of the user's contacts already has `name` (names are case-insensitive)
+ */
+export function isContactNameTaken(userId: string, name: string, exceptId?: string): boolean {
+  const wanted = name.trim().toLowerCase();
+  return listContacts(userId).some(c => c.id !== exceptId && c.name.toLowerCase() === wanted);
+}
+
+/**
+ * Save a contact. Returns null if the user already has the maximum number of contacts.
+ */
+export function createContact(
+  userId: string,
+  options: { name: string; address: string; label?: string; defaultToken?: string }
+): Contact | null {
+  const all = loadContacts();
+  const mine = all[userId] || [];
+  if (mine.length >= MAX_CONTACTS_PER_USER) return null;
+
+  const now = Date.now();
+  const contact: Contact = {
+    id: `ct_${uuidv4()}`,
+    name: options.name.trim(),
+    address: options.address,
+    label: options.label || undefined,
+    defaultToken: options.defaultToken ? normalizeSymbol(options.defaultToken) : undefined,
+    createdAt: now,
+    updatedAt: now,
+  };
+  all[userId] = [...mine, contact];
+  getStorage().setDocument(CONTACTS_KEY, all);
+  console.log(`[Contacts] ${userId.slice(0, 8)}... saved ${contact.name} (${contact.address.slice(0, 8)}...)`);
+  return contact;
+}
+
+/**
+ * Change a contact's fields. label and defaultToken set to null are removed.
+ * Returns undefined if the user has no such contact.
+ */
+export function updateContact(userId: string, id: string, update: Record<string, any>): Contact | undefined {
+  const all = loadContacts();
+  const mine = all[userId] || [];
+  const existing = mine.find(c => c.id === id);
+  if (!existing) return undefined;
+
+  const contact: Contact = { ...existing, updatedAt: Date.now() };
+  if (update.name !== undefined) contact.name = update.name.trim();
+  if (update.address !== undefined) contact.address = update.address;
+  if (update.label === null) {
+    delete contact.label;
+  } else if (update.label !== undefined) {
+    contact.label = update.label;
+  }
+  if (update.defaultToken === null) {
+    delete contact.defaultToken;
+  } else if (update.defaultToken !== undefined) {
+    contact.defaultToken = normalizeSymbol(update.defaultToken);
+  }
+  all[userId] = mine.map(c => (c.id === id ? contact : c));
+  getStorage().setDocument(CONTACTS_KEY, all);
+  console.log(`[Contacts] Updated contact ${id}`);
+  return contact;
+}
+
+/**
+ * Remove a contact. Returns false if the user has no such contact.
+ */
+export function deleteContact(userId: string, id: string): boolean {
+  const all = loadContacts();
+  const mine = all[userId] || [];
+  if (!mine.some(c => c.id === id)) return false;
+
+  all[userId] = mine.filter(c => c.id !== id);
+  getStorage().setDocument(CONTACTS_KEY, all);
+  console.log(`[Contacts] Removed contact ${id}`);
+  return true;
+}
+
+/**
+ * A user's contacts as the intent parser resolves them
+ */
+export function intentContacts(userId: string): IntentContact[] {
+  return listContacts(userId).map(({ name, address, defaultToken }) => ({ name, address, defaultToken }));
+}
+
+export default {
+  listContacts,
+  getContact,
+  createContact,
+  updateContact,
+  deleteContact,
+  validateContact,
+  isContactNameTaken,
+  intentContacts,
+};
@@ -0,0 +1,174 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { BankrAction } from './types';
+
+jest.mock('./specialists/bankr', () => ({ executeJupiterSwap: jest.fn(), resolveAmount: jest.fn() }));
+
+import { executeJupiterSwap, resolveAmount } from './specialists/bankr';
+import { cancelSchedule, createSchedule, getSchedule, listSchedules, NewDcaSchedule, parseDcaCommand, pauseSchedule, resumeSchedule, validateDcaSchedule } from './dca';
+
+const swap = executeJupiterSwap as jest.MockedFunction<typeof executeJupiterSwap>;
+const resolve = resolveAmount as jest.MockedFunction<typeof resolveAmount>;
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+const MONTH = 30 * DAY;
+
+const HOURLY: NewDcaSchedule = { from: 'SOL', to: 'BONK', amount: '0.05', intervalMs: 60 * MINUTE, totalFills: 3 };
+
+let userId: string;
+let userCount = 0;
+
+beforeEach(() => {
+  jest.useFakeTimers();
+  userId = `dca-user-${++userCount}`;
+  swap.mockReset();
+  swap.mockImplementation(async (from, to, amount): Promise<BankrAction> => ({
+    type: 'swap',
+    status: 'simulated',
+    details: { estimatedOutput: '1000', route: 'stub', network: 'devnet', from, to, amount },
+  }));
+  resolve.mockReset();
+  resolve.mockImplementation(async amount => (amount.kind === 'absolute' ? amount.value : '0.5'));
+});
+
+afterEach(() => {
+  for (const schedule of listSchedules(userId, 'active')) cancelSchedule(userId, schedule.id);
+  jest.useRealTimers();
+});
+
+// Fills run in a promise chain after their timer; let it settle
+const advance = (ms: number) => jest.advanceTimersByTimeAsync(ms);
+const fillCount = (id: string) => getSchedule(userId, id)!.fills.length;
+
+describe('parseDcaCommand', () => {
+  it.each([
+    ['DCA 0.05 SOL into BONK every day for 2 weeks', { from: 'SOL', to: 'BONK', amount: '0.05', intervalMs: DAY, totalFills: 14 }],
+    ['DCA $20 into WIF weekly', { from: 'USDC', to: 'WIF', usd: 20, intervalMs: 7 * DAY, totalFills: 10 }],
+    ['recurring: swap 0.1 SOL for BONK every 6 hours, 4 times', { from: 'SOL', to: 'BONK', amount: '0.1', intervalMs: 6 * 60 * MINUTE, totalFills: 4 }],
+    ['DCA 10% of my SOL into JUP monthly', { from: 'SOL', to: 'JUP', fraction: 0.1, intervalMs: MONTH }],
+  ])('reads %p', (prompt, expected) => {
+    expect(parseDcaCommand(prompt)).toMatchObject({ action: 'create', ...expected });
+  });
+
+  it('reads management commands', () => {
+    const id = 'dca_123e4567-e89b-12d3-a456-426614174000';
+    expect(parseDcaCommand(`pause ${id}`)).toEqual({ action: 'pause', id });
+    expect(parseDcaCommand('resume my dca')).toEqual({ action: 'resume', id: undefined });
+    expect(parseDcaCommand('show my DCA schedules')).toEqual({ action: 'list', id: undefined });
+  });
+
+  it('returns errors instead of guessing', () => {
+    expect(parseDcaCommand('DCA every day')).toMatchObject({ action: 'invalid' });
+    expect(parseDcaCommand('DCA all my SOL into BONK daily')).toMatchObject({ action: 'invalid' });
+    expect(parseDcaCommand('swap 1 SOL for BONK')).toBeNull();
+  });
+});
+
+describe('validateDcaSchedule', () => {
+  it('accepts a well-formed schedule', () => {
+    expect(validateDcaSchedule(HOURLY)).toEqual([]);
+  });
+
+  it('lists every problem', () => {
+    const errors = validateDcaSchedule({ from: 'SOL', to: 'SOL', amount: '-1', intervalMs: 1000, totalFills: 0 });
+    expect(errors).toEqual([
+      'amount must be a positive number',
+      'from and to must be different tokens',
+      'interval must be at least one minute',
+      'number of fills must be between 1 and 1000',
+    ]);
+  });
+});
+
+describe('scheduling', () => {
+  it('fills right away, then once per interval until complete', async () => {
+    const schedule = createSchedule(userId, HOURLY)!;
+    await advance(0);
+    expect(fillCount(schedule.id)).toBe(1);
+
+    await advance(60 * MINUTE - 1);
+    expect(fillCount(schedule.id)).toBe(1);
+    await advance(1);
+    expect(fillCount(schedule.id)).toBe(2);
+
+    await advance(60 * MINUTE);
+    const done = getSchedule(userId, schedule.id)!;
+    expect(done.fills).toHaveLength(3);
+    expect(done.status).toBe('completed');
+    expect(done.nextRunAt).toBeUndefined();
+    expect(swap).toHaveBeenCalledTimes(3);
+    expect(swap).toHaveBeenCalledWith('SOL', 'BONK', '0.05', userId);
+
+    await advance(2 * 60 * MINUTE);
+    expect(swap).toHaveBeenCalledTimes(3);
+  });
+
+  it('waits a whole month between fills even though timers are capped', async () => {
+    const schedule = createSchedule(userId, { ...HOURLY, intervalMs: MONTH })!;
+    await advance(0);
+    expect(fillCount(schedule.id)).toBe(1);
+
+    // The first timer ends at ~24.8 days, before the fill is due
+    await advance(2 ** 31 - 1);
+    expect(fillCount(schedule.id)).toBe(1);
+    await advance(MONTH - (2 ** 31 - 1) - 1);
+    expect(fillCount(schedule.id)).toBe(1);
+
+    await advance(1);
+    expect(fillCount(schedule.id)).toBe(2);
+    expect(getSchedule(userId, schedule.id)!.nextRunAt).toBe(Date.now() + MONTH);
+  });
+
+  it('counts failed fills towards the total', async () => {
+    swap.mockImplementation(async (from, to, amount): Promise<BankrAction> => ({
+      type: 'swap',
+      status: 'failed',
+      details: { error: 'Insufficient SOL balance', from, to, amount },
+    }));
+    const schedule = createSchedule(userId, { ...HOURLY, totalFills: 1 })!;
+    await advance(0);
+
+    const done = getSchedule(userId, schedule.id)!;
+    expect(done.status).toBe('completed');
+    expect(done.fills[0]).toMatchObject({ status: 'failed', error: 'Insufficient SOL balance' });
+  });
+
+  it('sizes USD and share fills at each fill', async () => {
+    const schedule = createSchedule(userId, { ...HOURLY, amount: undefined, fraction: 0.25 })!;
+    await advance(0);
+
+    expect(resolve).toHaveBeenCalledWith({ kind: 'percent', percent: 25, source: 'balance' }, 'SOL', userId, null);
+    expect(getSchedule(userId, schedule.id)!.fills[0].amountIn).toBe('0.5');
+  });
+
+  it('stops filling while paused and picks up one interval after the last fill', async () => {
+    const schedule = createSchedule(userId, HOURLY)!;
+    await advance(0);
+    expect(pauseSchedule(userId, schedule.id)!.nextRunAt).toBeUndefined();
+
+    await advance(3 * 60 * MINUTE);
+    expect(fillCount(schedule.id)).toBe(1);
+    expect(pauseSchedule(userId, schedule.id)).toBeNull();
+
+    // Overdue when resumed, so the next fill runs right away
+    resumeSchedule(userId, schedule.id);
+    await advance(0);
+    expect(fillCount(schedule.id)).toBe(2);
+  });
+
+  it('never fills a cancelled schedule again', async () => {
+    const schedule = createSchedule(userId, HOURLY)!;
+    await advance(0);
+    expect(cancelSchedule(userId, schedule.id)!.status).toBe('cancelled');
+    expect(cancelSchedule(userId, schedule.id)).toBeNull();
+    expect(resumeSchedule(userId, schedule.id)).toBeNull();
+
+    await advance(5 * 60 * MINUTE);
+    expect(swap).toHaveBeenCalledTimes(1);
+  });
+
+  it('limits active schedules per user', () => {
+    for (let i = 0; i < 10; i++) expect(createSchedule(userId, HOURLY)).not.toBeNull();
+    expect(createSchedule(userId, HOURLY)).toBeNull();
+  });
+});
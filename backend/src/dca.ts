@@ -0,0 +1,425 @@
+/**
+ * DCA - Dollar-cost averaging schedules for bankr
+ *
+ * "DCA 0.05 SOL into BONK every day for 2 weeks" becomes a persisted schedule
+ * that swaps through Jupiter on every interval. The trade is read with the bankr
+ * intent grammar, so each fill is a fixed amount, a USD value or a share of the
+ * balance at the time; a prompt it can't read is an error. Each fill is
+ * applied to the wallet balances like any other bankr swap and recorded on the
+ * schedule. Schedules survive restarts and can be paused, resumed or cancelled.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { executeJupiterSwap, resolveAmount } from './specialists/bankr';
+import { getStorage } from './storage';
+import { parseBankrIntent, IntentAmount } from './bankr-intent';
+
+export type DcaStatus = 'active' | 'paused' | 'cancelled' | 'completed';
+
+export interface DcaFill {
+  at: number;
+  status: 'executed' | 'failed';
+  amountIn: string;
+  amountOut?: string;
+  route?: string;
+  network?: string;
+  error?: string;
+}
+
+export interface DcaSchedule {
+  id: string;
+  userId: string;
+  from: string;
+  to: string;
+  amount?: string;          // Swapped on every fill, in `from` units...
+  usd?: number;             // ...or a USD value of `from` at each fill...
+  fraction?: number;        // ...or a share of the `from` balance at each fill
+  intervalMs: number;
+  totalFills: number;
+  fills: DcaFill[];
+  status: DcaStatus;
+  nextRunAt?: number;       // Only set while active
+  prompt?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type NewDcaSchedule = Pick<DcaSchedule, 'from' | 'to' | 'amount' | 'usd' | 'fraction' | 'intervalMs' | 'totalFills'>;
+
+export type DcaCommand =
+  | ({ action: 'create' } & NewDcaSchedule)
+  | { action: 'pause' | 'resume' | 'cancel' | 'list'; id?: string }
+  | { action: 'invalid'; error: string };    // Reads like a DCA but can't be scheduled as written
+
+const SCHEDULES_KEY = 'dca-schedules';
+const MAX_ACTIVE_SCHEDULES_PER_USER = 10;
+const MIN_INTERVAL_MS = 60 * 1000;
+const MAX_FILLS = 1000;
+
+// Used when the prompt gives an interval but no duration or count
+const DEFAULT_FILLS = 10;
+
+// setTimeout cannot wait longer than ~24.8 days; longer waits are re-armed
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+const UNIT_MS: Record<string, number> = {
+  minute: 60 * 1000,
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+  month: 30 * 24 * 60 * 60 * 1000,
+};
+
+const ADVERB_UNITS: Record<string, string> = {
+  hourly: 'hour',
+  daily: 'day',
+  weekly: 'week',
+  monthly: 'month',
+};
+
+const DCA_WORDS = /\bdca\b|dollar[\s-]cost(?:[\s-]averag\w*)?|\brecurring\b|\bauto-buy\b/gi;
+// Interval and length phrases, removed before the trade is read
+const SCHEDULE_WORDS = /\bevery\s+(?:\d+\s*)?(?:minute|hour|day|week|month)s?\b|\b(?:hourly|daily|weekly|monthly)\b|\b\d+\s*(?:times|buys|fills|purchases)\b|\bfor\s+(?:\d+|an?)\s*(?:minute|hour|day|week|month)s?\b/gi;
+const TRADE_VERB = /\b(swap|trade|exchange|convert|buy|purchase|sell)\b/i;
+// "$20 into BONK" buys $20 of BONK
+const USD_INTO = /^\s*(\$\s?[\d.,]+k?|[\d.,]+\s*(?:dollars|usd|bucks))\s+(?:worth\s+)?(?:of|into|in|for)\s+/i;
+const EXAMPLE = '"DCA 0.05 SOL into BONK every day for 2 weeks" or "DCA $20 into WIF weekly"';
+
+// Schedules waiting for their next fill, and those filling right now
+const fillTimers: Map<string, NodeJS.Timeout> = new Map();
+const inFlight: Set<string> = new Set();
+
+function unitMs(unit: string): number {
+  return UNIT_MS[unit.toLowerCase().replace(/s$/, '')];
+}
+
+/**
+ * Whether a prompt is about DCA schedules
+ */
+export function isDcaPrompt(prompt: string): boolean {
+  return /\bdca(\b|_)|dollar[\s-]cost|recurring|auto-buy/i.test(prompt);
+}
+
+/**
+ * Parse a DCA prompt into a command. Returns null if it is not one.
+ * e.g. "DCA 0.05 SOL into BONK every day for 2 weeks", "pause my DCA", "cancel dca_1234..."
+ */
+export function parseDcaCommand(prompt: string): DcaCommand | null {
+  if (!isDcaPrompt(prompt)) return null;
+
+  const id = prompt.match(/\bdca_[0-9a-f-]{36}\b/i)?.[0];
+  if (/\bpause\b/i.test(prompt)) return { action: 'pause', id };
+  if (/\b(resume|unpause|restart)\b/i.test(prompt)) return { action: 'resume', id };
+  if (/\b(cancel|stop|end|delete)\b/i.test(prompt)) return { action: 'cancel', id };
+
+  let intervalMs = UNIT_MS.day;
+  const every = prompt.match(/every\s+(\d+)?\s*(minute|hour|day|week|month)s?\b/i);
+  const adverb = prompt.match(/\b(hourly|daily|weekly|monthly)\b/i);
+  if (every) {
+    intervalMs = parseInt(every[1] || '1', 10) * unitMs(every[2]);
+  } else if (adverb) {
+    intervalMs = UNIT_MS[ADVERB_UNITS[adverb[1].toLowerCase()]];
+  }
+
+  let totalFills = DEFAULT_FILLS;
+  const times = prompt.match(/(\d+)\s*(?:times|buys|fills|purchases)\b/i);
+  const duration = prompt.match(/for\s+(?:(\d+)|an?)\s*(minute|hour|day|week|month)s?\b/i);
+  if (times) {
+    totalFills = parseInt(times[1], 10);
+  } else if (duration) {
+    totalFills = Math.floor((parseInt(duration[1] || '1', 10) * unitMs(duration[2])) / intervalMs);
+  }
+
+  // The trade is what is left without the schedule words, read like any other bankr swap
+  const body = prompt.replace(SCHEDULE_WORDS, ' ');
+  if (!TRADE_VERB.test(body) && !/[\d$%]|\b(half|third|quarter|all|everything)\b/i.test(body)) {
+    if (/\b(show|list|view|see|what|which|status|my|active)\b|\bschedules?\b/i.test(body)) return { action: 'list', id };
+    return { action: 'invalid', error: `Say what to buy and how often, e.g. ${EXAMPLE}` };
+  }
+  let trade: string;
+  if (TRADE_VERB.test(body)) {
+    trade = body.replace(DCA_WORDS, ' ');
+  } else {
+    // "DCA 0.05 SOL into BONK": everything after the keyword is the swap
+    const keyword = body.match(new RegExp(DCA_WORDS.source, 'i'))!;
+    const rest = body.slice(keyword.index! + keyword[0].length).replace(DCA_WORDS, ' ');
+    trade = USD_INTO.test(rest) ? rest.replace(USD_INTO, 'buy $1 of ') : `swap ${rest}`;  // $1: the USD amount
+  }
+
+  const intent = parseBankrIntent(trade);
+  if (intent.error) return { action: 'invalid', error: intent.error };
+  const action = intent.actions[0];
+  if (intent.actions.length !== 1 || action.type !== 'swap') {
+    return { action: 'invalid', error: `A DCA schedule repeats a single buy, sell or swap, e.g. ${EXAMPLE}` };
+  }
+
+  const schedule = { from: action.from, to: action.to, intervalMs, totalFills };
+  switch (action.amount.kind) {
+    case 'absolute':
+      if (action.amount.token !== action.from) {
+        return { action: 'invalid', error: `Say how much ${action.from} to spend each time, e.g. "DCA 0.05 ${action.from} into ${action.to} daily" or "DCA $20 into ${action.to} daily"` };
+      }
+      return { action: 'create', ...schedule, amount: action.amount.value };
+    case 'usd':
+      return { action: 'create', ...schedule, usd: action.amount.usd };
+    case 'percent':
+      return { action: 'create', ...schedule, fraction: action.amount.percent / 100 };
+    case 'all':
+      return { action: 'invalid', error: `Each fill spends part of your ${action.from}; give an amount, a USD value or a percentage` };
+  }
+}
+
+/**
+ * Validate a new schedule, returning a list of problems
+ */
+export function validateDcaSchedule(options: NewDcaSchedule): string[] {
+  const errors: string[] = [];
+  if (options.amount !== undefined) {
+    const amount = parseFloat(options.amount);
+    if (!Number.isFinite(amount) || amount <= 0) errors.push('amount must be a positive number');
+  } else if (options.usd !== undefined) {
+    if (!Number.isFinite(options.usd) || options.usd <= 0) errors.push('USD amount must be a positive number');
+  } else if (options.fraction === undefined || !(options.fraction > 0 && options.fraction <= 1)) {
+    errors.push('amount, USD value or a share of the balance (0-100%) is required');
+  }
+  if (options.from === options.to) {
+    errors.push('from and to must be different tokens');
+  }
+  if (!Number.isFinite(options.intervalMs) || options.intervalMs < MIN_INTERVAL_MS) {
+    errors.push('interval must be at least one minute');
+  }
+  if (!Number.isInteger(options.totalFills) || options.totalFills < 1 || options.totalFills > MAX_FILLS) {
+    errors.push(`number of fills must be between 1 and ${MAX_FILLS}`);
+  }
+  return errors;
+}
+
+function loadSchedules(): Record<string, DcaSchedule[]> {
+  return getStorage().getDocument<Record<string, DcaSchedule[]>>(SCHEDULES_KEY) || {};
+}
+
+/**
+ * Apply `update` to a stored schedule and save it. Returns the updated schedule,
+ * or null if it does not exist or `update` returns false.
+ */
+function updateSchedule(userId: string, id: string, update: (schedule: DcaSchedule) => boolean | void): DcaSchedule | null {
+  const all = loadSchedules();
+  const schedule = (all[userId] || []).find(s => s.id === id);
+  if (!schedule || update(schedule) === false) return null;
+
+  schedule.updatedAt = Date.now();
+  getStorage().setDocument(SCHEDULES_KEY, all);
+  return schedule;
+}
+
+/**
+ * A user's schedules, newest first
+ */
+export function listSchedules(userId: string, status?: DcaStatus): DcaSchedule[] {
+  return (loadSchedules()[userId] || [])
+    .filter(s => !status || s.status === status)
+    .sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export function getSchedule(userId: string, id: string): DcaSchedule | undefined {
+  return (loadSchedules()[userId] || []).find(s => s.id === id);
+}
+
+/**
+ * Create a schedule; the first fill runs right away.
+ * Returns null if the user already has the maximum number of active schedules.
+ */
+export function createSchedule(
+  userId: string,
+  options: NewDcaSchedule & { prompt?: string }
+): DcaSchedule | null {
+  const all = loadSchedules();
+  const mine = all[userId] || [];
+  if (mine.filter(s => s.status === 'active').length >= MAX_ACTIVE_SCHEDULES_PER_USER) return null;
+
+  const now = Date.now();
+  const schedule: DcaSchedule = {
+    id: `dca_${uuidv4()}`,
+    userId,
+    from: options.from,
+    to: options.to,
+    amount: options.amount,
+    usd: options.usd,
+    fraction: options.fraction,
+    intervalMs: options.intervalMs,
+    totalFills: options.totalFills,
+    fills: [],
+    status: 'active',
+    nextRunAt: now,
+    prompt: options.prompt,
+    createdAt: now,
+    updatedAt: now,
+  };
+  all[userId] = [...mine, schedule];
+  getStorage().setDocument(SCHEDULES_KEY, all);
+  console.log(`[DCA] ${userId.slice(0, 8)}... scheduled ${schedule.totalFills}x ${schedule.from} -> ${schedule.to} (${schedule.id})`);
+
+  scheduleFill(schedule);
+  return schedule;
+}
+
+/**
+ * Pause an active schedule. Returns null if it does not exist or is not active.
+ */
+export function pauseSchedule(userId: string, id: string): DcaSchedule | null {
+  const schedule = updateSchedule(userId, id, s => {
+    if (s.status !== 'active') return false;
+    s.status = 'paused';
+    s.nextRunAt = undefined;
+  });
+  if (schedule) {
+    clearFillTimer(id);
+    console.log(`[DCA] Paused ${id}`);
+  }
+  return schedule;
+}
+
+/**
+ * Resume a paused schedule; the next fill runs one interval after the last one
+ * (or right away if that time has passed). Returns null if it is not paused.
+ */
+export function resumeSchedule(userId: string, id: string): DcaSchedule | null {
+  const schedule = updateSchedule(userId, id, s => {
+    if (s.status !== 'paused') return false;
+    const lastFill = s.fills[s.fills.length - 1];
+    s.status = 'active';
+    s.nextRunAt = Math.max(Date.now(), lastFill ? lastFill.at + s.intervalMs : 0);
+  });
+  if (schedule) {
+    scheduleFill(schedule);
+    console.log(`[DCA] Resumed ${id}`);
+  }
+  return schedule;
+}
+
+/**
+ * Cancel a schedule for good. Returns null if it is already cancelled or completed.
+ */
+export function cancelSchedule(userId: string, id: string): DcaSchedule | null {
+  const schedule = updateSchedule(userId, id, s => {
+    if (s.status === 'cancelled' || s.status === 'completed') return false;
+    s.status = 'cancelled';
+    s.nextRunAt = undefined;
+  });
+  if (schedule) {
+    clearFillTimer(id);
+    console.log(`[DCA] Cancelled ${id}`);
+  }
+  return schedule;
+}
+
+function clearFillTimer(id: string): void {
+  const timer = fillTimers.get(id);
+  if (timer) {
+    clearTimeout(timer);
+    fillTimers.delete(id);
+  }
+}
+
+function scheduleFill(schedule: DcaSchedule): void {
+  if (fillTimers.has(schedule.id) || schedule.status !== 'active') return;
+  const delay = Math.max(0, (schedule.nextRunAt || 0) - Date.now());
+  const wait = Math.min(delay, MAX_TIMER_MS);
+  const timer = setTimeout(() => {
+    fillTimers.delete(schedule.id);
+    // Re-read the stored schedule: a capped wait ends before the fill is due
+    const current = getSchedule(schedule.userId, schedule.id);
+    if (!current || current.status !== 'active') return;
+    if (Date.now() < (current.nextRunAt || 0)) {
+      scheduleFill(current);
+      return;
+    }
+    void runFill(schedule.userId, schedule.id);
+  }, wait);
+  timer.unref?.();
+  fillTimers.set(schedule.id, timer);
+}
+
+/**
+ * What one fill spends, as the intent grammar's amount of `from`
+ */
+function fillAmount(schedule: DcaSchedule): IntentAmount {
+  if (schedule.amount !== undefined) return { kind: 'absolute', value: schedule.amount, token: schedule.from };
+  if (schedule.usd !== undefined) return { kind: 'usd', usd: schedule.usd };
+  return { kind: 'percent', percent: (schedule.fraction || 0) * 100, source: 'balance' };
+}
+
+/**
+ * Swap one installment, record the fill and arm the next one.
+ * Failed fills (e.g. insufficient balance) count towards the total so a schedule always ends.
+ */
+async function runFill(userId: string, id: string): Promise<void> {
+  if (inFlight.has(id)) return;
+  const schedule = getSchedule(userId, id);
+  if (!schedule || schedule.status !== 'active') return;
+
+  inFlight.add(id);
+  let fill: DcaFill;
+  let amountIn = schedule.amount || '0';
+  try {
+    // USD values and shares are sized at each fill's prices and balance
+    amountIn = await resolveAmount(fillAmount(schedule), schedule.from, schedule.userId, null);
+    const action = await executeJupiterSwap(schedule.from, schedule.to, amountIn, schedule.userId);
+    fill = action.status === 'failed'
+      ? { at: Date.now(), status: 'failed', amountIn, error: action.details.error }
+      : {
+          at: Date.now(),
+          status: 'executed',
+          amountIn,
+          amountOut: action.details.estimatedOutput,
+          route: action.details.route,
+          network: action.details.network,
+        };
+  } catch (err: any) {
+    fill = { at: Date.now(), status: 'failed', amountIn, error: err.message };
+  } finally {
+    inFlight.delete(id);
+  }
+
+  // Paused or cancelled while the swap ran: keep the fill, don't re-arm
+  const updated = updateSchedule(userId, id, s => {
+    s.fills.push(fill);
+    if (s.fills.length >= s.totalFills) {
+      s.status = 'completed';
+    }
+    s.nextRunAt = s.status === 'active' ? fill.at + s.intervalMs : undefined;
+  });
+  if (!updated) return;
+
+  console.log(`[DCA] ${id} fill ${updated.fills.length}/${updated.totalFills} ${fill.status}${fill.error ? `: ${fill.error}` : ''}`);
+  if (updated.status === 'active') {
+    scheduleFill(updated);
+  } else if (updated.status === 'completed') {
+    console.log(`[DCA] Completed ${id}`);
+  }
+}
+
+/**
+ * Re-arm active schedules after a restart; overdue fills run right away
+ */
+export function resumeDcaSchedules(): number {
+  const active = Object.values(loadSchedules()).flat().filter(s => s.status === 'active');
+  active.forEach(scheduleFill);
+  if (active.length > 0) {
+    console.log(`[DCA] Resuming ${active.length} active schedules`);
+  }
+  return active.length;
+}
+
+export default {
+  isDcaPrompt,
+  parseDcaCommand,
+  validateDcaSchedule,
+  listSchedules,
+  getSchedule,
+  createSchedule,
+  pauseSchedule,
+  resumeSchedule,
+  cancelSchedule,
+  resumeDcaSchedules,
+};
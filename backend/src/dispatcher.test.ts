@@ -0,0 +1,150 @@
+import { describe, expect, it } from '@jest/globals';
+import { cancelTask, dispatch, getTask, isRetryable, retryTask } from './dispatcher';
+import { registerSpecialist } from './specialists/registry';
+import { SpecialistContext, Task } from './types';
+
+// Prompts each probe call saw, and whether its signal was aborted when it returned
+const calls: Array<{ prompt: string; aborted: boolean }> = [];
+const failedOnce = new Set<string>();
+
+/**
+ * Free test specialist steered by its prompt: "hang" waits until it is aborted,
+ * "fail" always fails and "flaky" fails on its first call only
+ */
+registerSpecialist({
+  id: 'probe',
+  name: 'Probe',
+  description: 'Test specialist',
+  capabilities: [],
+  fee: 0,
+  timeoutMs: 300,
+  builtIn: false,
+  handler: {
+    async handle(prompt: string, context?: SpecialistContext) {
+      const call = { prompt, aborted: false };
+      calls.push(call);
+      if (prompt.includes('hang')) {
+        await new Promise(resolve => context?.signal?.addEventListener('abort', resolve));
+        call.aborted = !!context?.signal?.aborted;
+      }
+      const fails = prompt.includes('fail') || (prompt.includes('flaky') && !failedOnce.has(prompt));
+      if (prompt.includes('flaky')) failedOnce.add(prompt);
+      return {
+        success: !fails,
+        data: fails ? { error: `probe failed on ${prompt}` } : { summary: `probed ${prompt}` },
+        timestamp: new Date(),
+        executionTimeMs: 1,
+      };
+    },
+  },
+});
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+async function until(taskId: string, statuses: Task['status'][]): Promise<Task> {
+  for (let i = 0; i < 100; i++) {
+    const task = getTask(taskId);
+    if (task && statuses.includes(task.status)) return task;
+    await sleep(25);
+  }
+  throw new Error(`Task ${taskId} never reached ${statuses.join('/')} (is ${getTask(taskId)?.status})`);
+}
+
+const finished = (taskId: string) => until(taskId, ['completed', 'failed', 'budget_exceeded', 'timed_out', 'cancelled']);
+
+let userCount = 0;
+const newUser = () => `dispatch-user-${++userCount}`;
+
+describe('cancelTask', () => {
+  it('aborts the specialist call in flight', async () => {
+    const { taskId } = await dispatch({ prompt: 'hang until cancelled', userId: newUser(), preferredSpecialist: 'probe' });
+    await until(taskId, ['processing']);
+    while (!calls.some(c => c.prompt === 'hang until cancelled')) await sleep(10);
+
+    const cancelled = cancelTask(taskId);
+    expect(cancelled!.status).toBe('cancelled');
+    await sleep(50);
+
+    const task = getTask(taskId)!;
+    expect(task.status).toBe('cancelled');
+    expect(task.result).toBeUndefined();
+    expect(calls.find(c => c.prompt === 'hang until cancelled')!.aborted).toBe(true);
+  });
+
+  it('cancels a task that has not started and leaves finished tasks alone', async () => {
+    const { taskId } = await dispatch({ prompt: 'never runs', userId: newUser(), preferredSpecialist: 'probe' });
+    expect(cancelTask(taskId)!.status).toBe('cancelled');
+    await sleep(200);
+    expect(calls.some(c => c.prompt === 'never runs')).toBe(false);
+
+    expect(cancelTask(taskId)).toBeNull();
+    expect(cancelTask('no-such-task')).toBeNull();
+  });
+});
+
+describe('specialist timeouts', () => {
+  it('times out a hop that runs past the specialist timeout', async () => {
+    const { taskId } = await dispatch({ prompt: 'hang forever', userId: newUser(), preferredSpecialist: 'probe' });
+    const task = await finished(taskId);
+
+    expect(task.status).toBe('timed_out');
+    expect(task.metadata?.error).toBe('probe timed out after 0.3s');
+    expect(calls.find(c => c.prompt === 'hang forever')!.aborted).toBe(true);
+  });
+});
+
+describe('retryTask', () => {
+  it('runs a failed task again as a new task', async () => {
+    const userId = newUser();
+    const { taskId } = await dispatch({ prompt: 'flaky single', userId, preferredSpecialist: 'probe' });
+    const failed = await finished(taskId);
+    expect(failed.status).toBe('failed');
+    expect(isRetryable(failed)).toBe(true);
+
+    const retry = retryTask(taskId, { scopes: ['dispatch'] });
+    expect(retry.id).not.toBe(taskId);
+    expect(retry.metadata).toMatchObject({ retryOf: taskId, scopes: ['dispatch'] });
+
+    const done = await finished(retry.id);
+    expect(done).toMatchObject({ status: 'completed', userId, prompt: 'flaky single' });
+  });
+
+  it('refuses tasks that completed or are unknown', async () => {
+    const { taskId } = await dispatch({ prompt: 'fine', userId: newUser(), preferredSpecialist: 'probe' });
+    await finished(taskId);
+
+    expect(() => retryTask(taskId)).toThrow('Task is completed; only failed, cancelled or timed out tasks can be retried');
+    expect(() => retryTask('no-such-task')).toThrow('Task no-such-task not found');
+  });
+
+  it('re-runs a workflow from a node, reusing the outputs upstream of it', async () => {
+    const { taskId } = await dispatch({
+      prompt: 'wf',
+      userId: newUser(),
+      workflow: {
+        nodes: [
+          { id: 'a', specialist: 'probe', prompt: '{{prompt}} a' },
+          { id: 'b', specialist: 'probe', prompt: 'flaky after {{a.summary}}', dependsOn: ['a'] },
+        ],
+      },
+    });
+    const failed = await finished(taskId);
+    expect(failed.status).toBe('failed');
+    expect(() => retryTask(taskId, { fromNode: 'c' })).toThrow('Workflow has no node "c"');
+
+    const runsOfA = calls.filter(c => c.prompt === 'wf a').length;
+    const retry = retryTask(taskId, { fromNode: 'b' });
+    const done = await finished(retry.id);
+
+    expect(done.status).toBe('completed');
+    expect(calls.filter(c => c.prompt === 'wf a')).toHaveLength(runsOfA);
+    expect(done.metadata?.workflow.nodes.a).toMatchObject({ status: 'completed', reused: true });
+    expect(done.metadata?.workflow.nodes.b.status).toBe('completed');
+  });
+
+  it('only takes fromNode for workflow tasks', async () => {
+    const { taskId } = await dispatch({ prompt: 'fail plainly', userId: newUser(), preferredSpecialist: 'probe' });
+    await finished(taskId);
+    expect(() => retryTask(taskId, { fromNode: 'a' })).toThrow('fromNode can only be used when retrying a workflow task');
+  });
+});
@@ -4,12 +4,6 @@
  */
 
 import { v4 as uuidv4 } from 'uuid';
-import * as fs from 'fs';
-import * as path from 'path';
-import * as dns from 'dns';
-import { promisify } from 'util';
-
-const lookup = promisify(dns.lookup);
 import {
   Task,
   TaskStatus,
@@ -17,133 +11,176 @@ import {
   DispatchRequest,
   DispatchResponse,
   SpecialistResult,
+  SpecialistContext,
+  SpecialistChunk,
+  TaskChunk,
+  PaymentRecord,
+  WorkflowPlan,
+  WorkflowNodeState,
+  ApiKeyScope,
 } from './types';
 import config from './config';
 import { getBalances, logTransaction, createPaymentRecord } from './x402';
 import { executeDemoPayment } from './x402-protocol';
+import { callRemoteSpecialist } from './specialists/remote';
 import { recordSuccess, recordFailure, getSuccessRate } from './reputation';
-import { planWithLLM } from './llm-planner';
-import magos from './specialists/magos';
-import aura from './specialists/aura';
-import bankr from './specialists/bankr';
-import scribe from './specialists/scribe';
-import seeker from './specialists/seeker';
-
-// Persistence settings
-const DATA_DIR = path.join(__dirname, '../data');
-const TASKS_FILE = path.join(DATA_DIR, 'tasks.json');
-
-// In-memory task store
+import { checkBudget, recordSpend, releaseBudget } from './budgets';
+import { resolveInstructions } from './instructions';
+import { hasScope } from './api-keys';
+import { queueWebhookEvent } from './webhooks';
+import { getStorage, TaskQuery } from './storage';
+import { planWithLLM, planWorkflowWithLLM } from './llm-planner';
+import {
+  NodeOutput,
+  runWorkflow,
+  downstreamNodes,
+  validateWorkflow,
+  matchWorkflowTemplate,
+  describeWorkflow,
+  workflowSpecialists,
+  initialNodeStates,
+} from './workflow';
+import { getSpecialist, hasSpecialist, listSpecialists, getSpecialistFee, getSpecialistTimeout } from './specialists/registry';
+import { findTokens } from './token-registry';
+import { ConfirmationRequest, CONFIRMATION_TIMEOUT_MS, checkConfirmation, checkRequote, rememberRecipients } from './confirmations';
+import { setTaskMessageWriter } from './task-log';
+import { internalCallHeaders } from './rate-limit';
+
+// Tasks created by this process; older tasks are read back from storage
 const tasks: Map<string, Task> = new Map();
 
+// Finished tasks stay cached briefly for late subscribers and callbacks
+const FINISHED_TASK_TTL_MS = 5 * 60 * 1000;
+const FINISHED_STATUSES: TaskStatus[] = ['completed', 'failed', 'budget_exceeded', 'cancelled', 'timed_out'];
+
+// Tasks that ended without a usable result and may be run again
+const RETRYABLE_STATUSES: TaskStatus[] = ['failed', 'budget_exceeded', 'cancelled', 'timed_out'];
+
+// Aborted to cancel a running task (and any specialist call in flight)
+const controllers: Map<string, AbortController> = new Map();
+
+type HopInterruption = 'cancelled' | 'timed_out';
+
+// Bankr hops waiting in awaiting_confirmation, by task id (settled by confirmTask)
+type ConfirmationDecision = 'approved' | 'rejected' | 'expired' | 'cancelled';
+const pendingConfirmations: Map<string, { settle: (decision: ConfirmationDecision) => void; settled: Promise<ConfirmationDecision> }> = new Map();
+
 /**
- * Load tasks from disk
+ * Persist a task
  */
-function loadTasks(): void {
+function saveTask(task: Task): void {
   try {
-    if (!fs.existsSync(DATA_DIR)) {
-      fs.mkdirSync(DATA_DIR, { recursive: true });
-    }
-    
-    if (fs.existsSync(TASKS_FILE)) {
-      const data = fs.readFileSync(TASKS_FILE, 'utf8');
-      const parsed = JSON.parse(data);
-      
-      // Convert dates back to Date objects
-      Object.values(parsed).forEach((task: any) => {
-        task.createdAt = new Date(task.createdAt);
-        task.updatedAt = new Date(task.updatedAt);
-        if (task.result?.timestamp) {
-          task.result.timestamp = new Date(task.result.timestamp);
-        }
-        task.payments?.forEach((p: any) => {
-          p.timestamp = new Date(p.timestamp);
-        });
-        tasks.set(task.id, task);
-      });
-      
-      console.log(`[Dispatcher] Loaded ${tasks.size} tasks from persistence`);
-    }
+    getStorage().saveTask(task);
   } catch (error: any) {
-    console.error(`[Dispatcher] Failed to load tasks:`, error.message);
+    console.error(`[Dispatcher] Failed to save task ${task.id}:`, error.message);
   }
 }
 
 /**
- * Save tasks to disk
+ * Drop a finished task from the cache after a grace period, saving its final state
  */
-function saveTasks(): void {
-  try {
-    const data = JSON.stringify(Object.fromEntries(tasks), null, 2);
-    fs.writeFileSync(TASKS_FILE, data, 'utf8');
-  } catch (error: any) {
-    console.error(`[Dispatcher] Failed to save tasks:`, error.message);
-  }
+function scheduleEviction(task: Task): void {
+  setTimeout(() => {
+    if (tasks.get(task.id) === task && FINISHED_STATUSES.includes(task.status)) {
+      saveTask(task);
+      tasks.delete(task.id);
+    }
+  }, FINISHED_TASK_TTL_MS).unref();
 }
 
-// Initial load
-loadTasks();
+/**
+ * Specialists that can appear as workflow nodes
+ */
+function isKnownSpecialist(specialist: string): boolean {
+  return hasSpecialist(specialist);
+}
 
-// Specialist descriptions
-const SPECIALIST_DESCRIPTIONS: Record<SpecialistType, string> = {
-  magos: 'Market analysis & predictions',
-  aura: 'Social sentiment analysis',
-  bankr: 'Wallet operations',
-  scribe: 'General assistant & fallback',
-  seeker: 'Web research & search',
-  general: 'General queries',
-  'multi-hop': 'Orchestrated multi-agent workflow',
-};
+/**
+ * Validate a caller-supplied workflow plan against the known specialists
+ */
+export function validateWorkflowPlan(plan: WorkflowPlan): string[] {
+  return validateWorkflow(plan, isKnownSpecialist);
+}
 
-// Specialist pricing information
-const SPECIALIST_PRICING: Record<SpecialistType, { fee: string; description: string }> = {
-  magos: { fee: '0.001', description: 'Market analysis & predictions' },
-  aura: { fee: '0.0005', description: 'Social sentiment analysis' },
-  bankr: { fee: '0.0001', description: 'Wallet operations' },
-  scribe: { fee: '0.0001', description: 'General assistant & fallback' },
-  seeker: { fee: '0.0001', description: 'Web research & search' },
-  general: { fee: '0', description: 'General queries' },
-  'multi-hop': { fee: '0', description: 'Orchestrated multi-agent workflow' },
-};
+/**
+ * Specialists the LLM planner may use: everything known, limited to the user's swarm
+ * when hiredAgents is given (scribe is always available as the fallback agent)
+ */
+function plannerSpecialists(hiredAgents?: SpecialistType[]): Record<string, string> {
+  const specialists: Record<string, string> = {};
+  for (const { id, description, capabilities } of listSpecialists()) {
+    if (id === 'general') continue;
+    if (hiredAgents && !hiredAgents.includes(id) && id !== 'scribe') continue;
+    specialists[id] = capabilities.length > 0 ? `${description} (${capabilities.join(', ')})` : description;
+  }
+  return specialists;
+}
 
 /**
- * Detect multi-hop patterns
+ * Decide how a request will be executed: an explicit or planned workflow, or a single specialist.
+ * PLANNING_MODE=llm-plan asks the LLM for a multi-step plan; if that fails (or in any other mode)
+ * built-in workflow templates are tried, then single-specialist routing.
  */
-function detectMultiHop(prompt: string): SpecialistType[] | null {
-  const lower = prompt.toLowerCase();
-  
-  // Pattern: "buy" + "trending" = aura → bankr
-  if (lower.includes('buy') && (lower.includes('trending') || lower.includes('popular') || lower.includes('hot') || lower.includes('sentiment'))) {
-    return ['aura', 'bankr'];
+async function planTask(request: DispatchRequest, instructions: Record<string, string> = {}): Promise<{
+  workflow: WorkflowPlan | null;
+  specialist: SpecialistType;
+  planning?: Record<string, any>;
+}> {
+  if (request.workflow) {
+    return { workflow: request.workflow, specialist: 'multi-hop' };
   }
-  
-  // Pattern: "analyze" + "buy" = magos → bankr  
-  if ((lower.includes('analyze') || lower.includes('research')) && lower.includes('buy')) {
-    return ['magos', 'bankr'];
+  if (request.preferredSpecialist) {
+    return { workflow: null, specialist: request.preferredSpecialist };
   }
 
-  // Pattern: "research" + "summary" = seeker → scribe
-  if ((lower.includes('research') || lower.includes('search') || lower.includes('news')) && (lower.includes('summary') || lower.includes('summarize'))) {
-    return ['seeker', 'scribe'];
+  let planning: Record<string, any> | undefined;
+
+  if (process.env.PLANNING_MODE === 'llm-plan') {
+    try {
+      const result = await planWorkflowWithLLM(request.prompt, {
+        specialists: plannerSpecialists(request.hiredAgents),
+        instructions,
+      });
+      console.log(`[LLM Planner] ${describeWorkflow(result.plan)} (confidence: ${result.confidence.toFixed(2)}) - ${result.reasoning}`);
+      planning = { mode: 'llm-plan', confidence: result.confidence, reasoning: result.reasoning };
+
+      // A single step is plain routing; keep the user's prompt as-is
+      if (result.plan.nodes.length === 1) {
+        return { workflow: null, specialist: result.plan.nodes[0].specialist, planning };
+      }
+      return { workflow: result.plan, specialist: 'multi-hop', planning };
+    } catch (error: any) {
+      console.error(`[LLM Planner] Workflow planning failed:`, error.message, '- falling back to regexp');
+      planning = { mode: 'llm-plan', fallback: true, error: error.message };
+    }
   }
-  
-  return null; // Single-hop
+
+  const template = matchWorkflowTemplate(request.prompt);
+  if (template) {
+    return { workflow: template, specialist: 'multi-hop', planning };
+  }
+
+  // Determine the best specialist for this prompt (ignoring swarm filter for routing decision)
+  return { workflow: null, specialist: await routePrompt(request.prompt, undefined, instructions), planning };
 }
 
 /**
  * Helper to extract tokens from Aura's result
  */
 function extractTokensFromResult(result: string): string[] {
-  // Parse Aura's trending response
-  // Look for token symbols like SOL, BONK, WIF
-  const tokens = result.match(/\b(SOL|BONK|WIF|PEPE|DOGE|SHIB|FOMO)\b/gi) || [];
-  return [...new Set(tokens.map(t => t.toUpperCase()))];
+  // Parse Aura's trending response for registry tokens (SOL, BONK, $WIF, "solana"...)
+  return findTokens(result);
 }
 
 // Event emitter for real-time updates
 type TaskUpdateCallback = (task: Task) => void;
 const subscribers: Map<string, TaskUpdateCallback[]> = new Map();
 
+// Partial specialist output is streamed to these, not stored on the task
+type TaskChunkCallback = (chunk: TaskChunk) => void;
+const chunkSubscribers: Map<string, TaskChunkCallback[]> = new Map();
+const chunkCounts: Map<string, number> = new Map();
+
 /**
  * Subscribe to task updates
  */
@@ -158,6 +195,31 @@ export function subscribeToTask(taskId: string, callback: TaskUpdateCallback): (
   };
 }
 
+/**
+ * Subscribe to partial output streamed by a task's specialists
+ */
+export function subscribeToTaskChunks(taskId: string, callback: TaskChunkCallback): () => void {
+  const existing = chunkSubscribers.get(taskId) || [];
+  existing.push(callback);
+  chunkSubscribers.set(taskId, existing);
+
+  return () => {
+    const callbacks = chunkSubscribers.get(taskId) || [];
+    chunkSubscribers.set(taskId, callbacks.filter(cb => cb !== callback));
+  };
+}
+
+/**
+ * Emit a chunk of partial output to subscribers
+ */
+function emitTaskChunk(task: Task, specialist: SpecialistType, chunk: SpecialistChunk, nodeId?: string): void {
+  const seq = chunkCounts.get(task.id) || 0;
+  chunkCounts.set(task.id, seq + 1);
+
+  const callbacks = chunkSubscribers.get(task.id) || [];
+  callbacks.forEach(cb => cb({ ...chunk, taskId: task.id, specialist, nodeId, seq }));
+}
+
 /**
  * Emit task update to subscribers
  */
@@ -186,22 +248,33 @@ function addMessage(task: Task, from: string, to: string, content: string): void
  */
 export async function dispatch(request: DispatchRequest): Promise<DispatchResponse> {
   const taskId = uuidv4();
-  const hops = detectMultiHop(request.prompt);
-  
-  // Determine the best specialist for this prompt (ignoring swarm filter for routing decision)
-  const bestSpecialist = request.preferredSpecialist || (hops ? 'multi-hop' : await routePrompt(request.prompt));
+
+  // Explicit workflows must be valid; otherwise try the built-in templates
+  if (request.workflow) {
+    const errors = validateWorkflowPlan(request.workflow);
+    if (errors.length > 0) {
+      throw new Error(`Invalid workflow: ${errors.join('; ')}`);
+    }
+  }
+  // Saved instructions for the user, overridden by any sent with the request
+  const instructions = resolveInstructions(request.userId, request.customInstructions);
+  const { workflow, specialist: bestSpecialist, planning } = await planTask(request, instructions);
   
   // Check if user approved this specific agent
   const isApproved = request.approvedAgent === bestSpecialist;
   
   // Check if specialist is in user's swarm (hired agents)
-  const isInSwarm = !request.hiredAgents || request.hiredAgents.includes(bestSpecialist);
+  // A workflow is in the swarm when every specialist it uses is hired
+  const isInSwarm = !request.hiredAgents || (workflow
+    ? workflowSpecialists(workflow).every(s => request.hiredAgents!.includes(s) || s === 'general' || s === 'scribe')
+    : request.hiredAgents.includes(bestSpecialist));
   
   // If not in swarm and not approved, check if we need approval
   const requiresApproval = !isInSwarm && !isApproved && bestSpecialist !== 'general' && bestSpecialist !== 'scribe';
   
   console.log(`[Dispatcher] Routing decision:`, {
     bestSpecialist,
+    workflow: workflow ? describeWorkflow(workflow) : undefined,
     hiredAgents: request.hiredAgents,
     isInSwarm,
     isApproved,
@@ -210,7 +283,7 @@ export async function dispatch(request: DispatchRequest): Promise<DispatchRespon
   
   // If preview only or requires approval, return info without executing
   if (request.previewOnly || requiresApproval) {
-    const pricing = SPECIALIST_PRICING[bestSpecialist] || { fee: '0', description: 'Unknown' };
+    const definition = getSpecialist(bestSpecialist);
     const successRate = getSuccessRate(bestSpecialist);
     
     return {
@@ -220,22 +293,17 @@ export async function dispatch(request: DispatchRequest): Promise<DispatchRespon
       requiresApproval,
       specialistInfo: {
         name: getSpecialistDisplayName(bestSpecialist),
-        description: pricing.description,
-        fee: pricing.fee,
+        description: workflow?.description || definition?.description || 'Unknown',
+        fee: String(workflow
+          ? workflowSpecialists(workflow).reduce((sum, s) => sum + getSpecialistFee(s), 0)
+          : getSpecialistFee(bestSpecialist)),
         feeCurrency: 'USDC',
         successRate: successRate > 0 ? successRate : undefined,
       },
     };
   }
   
-  // Filter multi-hop to only include hired agents (unless approved)
-  let filteredHops = hops;
-  if (hops && request.hiredAgents && !isApproved) {
-    filteredHops = hops.filter(h => request.hiredAgents!.includes(h) || h === request.approvedAgent);
-    if (filteredHops.length === 0) filteredHops = null;
-  }
-  
-  const specialist = request.preferredSpecialist || (filteredHops ? 'multi-hop' : bestSpecialist);
+  const specialist = bestSpecialist;
   
   // Create task
   const task: Task = {
@@ -250,24 +318,24 @@ export async function dispatch(request: DispatchRequest): Promise<DispatchRespon
     messages: [],
     metadata: { 
       dryRun: request.dryRun,
-      hops: filteredHops || undefined,
+      hops: workflow ? workflowSpecialists(workflow) : undefined,
+      workflow: workflow ? { plan: workflow, nodes: initialNodeStates(workflow) } : undefined,
+      planning,
       hiredAgents: request.hiredAgents,
       wasApproved: isApproved, // Track if user approved a non-swarm agent
+      maxPayment: request.maxPayment ? parseFloat(request.maxPayment.amount) : undefined,
+      customInstructions: Object.keys(instructions).length > 0 ? instructions : undefined,
+      scopes: request.scopes,
     },
     callbackUrl: request.callbackUrl,
+    callbackEvents: request.callbackEvents,
   };
   
   tasks.set(taskId, task);
-  saveTasks();
+  saveTask(task);
   console.log(`[Dispatcher] Created task ${taskId} for specialist: ${specialist}`);
   
-  // Small delay to allow WebSocket subscription before execution
-  setTimeout(() => {
-    executeTask(task, request.dryRun || false).catch(err => {
-      console.error(`[Dispatcher] Task ${taskId} failed:`, err);
-      updateTaskStatus(task, 'failed', { error: err.message });
-    });
-  }, 100);
+  startTask(task, request.dryRun || false);
   
   return {
     taskId,
@@ -276,135 +344,155 @@ export async function dispatch(request: DispatchRequest): Promise<DispatchRespon
   };
 }
 
+/**
+ * Schedule a new task for execution, with a controller so it can be cancelled
+ */
+function startTask(task: Task, dryRun: boolean): void {
+  const controller = new AbortController();
+  controllers.set(task.id, controller);
+
+  // Small delay to allow WebSocket subscription before execution
+  setTimeout(() => {
+    executeTask(task, dryRun, controller.signal)
+      .catch(err => {
+        console.error(`[Dispatcher] Task ${task.id} failed:`, err);
+        updateTaskStatus(task, 'failed', { error: err.message });
+      })
+      .finally(() => {
+        controllers.delete(task.id);
+        chunkCounts.delete(task.id);
+      });
+  }, 100);
+}
+
+/**
+ * Cancel a task that has not finished yet. Any specialist call in flight is aborted
+ * and no further hops are paid for. Returns null if the task is unknown or already finished.
+ */
+export function cancelTask(taskId: string): Task | null {
+  const task = getTask(taskId);
+  if (!task || FINISHED_STATUSES.includes(task.status)) {
+    return null;
+  }
+
+  // Tasks left unfinished by an earlier process have no controller; they are just marked cancelled
+  controllers.get(taskId)?.abort();
+  addMessage(task, 'dispatcher', task.specialist, '🛑 Task cancelled');
+  updateTaskStatus(task, 'cancelled', { activeNode: undefined });
+  console.log(`[Dispatcher] Task ${taskId} cancelled`);
+  return task;
+}
+
+/**
+ * Confirm or reject the bankr hop a task is waiting on.
+ * Returns null if the task is unknown or not awaiting confirmation.
+ */
+export function confirmTask(taskId: string, approve: boolean): Task | null {
+  const pending = pendingConfirmations.get(taskId);
+  const task = getTask(taskId);
+  if (!pending || !task) {
+    return null;
+  }
+  pending.settle(approve ? 'approved' : 'rejected');
+  return task;
+}
+
+/**
+ * Whether a task ended in a state that can be retried
+ */
+export function isRetryable(task: Task): boolean {
+  return RETRYABLE_STATUSES.includes(task.status);
+}
+
+/**
+ * Run a finished task again as a new task. For workflows, `fromNode` keeps the outputs of
+ * nodes that completed upstream of it and re-runs only that node and its dependents.
+ */
+export function retryTask(taskId: string, options: { fromNode?: string; scopes?: ApiKeyScope[] } = {}): Task {
+  const original = getTask(taskId);
+  if (!original) {
+    throw new Error(`Task ${taskId} not found`);
+  }
+  if (!isRetryable(original)) {
+    throw new Error(`Task is ${original.status}; only failed, cancelled or timed out tasks can be retried`);
+  }
+
+  const plan = original.metadata?.workflow?.plan as WorkflowPlan | undefined;
+  let seed: Record<string, NodeOutput> | undefined;
+
+  if (options.fromNode) {
+    if (!plan) {
+      throw new Error('fromNode can only be used when retrying a workflow task');
+    }
+    if (!plan.nodes.some(node => node.id === options.fromNode)) {
+      throw new Error(`Workflow has no node "${options.fromNode}"`);
+    }
+    const rerun = downstreamNodes(plan, options.fromNode);
+    const previous: Record<string, NodeOutput> = original.metadata?.workflow?.outputs || {};
+    seed = {};
+    for (const [id, output] of Object.entries(previous)) {
+      if (!rerun.has(id)) seed[id] = output;
+    }
+  }
+
+  const dryRun = !!original.metadata?.dryRun;
+  const task: Task = {
+    id: uuidv4(),
+    prompt: original.prompt,
+    userId: original.userId,
+    status: 'pending',
+    specialist: original.specialist,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    payments: [],
+    messages: [],
+    metadata: {
+      dryRun,
+      hops: original.metadata?.hops,
+      workflow: plan ? { plan, nodes: initialNodeStates(plan), outputs: seed } : undefined,
+      planning: original.metadata?.planning,
+      hiredAgents: original.metadata?.hiredAgents,
+      wasApproved: original.metadata?.wasApproved,
+      maxPayment: original.metadata?.maxPayment,
+      customInstructions: original.metadata?.customInstructions,
+      scopes: options.scopes,
+      retryOf: original.id,
+      retryFromNode: options.fromNode,
+    },
+    callbackUrl: original.callbackUrl,
+    callbackEvents: original.callbackEvents,
+  };
+
+  tasks.set(task.id, task);
+  saveTask(task);
+  console.log(`[Dispatcher] Created task ${task.id} retrying ${original.id}${options.fromNode ? ` from ${options.fromNode}` : ''}`);
+
+  startTask(task, dryRun);
+  return task;
+}
+
 /**
  * Get display name for a specialist
  */
 function getSpecialistDisplayName(specialist: SpecialistType): string {
-  const names: Record<SpecialistType, string> = {
-    magos: 'Market Oracle',
-    aura: 'Social Analyst',
-    bankr: 'DeFi Executor',
-    scribe: 'General Assistant',
-    seeker: 'Web Researcher',
-    general: 'General',
-    'multi-hop': 'Multi-Agent Workflow',
-  };
-  return names[specialist] || specialist;
+  if (specialist === 'multi-hop') {
+    return 'Multi-Agent Workflow';
+  }
+  return getSpecialist(specialist)?.name || specialist;
 }
 
 /**
  * Execute a task
  */
-async function executeTask(task: Task, dryRun: boolean): Promise<void> {
+async function executeTask(task: Task, dryRun: boolean, signal?: AbortSignal): Promise<void> {
   // Demo delay for visual effect
   await new Promise(resolve => setTimeout(resolve, 500));
+  if (signal?.aborted) return;
   
-  const hops = task.metadata?.hops as SpecialistType[] | undefined;
+  const workflow = task.metadata?.workflow?.plan as WorkflowPlan | undefined;
   
-  if (hops && hops.length > 1) {
-    updateTaskStatus(task, 'processing');
-    addMessage(task, 'dispatcher', 'multi-hop', `Executing multi-hop workflow: ${hops.join(' → ')}`);
-    
-    let currentContext = task.prompt;
-    const multiResults: any[] = [];
-    
-    for (let i = 0; i < hops.length; i++) {
-      const specialist = hops[i];
-      const step = i + 1;
-      
-      updateTaskStatus(task, 'processing', { 
-        currentStep: step, 
-        totalSteps: hops.length,
-        activeSpecialist: specialist
-      });
-      addMessage(task, 'dispatcher', specialist, `[Step ${step}/${hops.length}] Routing to ${specialist}...`);
-      
-      // Call the specialist via x402-gated endpoint
-      const result = await callSpecialistGated(specialist, currentContext);
-      multiResults.push({ specialist, result });
-      
-      // Add specialist response message
-      const responseContent = extractResponseContent(result);
-      addMessage(task, specialist, 'dispatcher', responseContent);
-      
-      // Execute x402 payment for this hop
-      const specialistFee = (config.fees as any)[specialist] || 0;
-      if (specialistFee > 0 && !dryRun) {
-        // For x402-gated specialists, use AgentWallet proxy
-        const baseUrl = process.env.BASE_URL || 'http://localhost:3000';
-        const specialistUrl = `${baseUrl}/api/specialist/${specialist}`;
-        
-        const paymentResult = await executeDemoPayment(
-          specialistUrl,
-          { prompt: currentContext },
-          specialistFee
-        );
-
-        if (paymentResult.success) {
-          // Use the response from x402/fetch
-          const resultBody = paymentResult.response;
-          if (resultBody) {
-            multiResults[multiResults.length - 1].result = resultBody;
-          }
-          
-          if (paymentResult.txSignature) {
-            const feeRecord = createPaymentRecord(
-              String(specialistFee),
-              'USDC',
-              'solana',
-              specialist,
-              paymentResult.txSignature
-            );
-            task.payments.push(feeRecord);
-            addMessage(task, 'x402', 'dispatcher', `💰 x402 Fee: ${specialistFee} USDC → ${specialist}`);
-          }
-        } else {
-          console.warn(`[Dispatcher] Payment failed for ${specialist}, logging mock record`);
-          const feeRecord = createPaymentRecord(String(specialistFee), 'USDC', 'solana', specialist);
-          task.payments.push(feeRecord);
-          logTransaction(feeRecord);
-          addMessage(task, 'x402', 'dispatcher', `💰 x402 Fee (Mock): ${specialistFee} USDC → ${specialist}`);
-        }
-      }
-      
-      // Update context for next hop
-      if (specialist === 'aura' && result.success) {
-        const tokens = extractTokensFromResult(responseContent);
-        if (tokens.length > 0) {
-          currentContext = `Buy 0.1 SOL of ${tokens[0]}`;
-          addMessage(task, 'dispatcher', 'system', `Next step: ${currentContext}`);
-        }
-      } else if ((specialist === 'magos' || specialist === 'seeker') && result.success) {
-        const tokens = extractTokensFromResult(responseContent);
-        if (tokens.length > 0) {
-          currentContext = `Buy 0.1 SOL of ${tokens[0]}`;
-          addMessage(task, 'dispatcher', 'system', `Next step: ${currentContext}`);
-        }
-      }
-      
-      // Delay between hops
-      if (i < hops.length - 1) {
-        await new Promise(resolve => setTimeout(resolve, 1200));
-      }
-    }
-    
-    // Final result aggregation
-    const lastResult = multiResults[multiResults.length - 1].result;
-    task.result = {
-      ...lastResult,
-      data: {
-        ...lastResult.data,
-        isMultiHop: true,
-        hops: hops,
-        steps: multiResults.map(r => ({
-          specialist: r.specialist,
-          summary: extractResponseContent(r.result)
-        }))
-      }
-    };
-    
-    updateTaskStatus(task, 'completed');
-    console.log(`[Dispatcher] Multi-hop task ${task.id} completed`);
+  if (workflow) {
+    await executeWorkflowTask(task, workflow, dryRun, signal);
     return;
   }
 
@@ -423,7 +511,7 @@ async function executeTask(task: Task, dryRun: boolean): Promise<void> {
     console.log(`[Dispatcher] Wallet balances:`, balances);
     
     // Enforce payment if config flag is set
-    const fee = (config.fees as any)[task.specialist] || 0;
+    const fee = getSpecialistFee(task.specialist);
     const usdcBalance = balances.solana.usdc; // Magos is on Solana
 
     if (config.enforcePayments && usdcBalance < fee) {
@@ -433,64 +521,73 @@ async function executeTask(task: Task, dryRun: boolean): Promise<void> {
     }
   }
   
+  const scopeError = checkHopScope(task, task.specialist, dryRun);
+  if (scopeError) {
+    addMessage(task, 'dispatcher', task.specialist, `⛔ ${scopeError}`);
+    updateTaskStatus(task, 'failed', { error: scopeError });
+    return;
+  }
+
+  const budget = reserveHopBudget(task, task.specialist, dryRun);
+  if (budget.error) {
+    addMessage(task, 'dispatcher', task.specialist, `⛔ ${budget.error}`);
+    updateTaskStatus(task, 'budget_exceeded', { error: budget.error });
+    console.log(`[Dispatcher] Task ${task.id} stopped: ${budget.error}`);
+    return;
+  }
+
+  try {
+    await executeSingleHop(task, dryRun, budget.reservationId, signal);
+  } finally {
+    if (budget.reservationId) releaseBudget(budget.reservationId);
+  }
+}
+
+/**
+ * Confirm, run and pay for the one hop of a single-specialist task.
+ * `reservationId` is the hop's budget reservation, settled when the fee is recorded.
+ */
+async function executeSingleHop(task: Task, dryRun: boolean, reservationId: string | undefined, signal?: AbortSignal): Promise<void> {
+  const confirmation = await confirmHop(task, task.specialist, task.prompt, dryRun, false, signal);
+  if (confirmation.status) {
+    // Cancelled tasks were already marked by cancelTask
+    if (task.status !== 'cancelled') {
+      updateTaskStatus(task, confirmation.status, { error: confirmation.error });
+    }
+    console.log(`[Dispatcher] Task ${task.id} ${task.status}`);
+    return;
+  }
+
   updateTaskStatus(task, 'processing');
   
   // Get specialist fee
-  const fee = (config.fees as any)[task.specialist] || 0;
+  const fee = getSpecialistFee(task.specialist);
   addMessage(task, 'dispatcher', task.specialist, `Processing with ${task.specialist}... (fee: ${fee} USDC)`);
   
   // Demo delay before calling specialist
   await new Promise(resolve => setTimeout(resolve, 800));
+  if (signal?.aborted) return;
   
   // Call the specialist via x402-gated endpoint
-  const result = await callSpecialistGated(task.specialist, task.prompt);
+  const hop = await runHop(task, task.specialist, task.prompt, dryRun, signal);
+  if (hop.interrupted) {
+    // Cancelled tasks were already marked by cancelTask
+    if (hop.interrupted === 'timed_out') {
+      addMessage(task, 'dispatcher', task.specialist, `⏱️ ${hop.error}`);
+      updateTaskStatus(task, 'timed_out', { error: hop.error });
+      recordFailure(task.specialist);
+    }
+    console.log(`[Dispatcher] Task ${task.id} ${task.status}`);
+    return;
+  }
+  const result = hop.result!;
   
   // Add specialist response message
   const responseContent = extractResponseContent(result);
   addMessage(task, task.specialist, 'dispatcher', responseContent);
   
   // Execute real x402 payment
-  if (fee > 0 && !dryRun) {
-    // For x402-gated specialists, use AgentWallet proxy
-    const baseUrl = process.env.BASE_URL || 'http://localhost:3000';
-    const specialistUrl = `${baseUrl}/api/specialist/${task.specialist}`;
-    
-    const paymentResult = await executeDemoPayment(
-      specialistUrl,
-      { prompt: task.prompt },
-      fee
-    );
-
-    if (paymentResult.success) {
-      // Use the response from x402/fetch
-      if (paymentResult.response) {
-        task.result = paymentResult.response;
-      }
-      
-      if (paymentResult.txSignature) {
-        const feeRecord = createPaymentRecord(
-          String(fee),
-          'USDC',
-          'solana',
-          task.specialist,
-          paymentResult.txSignature
-        );
-        task.payments.push(feeRecord);
-        addMessage(task, 'x402', 'dispatcher', `💰 x402 Fee: ${fee} USDC → ${task.specialist}`);
-      }
-    } else {
-      console.warn(`[Dispatcher] Payment failed for ${task.specialist}, logging mock record`);
-      const feeRecord = createPaymentRecord(
-        String(fee),
-        'USDC',
-        'solana',
-        task.specialist
-      );
-      task.payments.push(feeRecord);
-      logTransaction(feeRecord);
-      addMessage(task, 'x402', 'dispatcher', `💰 x402 Fee (Mock): ${fee} USDC → ${task.specialist}`);
-    }
-  }
+  await payForHop(task, task.specialist, task.prompt, dryRun, result, reservationId);
   
   // Log any additional payments from the specialist result
   if (result.cost) {
@@ -500,8 +597,12 @@ async function executeTask(task: Task, dryRun: boolean): Promise<void> {
       result.cost.network,
       result.cost.recipient
     );
-    task.payments.push(record);
-    logTransaction(record);
+    getStorage().transaction(() => {
+      task.payments.push(record);
+      logTransaction(record, task.id);
+      saveTask(task);
+    });
+    queueWebhookEvent(task, 'task.payment', { specialist: task.specialist, payment: record });
     addMessage(task, 'x402', 'dispatcher', `Payment: ${result.cost.amount} ${result.cost.currency}`);
   }
   
@@ -516,84 +617,401 @@ async function executeTask(task: Task, dryRun: boolean): Promise<void> {
     recordFailure(task.specialist);
   }
   
-  // Call webhook if provided
-  if (task.callbackUrl) {
-    const isValid = await validateCallbackUrl(task.callbackUrl);
-    if (!isValid) {
-      console.error(`[Dispatcher] Blocked potentially malicious callbackUrl: ${task.callbackUrl}`);
-      addMessage(task, 'system', 'dispatcher', `Security: Blocked invalid callbackUrl (SSRF protection)`);
-    } else {
+  console.log(`[Dispatcher] Task ${task.id} ${task.status} in ${result.executionTimeMs}ms`);
+}
+
+/**
+ * Execute a workflow (DAG) task, recording per-node status in task.metadata.workflow
+ */
+async function executeWorkflowTask(task: Task, workflow: WorkflowPlan, dryRun: boolean, signal?: AbortSignal): Promise<void> {
+  const totalSteps = workflow.nodes.length;
+  let startedSteps = 0;
+  let budgetError: string | null = null;
+  let timedOut = false;
+
+  // Outputs carried over from the task this one retries
+  const seed: Record<string, NodeOutput> = task.metadata?.workflow?.outputs || {};
+
+  updateTaskStatus(task, 'processing');
+  addMessage(task, 'dispatcher', 'multi-hop', `Executing workflow: ${describeWorkflow(workflow)}`);
+  if (Object.keys(seed).length > 0) {
+    addMessage(task, 'dispatcher', 'multi-hop', `Reusing results of ${Object.keys(seed).join(', ')} from task ${task.metadata?.retryOf}`);
+  }
+
+  const run = await runWorkflow(workflow, task.prompt, {
+    runNode: async (node, prompt) => {
+      if (signal?.aborted) {
+        throw new Error('Task cancelled');
+      }
+      addMessage(task, 'dispatcher', node.specialist, `[Step ${startedSteps}/${totalSteps}] Routing to ${node.specialist}...`);
+
+      const scopeError = checkHopScope(task, node.specialist, dryRun);
+      if (scopeError) {
+        throw new Error(scopeError);
+      }
+
+      // Once the budget is exhausted, no further hops are paid for. Parallel nodes
+      // each reserve their fee, so together they can't pass the same check.
+      const budget = budgetError ? {} : reserveHopBudget(task, node.specialist, dryRun);
+      budgetError = budgetError || budget.error || null;
+      if (budgetError) {
+        throw new Error(budgetError);
+      }
+
       try {
-        const axios = require('axios');
-        // SECURITY: We already validated the URL, but to be 100% safe against DNS rebinding
-        // we should ideally use the resolved IP. However, many services use SNI/Host headers.
-        // For this hackathon, we'll re-validate just before the call.
-        const isValid = await validateCallbackUrl(task.callbackUrl);
-        if (isValid) {
-          await axios.post(task.callbackUrl, {
-            taskId: task.id,
-            status: task.status,
-            specialist: task.specialist,
-            result: formatResultForCallback(result),
-            messages: task.messages,
-          }, { timeout: 5000 });
-          console.log(`[Dispatcher] Callback sent to ${task.callbackUrl}`);
+        // Prompts a template wrote from upstream output always need confirming before they trade
+        const confirmation = await confirmHop(task, node.specialist, prompt, dryRun, node.prompt.trim() !== '{{prompt}}', signal, node.id);
+        if (confirmation.status) {
+          timedOut = timedOut || confirmation.status === 'timed_out';
+          throw new Error(confirmation.error);
         }
-      } catch (err: any) {
-        console.error(`[Dispatcher] Callback failed:`, err.message);
+
+        // Call the specialist via x402-gated endpoint
+        const hop = await runHop(task, node.specialist, prompt, dryRun, signal, node.id);
+        if (hop.interrupted) {
+          timedOut = timedOut || hop.interrupted === 'timed_out';
+          throw new Error(hop.error);
+        }
+        let result = hop.result!;
+        addMessage(task, node.specialist, 'dispatcher', extractResponseContent(result));
+
+        // Execute x402 payment for this hop; prefer the paid response if one came back
+        const paidResponse = await payForHop(task, node.specialist, prompt, dryRun, result, budget.reservationId);
+        if (paidResponse) {
+          result = paidResponse;
+        }
+
+        return result;
+      } finally {
+        if (budget.reservationId) releaseBudget(budget.reservationId);
       }
-    }
+    },
+    onNodeUpdate: (state, states) => {
+      const extra: Record<string, any> = {
+        workflow: { ...task.metadata?.workflow, plan: workflow, nodes: states },
+      };
+
+      if (state.status === 'running') {
+        startedSteps++;
+        extra.currentStep = startedSteps;
+        extra.totalSteps = totalSteps;
+        extra.activeSpecialist = state.specialist;
+        extra.activeNode = state.id;
+      }
+
+      // Other nodes finishing don't hide that one is waiting on the user
+      updateTaskStatus(task, pendingConfirmations.has(task.id) ? 'awaiting_confirmation' : 'processing', extra);
+
+      if (state.status === 'skipped') {
+        addMessage(task, 'dispatcher', state.specialist, `Skipping ${state.id}: ${state.error}`);
+      } else if (state.status === 'failed') {
+        addMessage(task, 'dispatcher', state.specialist, `❌ ${state.id} failed: ${state.error}`);
+      }
+    },
+    summarize: extractResponseContent,
+    extractTokens: extractTokensFromResult,
+  }, { seed });
+
+  // Keep completed outputs so a retry can resume from a later node
+  task.metadata = {
+    ...task.metadata,
+    workflow: { plan: workflow, nodes: run.states, outputs: run.outputs },
+  };
+
+  // Final result: the output node, or the last node that completed
+  const completed = run.order.filter(id => run.outputs[id]);
+  const outputId = run.outputNode && run.outputs[run.outputNode] ? run.outputNode : completed[completed.length - 1];
+  const outputResult: SpecialistResult = outputId
+    ? run.outputs[outputId].result
+    : { success: false, data: { error: 'No workflow step completed' }, timestamp: new Date(), executionTimeMs: 0 };
+
+  task.result = {
+    ...outputResult,
+    success: run.success && !!outputId,
+    data: {
+      ...outputResult.data,
+      isMultiHop: true,
+      hops: completed.map(id => run.states[id].specialist),
+      steps: run.order.map(id => ({
+        id,
+        specialist: run.states[id].specialist,
+        status: run.states[id].status,
+        summary: run.states[id].summary || run.states[id].error || '',
+      })),
+    },
+  };
+
+  if (budgetError) {
+    addMessage(task, 'dispatcher', 'multi-hop', `⛔ ${budgetError}`);
+    updateTaskStatus(task, 'budget_exceeded', { activeNode: undefined, error: budgetError });
+  } else if (timedOut && !task.result.success) {
+    updateTaskStatus(task, 'timed_out', { activeNode: undefined, error: 'A workflow step timed out' });
+  } else {
+    updateTaskStatus(task, task.result.success ? 'completed' : 'failed', { activeNode: undefined });
   }
-  
-  console.log(`[Dispatcher] Task ${task.id} ${task.status} in ${result.executionTimeMs}ms`);
+  console.log(`[Dispatcher] Workflow task ${task.id} ${task.status}`);
 }
 
 /**
- * Validates a callback URL to prevent SSRF attacks.
- * Blocks localhost, private IP ranges, and cloud metadata services.
- * Resolves hostnames to IPs to prevent DNS rebinding.
+ * Call the specialist for one hop, giving up when the task is cancelled or the
+ * specialist's timeout passes. The handler's signal is aborted in both cases.
+ * Partial output the handler emits is forwarded to chunk subscribers.
  */
-async function validateCallbackUrl(urlStr: string): Promise<boolean> {
+async function runHop(
+  task: Task,
+  specialist: SpecialistType,
+  prompt: string,
+  dryRun: boolean,
+  signal?: AbortSignal,
+  nodeId?: string
+): Promise<{ result?: SpecialistResult; interrupted?: HopInterruption; error?: string }> {
+  if (signal?.aborted) {
+    return { interrupted: 'cancelled', error: 'Task cancelled' };
+  }
+
+  const timeoutMs = getSpecialistTimeout(specialist);
+  const hop = new AbortController();
+  let interrupted: HopInterruption | undefined;
+
+  const interrupt = (reason: HopInterruption) => {
+    if (interrupted) return;
+    interrupted = reason;
+    hop.abort();
+  };
+  const onCancel = () => interrupt('cancelled');
+  signal?.addEventListener('abort', onCancel);
+  const timer = setTimeout(() => interrupt('timed_out'), timeoutMs);
+  const stopped = new Promise<null>(resolve => hop.signal.addEventListener('abort', () => resolve(null)));
+
   try {
-    const url = new URL(urlStr);
-    
-    // Only allow http:// and https:// schemes
-    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
-      return false;
+    const context: SpecialistContext = {
+      signal: hop.signal,
+      taskId: task.id,
+      userId: task.userId,
+      instructions: task.metadata?.customInstructions?.[specialist],
+      // Output from a hop that was given up on is dropped
+      emit: chunk => {
+        if (!interrupted) emitTaskChunk(task, specialist, chunk, nodeId);
+      },
+    };
+    const result = await Promise.race([callSpecialistGated(specialist, prompt, dryRun, context), stopped]);
+
+    if (interrupted === 'timed_out') {
+      return { interrupted, error: `${specialist} timed out after ${timeoutMs / 1000}s` };
+    }
+    if (interrupted) {
+      return { interrupted, error: 'Task cancelled' };
     }
+    return { result: result! };
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onCancel);
+  }
+}
 
-    let hostname = url.hostname.toLowerCase();
-    
-    // Resolve hostname to IP
-    let ip = hostname;
-    if (!/^\d+\.\d+\.\d+\.\d+$/.test(hostname) && !hostname.includes(':')) {
+/**
+ * Hold a live bankr hop in awaiting_confirmation while it needs the user's confirmation
+ * (see confirmations.ts), with its quote on task.metadata.confirmation. Returns the
+ * status the task should stop in if the hop may not run: cancelled when rejected,
+ * timed_out when nobody answers in time, failed when it can't be quoted or quotes
+ * worse than confirmed once approved.
+ */
+async function confirmHop(
+  task: Task,
+  specialist: SpecialistType,
+  prompt: string,
+  dryRun: boolean,
+  automated: boolean,
+  signal?: AbortSignal,
+  nodeId?: string
+): Promise<{ status?: TaskStatus; error?: string }> {
+  if (specialist !== 'bankr' || dryRun) {
+    return {};
+  }
+
+  // Parallel workflow nodes take turns
+  while (pendingConfirmations.has(task.id)) {
+    await pendingConfirmations.get(task.id)!.settled;
+  }
+  if (signal?.aborted) {
+    return { status: 'cancelled', error: 'Task cancelled' };
+  }
+
+  let check: Awaited<ReturnType<typeof checkConfirmation>>;
+  try {
+    check = await checkConfirmation(task.userId, prompt, automated);
+  } catch (error: any) {
+    const message = `Could not quote the trade to check it: ${error.message}`;
+    addMessage(task, 'dispatcher', specialist, `⛔ ${message}`);
+    return { status: 'failed', error: message };
+  }
+  if (!check) {
+    return {};
+  }
+
+  let settle!: (decision: ConfirmationDecision) => void;
+  const settled = new Promise<ConfirmationDecision>(resolve => { settle = resolve; });
+  pendingConfirmations.set(task.id, { settle, settled });
+  const onCancel = () => settle('cancelled');
+  signal?.addEventListener('abort', onCancel);
+  const timer = setTimeout(() => settle('expired'), CONFIRMATION_TIMEOUT_MS);
+
+  const now = Date.now();
+  const request: ConfirmationRequest = {
+    prompt,
+    nodeId,
+    reasons: check.reasons,
+    quote: check.quote,
+    requestedAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + CONFIRMATION_TIMEOUT_MS).toISOString(),
+  };
+  addMessage(task, 'dispatcher', specialist, `✋ Waiting for your confirmation: ${check.reasons.join('; ')}`);
+  updateTaskStatus(task, 'awaiting_confirmation', { confirmation: request });
+  console.log(`[Dispatcher] Task ${task.id} awaiting confirmation: ${check.reasons.join('; ')}`);
+
+  let decision: ConfirmationDecision;
+  try {
+    decision = await settled;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onCancel);
+    pendingConfirmations.delete(task.id);
+  }
+
+  // A cancelled task stays cancelled
+  updateTaskStatus(task, 'processing', { confirmation: undefined });
+  switch (decision) {
+    case 'approved': {
+      rememberRecipients(task.userId, check.quote);
+      addMessage(task, 'dispatcher', specialist, '✅ Trade confirmed');
+      // The market may have moved while the user decided
+      let problem: string | null;
       try {
-        const result = await lookup(hostname);
-        ip = result.address;
-      } catch (e) {
-        return false; // Could not resolve
+        problem = await checkRequote(task.userId, prompt, request.quote);
+      } catch (error: any) {
+        problem = `Could not quote the trade again: ${error.message}`;
+      }
+      if (problem) {
+        addMessage(task, 'dispatcher', specialist, `⛔ ${problem}`);
+        return { status: 'failed', error: problem };
       }
+      return {};
     }
+    case 'rejected':
+      addMessage(task, 'dispatcher', specialist, '🚫 Trade rejected');
+      return { status: 'cancelled', error: 'Trade rejected' };
+    case 'expired': {
+      const error = `Trade not confirmed within ${Math.round(CONFIRMATION_TIMEOUT_MS / 60000)} min`;
+      addMessage(task, 'dispatcher', specialist, `⏱️ ${error}`);
+      return { status: 'timed_out', error };
+    }
+    default:
+      return { status: 'cancelled', error: 'Task cancelled' };
+  }
+}
 
-    // Block localhost, 127.0.0.1, ::1, 0.0.0.0
-    if (ip === 'localhost' || ip === '127.0.0.1' || ip === '::1' || ip === '0.0.0.0') {
-      return false;
+/**
+ * Check the caller's API key may use a specialist. Live bankr hops move funds and
+ * need the bankr-execute scope. Returns the reason the hop is blocked, or null.
+ */
+function checkHopScope(task: Task, specialist: SpecialistType, dryRun: boolean): string | null {
+  const scopes: ApiKeyScope[] | undefined = task.metadata?.scopes;
+  if (dryRun || !scopes || specialist !== 'bankr' || hasScope(scopes, 'bankr-execute')) {
+    return null;
+  }
+  return 'API key lacks the bankr-execute scope';
+}
+
+/**
+ * Check the task owner's budget before paying for a hop and reserve its fee.
+ * Returns the reason the hop is blocked, or the reservation to settle or release.
+ */
+function reserveHopBudget(task: Task, specialist: SpecialistType, dryRun: boolean): { error?: string; reservationId?: string } {
+  if (dryRun || !task.userId) return {};
+
+  const fee = getSpecialistFee(specialist);
+  const taskSpent = task.payments
+    .filter(p => p.currency === 'USDC' && p.status !== 'failed')
+    .reduce((sum, p) => sum + (parseFloat(p.amount) || 0), 0);
+
+  const check = checkBudget(task.userId, specialist, fee, taskSpent, task.metadata?.maxPayment, task.id);
+  return check.allowed ? { reservationId: check.reservationId } : { error: check.reason || 'Budget exceeded' };
+}
+
+/**
+ * Attach a hop fee to the task and charge it to the owner's budget in one transaction,
+ * settling the hop's budget reservation.
+ * `log` adds the record to the payment log (skip when the payer already logged it).
+ */
+function recordHopPayment(task: Task, specialist: SpecialistType, record: PaymentRecord, log: boolean = false, reservationId?: string): void {
+  getStorage().transaction(() => {
+    task.payments.push(record);
+    if (log) {
+      logTransaction(record, task.id);
+    }
+    if (task.userId && record.status !== 'failed') {
+      recordSpend(task.userId, task.id, specialist, parseFloat(record.amount) || 0, reservationId);
     }
+    saveTask(task);
+  });
+  queueWebhookEvent(task, 'task.payment', { specialist, payment: record });
+}
 
-    // Block private IP ranges
-    // 10.x.x.x
-    if (/^10\./.test(ip)) return false;
-    // 172.16.x.x to 172.31.x.x
-    if (/^172\.(1[6-9]|2[0-9]|3[0-1])\./.test(ip)) return false;
-    // 192.168.x.x
-    if (/^192\.168\./.test(ip)) return false;
-    // 169.254.x.x (Cloud metadata)
-    if (/^169\.254\./.test(ip)) return false;
+/**
+ * Pay the x402 fee for a specialist hop.
+ * Returns the specialist response delivered through x402/fetch, if any.
+ * Results that were already paid for over HTTP (remote/loopback) are only recorded.
+ */
+async function payForHop(
+  task: Task,
+  specialist: SpecialistType,
+  prompt: string,
+  dryRun: boolean,
+  result?: SpecialistResult,
+  reservationId?: string
+): Promise<SpecialistResult | undefined> {
+  if (result?.payment) {
+    recordHopPayment(task, specialist, result.payment, false, reservationId);
+    addMessage(task, 'x402', 'dispatcher', `💰 x402 Fee: ${result.payment.amount} ${result.payment.currency} → ${specialist}`);
+    return undefined;
+  }
+
+  const fee = getSpecialistFee(specialist);
+  if (fee <= 0 || dryRun) {
+    return undefined;
+  }
 
-    return true;
-  } catch (e) {
-    return false;
+  // For x402-gated specialists, use AgentWallet proxy
+  const baseUrl = process.env.BASE_URL || 'http://localhost:3000';
+  const specialistUrl = `${baseUrl}/api/specialist/${specialist}`;
+
+  const paymentResult = await executeDemoPayment(
+    specialistUrl,
+    { prompt },
+    fee
+  );
+
+  if (paymentResult.success) {
+    if (paymentResult.txSignature) {
+      const feeRecord = createPaymentRecord(
+        String(fee),
+        'USDC',
+        'solana',
+        specialist,
+        paymentResult.txSignature
+      );
+      recordHopPayment(task, specialist, feeRecord, false, reservationId);
+      addMessage(task, 'x402', 'dispatcher', `💰 x402 Fee: ${fee} USDC → ${specialist}`);
+    }
+    // Use the response from x402/fetch
+    return paymentResult.response;
   }
+
+  console.warn(`[Dispatcher] Payment failed for ${specialist}, logging mock record`);
+  const feeRecord = createPaymentRecord(String(fee), 'USDC', 'solana', specialist);
+  recordHopPayment(task, specialist, feeRecord, true, reservationId);
+  addMessage(task, 'x402', 'dispatcher', `💰 x402 Fee (Mock): ${fee} USDC → ${specialist}`);
+  return undefined;
 }
 
 /**
@@ -626,7 +1044,7 @@ function extractResponseContent(result: SpecialistResult): string {
 }
 
 /**
- * Format result for callback webhook (human-readable)
+ * Format result for webhook deliveries (human-readable)
  */
 function formatResultForCallback(result: SpecialistResult): { summary: string; data: any } {
   const data = result.data;
@@ -653,14 +1071,35 @@ function formatResultForCallback(result: SpecialistResult): { summary: string; d
  * Update task status and emit event
  */
 function updateTaskStatus(task: Task, status: TaskStatus, extra?: Record<string, any>): void {
+  const previous = task.status;
+  // A cancelled task stays cancelled; late updates from work in flight only add metadata
+  if (previous === 'cancelled') {
+    status = 'cancelled';
+  }
   task.status = status;
   task.updatedAt = new Date();
   if (extra) {
     task.metadata = { ...task.metadata, ...extra };
   }
   tasks.set(task.id, task);
-  saveTasks();
+  saveTask(task);
+  if (FINISHED_STATUSES.includes(status)) {
+    scheduleEviction(task);
+  }
   emitTaskUpdate(task);
+
+  if (status !== previous) {
+    queueWebhookEvent(task, 'task.status', { status, previousStatus: previous, specialist: task.specialist });
+    if (FINISHED_STATUSES.includes(status)) {
+      queueWebhookEvent(task, 'task.finished', {
+        status,
+        specialist: task.specialist,
+        result: task.result ? formatResultForCallback(task.result) : null,
+        error: task.metadata?.error,
+        messages: task.messages,
+      });
+    }
+  }
 }
 
 /**
@@ -668,12 +1107,16 @@ function updateTaskStatus(task: Task, status: TaskStatus, extra?: Record<string,
  * Supports both RegExp-based (fast) and LLM-based (smart) routing
  * Only routes to specialists in the hiredAgents list if provided
  */
-export async function routePrompt(prompt: string, hiredAgents?: SpecialistType[]): Promise<SpecialistType> {
+export async function routePrompt(
+  prompt: string,
+  hiredAgents?: SpecialistType[],
+  instructions?: Record<string, string>
+): Promise<SpecialistType> {
   const planningMode = process.env.PLANNING_MODE || 'regexp';
   
   if (planningMode === 'llm') {
     try {
-      const plan = await planWithLLM(prompt);
+      const plan = await planWithLLM(prompt, instructions);
       console.log(`[LLM Planner] ${plan.specialist} (confidence: ${plan.confidence.toFixed(2)}) - ${plan.reasoning}`);
       
       // If specialist is not in hiredAgents, use fallback routing
@@ -715,78 +1158,23 @@ function routeWithRegExp(prompt: string, hiredAgents?: SpecialistType[]): Specia
     if (!hiredAgents || hiredAgents.includes('magos')) return 'magos';
   }
 
-  // Define routing rules with weights
-  const rules: Array<{ specialist: SpecialistType; patterns: RegExp[]; weight: number }> = [
-    {
-      specialist: 'magos',
-      patterns: [
-        /predict|forecast|price\s+target|will\s+\w+\s+(go|reach|hit)/,
-        /risk|danger|safe|analysis|analyze|technical/,
-        /support|resistance|trend|pattern|chart/,
-      ],
-      weight: 1,
-    },
-    {
-      specialist: 'aura',
-      patterns: [
-        /sentiment|vibe|mood|feeling|social/,
-        /trending|hot|popular|alpha|gem/,
-        /influencer|kol|whale\s+watch|twitter|x\s+/,
-        /fomo|fud|hype|buzz/,
-      ],
-      weight: 1,
-    },
-    {
-      specialist: 'bankr',
-      patterns: [
-        /swap|trade|buy|sell|exchange/,
-        /transfer|send|withdraw|deposit/,
-        /balance|wallet|holdings|portfolio/,
-        /dca|dollar\s+cost|recurring|auto-buy/,
-        /solana|sol|transaction|tx/,
-      ],
-      weight: 1,
-    },
-    {
-      specialist: 'seeker',
-      patterns: [
-        /search|find|lookup|what is|who is|where is|news about|latest on/,
-        /research|google|brave|internet|web|look up/,
-        /news|happened|today|recent|current events/,
-        /what happened|tell me about/,
-      ],
-      weight: 1.2,
-    },
-    {
-      specialist: 'scribe',
-      patterns: [
-        /summarize|explain|write|draft|document/,
-        /help|question|how to|what can you/,
-      ],
-      weight: 0.5,
-    },
-  ];
-  
-  // Score each specialist (only those in hiredAgents if provided)
-  const scores: Record<SpecialistType, number> = {
-    magos: 0,
-    aura: 0,
-    bankr: 0,
-    scribe: 0,
-    seeker: 0,
-    general: 0,
-    'multi-hop': 0,
-  };
+  // Score each registered specialist by its routing patterns (only those in hiredAgents if provided)
+  const scores: Record<string, number> = { general: 0 };
   
-  for (const rule of rules) {
+  for (const definition of listSpecialists()) {
+    if (!definition.routing) {
+      continue;
+    }
+    scores[definition.id] = 0;
+    
     // Skip specialists not in hiredAgents (if list is provided)
-    if (hiredAgents && !hiredAgents.includes(rule.specialist)) {
+    if (hiredAgents && !hiredAgents.includes(definition.id)) {
       continue;
     }
     
-    for (const pattern of rule.patterns) {
+    for (const pattern of definition.routing.patterns) {
       if (pattern.test(lower)) {
-        scores[rule.specialist] += rule.weight;
+        scores[definition.id] += definition.routing.weight;
       }
     }
   }
@@ -816,31 +1204,50 @@ function routeWithRegExp(prompt: string, hiredAgents?: SpecialistType[]): Specia
  */
 async function checkPaymentRequired(specialist: SpecialistType): Promise<boolean> {
   // Specialists with non-zero fees require payment
-  const fee = (config.fees as any)[specialist] || 0;
+  const fee = getSpecialistFee(specialist);
   return fee > 0;
 }
 
 /**
  * Call a specialist through the x402-gated endpoint
- * Handles 402 responses and provides payment instructions
+ * Remote specialists are called over HTTP and paid via the x402 client.
+ * With X402_LOOPBACK=true, built-ins (except bankr, which needs the caller's user) are
+ * called through our own /api/specialist/:id endpoint the same way, exercising the
+ * 402 flow end to end.
  */
-export async function callSpecialistGated(specialistId: string, prompt: string): Promise<SpecialistResult> {
+export async function callSpecialistGated(
+  specialistId: string,
+  prompt: string,
+  dryRun: boolean = false,
+  context?: SpecialistContext
+): Promise<SpecialistResult> {
   const startTime = Date.now();
   
   try {
-    // In a real production app, we would use axios to call http://localhost:PORT/api/specialist/:id
-    // But since we are server-side and want to demo the flow, we will:
-    // 1. Manually check if it's a 402 (payment required)
-    // 2. If 402, simulate/execute payment
-    // 3. Then call the actual specialist
-    
     console.log(`[x402-Client] Requesting gated access to ${specialistId}...`);
     
-    // Simulate checking the x402-gated endpoint
-    // In actual implementation: const response = await axios.post(`/api/specialist/${specialistId}`, { prompt });
+    const definition = getSpecialist(specialistId);
     
-    // For demo purposes, we call the specialist directly but log the x402 flow
-    const result = await callSpecialist(specialistId as SpecialistType, prompt);
+    if (definition?.endpoint) {
+      return callRemoteSpecialist(specialistId, definition.endpoint, prompt, {
+        ...definition.remote,
+        dryRun,
+        signal: context?.signal,
+        instructions: context?.instructions,
+      });
+    }
+    
+    if (process.env.X402_LOOPBACK === 'true' && !dryRun && specialistId !== 'bankr' && getSpecialistFee(specialistId) > 0) {
+      const baseUrl = process.env.BASE_URL || `http://localhost:${config.port}`;
+      return callRemoteSpecialist(specialistId, `${baseUrl}/api/specialist/${specialistId}`, prompt, {
+        signal: context?.signal,
+        instructions: context?.instructions,
+        headers: internalCallHeaders(),
+      });
+    }
+    
+    // Built-ins are called in-process; the fee is paid separately (see payForHop)
+    const result = await callSpecialist(specialistId as SpecialistType, prompt, context);
     
     return {
       ...result,
@@ -859,68 +1266,65 @@ export async function callSpecialistGated(specialistId: string, prompt: string):
 /**
  * Call the appropriate specialist
  */
-export async function callSpecialist(specialist: SpecialistType, prompt: string): Promise<SpecialistResult> {
-  const startTime = Date.now();
-  
-  switch (specialist) {
-    case 'magos':
-      return magos.handle(prompt);
-    
-    case 'aura':
-      return aura.handle(prompt);
-    
-    case 'bankr':
-      return bankr.handle(prompt);
-    
-    case 'scribe':
-      return scribe.handle(prompt);
-    
-    case 'seeker':
-      return seeker.handle(prompt);
-    
-    case 'general':
-    default:
-      // General fallback - combine insights from multiple specialists
-      const [magosResult, auraResult] = await Promise.all([
-        magos.handle(prompt),
-        aura.handle(prompt),
-      ]);
-      
-      return {
-        success: true,
-        data: {
-          magos: magosResult.data,
-          aura: auraResult.data,
-          combined: "I'm not sure how to help with that. Try asking about wallet balances, market analysis, or social sentiment.",
-        },
-        confidence: ((magosResult.confidence || 0) + (auraResult.confidence || 0)) / 2,
-        timestamp: new Date(),
-        executionTimeMs: Date.now() - startTime,
-      };
-  }
+export async function callSpecialist(
+  specialist: SpecialistType,
+  prompt: string,
+  context?: SpecialistContext
+): Promise<SpecialistResult> {
+  // Unknown specialists fall back to the general handler
+  const definition = getSpecialist(specialist) || getSpecialist('general')!;
+  return definition.handler.handle(prompt, context);
+}
+
+/**
+ * Append a message to a task's log after the fact (e.g. a triggered limit order).
+ * Returns false if the task does not exist.
+ */
+export function logTaskMessage(taskId: string, from: string, content: string): boolean {
+  const task = getTask(taskId);
+  if (!task) return false;
+
+  addMessage(task, from, 'dispatcher', content);
+  saveTask(task);
+  return true;
 }
 
+// Modules the dispatcher imports log through task-log.ts rather than importing it back
+setTaskMessageWriter(logTaskMessage);
+
 /**
  * Get task by ID
  */
 export function getTask(taskId: string): Task | undefined {
-  return tasks.get(taskId);
+  return tasks.get(taskId) || getStorage().getTask(taskId);
+}
+
+/**
+ * Query stored tasks (newest first), preferring live copies of running tasks
+ */
+export function listTasks(query: TaskQuery = {}): Task[] {
+  return getStorage().listTasks(query).map(task => tasks.get(task.id) || task);
+}
+
+/**
+ * Count stored tasks matching a query
+ */
+export function countTasks(query: TaskQuery = {}): number {
+  return getStorage().countTasks(query);
 }
 
 /**
  * Get all tasks for a user
  */
-export function getTasksByUser(userId: string): Task[] {
-  return Array.from(tasks.values()).filter(t => t.userId === userId);
+export function getTasksByUser(userId: string, limit?: number): Task[] {
+  return listTasks({ userId, limit });
 }
 
 /**
  * Get recent tasks
  */
 export function getRecentTasks(limit: number = 10): Task[] {
-  return Array.from(tasks.values())
-    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
-    .slice(0, limit);
+  return listTasks({ limit });
 }
 
 /**
@@ -928,12 +1332,11 @@ export function getRecentTasks(limit: number = 10): Task[] {
  */
 export function getSpecialistPricing(): Record<SpecialistType, { fee: string; description: string; success_rate: number }> {
   const pricingWithRep: any = {};
-  for (const [key, description] of Object.entries(SPECIALIST_DESCRIPTIONS)) {
-    const fee = (config.fees as any)[key] || 0;
-    pricingWithRep[key] = {
+  for (const { id, description, fee } of listSpecialists()) {
+    pricingWithRep[id] = {
       fee: String(fee),
       description,
-      success_rate: getSuccessRate(key as SpecialistType)
+      success_rate: getSuccessRate(id)
     };
   }
   return pricingWithRep;
@@ -943,21 +1346,32 @@ export function getSpecialistPricing(): Record<SpecialistType, { fee: string; de
  * Get full specialist list with reputation data
  */
 export function getSpecialists(): any[] {
-  return Object.entries(SPECIALIST_DESCRIPTIONS).map(([name, description]) => ({
-    name,
-    description,
-    fee: String((config.fees as any)[name] || 0),
-    success_rate: getSuccessRate(name as SpecialistType)
+  return listSpecialists().map(definition => ({
+    name: definition.id,
+    displayName: definition.name,
+    description: definition.description,
+    capabilities: definition.capabilities,
+    fee: String(definition.fee),
+    builtIn: definition.builtIn,
+    success_rate: getSuccessRate(definition.id)
   }));
 }
 
 export default {
   dispatch,
+  cancelTask,
+  confirmTask,
+  retryTask,
+  isRetryable,
   getTask,
+  logTaskMessage,
   getTasksByUser,
   getRecentTasks,
+  listTasks,
+  countTasks,
   getSpecialistPricing,
   getSpecialists,
   subscribeToTask,
+  subscribeToTaskChunks,
   routePrompt,
 };
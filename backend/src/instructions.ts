@@ -0,0 +1,115 @@
+/**
+ * Custom Instructions - Per-user, per-specialist instructions
+ *
+ * Users can give each specialist standing instructions ("keep summaries short",
+ * "only Solana tokens"). They are stored against the API key, merged with any
+ * instructions sent in the dispatch request and handed to every specialist call
+ * and to the LLM planner.
+ */
+
+import { getStorage } from './storage';
+
+const INSTRUCTIONS_KEY = 'custom-instructions';
+
+export const MAX_INSTRUCTION_LENGTH = 2000;
+
+/**
+ * All users' instructions saved in storage
+ */
+function loadInstructions(): Record<string, Record<string, string>> {
+  return getStorage().getDocument<Record<string, Record<string, string>>>(INSTRUCTIONS_KEY) || {};
+}
+
+function saveInstructions(all: Record<string, Record<string, string>>): void {
+  getStorage().setDocument(INSTRUCTIONS_KEY, all);
+}
+
+/**
+ * A user's instructions, keyed by specialist id
+ */
+export function getInstructions(userId: string): Record<string, string> {
+  return { ...loadInstructions()[userId] };
+}
+
+/**
+ * Validate instructions for one specialist, returning a problem or null
+ */
+export function validateInstruction(instructions: any): string | null {
+  if (typeof instructions !== 'string') {
+    return 'instructions must be a string';
+  }
+  if (instructions.length > MAX_INSTRUCTION_LENGTH) {
+    return `instructions must be at most ${MAX_INSTRUCTION_LENGTH} characters`;
+  }
+  return null;
+}
+
+/**
+ * Validate a specialist id -> instructions map (e.g. from a dispatch body), returning a list of problems
+ */
+export function validateInstructionMap(map: any): string[] {
+  if (!map || typeof map !== 'object' || Array.isArray(map)) {
+    return ['customInstructions must be an object of specialist id -> instructions'];
+  }
+  const errors: string[] = [];
+  for (const [specialist, instructions] of Object.entries(map)) {
+    const error = validateInstruction(instructions);
+    if (error) errors.push(`${specialist}: ${error}`);
+  }
+  return errors;
+}
+
+/**
+ * Set a user's instructions for a specialist. Blank instructions remove them.
+ */
+export function setInstruction(userId: string, specialist: string, instructions: string): Record<string, string> {
+  const all = loadInstructions();
+  const mine = { ...all[userId] };
+
+  if (instructions.trim()) {
+    mine[specialist] = instructions.trim();
+  } else {
+    delete mine[specialist];
+  }
+
+  all[userId] = mine;
+  saveInstructions(all);
+  console.log(`[Instructions] Updated ${specialist} instructions for ${userId.slice(0, 8)}...`);
+  return mine;
+}
+
+/**
+ * Remove a user's instructions for a specialist. Returns false if there were none.
+ */
+export function deleteInstruction(userId: string, specialist: string): boolean {
+  const all = loadInstructions();
+  if (!all[userId]?.[specialist]) return false;
+
+  delete all[userId][specialist];
+  saveInstructions(all);
+  console.log(`[Instructions] Removed ${specialist} instructions for ${userId.slice(0, 8)}...`);
+  return true;
+}
+
+/**
+ * Instructions in effect for a dispatch: the user's stored instructions,
+ * overridden per specialist by those sent with the request. Blank entries are dropped.
+ */
+export function resolveInstructions(userId?: string, overrides?: Record<string, string>): Record<string, string> {
+  const merged = { ...(userId ? getInstructions(userId) : {}), ...overrides };
+  for (const [specialist, instructions] of Object.entries(merged)) {
+    if (typeof instructions !== 'string' || !instructions.trim()) {
+      delete merged[specialist];
+    }
+  }
+  return merged;
+}
+
+export default {
+  getInstructions,
+  setInstruction,
+  deleteInstruction,
+  resolveInstructions,
+  validateInstruction,
+  validateInstructionMap,
+};
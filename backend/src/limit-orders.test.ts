@@ -0,0 +1,150 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { BankrAction } from './types';
+
+jest.mock('./specialists/bankr', () => ({ executeJupiterSwap: jest.fn() }));
+
+import { executeJupiterSwap } from './specialists/bankr';
+import { cancelOrder, checkOrders, createOrder, LimitOrder, listOrders, NewOrder, onOrderUpdate, parseOrderCommand, setPriceSource } from './limit-orders';
+
+const swap = executeJupiterSwap as jest.MockedFunction<typeof executeJupiterSwap>;
+
+// Price-source stub: a fixed table, null for anything unpriced
+let prices: Record<string, number> = {};
+const priceLookups: string[] = [];
+
+const STOP_LOSS: NewOrder = { side: 'sell', token: 'SOL', condition: 'below', triggerPrice: 120, from: 'SOL', to: 'USDC', amount: '2' };
+const BREAKOUT: NewOrder = { side: 'buy', token: 'SOL', condition: 'above', triggerPrice: 250, from: 'USDC', to: 'SOL', usd: 50 };
+
+let userId: string;
+let userCount = 0;
+
+beforeEach(() => {
+  userId = `user-${++userCount}`;
+  prices = {};
+  priceLookups.length = 0;
+  setPriceSource(async token => {
+    priceLookups.push(token);
+    return prices[token] ?? null;
+  });
+  swap.mockReset();
+  swap.mockImplementation(async (from, to, amount): Promise<BankrAction> => ({
+    type: 'swap',
+    status: 'simulated',
+    details: { estimatedOutput: '1.5', route: 'stub', network: 'devnet', from, to, amount },
+  }));
+});
+
+afterEach(() => {
+  // Leave no open orders behind for the next test's check
+  for (const order of listOrders(userId, 'open')) cancelOrder(userId, order.id);
+  setPriceSource(null);
+});
+
+describe('parseOrderCommand', () => {
+  it.each([
+    ['sell half my WIF if it drops below $2', { side: 'sell', token: 'WIF', condition: 'below', triggerPrice: 2, from: 'WIF', to: 'USDC', fraction: 0.5 }],
+    ['buy $20 of BONK when it hits 0.000025', { side: 'buy', token: 'BONK', condition: 'below', triggerPrice: 0.000025, from: 'USDC', to: 'BONK', usd: 20 }],
+    ['when SOL hits $200 buy $50 of BONK', { side: 'buy', token: 'SOL', condition: 'below', triggerPrice: 200, from: 'USDC', to: 'BONK', usd: 50 }],
+    ['buy 1000 BONK when it hits $0.00002', { side: 'buy', token: 'BONK', triggerPrice: 0.00002, from: 'SOL', to: 'BONK', usd: 0.02 }],
+    ['stop loss: sell all my SOL if it falls to 120', { side: 'sell', token: 'SOL', condition: 'below', triggerPrice: 120, fraction: 1 }],
+    ['sell 2 SOL if SOL goes to 250', { side: 'sell', token: 'SOL', condition: 'above', triggerPrice: 250, amount: '2' }],
+  ])('reads %p', (prompt, expected) => {
+    expect(parseOrderCommand(prompt)).toMatchObject({ action: 'create', ...expected });
+  });
+
+  it('reads cancels and listings', () => {
+    const id = 'ord_123e4567-e89b-12d3-a456-426614174000';
+    expect(parseOrderCommand(`cancel ${id}`)).toEqual({ action: 'cancel', id });
+    expect(parseOrderCommand('show my open orders')).toEqual({ action: 'list' });
+  });
+
+  it('rejects orders it cannot place', () => {
+    expect(parseOrderCommand('sell 2 SOL if FOO drops below 3')).toEqual({ action: 'invalid', error: 'Unknown token "FOO" in "if FOO drops below 3"' });
+    expect(parseOrderCommand('set up a stop loss')).toMatchObject({ action: 'invalid' });
+  });
+
+  it('ignores prompts without a trigger or order words', () => {
+    expect(parseOrderCommand('swap 1 SOL for USDC')).toBeNull();
+  });
+});
+
+describe('checkOrders', () => {
+  it('leaves orders open while the price has not crossed the trigger', async () => {
+    createOrder(userId, STOP_LOSS);
+    createOrder(userId, BREAKOUT);
+    prices = { SOL: 180 };
+
+    expect(await checkOrders()).toBe(0);
+    expect(swap).not.toHaveBeenCalled();
+    expect(listOrders(userId, 'open')).toHaveLength(2);
+    expect(priceLookups).toEqual(['SOL']);
+  });
+
+  it('executes a stop-loss once the price falls to the trigger', async () => {
+    const order = createOrder(userId, STOP_LOSS)!;
+    prices = { SOL: 120 };
+
+    expect(await checkOrders()).toBe(1);
+    expect(swap).toHaveBeenCalledWith('SOL', 'USDC', '2', userId);
+    expect(listOrders(userId)[0]).toMatchObject({
+      id: order.id,
+      status: 'filled',
+      fill: { price: 120, amountIn: '2', amountOut: '1.5', route: 'stub' },
+    });
+  });
+
+  it('sizes USD orders with the price of the token spent', async () => {
+    createOrder(userId, BREAKOUT);
+    prices = { SOL: 260, USDC: 1 };
+
+    expect(await checkOrders()).toBe(1);
+    expect(swap).toHaveBeenCalledWith('USDC', 'SOL', '50.000000', userId);
+  });
+
+  it('does not trigger without a price', async () => {
+    createOrder(userId, STOP_LOSS);
+
+    expect(await checkOrders()).toBe(0);
+    expect(listOrders(userId, 'open')).toHaveLength(1);
+  });
+
+  it('triggers an order only once', async () => {
+    createOrder(userId, STOP_LOSS);
+    prices = { SOL: 100 };
+
+    await checkOrders();
+    expect(await checkOrders()).toBe(0);
+    expect(swap).toHaveBeenCalledTimes(1);
+  });
+
+  it('records a failed swap on the order', async () => {
+    createOrder(userId, STOP_LOSS);
+    prices = { SOL: 100 };
+    swap.mockResolvedValueOnce({ type: 'swap', status: 'failed', details: { error: 'No route' } });
+
+    expect(await checkOrders()).toBe(1);
+    expect(listOrders(userId)[0]).toMatchObject({ status: 'failed', fill: { price: 100, error: 'No route' } });
+  });
+
+  it('fails a share-of-balance order when there is nothing to sell', async () => {
+    createOrder(userId, { ...STOP_LOSS, token: 'WIF', from: 'WIF', amount: undefined, fraction: 0.5 });
+    prices = { WIF: 1 };
+
+    await checkOrders();
+
+    expect(swap).not.toHaveBeenCalled();
+    expect(listOrders(userId)[0]).toMatchObject({ status: 'failed', fill: { error: 'No WIF balance to sell' } });
+  });
+
+  it('reports each status change to listeners', async () => {
+    const statuses: Array<LimitOrder['status']> = [];
+    const unsubscribe = onOrderUpdate(order => statuses.push(order.status));
+    createOrder(userId, STOP_LOSS);
+    prices = { SOL: 100 };
+
+    await checkOrders();
+    unsubscribe();
+
+    expect(statuses).toEqual(['open', 'executing', 'filled']);
+  });
+});
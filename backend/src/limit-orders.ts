@@ -0,0 +1,453 @@
+/**
+ * Limit Orders - Conditional bankr swaps triggered by a price feed
+ *
+ * "sell half my WIF if it drops below $2" and "buy $20 of BONK when it hits 0.000025"
+ * are stored as open orders: the trade is read with the bankr intent grammar and
+ * the trigger must be spelled out, so nothing is ever traded on a default. A watch loop checks them against CoinGecko prices (or any
+ * PriceSource, e.g. a fixed feed in tests) and, once the condition holds, runs
+ * the swap through the normal bankr swap path. Owners hear about every change
+ * through `onOrderUpdate` listeners (the WebSocket `order_update` event) and
+ * fills are added to the log of the task that placed the order.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import config from './config';
+import { logTaskMessage } from './task-log';
+import { executeJupiterSwap } from './specialists/bankr';
+import { getPaperBalance } from './paper-accounts';
+import { getPrice } from './specialists/tools/coingecko';
+import { getToken } from './token-registry';
+import { parseBankrIntent } from './bankr-intent';
+import { getStorage } from './storage';
+
+export type OrderSide = 'buy' | 'sell';
+export type OrderCondition = 'below' | 'above';
+export type OrderStatus = 'open' | 'executing' | 'filled' | 'failed' | 'cancelled';
+
+export interface OrderFill {
+  at: number;
+  price: number;            // Price of `token` that triggered the order
+  amountIn?: string;
+  amountOut?: string;
+  route?: string;
+  network?: string;
+  error?: string;
+}
+
+export interface LimitOrder {
+  id: string;
+  userId: string;
+  taskId?: string;          // Task that placed the order; fills are logged there
+  side: OrderSide;
+  token: string;            // Token whose USD price is watched
+  condition: OrderCondition;
+  triggerPrice: number;     // USD
+  from: string;
+  to: string;
+  amount?: string;          // Input amount in `from` units...
+  fraction?: number;        // ...or a share of the `from` balance when triggered...
+  usd?: number;             // ...or a USD value of `from` at the time it triggers
+  status: OrderStatus;
+  fill?: OrderFill;
+  prompt?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type NewOrder = Pick<LimitOrder, 'side' | 'token' | 'condition' | 'triggerPrice' | 'from' | 'to' | 'amount' | 'fraction' | 'usd'>;
+
+export type OrderCommand =
+  | ({ action: 'create' } & NewOrder)
+  | { action: 'cancel' | 'list'; id?: string }
+  | { action: 'invalid'; error: string };    // Reads like an order but can't be placed as written
+
+/**
+ * USD price of a token, or null when no trustworthy price is available
+ */
+export type PriceSource = (token: string) => Promise<number | null>;
+
+type OrderUpdateCallback = (order: LimitOrder) => void;
+
+const ORDERS_KEY = 'limit-orders';
+const MAX_OPEN_ORDERS_PER_USER = 20;
+
+// "if it drops below $2", "when SOL hits 150", "once BONK's price is above $0.00003"
+const TRIGGER = /\b(?:if|when|once)\s+([^,.;!?]{0,40}?)\s*\b(drops?|falls?|dips?|goes|rises?|climbs?|hits?|reaches?|is|gets|trades?|crosses|exceeds?)\s+(?:(below|under|above|over|to|at)\s+)?\$?\s?(\d{1,3}(?:,\d{3})+(?:\.\d+)?|\d+(?:\.\d+)?|\.\d+)(?![\d.]*[a-z%])/i;
+const ORDER_COMMAND = /\bord_[0-9a-f]|\b(?:limit|open|conditional|my)\s+orders?\b|stop[\s-]?loss|take[\s-]?profit/i;
+const EXAMPLE = '"sell half my WIF if it drops below $2" or "buy $20 of BONK when it hits 0.000025"';
+
+// CoinGecko's mock fallback must never trigger a trade
+const coingeckoPriceSource: PriceSource = async token => {
+  const data = await getPrice(token);
+  return data.mock ? null : data.price;
+};
+
+let priceSource: PriceSource = coingeckoPriceSource;
+let watchTimer: NodeJS.Timeout | null = null;
+let checking = false;
+const listeners: OrderUpdateCallback[] = [];
+
+/**
+ * Replace the price feed (e.g. a fixed feed in tests); null restores CoinGecko
+ */
+export function setPriceSource(source: PriceSource | null): void {
+  priceSource = source || coingeckoPriceSource;
+}
+
+/**
+ * Be told about every order change (created, executing, filled, failed, cancelled)
+ */
+export function onOrderUpdate(callback: OrderUpdateCallback): () => void {
+  listeners.push(callback);
+  return () => {
+    const index = listeners.indexOf(callback);
+    if (index >= 0) listeners.splice(index, 1);
+  };
+}
+
+function notify(order: LimitOrder): void {
+  for (const listener of listeners) {
+    try {
+      listener(order);
+    } catch (err: any) {
+      console.error('[LimitOrders] Listener failed:', err.message);
+    }
+  }
+}
+
+/**
+ * Whether a prompt places, lists or cancels conditional orders. Placing one
+ * takes an explicit trigger ("... if WIF drops below $2").
+ */
+export function isOrderPrompt(prompt: string): boolean {
+  return TRIGGER.test(prompt) || ORDER_COMMAND.test(prompt);
+}
+
+/**
+ * Parse an order prompt into a command. Returns null if it is not one.
+ * e.g. "sell half my WIF if it drops below $2", "when SOL hits $200 buy $50 of BONK", "cancel ord_1234..."
+ */
+export function parseOrderCommand(prompt: string): OrderCommand | null {
+  if (!isOrderPrompt(prompt)) return null;
+
+  const trigger = prompt.match(TRIGGER);
+  if (!trigger) {
+    const id = prompt.match(/\bord_[0-9a-f-]{36}\b/i)?.[0];
+    if (/\b(cancel|delete|remove)\b/i.test(prompt)) return { action: 'cancel', id };
+    if (/\b(show|list|view|see|what|which|open)\b|\borders\b/i.test(prompt)) return { action: 'list', id };
+    return { action: 'invalid', error: `Say what to trade and when, e.g. ${EXAMPLE}` };
+  }
+
+  // The trade is everything but the trigger, read like any other bankr swap
+  const trade = `${prompt.slice(0, trigger.index)} ${prompt.slice(trigger.index! + trigger[0].length)}`;
+  const intent = parseBankrIntent(trade);
+  if (intent.error) return { action: 'invalid', error: intent.error };
+  const action = intent.actions[0];
+  if (intent.actions.length !== 1 || action.type !== 'swap') {
+    return { action: 'invalid', error: `An order is a single buy, sell or swap, e.g. ${EXAMPLE}` };
+  }
+
+  // "it" (or no subject) is the token being traded away on a sell and bought on a buy
+  const subject = trigger[1].replace(/[’']s\b/g, '').replace(/\b(the|price|of|it)\b/gi, '').trim();
+  const buying = /\bbuy\b/i.test(trade);
+  let token = buying ? action.to : action.from;
+  if (subject) {
+    const named = getToken(subject);
+    if (!named) return { action: 'invalid', error: `Unknown token "${subject}" in "${trigger[0]}"` };
+    token = named.symbol;
+  }
+  const side: OrderSide = token === action.to || (token !== action.from && buying) ? 'buy' : 'sell';
+
+  // Stop-losses and take-profits say which way; "hits" and "reaches" buy dips and sell rallies
+  const words = `${trigger[2]} ${trigger[3] || ''}`.toLowerCase();
+  let condition: OrderCondition = side === 'buy' ? 'below' : 'above';
+  if (/\b(below|under|drops?|falls?|dips?)\b/.test(words) || /stop[\s-]?loss/i.test(prompt)) {
+    condition = 'below';
+  } else if (/\b(above|over|rises?|climbs?|exceeds?)\b/.test(words) || /take[\s-]?profit/i.test(prompt)) {
+    condition = 'above';
+  }
+  const triggerPrice = parseFloat(trigger[4].replace(/,/g, ''));
+  const order = { side, token, condition, triggerPrice, from: action.from, to: action.to };
+
+  switch (action.amount.kind) {
+    case 'absolute':
+      if (action.amount.token === action.from) {
+        return { action: 'create', ...order, amount: action.amount.value };
+      }
+      // "buy 1000 BONK when it hits $0.00002" costs its value at the trigger price
+      if (token !== action.to) {
+        return { action: 'invalid', error: `Say how much ${action.from} to spend, e.g. "buy 0.1 ${action.from} of ${action.to} when ${token} hits $${triggerPrice}"` };
+      }
+      return { action: 'create', ...order, usd: parseFloat(action.amount.value) * triggerPrice };
+    case 'usd':
+      return { action: 'create', ...order, usd: action.amount.usd };
+    case 'percent':
+      return { action: 'create', ...order, fraction: action.amount.percent / 100 };
+    case 'all':
+      return { action: 'create', ...order, fraction: 1 };
+  }
+}
+
+/**
+ * Validate a new order, returning a list of problems
+ */
+export function validateOrder(order: NewOrder): string[] {
+  const errors: string[] = [];
+  if (!Number.isFinite(order.triggerPrice) || order.triggerPrice <= 0) {
+    errors.push('trigger price must be a positive number');
+  }
+  if (order.from === order.to) {
+    errors.push('from and to must be different tokens');
+  }
+  if (order.amount !== undefined) {
+    const amount = parseFloat(order.amount);
+    if (!Number.isFinite(amount) || amount <= 0) errors.push('amount must be a positive number');
+  } else if (order.usd !== undefined) {
+    if (!Number.isFinite(order.usd) || order.usd <= 0) errors.push('USD amount must be a positive number');
+  } else if (order.fraction === undefined || !(order.fraction > 0 && order.fraction <= 1)) {
+    errors.push('amount, USD value or a share of the balance (0-100%) is required');
+  }
+  return errors;
+}
+
+/**
+ * Short label for an order, e.g. "stop-loss" or "limit buy"
+ */
+export function describeOrderKind(order: Pick<LimitOrder, 'side' | 'condition'>): string {
+  if (order.side === 'sell') {
+    return order.condition === 'below' ? 'stop-loss' : 'take-profit';
+  }
+  return order.condition === 'below' ? 'limit buy' : 'breakout buy';
+}
+
+function loadOrders(): Record<string, LimitOrder[]> {
+  return getStorage().getDocument<Record<string, LimitOrder[]>>(ORDERS_KEY) || {};
+}
+
+/**
+ * Apply `update` to a stored order and save it. Returns the updated order,
+ * or null if it does not exist or `update` returns false.
+ */
+function updateOrder(userId: string, id: string, update: (order: LimitOrder) => boolean | void): LimitOrder | null {
+  const all = loadOrders();
+  const order = (all[userId] || []).find(o => o.id === id);
+  if (!order || update(order) === false) return null;
+
+  order.updatedAt = Date.now();
+  getStorage().setDocument(ORDERS_KEY, all);
+  return order;
+}
+
+/**
+ * A user's orders, newest first
+ */
+export function listOrders(userId: string, status?: OrderStatus): LimitOrder[] {
+  return (loadOrders()[userId] || [])
+    .filter(o => !status || o.status === status)
+    .sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export function getOrder(userId: string, id: string): LimitOrder | undefined {
+  return (loadOrders()[userId] || []).find(o => o.id === id);
+}
+
+/**
+ * Place an order. Returns null if the user already has the maximum number of open orders.
+ */
+export function createOrder(userId: string, order: NewOrder & { taskId?: string; prompt?: string }): LimitOrder | null {
+  const all = loadOrders();
+  const mine = all[userId] || [];
+  if (mine.filter(o => o.status === 'open').length >= MAX_OPEN_ORDERS_PER_USER) return null;
+
+  const now = Date.now();
+  const record: LimitOrder = {
+    id: `ord_${uuidv4()}`,
+    userId,
+    taskId: order.taskId,
+    side: order.side,
+    token: order.token,
+    condition: order.condition,
+    triggerPrice: order.triggerPrice,
+    from: order.from,
+    to: order.to,
+    amount: order.amount,
+    fraction: order.fraction,
+    usd: order.usd,
+    status: 'open',
+    prompt: order.prompt,
+    createdAt: now,
+    updatedAt: now,
+  };
+  all[userId] = [...mine, record];
+  getStorage().setDocument(ORDERS_KEY, all);
+  console.log(`[LimitOrders] ${userId.slice(0, 8)}... placed ${describeOrderKind(record)} on ${record.token} ${record.condition} $${record.triggerPrice} (${record.id})`);
+
+  notify(record);
+  return record;
+}
+
+/**
+ * Cancel an open order. Returns null if it does not exist or is no longer open.
+ */
+export function cancelOrder(userId: string, id: string): LimitOrder | null {
+  const order = updateOrder(userId, id, o => {
+    if (o.status !== 'open') return false;
+    o.status = 'cancelled';
+  });
+  if (order) {
+    console.log(`[LimitOrders] Cancelled ${id}`);
+    notify(order);
+  }
+  return order;
+}
+
+/**
+ * Input amount of a triggered order, in `from` units
+ */
+async function orderAmount(order: LimitOrder, price: number): Promise<string> {
+  if (order.amount !== undefined) return order.amount;
+  if (order.usd !== undefined) {
+    const fromPrice = order.from === order.token ? price : await priceSource(order.from);
+    if (!fromPrice) throw new Error(`No ${order.from} price to size $${order.usd} with`);
+    return (order.usd / fromPrice).toFixed(6);
+  }
+  return (getPaperBalance(order.userId, order.from) * (order.fraction || 0)).toFixed(6);
+}
+
+/**
+ * Swap a triggered order and record the outcome
+ */
+async function executeOrder(order: LimitOrder, price: number): Promise<LimitOrder | null> {
+  // Claim the order first so a cancel or an overlapping check cannot run it twice
+  const claimed = updateOrder(order.userId, order.id, o => {
+    if (o.status !== 'open') return false;
+    o.status = 'executing';
+    o.fill = { at: Date.now(), price };
+  });
+  if (!claimed) return null;
+  notify(claimed);
+
+  let fill: OrderFill = { at: Date.now(), price };
+  try {
+    const amount = await orderAmount(claimed, price);
+    fill.amountIn = amount;
+
+    if (!(parseFloat(amount) > 0)) {
+      fill.error = `No ${claimed.from} balance to ${claimed.side}`;
+    } else {
+      const action = await executeJupiterSwap(claimed.from, claimed.to, amount, claimed.userId);
+      if (action.status === 'failed') {
+        fill.error = action.details.error;
+      } else {
+        fill = {
+          ...fill,
+          amountOut: action.details.estimatedOutput,
+          route: action.details.route,
+          network: action.details.network,
+        };
+      }
+    }
+  } catch (err: any) {
+    fill.error = err.message;
+  }
+
+  const updated = updateOrder(order.userId, order.id, o => {
+    o.status = fill.error ? 'failed' : 'filled';
+    o.fill = fill;
+  });
+  if (!updated) return null;
+
+  const kind = describeOrderKind(updated);
+  const summary = fill.error
+    ? `❌ ${kind} ${updated.id} on ${updated.token} triggered at $${price} but failed: ${fill.error}`
+    : `✅ ${kind} ${updated.id} filled: ${fill.amountIn} ${updated.from} → ${fill.amountOut} ${updated.to} (${updated.token} at $${price})`;
+  console.log(`[LimitOrders] ${summary}`);
+  if (updated.taskId) {
+    logTaskMessage(updated.taskId, 'bankr', summary);
+  }
+  notify(updated);
+  return updated;
+}
+
+/**
+ * Check every open order against the price feed once and execute those whose
+ * condition holds. Returns the number of orders triggered.
+ */
+export async function checkOrders(): Promise<number> {
+  if (checking) return 0;
+  checking = true;
+  try {
+    const open = Object.values(loadOrders()).flat().filter(o => o.status === 'open');
+    if (open.length === 0) return 0;
+
+    // One price lookup per token
+    const prices: Map<string, number | null> = new Map();
+    for (const token of new Set(open.map(o => o.token))) {
+      try {
+        prices.set(token, await priceSource(token));
+      } catch (err: any) {
+        console.log(`[LimitOrders] No price for ${token}:`, err.message);
+        prices.set(token, null);
+      }
+    }
+
+    let triggered = 0;
+    for (const order of open) {
+      const price = prices.get(order.token);
+      if (price === null || price === undefined) continue;
+      const hit = order.condition === 'below' ? price <= order.triggerPrice : price >= order.triggerPrice;
+      if (hit && await executeOrder(order, price)) {
+        triggered++;
+      }
+    }
+    return triggered;
+  } finally {
+    checking = false;
+  }
+}
+
+/**
+ * Start the price-watch loop (every LIMIT_ORDER_POLL_MS). Orders left executing
+ * by a crash are marked failed rather than swapped a second time.
+ */
+export function startPriceWatch(): void {
+  if (watchTimer) return;
+
+  for (const order of Object.values(loadOrders()).flat()) {
+    if (order.status !== 'executing') continue;
+    const updated = updateOrder(order.userId, order.id, o => {
+      o.status = 'failed';
+      o.fill = { ...(o.fill || { at: Date.now(), price: 0 }), error: 'Interrupted by a server restart; check balances before placing it again' };
+    });
+    if (updated) notify(updated);
+  }
+
+  watchTimer = setInterval(() => {
+    checkOrders().catch(err => console.error('[LimitOrders] Price check failed:', err.message));
+  }, config.limitOrders.pollMs);
+  watchTimer.unref?.();
+  console.log(`[LimitOrders] Watching prices every ${config.limitOrders.pollMs / 1000}s`);
+}
+
+export function stopPriceWatch(): void {
+  if (watchTimer) {
+    clearInterval(watchTimer);
+    watchTimer = null;
+  }
+}
+
+export default {
+  isOrderPrompt,
+  parseOrderCommand,
+  validateOrder,
+  describeOrderKind,
+  listOrders,
+  getOrder,
+  createOrder,
+  cancelOrder,
+  checkOrders,
+  onOrderUpdate,
+  setPriceSource,
+  startPriceWatch,
+  stopPriceWatch,
+};
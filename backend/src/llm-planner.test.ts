@@ -0,0 +1,119 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from '@jest/globals';
+import { createHttpBackend, planWithLLM, planWorkflowWithLLM, setLLMBackend } from './llm-planner';
+
+// Local stand-in for the LLM: answers every completion with the next queued reply
+let replies: Array<{ status?: number; body: any }> = [];
+const requests: any[] = [];
+
+const server = http.createServer((req, res) => {
+  let raw = '';
+  req.on('data', chunk => (raw += chunk));
+  req.on('end', () => {
+    requests.push(JSON.parse(raw));
+    const reply = replies.shift() || { status: 500, body: { error: 'no reply queued' } };
+    res.writeHead(reply.status || 200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(reply.body));
+  });
+});
+
+const answer = (plan: any) => replies.push({ body: { text: JSON.stringify(plan) } });
+
+const SPECIALISTS = {
+  aura: 'Social sentiment',
+  magos: 'Market analysis',
+  bankr: 'Trading',
+  scribe: 'Summaries',
+};
+
+beforeAll(async () => {
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  setLLMBackend(createHttpBackend(`http://127.0.0.1:${port}/complete`));
+});
+
+afterAll(async () => {
+  setLLMBackend(null);
+  await new Promise(resolve => server.close(resolve));
+});
+
+beforeEach(() => {
+  replies = [];
+  requests.length = 0;
+});
+
+describe('planWorkflowWithLLM', () => {
+  it('turns the steps into a workflow with parallel branches and a fan-in', async () => {
+    answer({
+      steps: [
+        { id: 'sentiment', specialist: 'aura', prompt: 'Sentiment for SOL' },
+        { id: 'analysis', specialist: 'magos', prompt: 'Analyze SOL' },
+        { id: 'summary', specialist: 'scribe', prompt: 'Summarize {{sentiment.summary}} and {{analysis.summary}}', dependsOn: ['sentiment', 'analysis'] },
+      ],
+      confidence: 0.8,
+      reasoning: 'Research in parallel, then summarize',
+    });
+
+    const result = await planWorkflowWithLLM('How is SOL doing?', { specialists: SPECIALISTS });
+
+    expect(result.plan.nodes.map(n => n.id)).toEqual(['sentiment', 'analysis', 'summary']);
+    expect(result.plan.nodes[0].dependsOn).toBeUndefined();
+    expect(result.plan.nodes[2].dependsOn).toEqual(['sentiment', 'analysis']);
+    expect(result.confidence).toBe(0.8);
+    expect(requests[0].prompt).toBe('How is SOL doing?');
+    expect(requests[0].systemPrompt).toContain('- magos: Market analysis');
+  });
+
+  it('reads a plan wrapped in a markdown code block', async () => {
+    replies.push({ body: { text: '```json\n{"steps":[{"id":"trade","specialist":"bankr","prompt":"buy 0.1 SOL of BONK"}],"confidence":0.9}\n```' } });
+
+    const result = await planWorkflowWithLLM('buy BONK', { specialists: SPECIALISTS });
+
+    expect(result.plan.nodes).toEqual([{ id: 'trade', specialist: 'bankr', prompt: 'buy 0.1 SOL of BONK', dependsOn: undefined }]);
+  });
+
+  it('rejects specialists outside the allowed set (e.g. not hired)', async () => {
+    answer({ steps: [{ id: 'trade', specialist: 'bankr', prompt: 'buy BONK' }], confidence: 0.9 });
+
+    await expect(planWorkflowWithLLM('buy BONK', { specialists: { aura: 'Social sentiment', scribe: 'Summaries' } }))
+      .rejects.toThrow(/Invalid plan/);
+  });
+
+  it('rejects dependencies on steps that do not exist', async () => {
+    answer({ steps: [{ id: 'summary', specialist: 'scribe', prompt: '{{research.summary}}', dependsOn: ['research'] }] });
+
+    await expect(planWorkflowWithLLM('summarize', { specialists: SPECIALISTS })).rejects.toThrow(/Invalid plan/);
+  });
+
+  it('fails when the backend does', async () => {
+    replies.push({ status: 503, body: { error: 'overloaded' } });
+
+    await expect(planWorkflowWithLLM('anything', { specialists: SPECIALISTS })).rejects.toThrow(/LLM backend error: 503/);
+  });
+
+  it('passes the user\'s standing instructions to the planner', async () => {
+    answer({ steps: [{ id: 'research', specialist: 'aura', prompt: 'Sentiment for SOL' }] });
+
+    await planWorkflowWithLLM('SOL sentiment', { specialists: SPECIALISTS, instructions: { aura: 'Only use X posts' } });
+
+    expect(requests[0].systemPrompt).toContain('- aura: "Only use X posts"');
+  });
+});
+
+describe('planWithLLM', () => {
+  it('returns the specialist the model picks', async () => {
+    answer({ specialist: 'magos', confidence: 0.9, reasoning: 'Price question' });
+
+    await expect(planWithLLM('Where is SOL heading?')).resolves.toEqual({ specialist: 'magos', confidence: 0.9, reasoning: 'Price question' });
+  });
+
+  it('falls back to scribe when the backend fails', async () => {
+    replies.push({ status: 500, body: { error: 'down' } });
+
+    const result = await planWithLLM('Where is SOL heading?');
+
+    expect(result.specialist).toBe('scribe');
+    expect(result.reasoning).toMatch(/LLM planning failed/);
+  });
+});
@@ -3,7 +3,9 @@
  * Alternative to RegExp-based routing in dispatcher.ts
  */
 
-import { SpecialistType } from './types';
+import { SpecialistType, WorkflowNode, WorkflowPlan } from './types';
+import { validateWorkflow } from './workflow';
+import { listSpecialists } from './specialists/registry';
 
 interface PlanningResult {
   specialist: SpecialistType;
@@ -11,18 +13,109 @@ interface PlanningResult {
   reasoning: string;
 }
 
+export interface WorkflowPlanningResult {
+  plan: WorkflowPlan;
+  confidence: number;
+  reasoning: string;
+}
+
+export interface WorkflowPlanningOptions {
+  /** Specialists the planner may use, with a one-line description each */
+  specialists: Record<string, string>;
+  /** The user's custom instructions per specialist, reflected in each step's prompt */
+  instructions?: Record<string, string>;
+}
+
+/**
+ * Completion backend used by the planner.
+ * Returns the raw text of the model's answer (JSON is extracted by the caller).
+ */
+export interface LLMBackend {
+  name: string;
+  complete(systemPrompt: string, userPrompt: string, maxOutputTokens: number): Promise<string>;
+}
+
+/**
+ * Gemini Flash backend (default)
+ */
+export const geminiBackend: LLMBackend = {
+  name: 'gemini',
+  complete: callGeminiFlash,
+};
+
+/**
+ * Backend that POSTs { systemPrompt, prompt, maxOutputTokens } to an HTTP endpoint
+ * and reads { text } (or any JSON body) back. Used to point the planner at a local stub.
+ */
+export function createHttpBackend(url: string): LLMBackend {
+  return {
+    name: `http:${url}`,
+    async complete(systemPrompt: string, userPrompt: string, maxOutputTokens: number): Promise<string> {
+      const fetch = (await import('node-fetch')).default;
+
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ systemPrompt, prompt: userPrompt, maxOutputTokens }),
+      });
+
+      if (!response.ok) {
+        const error = await response.text();
+        throw new Error(`LLM backend error: ${response.status} ${error}`);
+      }
+
+      const data: any = await response.json();
+      return typeof data?.text === 'string' ? data.text : JSON.stringify(data);
+    },
+  };
+}
+
+let llmBackend: LLMBackend | null = null;
+
+/**
+ * Override the planner backend (pass null to restore the default)
+ */
+export function setLLMBackend(backend: LLMBackend | null): void {
+  llmBackend = backend;
+}
+
+/**
+ * Active planner backend: explicit override, then LLM_PLANNER_URL, then Gemini
+ */
+export function getLLMBackend(): LLMBackend {
+  if (llmBackend) return llmBackend;
+  if (process.env.LLM_PLANNER_URL) return createHttpBackend(process.env.LLM_PLANNER_URL);
+  return geminiBackend;
+}
+
+/**
+ * System prompt section listing the user's custom instructions (empty if there are none)
+ */
+function instructionsSection(instructions: Record<string, string> = {}, specialists?: string[]): string {
+  const entries = Object.entries(instructions)
+    .filter(([id, text]) => text && (!specialists || specialists.includes(id)));
+  if (entries.length === 0) return '';
+
+  return `\n\nThe user has given these standing instructions to specialists:\n${entries
+    .map(([id, text]) => `- ${id}: ${JSON.stringify(text)}`)
+    .join('\n')}`;
+}
+
 /**
  * Plan routing using Gemini Flash LLM
  */
-export async function planWithLLM(prompt: string): Promise<PlanningResult> {
+export async function planWithLLM(prompt: string, instructions?: Record<string, string>): Promise<PlanningResult> {
+  const candidates = listSpecialists().filter(s => s.id !== 'general');
+  const specialistList = candidates
+    .map(s => `- ${s.id}: ${s.description}${s.capabilities.length > 0 ? ` (${s.capabilities.join(', ')})` : ''}`)
+    .join('\n');
+
   const systemPrompt = `You are a routing agent for Hivemind Protocol, an AI agent orchestration system.
 
 Available specialists:
-- magos: Market analysis, price predictions, technical analysis, risk assessment
-- aura: Social sentiment analysis, trending topics, influencer tracking, FOMO/FUD detection
-- bankr: Wallet operations (transfers, swaps, balances), Solana transactions, DeFi operations
-- scribe: General assistant, summarization, explanations, documentation
-- seeker: Web research, news lookup, search queries, current events
+${specialistList}${instructionsSection(instructions, candidates.map(s => s.id))}
 
 Your task: Analyze the user's prompt and select the BEST specialist to handle it.
 
@@ -40,15 +133,14 @@ Rules:
 - Be decisive - avoid low confidence scores unless truly uncertain`;
 
   try {
-    // Use Gemini Flash for fast, cheap routing decisions
-    const response = await callGeminiFlash(systemPrompt, prompt);
+    // Use Gemini Flash (or the configured backend) for fast, cheap routing decisions
+    const response = await getLLMBackend().complete(systemPrompt, prompt, 200);
     
     // Parse JSON response
-    const parsed = JSON.parse(response);
+    const parsed = JSON.parse(extractJson(response));
     
     // Validate specialist name
-    const validSpecialists: SpecialistType[] = ['magos', 'aura', 'bankr', 'scribe', 'seeker'];
-    if (!validSpecialists.includes(parsed.specialist)) {
+    if (!candidates.some(s => s.id === parsed.specialist)) {
       console.warn(`[LLM Planner] Invalid specialist "${parsed.specialist}", falling back to scribe`);
       return {
         specialist: 'scribe',
@@ -73,11 +165,98 @@ Rules:
   }
 }
 
+/**
+ * Plan a multi-step workflow using the LLM.
+ * Steps without dependencies run in parallel; later steps can reference earlier
+ * outputs with {{<stepId>.summary}}. Throws if the plan is unusable so the caller
+ * can fall back to deterministic routing.
+ */
+export async function planWorkflowWithLLM(
+  prompt: string,
+  options: WorkflowPlanningOptions
+): Promise<WorkflowPlanningResult> {
+  const allowed = Object.keys(options.specialists);
+  if (allowed.length === 0) {
+    throw new Error('No specialists available for planning');
+  }
+
+  const specialistList = allowed
+    .map(id => `- ${id}: ${options.specialists[id]}`)
+    .join('\n');
+
+  const systemPrompt = `You are the planning agent for Hivemind Protocol, an AI agent orchestration system.
+
+Available specialists:
+${specialistList}${instructionsSection(options.instructions, allowed)}
+
+Your task: Break the user's request into the smallest set of steps, each handled by ONE specialist.
+
+Return ONLY a JSON object in this exact format:
+{
+  "steps": [
+    { "id": "research", "specialist": "name", "prompt": "Sub-task for this specialist" },
+    { "id": "summary", "specialist": "name", "prompt": "Summarize: {{research.summary}}", "dependsOn": ["research"] }
+  ],
+  "confidence": 0.9,
+  "reasoning": "Brief explanation of the plan"
+}
+
+Rules:
+- Only use the specialists listed above
+- Use a single step when one specialist can answer the whole request
+- Steps with no "dependsOn" run in parallel; list a step in "dependsOn" only when its output is needed
+- A step may use an earlier step's output with {{<id>.summary}} or its first token symbol with {{<id>.tokens.0}}, and must depend on that step
+- Use {{prompt}} to include the original request verbatim
+- Write each step's prompt so it respects that specialist's standing instructions, if any
+- Step ids are short lowercase words; confidence is 0.0 to 1.0`;
+
+  const response = await getLLMBackend().complete(systemPrompt, prompt, 800);
+  const parsed = JSON.parse(extractJson(response));
+
+  if (!Array.isArray(parsed.steps) || parsed.steps.length === 0) {
+    throw new Error('Plan contains no steps');
+  }
+
+  const nodes: WorkflowNode[] = parsed.steps.map((step: any, index: number) => ({
+    id: String(step.id || `step${index + 1}`),
+    specialist: String(step.specialist || '').toLowerCase(),
+    prompt: String(step.prompt || ''),
+    dependsOn: Array.isArray(step.dependsOn) && step.dependsOn.length > 0 ? step.dependsOn.map(String) : undefined,
+  }));
+
+  const plan: WorkflowPlan = {
+    nodes,
+    description: parsed.reasoning || undefined,
+  };
+
+  const errors = validateWorkflow(plan, specialist => allowed.includes(specialist));
+  if (errors.length > 0) {
+    throw new Error(`Invalid plan: ${errors.join('; ')}`);
+  }
+
+  return {
+    plan,
+    confidence: Math.min(1.0, Math.max(0.0, Number(parsed.confidence) || 0)),
+    reasoning: parsed.reasoning || 'No reasoning provided',
+  };
+}
+
+/**
+ * Extract the JSON object from a model response (removes markdown code blocks if present)
+ */
+function extractJson(text: string): string {
+  const jsonMatch = text.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) {
+    throw new Error(`Could not parse JSON from response: ${text}`);
+  }
+  return jsonMatch[0];
+}
+
 /**
  * Call Gemini Flash API
  * Uses the same Gemini configuration as other specialists
  */
-async function callGeminiFlash(systemPrompt: string, userPrompt: string): Promise<string> {
+async function callGeminiFlash(systemPrompt: string, userPrompt: string, maxOutputTokens: number = 200): Promise<string> {
   const apiKey = process.env.GEMINI_API_KEY;
   
   if (!apiKey) {
@@ -100,7 +279,7 @@ async function callGeminiFlash(systemPrompt: string, userPrompt: string): Promis
     ],
     generationConfig: {
       temperature: 0.2, // Low temperature for consistent routing
-      maxOutputTokens: 200,
+      maxOutputTokens,
       topP: 0.8,
     }
   };
@@ -125,15 +304,13 @@ async function callGeminiFlash(systemPrompt: string, userPrompt: string): Promis
     throw new Error('No response from Gemini');
   }
   
-  // Extract JSON from response (remove markdown code blocks if present)
-  const jsonMatch = text.match(/\{[\s\S]*\}/);
-  if (!jsonMatch) {
-    throw new Error(`Could not parse JSON from response: ${text}`);
-  }
-  
-  return jsonMatch[0];
+  return text;
 }
 
 export default {
-  planWithLLM
+  planWithLLM,
+  planWorkflowWithLLM,
+  setLLMBackend,
+  getLLMBackend,
+  createHttpBackend,
 };
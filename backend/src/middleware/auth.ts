@@ -1,9 +1,33 @@
 import { Request, Response, NextFunction } from 'express';
+import { ApiKeyScope } from '../types';
+import { authenticateApiKey, hasScope } from '../api-keys';
+import { authenticateSession } from '../wallet-auth';
 
 /**
- * Simple API key authentication middleware.
- * Checks for X-API-Key header or apiKey query parameter.
- * Valid keys are loaded from process.env.API_KEYS (comma-separated).
+ * Who a request is from, set on req.user by authMiddleware
+ */
+export interface AuthUser {
+  id: string;
+  scopes: ApiKeyScope[];
+  wallet?: string;          // Wallet sessions only
+  sessionId?: string;       // Wallet sessions only
+  keyId?: string;           // API keys only
+}
+
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  namespace Express {
+    interface Request {
+      user?: AuthUser;
+    }
+  }
+}
+
+/**
+ * Authentication middleware.
+ * Accepts a wallet session (Authorization: Bearer <token>, see wallet-auth.ts) or
+ * the X-API-Key header, checked against the hashed key store (see api-keys.ts).
+ * Keys from process.env.API_KEYS / ADMIN_API_KEYS are imported on first use.
  */
 export const authMiddleware = (req: Request, res: Response, next: NextFunction) => {
   // Always allow /health
@@ -14,25 +38,52 @@ export const authMiddleware = (req: Request, res: Response, next: NextFunction)
   // x402-gated specialist endpoints bypass API key auth (protected by payment instead)
   if (req.path.startsWith('/api/specialist/')) {
     // Set a placeholder user for the request
-    (req as any).user = { id: 'x402-payer' };
+    req.user = { id: 'x402-payer', scopes: [] };
+    return next();
+  }
+
+  // Wallet sessions from Sign-In With Solana; the wallet address is the user id
+  const authorization = req.headers.authorization;
+  if (authorization?.startsWith('Bearer ')) {
+    const session = authenticateSession(authorization.slice('Bearer '.length).trim());
+    if (!session) {
+      return res.status(401).json({ error: 'Unauthorized: Invalid or expired session' });
+    }
+    req.user = {
+      id: session.userId,
+      wallet: session.wallet,
+      sessionId: session.id,
+      scopes: session.scopes,
+    };
     return next();
   }
 
   // Security: Only accept API key from headers, not query params (prevents logging exposure)
   const apiKey = req.headers['x-api-key'] as string;
-  const apiKeysEnv = process.env.API_KEYS || '';
-  const validKeys = apiKeysEnv.split(',').map(k => k.trim()).filter(k => k.length > 0);
+  const record = authenticateApiKey(apiKey);
 
-  if (!apiKey || !validKeys.includes(apiKey)) {
-    return res.status(401).json({ 
-      error: 'Unauthorized: Invalid or missing API Key' 
+  if (!record) {
+    return res.status(401).json({
+      error: 'Unauthorized: Invalid or missing API Key'
     });
   }
 
   // Attach user context to request for downstream filtering
-  (req as any).user = {
-    id: apiKey // Use the key itself as a simple userId for this hackathon
+  req.user = {
+    id: record.userId,
+    keyId: record.id,
+    scopes: record.scopes,
   };
 
   next();
 };
+
+/**
+ * Reject requests whose API key lacks `scope` ('admin' keys pass every check)
+ */
+export const requireScope = (scope: ApiKeyScope) => (req: Request, res: Response, next: NextFunction) => {
+  if (!hasScope(req.user?.scopes, scope)) {
+    return res.status(403).json({ error: `API key lacks the ${scope} scope` });
+  }
+  next();
+};
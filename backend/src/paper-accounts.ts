@@ -0,0 +1,186 @@
+/**
+ * Paper Accounts - Per-user simulated balances for bankr
+ *
+ * Every user trades against their own paper account instead of one shared
+ * simulated wallet, so teammates can demo and test side by side. Accounts
+ * start with PAPER_STARTING_BALANCES (or balances chosen on reset) and keep
+ * their full trade history in storage.
+ */
+
+import config from './config';
+import { getStorage, PaperTrade } from './storage';
+
+export interface PaperAccount {
+  userId: string;
+  balances: Record<string, number>;
+  startingBalances: Record<string, number>;
+  createdAt: number;
+  resetAt?: number;
+  openingPrices?: Record<string, number>;  // USD prices of the starting balances, see recordOpeningPrices
+}
+
+const ACCOUNTS_KEY = 'paper-accounts';
+const MAX_STARTING_BALANCE = 1_000_000_000;
+
+function loadAccounts(): Record<string, PaperAccount> {
+  return getStorage().getDocument<Record<string, PaperAccount>>(ACCOUNTS_KEY) || {};
+}
+
+function newAccount(userId: string, startingBalances: Record<string, number>): PaperAccount {
+  return {
+    userId,
+    balances: { ...startingBalances },
+    startingBalances: { ...startingBalances },
+    createdAt: Date.now(),
+  };
+}
+
+/**
+ * Validate starting balances for a reset, returning a list of problems
+ */
+export function validateStartingBalances(balances: any): string[] {
+  if (!balances || typeof balances !== 'object' || Array.isArray(balances)) {
+    return ['balances must be an object of token -> amount'];
+  }
+  const errors: string[] = [];
+  for (const [token, amount] of Object.entries(balances)) {
+    if (!/^[A-Za-z0-9]{1,12}$/.test(token)) {
+      errors.push(`Invalid token symbol: ${token}`);
+    } else if (typeof amount !== 'number' || !Number.isFinite(amount) || amount < 0 || amount > MAX_STARTING_BALANCE) {
+      errors.push(`${token} must be a number between 0 and ${MAX_STARTING_BALANCE}`);
+    }
+  }
+  return errors;
+}
+
+/**
+ * A user's paper account, opened with the configured starting balances on first use
+ */
+export function getPaperAccount(userId: string): PaperAccount {
+  const storage = getStorage();
+  return storage.transaction(() => {
+    const all = loadAccounts();
+    if (!all[userId]) {
+      all[userId] = newAccount(userId, config.paperTrading.startingBalances);
+      storage.setDocument(ACCOUNTS_KEY, all);
+      console.log(`[PaperAccounts] Opened account for ${userId.slice(0, 8)}...`);
+    }
+    return all[userId];
+  });
+}
+
+export function getPaperBalance(userId: string, token: string): number {
+  return getPaperAccount(userId).balances[token.toUpperCase()] || 0;
+}
+
+/**
+ * Apply `update` to a user's balances and record the trade, atomically.
+ * Returns null (and changes nothing) if the account cannot cover `amountIn` of `trade.from`.
+ */
+function applyTrade(trade: Omit<PaperTrade, 'timestamp'>, update: (balances: Record<string, number>) => void): PaperAccount | null {
+  const storage = getStorage();
+  return storage.transaction(() => {
+    const all = loadAccounts();
+    const account = all[trade.userId] || newAccount(trade.userId, config.paperTrading.startingBalances);
+    if ((account.balances[trade.from] || 0) < trade.amountIn) {
+      console.log(`[PaperAccounts] Insufficient ${trade.from} for ${trade.userId.slice(0, 8)}...: have ${account.balances[trade.from] || 0}, need ${trade.amountIn}`);
+      return null;
+    }
+
+    update(account.balances);
+    all[trade.userId] = account;
+    storage.setDocument(ACCOUNTS_KEY, all);
+    storage.addPaperTrade({ ...trade, timestamp: Date.now() });
+    return account;
+  });
+}
+
+/**
+ * Swap `amountIn` of `from` for `amountOut` of `to`. Returns null if the balance is too low.
+ * `valueUsd` is the swap's USD value at execution, used for cost basis (see portfolio.ts).
+ */
+export function applyPaperSwap(
+  userId: string,
+  from: string,
+  to: string,
+  amountIn: number,
+  amountOut: number,
+  route?: string,
+  valueUsd?: number
+): PaperAccount | null {
+  const fromToken = from.toUpperCase();
+  const toToken = to.toUpperCase();
+  return applyTrade({ userId, type: 'swap', from: fromToken, to: toToken, amountIn, amountOut, route, valueUsd }, balances => {
+    balances[fromToken] = (balances[fromToken] || 0) - amountIn;
+    balances[toToken] = (balances[toToken] || 0) + amountOut;
+  });
+}
+
+/**
+ * Send `amount` of `token` out of the account. Returns null if the balance is too low.
+ */
+export function applyPaperTransfer(userId: string, token: string, amount: number, recipient: string): PaperAccount | null {
+  const symbol = token.toUpperCase();
+  return applyTrade({ userId, type: 'transfer', from: symbol, to: recipient, amountIn: amount, amountOut: 0 }, balances => {
+    balances[symbol] = (balances[symbol] || 0) - amount;
+  });
+}
+
+/**
+ * Restore a user's starting balances (or new ones) and clear their trade history
+ */
+export function resetPaperAccount(userId: string, startingBalances?: Record<string, number>): PaperAccount {
+  const balances = startingBalances
+    ? Object.fromEntries(Object.entries(startingBalances).map(([token, amount]) => [token.toUpperCase(), amount]))
+    : getPaperAccount(userId).startingBalances;
+
+  const storage = getStorage();
+  const account = { ...newAccount(userId, balances), resetAt: Date.now() };
+  storage.transaction(() => {
+    const all = loadAccounts();
+    all[userId] = { ...account, createdAt: all[userId]?.createdAt ?? account.createdAt };
+    storage.setDocument(ACCOUNTS_KEY, all);
+    storage.deletePaperTrades(userId);
+  });
+  console.log(`[PaperAccounts] Reset account for ${userId.slice(0, 8)}...`);
+  return getPaperAccount(userId);
+}
+
+/**
+ * Record the USD prices the starting balances are valued at. Accounts open
+ * synchronously, so prices are filled in the first time the portfolio is valued;
+ * prices already recorded are kept.
+ */
+export function recordOpeningPrices(userId: string, prices: Record<string, number>): PaperAccount {
+  const storage = getStorage();
+  return storage.transaction(() => {
+    const account = getPaperAccount(userId);
+    const all = loadAccounts();
+    all[userId] = { ...account, openingPrices: { ...prices, ...account.openingPrices } };
+    storage.setDocument(ACCOUNTS_KEY, all);
+    return all[userId];
+  });
+}
+
+/**
+ * A user's trades, newest first
+ */
+export function listPaperTrades(userId: string, options: { limit?: number; offset?: number } = {}): PaperTrade[] {
+  return getStorage().listPaperTrades(userId, options);
+}
+
+export function countPaperTrades(userId: string): number {
+  return getStorage().countPaperTrades(userId);
+}
+
+export default {
+  getPaperAccount,
+  getPaperBalance,
+  applyPaperSwap,
+  applyPaperTransfer,
+  resetPaperAccount,
+  recordOpeningPrices,
+  listPaperTrades,
+  countPaperTrades,
+  validateStartingBalances,
+};
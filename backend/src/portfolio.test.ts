@@ -0,0 +1,153 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+
+jest.mock('./specialists/tools', () => ({ getTokenPrice: jest.fn() }));
+
+import { getTokenPrice } from './specialists/tools';
+import { applyPaperSwap, applyPaperTransfer, resetPaperAccount } from './paper-accounts';
+import { estimateSwapValueUsd, getPortfolio, isPortfolioPrompt, parseCostBasisMethod } from './portfolio';
+
+const priceOf = getTokenPrice as jest.MockedFunction<typeof getTokenPrice>;
+
+// Current prices by token; a token listed in `mocked` comes back as fallback figures
+let prices: Record<string, number>;
+let mocked: Set<string>;
+
+let userCount = 0;
+const newUser = () => `portfolio-user-${++userCount}`;
+
+beforeEach(() => {
+  prices = { SOL: 150, BONK: 0.00002 };
+  mocked = new Set();
+  priceOf.mockReset();
+  priceOf.mockImplementation(async token => ({
+    token,
+    price: prices[token] ?? 1,
+    change24h: 0,
+    lastUpdated: new Date(),
+    ...(mocked.has(token) ? { mock: true } : {}),
+  }));
+});
+
+/**
+ * Buys 3 SOL at $100 and 2 SOL at $200, then sells 3 SOL at $180
+ */
+function tradeSol(): string {
+  const userId = newUser();
+  resetPaperAccount(userId, { USDC: 1000 });
+  applyPaperSwap(userId, 'USDC', 'SOL', 300, 3);
+  applyPaperSwap(userId, 'USDC', 'SOL', 400, 2);
+  applyPaperSwap(userId, 'SOL', 'USDC', 3, 540, undefined, 540);
+  return userId;
+}
+
+describe('getPortfolio', () => {
+  it('sells the oldest lots first under FIFO', async () => {
+    const portfolio = await getPortfolio(tradeSol(), 'fifo');
+    const sol = portfolio.positions.find(p => p.token === 'SOL')!;
+
+    expect(sol).toMatchObject({ amount: 2, costBasisUsd: 400, averageCostUsd: 200, valueUsd: 300, unrealizedPnlUsd: -100, realizedPnlUsd: 240 });
+    expect(sol.unrealizedPnlPct).toBeCloseTo(-25);
+  });
+
+  it('sells at the running average cost under average cost', async () => {
+    const portfolio = await getPortfolio(tradeSol(), 'average');
+    const sol = portfolio.positions.find(p => p.token === 'SOL')!;
+
+    expect(sol.amount).toBeCloseTo(2);
+    expect(sol.costBasisUsd).toBeCloseTo(280);
+    expect(sol.averageCostUsd).toBeCloseTo(140);
+    expect(sol.realizedPnlUsd).toBeCloseTo(120);
+    expect(sol.unrealizedPnlUsd).toBeCloseTo(20);
+  });
+
+  it('reaches the same total PnL either way', async () => {
+    const userId = tradeSol();
+    const fifo = await getPortfolio(userId, 'fifo');
+    const average = await getPortfolio(userId, 'average');
+
+    expect(fifo.totals.totalPnlUsd).toBeCloseTo(140);
+    expect(average.totals.totalPnlUsd).toBeCloseTo(140);
+    expect(fifo.totals.totalPnlPct).toBeCloseTo(14);
+    expect(fifo.totals.valueUsd).toBeCloseTo(1140);
+    expect(fifo.startingValueUsd).toBe(1000);
+    expect(fifo.tradeCount).toBe(3);
+    expect(fifo.positions.map(p => p.token)).toEqual(['USDC', 'SOL']);
+  });
+
+  it('keeps starting balances at the price they were first valued at', async () => {
+    const userId = newUser();
+    resetPaperAccount(userId, { SOL: 10 });
+    prices.SOL = 100;
+    expect((await getPortfolio(userId)).totals.unrealizedPnlUsd).toBe(0);
+
+    prices.SOL = 120;
+    const later = await getPortfolio(userId);
+    expect(later.startingValueUsd).toBe(1000);
+    expect(later.positions[0]).toMatchObject({ costBasisUsd: 1000, valueUsd: 1200, unrealizedPnlUsd: 200 });
+  });
+
+  it('prices a swap with no recorded value at the opening price of what it spent', async () => {
+    const userId = newUser();
+    resetPaperAccount(userId, { SOL: 10 });
+    prices.SOL = 100;
+    await getPortfolio(userId);
+
+    applyPaperSwap(userId, 'SOL', 'BONK', 1, 5_000_000);
+    prices.SOL = 150;
+    const bonk = (await getPortfolio(userId)).positions.find(p => p.token === 'BONK')!;
+    expect(bonk.costBasisUsd).toBe(100);
+    expect(bonk.valueUsd).toBeCloseTo(100);
+  });
+
+  it('removes transfers out at cost without realizing PnL', async () => {
+    const userId = newUser();
+    resetPaperAccount(userId, { USDC: 1000 });
+    applyPaperSwap(userId, 'USDC', 'SOL', 300, 3);
+    applyPaperTransfer(userId, 'SOL', 1, 'friend');
+
+    const sol = (await getPortfolio(userId)).positions.find(p => p.token === 'SOL')!;
+    expect(sol).toMatchObject({ amount: 2, costBasisUsd: 200, realizedPnlUsd: 0 });
+  });
+
+  it('flags positions valued at fallback prices and does not record them as opening prices', async () => {
+    const userId = newUser();
+    resetPaperAccount(userId, { SOL: 1 });
+    mocked.add('SOL');
+    expect((await getPortfolio(userId)).positions[0].mockPrice).toBe(true);
+
+    mocked.clear();
+    prices.SOL = 90;
+    const portfolio = await getPortfolio(userId);
+    expect(portfolio.positions[0].mockPrice).toBeUndefined();
+    expect(portfolio.startingValueUsd).toBe(90);
+  });
+});
+
+describe('estimateSwapValueUsd', () => {
+  it('values a swap from its stablecoin side, then from the live price', async () => {
+    expect(await estimateSwapValueUsd('usdc', 25, 'SOL', 0.2)).toBe(25);
+    expect(await estimateSwapValueUsd('SOL', 0.2, 'USDT', 30)).toBe(30);
+    expect(await estimateSwapValueUsd('SOL', 2, 'BONK', 1)).toBe(300);
+    expect(priceOf).toHaveBeenCalledTimes(1);
+  });
+
+  it('leaves the value unset when only fallback prices are available', async () => {
+    mocked.add('SOL');
+    expect(await estimateSwapValueUsd('SOL', 2, 'BONK', 1)).toBeUndefined();
+
+    priceOf.mockRejectedValueOnce(new Error('offline'));
+    expect(await estimateSwapValueUsd('BONK', 1, 'SOL', 1)).toBeUndefined();
+  });
+});
+
+describe('portfolio prompts', () => {
+  it('recognises portfolio questions and the cost basis method', () => {
+    expect(isPortfolioPrompt('show my portfolio')).toBe(true);
+    expect(isPortfolioPrompt("what's my PnL")).toBe(true);
+    expect(isPortfolioPrompt('how am I doing')).toBe(true);
+    expect(isPortfolioPrompt('swap 1 SOL for BONK')).toBe(false);
+
+    expect(parseCostBasisMethod('portfolio using average cost')).toBe('average');
+    expect(parseCostBasisMethod('portfolio')).toBe('fifo');
+  });
+});
@@ -0,0 +1,257 @@
+/**
+ * Portfolio - Positions, cost basis and PnL for bankr paper accounts
+ *
+ * Replays a user's paper trades over their starting balances. Every swap is a
+ * sale of the token spent and a purchase of the token received at the swap's
+ * USD value; transfers out remove holdings at cost. Open positions are valued
+ * at current prices from getTokenPrice.
+ */
+
+import { getPaperAccount, listPaperTrades, recordOpeningPrices } from './paper-accounts';
+import { getTokenPrice } from './specialists/tools';
+import { PaperTrade } from './storage';
+
+export type CostBasisMethod = 'fifo' | 'average';
+
+export const COST_BASIS_METHODS: CostBasisMethod[] = ['fifo', 'average'];
+
+export interface PortfolioPosition {
+  token: string;
+  amount: number;
+  costBasisUsd: number;
+  averageCostUsd: number;
+  priceUsd: number;
+  valueUsd: number;
+  unrealizedPnlUsd: number;
+  unrealizedPnlPct: number;
+  realizedPnlUsd: number;
+  mockPrice?: boolean;       // CoinGecko was unavailable, figures are rough
+}
+
+export interface Portfolio {
+  userId: string;
+  method: CostBasisMethod;
+  positions: PortfolioPosition[];
+  totals: {
+    valueUsd: number;
+    costBasisUsd: number;
+    realizedPnlUsd: number;
+    unrealizedPnlUsd: number;
+    totalPnlUsd: number;
+    totalPnlPct: number;     // Against the starting balances' value
+  };
+  startingValueUsd: number;
+  tradeCount: number;
+  valuedAt: number;
+}
+
+interface Lot {
+  amount: number;
+  costUsd: number;
+}
+
+interface Ledger {
+  lots: Record<string, Lot[]>;                 // Oldest first; one merged lot per token for 'average'
+  realized: Record<string, number>;
+}
+
+export const STABLECOINS = new Set(['USDC', 'USDT']);
+
+// Dust left by float arithmetic
+const EPSILON = 1e-9;
+
+/**
+ * USD value of a swap from its stablecoin side, if it has one
+ */
+function stableValueUsd(from: string, amountIn: number, to: string, amountOut: number): number | undefined {
+  if (STABLECOINS.has(from.toUpperCase())) return amountIn;
+  if (STABLECOINS.has(to.toUpperCase())) return amountOut;
+  return undefined;
+}
+
+/**
+ * USD value of a swap when it executes, recorded on the paper trade for cost basis.
+ * Undefined when only mock prices are available; the portfolio then falls back to current prices.
+ */
+export async function estimateSwapValueUsd(from: string, amountIn: number, to: string, amountOut: number): Promise<number | undefined> {
+  const stable = stableValueUsd(from, amountIn, to, amountOut);
+  if (stable !== undefined) return stable;
+
+  try {
+    const price = await getTokenPrice(from);
+    return price.mock ? undefined : price.price * amountIn;
+  } catch (error: any) {
+    console.log(`[Portfolio] Could not price ${from}:`, error.message);
+    return undefined;
+  }
+}
+
+function buy(ledger: Ledger, token: string, amount: number, costUsd: number, method: CostBasisMethod): void {
+  const lots = (ledger.lots[token] = ledger.lots[token] || []);
+  if (method === 'average' && lots.length > 0) {
+    lots[0].amount += amount;
+    lots[0].costUsd += costUsd;
+  } else {
+    lots.push({ amount, costUsd });
+  }
+}
+
+/**
+ * Remove `amount` of `token` from its lots, returning the cost basis removed
+ */
+function sell(ledger: Ledger, token: string, amount: number): number {
+  const lots = ledger.lots[token] || [];
+  let remaining = amount;
+  let costUsd = 0;
+
+  while (remaining > EPSILON && lots.length > 0) {
+    const lot = lots[0];
+    const taken = Math.min(lot.amount, remaining);
+    const cost = lot.costUsd * (taken / lot.amount);
+    costUsd += cost;
+    lot.amount -= taken;
+    lot.costUsd -= cost;
+    remaining -= taken;
+    if (lot.amount <= EPSILON) lots.shift();
+  }
+  return costUsd;
+}
+
+/**
+ * Replay trades (oldest first) over the starting balances.
+ * `priceOf` values the starting balances and swaps with no recorded USD value.
+ */
+function buildLedger(
+  startingBalances: Record<string, number>,
+  trades: PaperTrade[],
+  method: CostBasisMethod,
+  priceOf: (token: string) => number
+): Ledger {
+  const ledger: Ledger = { lots: {}, realized: {} };
+
+  for (const [token, amount] of Object.entries(startingBalances)) {
+    if (amount > 0) buy(ledger, token, amount, amount * priceOf(token), method);
+  }
+
+  for (const trade of trades) {
+    if (trade.type === 'transfer') {
+      sell(ledger, trade.from, trade.amountIn);
+      continue;
+    }
+
+    const valueUsd = trade.valueUsd
+      ?? stableValueUsd(trade.from, trade.amountIn, trade.to, trade.amountOut)
+      ?? trade.amountIn * priceOf(trade.from);
+    const costUsd = sell(ledger, trade.from, trade.amountIn);
+    ledger.realized[trade.from] = (ledger.realized[trade.from] || 0) + valueUsd - costUsd;
+    buy(ledger, trade.to, trade.amountOut, valueUsd, method);
+  }
+
+  return ledger;
+}
+
+/**
+ * Price every token in `tokens`, stablecoins at $1
+ */
+async function fetchPrices(tokens: string[]): Promise<Record<string, { price: number; mock?: boolean }>> {
+  const entries = await Promise.all(tokens.map(async token => {
+    if (STABLECOINS.has(token)) return [token, { price: 1 }] as const;
+    const data = await getTokenPrice(token);
+    return [token, { price: data.price, mock: data.mock }] as const;
+  }));
+  return Object.fromEntries(entries);
+}
+
+/**
+ * A user's positions and PnL, valued now
+ */
+export async function getPortfolio(userId: string, method: CostBasisMethod = 'fifo'): Promise<Portfolio> {
+  let account = getPaperAccount(userId);
+  const trades = listPaperTrades(userId).reverse();
+
+  const tokens = new Set<string>([...Object.keys(account.startingBalances), ...Object.keys(account.balances)]);
+  for (const trade of trades) {
+    tokens.add(trade.from);
+    if (trade.type === 'swap') tokens.add(trade.to);
+  }
+  const prices = await fetchPrices([...tokens]);
+
+  // Starting balances keep the prices they were first valued at
+  const unpriced = Object.keys(account.startingBalances).filter(t => account.openingPrices?.[t] === undefined && !prices[t].mock);
+  if (unpriced.length > 0) {
+    account = recordOpeningPrices(userId, Object.fromEntries(unpriced.map(t => [t, prices[t].price])));
+  }
+  const opening = account.openingPrices || {};
+  const priceOf = (token: string) => opening[token] ?? prices[token]?.price ?? 0;
+  const ledger = buildLedger(account.startingBalances, trades, method, priceOf);
+  const startingValueUsd = Object.entries(account.startingBalances).reduce((total, [token, amount]) => total + amount * priceOf(token), 0);
+
+  const positions: PortfolioPosition[] = [];
+  for (const token of tokens) {
+    const lots = ledger.lots[token] || [];
+    const amount = lots.reduce((sum, lot) => sum + lot.amount, 0);
+    const realizedPnlUsd = ledger.realized[token] || 0;
+    if (amount <= EPSILON && realizedPnlUsd === 0) continue;
+
+    const costBasisUsd = lots.reduce((sum, lot) => sum + lot.costUsd, 0);
+    const { price, mock } = prices[token];
+    const valueUsd = amount * price;
+    const unrealizedPnlUsd = valueUsd - costBasisUsd;
+    positions.push({
+      token,
+      amount,
+      costBasisUsd,
+      averageCostUsd: amount > EPSILON ? costBasisUsd / amount : 0,
+      priceUsd: price,
+      valueUsd,
+      unrealizedPnlUsd,
+      unrealizedPnlPct: costBasisUsd > 0 ? (unrealizedPnlUsd / costBasisUsd) * 100 : 0,
+      realizedPnlUsd,
+      ...(mock ? { mockPrice: true } : {}),
+    });
+  }
+  positions.sort((a, b) => b.valueUsd - a.valueUsd);
+
+  const sum = (field: keyof PortfolioPosition) => positions.reduce((total, p) => total + (p[field] as number), 0);
+  const realizedPnlUsd = sum('realizedPnlUsd');
+  const unrealizedPnlUsd = sum('unrealizedPnlUsd');
+  const totalPnlUsd = realizedPnlUsd + unrealizedPnlUsd;
+
+  return {
+    userId,
+    method,
+    positions,
+    totals: {
+      valueUsd: sum('valueUsd'),
+      costBasisUsd: sum('costBasisUsd'),
+      realizedPnlUsd,
+      unrealizedPnlUsd,
+      totalPnlUsd,
+      totalPnlPct: startingValueUsd > 0 ? (totalPnlUsd / startingValueUsd) * 100 : 0,
+    },
+    startingValueUsd,
+    tradeCount: trades.length,
+    valuedAt: Date.now(),
+  };
+}
+
+/**
+ * Does the prompt ask how the portfolio is performing?
+ */
+export function isPortfolioPrompt(prompt: string): boolean {
+  return /portfolio|\bp[&n]l\b|profit\s+(and|&)\s+loss|cost\s+basis|how\s+(am\s+i|are\s+my\s+trades)\s+doing/i.test(prompt);
+}
+
+/**
+ * Cost basis method named in a prompt ("average cost"), FIFO by default
+ */
+export function parseCostBasisMethod(prompt: string): CostBasisMethod {
+  return /\b(average|avg)\b/i.test(prompt) ? 'average' : 'fifo';
+}
+
+export default {
+  getPortfolio,
+  estimateSwapValueUsd,
+  isPortfolioPrompt,
+  parseCostBasisMethod,
+};
@@ -0,0 +1,176 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { Request, Response } from 'express';
+import {
+  consume,
+  createStorageRateLimitStore,
+  internalCallHeaders,
+  isInternalCall,
+  rateLimit,
+  RateLimitStore,
+  setRateLimitStore,
+  waitForUpstream,
+} from './rate-limit';
+import { getStorage } from './storage';
+
+// dispatch allows 10 requests a minute: a burst of 10, then one every 6 seconds
+const rule = { capacity: 10, refillPerMinute: 10 };
+
+let keyCount = 0;
+const newKey = () => `limit-test-${++keyCount}`;
+
+function response() {
+  const res = {
+    statusCode: 200,
+    headers: {} as Record<string, string>,
+    body: undefined as any,
+    setHeader(name: string, value: string) { res.headers[name] = value; },
+    status(code: number) { res.statusCode = code; return res; },
+    json(body: any) { res.body = body; return res; },
+  };
+  return res;
+}
+
+const request = (headers: Record<string, string> = {}) => ({ get: (name: string) => headers[name.toLowerCase()] }) as unknown as Request;
+
+beforeEach(() => {
+  jest.useFakeTimers({ now: Date.UTC(2026, 0, 1) });
+  setRateLimitStore(createStorageRateLimitStore());
+});
+
+afterEach(() => {
+  setRateLimitStore(null);
+  jest.useRealTimers();
+});
+
+describe('token bucket', () => {
+  it('allows a full burst, then refuses until a token refills', async () => {
+    const store = createStorageRateLimitStore();
+    const key = newKey();
+
+    for (let i = 9; i >= 0; i--) {
+      expect(await store.take(key, rule, 1)).toMatchObject({ allowed: true, remaining: i, retryAfterMs: 0 });
+    }
+    expect(await store.take(key, rule, 1)).toEqual({ allowed: false, limit: 10, remaining: 0, resetMs: 60000, retryAfterMs: 6000 });
+
+    jest.advanceTimersByTime(5999);
+    expect((await store.take(key, rule, 1)).allowed).toBe(false);
+    jest.advanceTimersByTime(1);
+    expect((await store.take(key, rule, 1)).allowed).toBe(true);
+  });
+
+  it('refills continuously up to the capacity', async () => {
+    const store = createStorageRateLimitStore();
+    const key = newKey();
+    await store.take(key, rule, 10);
+
+    jest.advanceTimersByTime(30000);
+    expect(await store.take(key, rule, 0)).toMatchObject({ remaining: 5, resetMs: 30000 });
+    jest.advanceTimersByTime(10 * 60000);
+    expect(await store.take(key, rule, 0)).toMatchObject({ remaining: 10, resetMs: 0 });
+  });
+
+  it('leaves the bucket unchanged when it refuses a take', async () => {
+    const store = createStorageRateLimitStore();
+    const key = newKey();
+    await store.take(key, rule, 7);
+
+    expect(await store.take(key, rule, 4)).toMatchObject({ allowed: false, remaining: 3, retryAfterMs: 6000 });
+    expect(await store.take(key, rule, 3)).toMatchObject({ allowed: true, remaining: 0 });
+  });
+
+  it('saves changed buckets so limits survive a restart', async () => {
+    const key = newKey();
+    await createStorageRateLimitStore().take(key, rule, 8);
+    expect(getStorage().getRateLimitBucket(key)).toBeUndefined();
+
+    jest.advanceTimersByTime(5000);
+    expect(getStorage().getRateLimitBucket(key)).toMatchObject({ key, tokens: 2 });
+    expect(await createStorageRateLimitStore().take(key, rule, 0)).toMatchObject({ remaining: 2 });
+  });
+
+  it('keys buckets by name and id', async () => {
+    const id = newKey();
+    for (let i = 0; i < 10; i++) await consume('dispatch', id);
+
+    expect((await consume('dispatch', id)).allowed).toBe(false);
+    expect((await consume('dispatch', newKey())).allowed).toBe(true);
+    expect((await consume('user', id)).allowed).toBe(true);
+  });
+});
+
+describe('rateLimit middleware', () => {
+  it('sets the RateLimit headers and answers 429 with Retry-After once limited', async () => {
+    const id = newKey();
+    const limit = rateLimit('dispatch', () => id);
+    const next = jest.fn();
+
+    const first = response();
+    await limit(request(), first as unknown as Response, next);
+    expect(next).toHaveBeenCalledTimes(1);
+    expect(first.headers).toEqual({
+      'RateLimit-Policy': '10;w=60',
+      'RateLimit-Limit': '10',
+      'RateLimit-Remaining': '9',
+      'RateLimit-Reset': '6',
+    });
+
+    for (let i = 0; i < 9; i++) await limit(request(), response() as unknown as Response, next);
+    const limited = response();
+    await limit(request(), limited as unknown as Response, next);
+
+    expect(next).toHaveBeenCalledTimes(10);
+    expect(limited.statusCode).toBe(429);
+    expect(limited.headers['Retry-After']).toBe('6');
+    expect(limited.body).toEqual({ error: 'Too many requests, please try again later.', retryAfter: 6 });
+  });
+
+  it('skips requests without a key and lets requests through when the store fails', async () => {
+    const next = jest.fn();
+    await rateLimit('ip', () => null)(request(), response() as unknown as Response, next);
+
+    const failing: RateLimitStore = { name: 'failing', take: async () => { throw new Error('store down'); } };
+    setRateLimitStore(failing);
+    const res = response();
+    await rateLimit('ip', () => 'ip-1')(request(), res as unknown as Response, next);
+
+    expect(next).toHaveBeenCalledTimes(2);
+    expect(res.headers).toEqual({});
+  });
+
+  it('recognises only this process as an internal caller', () => {
+    expect(isInternalCall(request(internalCallHeaders()))).toBe(true);
+    expect(isInternalCall(request({ 'x-hivemind-internal': 'guess' }))).toBe(false);
+    expect(isInternalCall(request())).toBe(false);
+  });
+});
+
+describe('waitForUpstream', () => {
+  it('waits for a token that frees up within the limit', async () => {
+    for (let i = 0; i < 30; i++) await consume('coingecko', 'global');
+    jest.advanceTimersByTime(1000);
+
+    // coingecko refills one token every 2s; the next is 1s away
+    let done = false;
+    const wait = waitForUpstream('coingecko').then(() => { done = true; });
+    await jest.advanceTimersByTimeAsync(999);
+    expect(done).toBe(false);
+    await jest.advanceTimersByTimeAsync(1);
+    await wait;
+    expect(done).toBe(true);
+  });
+
+  it('gives up when the next token is too far away or the call is aborted', async () => {
+    const slow: RateLimitStore = {
+      name: 'slow',
+      take: async () => ({ allowed: false, limit: 30, remaining: 0, resetMs: 60000, retryAfterMs: 2500 }),
+    };
+    setRateLimitStore(slow);
+    await expect(waitForUpstream('coingecko')).rejects.toThrow('coingecko rate limit reached, retry in 3s');
+
+    setRateLimitStore(null);
+    for (let i = 0; i < 30; i++) await consume('coingecko', 'global');
+    const controller = new AbortController();
+    controller.abort();
+    await expect(waitForUpstream('coingecko', controller.signal)).rejects.toThrow('coingecko rate limit reached, retry in 2s');
+  });
+});
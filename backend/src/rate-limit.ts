@@ -0,0 +1,230 @@
+/**
+ * Rate Limiting - Token buckets per IP, user, route and upstream API
+ *
+ * Each bucket holds up to a minute's worth of requests and refills continuously.
+ * Buckets live in a pluggable RateLimitStore; the default keeps the ones in use
+ * in memory and saves those that changed to the storage backend every few
+ * seconds, so limits survive restarts without a write per request. Instances
+ * that must share limits need a shared store (e.g. Redis).
+ */
+
+import * as crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import config from './config';
+import { getStorage, RateLimitBucketState } from './storage';
+
+export type RateLimitBucket = keyof typeof config.rateLimits;
+
+export interface RateLimitRule {
+  capacity: number;          // Tokens in a full bucket (max burst)
+  refillPerMinute: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetMs: number;           // Until the bucket is full again
+  retryAfterMs: number;      // Until the request would be allowed (0 when allowed)
+}
+
+/**
+ * Where bucket state is kept. Implement this to share limits through e.g. Redis.
+ */
+export interface RateLimitStore {
+  name: string;
+  take(key: string, rule: RateLimitRule, cost: number): Promise<RateLimitResult>;
+}
+
+// Upstream calls wait this long for a token before giving up
+const MAX_UPSTREAM_WAIT_MS = 2000;
+
+// Buckets untouched for this long are full again and can be dropped
+const BUCKET_IDLE_MS = 24 * 60 * 60 * 1000;
+const PRUNE_INTERVAL_MS = 10 * 60 * 1000;
+
+// Changed buckets are saved this often; ones idle this long leave memory once saved
+const FLUSH_INTERVAL_MS = 5 * 1000;
+const MEMORY_IDLE_MS = 10 * 60 * 1000;
+
+// Marks the server's calls to its own endpoints (X402_LOOPBACK); never leaves the process
+const INTERNAL_CALL_HEADER = 'x-hivemind-internal';
+const internalCallToken = crypto.randomBytes(32).toString('hex');
+
+let store: RateLimitStore | null = null;
+
+/**
+ * Store keeping live buckets in memory, backed by the storage layer (SQLite by
+ * default, see storage/index.ts). A bucket is read from storage the first time
+ * it is used and saved, if it changed, on the next flush.
+ */
+export function createStorageRateLimitStore(): RateLimitStore {
+  const buckets: Map<string, RateLimitBucketState> = new Map();
+  const dirty: Set<string> = new Set();
+  let lastPrune = 0;
+
+  const flush = () => {
+    const now = Date.now();
+    try {
+      const storage = getStorage();
+      if (dirty.size > 0) {
+        storage.saveRateLimitBuckets([...dirty].map(key => buckets.get(key)!));
+        dirty.clear();
+      }
+      if (now - lastPrune > PRUNE_INTERVAL_MS) {
+        lastPrune = now;
+        storage.pruneRateLimits(now - BUCKET_IDLE_MS);
+      }
+    } catch (err: any) {
+      console.error('[RateLimit] Failed to save buckets:', err.message);
+    }
+    for (const [key, bucket] of buckets) {
+      if (!dirty.has(key) && now - bucket.updatedAt > MEMORY_IDLE_MS) buckets.delete(key);
+    }
+  };
+  setInterval(flush, FLUSH_INTERVAL_MS).unref?.();
+
+  return {
+    name: 'storage',
+    async take(key, rule, cost) {
+      const now = Date.now();
+      const refillPerMs = rule.refillPerMinute / 60000;
+      let bucket = buckets.get(key);
+      if (!bucket) {
+        bucket = getStorage().getRateLimitBucket(key) || { key, tokens: rule.capacity, updatedAt: now };
+        buckets.set(key, bucket);
+      }
+
+      // Denied takes leave the bucket unchanged
+      const available = Math.min(rule.capacity, bucket.tokens + Math.max(0, now - bucket.updatedAt) * refillPerMs);
+      const allowed = available >= cost;
+      const tokens = allowed ? available - cost : available;
+      if (allowed) {
+        bucket.tokens = tokens;
+        bucket.updatedAt = now;
+        dirty.add(key);
+      }
+      return {
+        allowed,
+        limit: rule.capacity,
+        remaining: Math.max(0, Math.floor(tokens)),
+        resetMs: Math.ceil((rule.capacity - tokens) / refillPerMs),
+        retryAfterMs: allowed ? 0 : Math.ceil((cost - tokens) / refillPerMs),
+      };
+    },
+  };
+}
+
+export function getRateLimitStore(): RateLimitStore {
+  if (!store) {
+    store = createStorageRateLimitStore();
+  }
+  return store;
+}
+
+/**
+ * Replace the bucket store (e.g. a shared Redis store)
+ */
+export function setRateLimitStore(next: RateLimitStore | null): void {
+  store = next;
+}
+
+export function getRateLimitRule(bucket: RateLimitBucket): RateLimitRule {
+  const perMinute = config.rateLimits[bucket];
+  return { capacity: perMinute, refillPerMinute: perMinute };
+}
+
+/**
+ * Take tokens from one bucket for `id` (a user, IP or upstream name)
+ */
+export function consume(bucket: RateLimitBucket, id: string, cost: number = 1): Promise<RateLimitResult> {
+  return getRateLimitStore().take(`${bucket}:${id}`, getRateLimitRule(bucket), cost);
+}
+
+/**
+ * Headers marking a request as the server calling itself
+ */
+export function internalCallHeaders(): Record<string, string> {
+  return { [INTERNAL_CALL_HEADER]: internalCallToken };
+}
+
+/**
+ * Whether a request was made by this server process (see internalCallHeaders).
+ * Such calls come from dispatches that were already limited per user.
+ */
+export function isInternalCall(req: Request): boolean {
+  const token = req.get(INTERNAL_CALL_HEADER);
+  return !!token && token.length === internalCallToken.length &&
+    crypto.timingSafeEqual(Buffer.from(token), Buffer.from(internalCallToken));
+}
+
+/**
+ * Set the RateLimit-* headers (IETF draft) and Retry-After when limited
+ */
+function setRateLimitHeaders(res: Response, rule: RateLimitRule, result: RateLimitResult): void {
+  const windowSeconds = Math.round((rule.capacity / rule.refillPerMinute) * 60);
+  res.setHeader('RateLimit-Policy', `${rule.capacity};w=${windowSeconds}`);
+  res.setHeader('RateLimit-Limit', String(result.limit));
+  res.setHeader('RateLimit-Remaining', String(result.remaining));
+  res.setHeader('RateLimit-Reset', String(Math.ceil(result.resetMs / 1000)));
+  if (!result.allowed) {
+    res.setHeader('Retry-After', String(Math.ceil(result.retryAfterMs / 1000)));
+  }
+}
+
+/**
+ * Express middleware limiting requests per key. Requests `keyOf` returns null for are not limited.
+ * A failing store lets requests through rather than taking the API down.
+ */
+export function rateLimit(bucket: RateLimitBucket, keyOf: (req: Request) => string | null) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const key = keyOf(req);
+    if (key === null) return next();
+
+    let result: RateLimitResult;
+    try {
+      result = await consume(bucket, key);
+    } catch (err: any) {
+      console.error(`[RateLimit] ${bucket} check failed:`, err.message);
+      return next();
+    }
+
+    setRateLimitHeaders(res, getRateLimitRule(bucket), result);
+    if (!result.allowed) {
+      return res.status(429).json({
+        error: 'Too many requests, please try again later.',
+        retryAfter: Math.ceil(result.retryAfterMs / 1000),
+      });
+    }
+    next();
+  };
+}
+
+/**
+ * Wait for a token before calling an upstream API (shared by all users).
+ * Throws if none frees up within a couple of seconds so callers fall back.
+ */
+export async function waitForUpstream(upstream: 'coingecko' | 'brave' | 'moltx', signal?: AbortSignal): Promise<void> {
+  const deadline = Date.now() + MAX_UPSTREAM_WAIT_MS;
+
+  for (;;) {
+    const result = await consume(upstream, 'global');
+    if (result.allowed) return;
+
+    if (signal?.aborted || Date.now() + result.retryAfterMs > deadline) {
+      throw new Error(`${upstream} rate limit reached, retry in ${Math.ceil(result.retryAfterMs / 1000)}s`);
+    }
+    await new Promise(resolve => setTimeout(resolve, result.retryAfterMs));
+  }
+}
+
+export default {
+  consume,
+  rateLimit,
+  waitForUpstream,
+  getRateLimitStore,
+  setRateLimitStore,
+  createStorageRateLimitStore,
+  internalCallHeaders,
+  isInternalCall,
+};
@@ -6,13 +6,13 @@
  * In production, this would be a centralized database accessible worldwide.
  */
 
-import * as fs from 'fs';
-import * as path from 'path';
+import { getStorage } from './storage';
 
 interface Vote {
   taskId: string;
   voterId: string;      // User or agent ID who voted
   voterType: 'human' | 'agent';
+  wallet?: string;      // Set when the voter signed in with their Solana wallet
   vote: 'up' | 'down';
   timestamp: number;
 }
@@ -38,8 +38,7 @@ interface ReputationData {
   voterTaskIndex: Record<string, string>;  // "voterId:taskId" -> "up"|"down"
 }
 
-const DATA_DIR = path.join(__dirname, '../data');
-const REPUTATION_FILE = path.join(DATA_DIR, 'reputation.json');
+const REPUTATION_KEY = 'reputation';
 
 // In-memory cache
 let reputationData: ReputationData = {
@@ -48,18 +47,13 @@ let reputationData: ReputationData = {
 };
 
 /**
- * Load reputation data from disk
+ * Load reputation data from storage
  */
 function loadReputation(): void {
   try {
-    if (!fs.existsSync(DATA_DIR)) {
-      fs.mkdirSync(DATA_DIR, { recursive: true });
-    }
+    const parsed = getStorage().getDocument(REPUTATION_KEY);
     
-    if (fs.existsSync(REPUTATION_FILE)) {
-      const data = fs.readFileSync(REPUTATION_FILE, 'utf8');
-      const parsed = JSON.parse(data);
-      
+    if (parsed) {
       // Handle legacy format (flat specialist records)
       if (!parsed.specialists) {
         // Migrate from old format
@@ -92,11 +86,11 @@ function loadReputation(): void {
 }
 
 /**
- * Save reputation data to disk
+ * Save reputation data to storage
  */
 function saveReputation(): void {
   try {
-    // Limit stored votes to last 100 per specialist for file size
+    // Limit stored votes to last 100 per specialist to keep the document small
     const dataToSave = { ...reputationData };
     for (const specialist of Object.values(dataToSave.specialists)) {
       if (specialist.votes.length > 100) {
@@ -104,8 +98,7 @@ function saveReputation(): void {
       }
     }
     
-    const data = JSON.stringify(dataToSave, null, 2);
-    fs.writeFileSync(REPUTATION_FILE, data, 'utf8');
+    getStorage().setDocument(REPUTATION_KEY, dataToSave);
   } catch (error: any) {
     console.error(`[Reputation] Failed to save reputation:`, error.message);
   }
@@ -162,7 +155,8 @@ export function submitVote(
   taskId: string,
   voterId: string,
   voterType: 'human' | 'agent',
-  vote: 'up' | 'down'
+  vote: 'up' | 'down',
+  wallet?: string
 ): { success: boolean; message: string; newRate: number; upvotes: number; downvotes: number } {
   const voteKey = `${voterId}:${taskId}`;
   const existingVote = reputationData.voterTaskIndex[voteKey];
@@ -201,6 +195,7 @@ export function submitVote(
     taskId,
     voterId,
     voterType,
+    wallet,
     vote,
     timestamp: Date.now(),
   };
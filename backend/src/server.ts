@@ -8,18 +8,82 @@ import { createServer } from 'http';
 import { WebSocketServer, WebSocket } from 'ws';
 import cors from 'cors';
 import * as dotenv from 'dotenv';
-import * as fs from 'fs';
-import * as path from 'path';
 
 import config from './config';
-import { authMiddleware } from './middleware/auth';
-import dispatcher, { dispatch, getTask, getRecentTasks, subscribeToTask, getSpecialists, callSpecialist } from './dispatcher';
+import { authMiddleware, requireScope } from './middleware/auth';
+import { rateLimit, consume, isInternalCall } from './rate-limit';
+import { isSolanaAddress, createChallenge, verifySignIn, authenticateSession, revokeSession } from './wallet-auth';
+import dispatcher, {
+  dispatch,
+  getTask,
+  listTasks,
+  countTasks,
+  cancelTask,
+  confirmTask,
+  retryTask,
+  isRetryable,
+  subscribeToTask,
+  subscribeToTaskChunks,
+  getSpecialists,
+  callSpecialist,
+  validateWorkflowPlan,
+} from './dispatcher';
 import { getBalances, getTransactionLog } from './x402';
-import { getSimulatedBalances } from './specialists/bankr';
+import {
+  getPaperAccount,
+  resetPaperAccount,
+  listPaperTrades,
+  countPaperTrades,
+  validateStartingBalances,
+} from './paper-accounts';
+import { getPortfolio, COST_BASIS_METHODS, CostBasisMethod } from './portfolio';
+import {
+  getSpecialist,
+  hasSpecialist,
+  listSpecialists,
+  getSpecialistFee,
+  validateRegistration,
+  registerRuntimeSpecialist,
+} from './specialists/registry';
+import { getBudgetStatus, setBudgetLimits, validateBudgetLimits } from './budgets';
+import { getConfirmationSettings, setConfirmationSettings, validateConfirmationSettings } from './confirmations';
+import { getTxPolicyStatus, setTxPolicy, validateTxPolicy } from './tx-policy';
+import {
+  authenticateApiKey,
+  createApiKey,
+  listApiKeys,
+  getApiKey,
+  revokeApiKey,
+  rotateApiKey,
+  hasScope,
+  toPublicKey,
+  validateKeyRequest,
+} from './api-keys';
+import { getInstructions, setInstruction, deleteInstruction, validateInstruction, validateInstructionMap } from './instructions';
+import {
+  validateCallbackUrl,
+  validateWebhookEvents,
+  validateWebhookSubscription,
+  listSubscriptions,
+  createSubscription,
+  deleteSubscription,
+  getCallbackSecret,
+  listDeliveries,
+  getDelivery,
+  redeliver,
+  resumeWebhookDeliveries,
+} from './webhooks';
+import { listContacts, getContact, createContact, updateContact, deleteContact, validateContact, isContactNameTaken } from './contacts';
+import { listSchedules, getSchedule, resumeDcaSchedules, DcaStatus } from './dca';
+import { listOrders, getOrder, cancelOrder, onOrderUpdate, startPriceWatch, OrderStatus } from './limit-orders';
+import { listWatches, createWatch, deleteWatch, validateWatch, isWatching, onWalletActivity, startWalletWatchers } from './wallet-watcher';
 import { submitVote, getVote, getReputationStats, getAllReputation, updateSyncStatus } from './reputation';
 import { syncReputationToChain } from './solana-reputation';
 import solana from './solana';
-import { DispatchRequest, Task, WSEvent, SpecialistType } from './types';
+import { encodeX402Header } from './x402-client';
+import { verifyPaymentHeader, settlePayment, getFeePayerKeypair } from './x402-verify';
+import { getStorage } from './storage';
+import { ApiKeyScope, DispatchRequest, Task, TaskChunk, TaskStatus, WSEvent, SpecialistType, X402PaymentRequirements } from './types';
 
 dotenv.config();
 
@@ -37,70 +101,9 @@ app.use((req: Request, res: Response, next: NextFunction) => {
   next();
 });
 
-// Simple In-memory Rate Limiting
-const rateLimitMap = new Map<string, { count: number, lastReset: number }>();
-const RATE_LIMIT_WINDOW_MS = 60000; // 1 minute
-const MAX_REQUESTS_PER_WINDOW = 60;
-
-const rateLimiter = (req: Request, res: Response, next: NextFunction) => {
-  const ip = req.ip || 'unknown';
-  const now = Date.now();
-  const userData = rateLimitMap.get(ip) || { count: 0, lastReset: now };
-
-  if (now - userData.lastReset > RATE_LIMIT_WINDOW_MS) {
-    userData.count = 1;
-    userData.lastReset = now;
-  } else {
-    userData.count++;
-  }
-
-  rateLimitMap.set(ip, userData);
-
-  if (userData.count > MAX_REQUESTS_PER_WINDOW) {
-    return res.status(429).json({ error: 'Too many requests, please try again later.' });
-  }
-
-  next();
-};
-
-app.use(rateLimiter);
-
-// Persistent Replay Protection
-const USED_SIGNATURES_FILE = path.join(__dirname, '../data/used-signatures.json');
-let usedSignatures = new Set<string>();
-
-function loadUsedSignatures() {
-  try {
-    if (fs.existsSync(USED_SIGNATURES_FILE)) {
-      const data = fs.readFileSync(USED_SIGNATURES_FILE, 'utf8');
-      usedSignatures = new Set(JSON.parse(data));
-      console.log(`[x402] Loaded ${usedSignatures.size} used signatures from persistence`);
-    }
-  } catch (err) {
-    console.error('[x402] Failed to load used signatures:', err);
-  }
-}
-
-function saveUsedSignatures() {
-  try {
-    const dir = path.dirname(USED_SIGNATURES_FILE);
-    if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
-    fs.writeFileSync(USED_SIGNATURES_FILE, JSON.stringify(Array.from(usedSignatures)), 'utf8');
-  } catch (err) {
-    console.error('[x402] Failed to save used signatures:', err);
-  }
-}
-
-loadUsedSignatures();
-
-// Cleanup old signatures (keep only most recent 10,000 for performance)
-setInterval(() => {
-  if (usedSignatures.size > 10000) {
-    const list = Array.from(usedSignatures);
-    usedSignatures = new Set(list.slice(-5000));
-    saveUsedSignatures();
-  }
-}, 3600000);
+// Flood guard per IP; authenticated requests are also limited per user below.
+// The server's calls to itself were limited per user when dispatched.
+app.use(rateLimit('ip', req => (isInternalCall(req) ? null : req.ip || 'unknown')));
 
 // Treasury wallets for receiving payments
 const TREASURY_WALLET_SOLANA = '5xUugg8ysgqpcGneM6qpM2AZ8ZGuMaH5TnGNWdCQC1Z1';
@@ -108,6 +111,27 @@ const TREASURY_WALLET_EVM = '0x676fF3d546932dE6558a267887E58e39f405B135';
 const DEVNET_USDC_MINT = '4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU';
 const BASE_USDC_ADDRESS = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913';
 
+/**
+ * x402 payment options offered for a specialist call.
+ * The fee payer is our co-signing key when configured, otherwise the treasury.
+ */
+function buildPaymentRequirements(id: string, fee: number): X402PaymentRequirements[] {
+  return [
+    {
+      scheme: 'exact',
+      network: 'solana:EtWTRABZaYq6iMfeYKouRu166VU2xqa1',
+      asset: DEVNET_USDC_MINT,
+      amount: String(Math.floor(fee * 1_000_000)),
+      payTo: TREASURY_WALLET_SOLANA,
+      extra: {
+        name: `${id} specialist`,
+        description: `Query the ${id} AI specialist`,
+        feePayer: getFeePayerKeypair()?.publicKey.toBase58() || TREASURY_WALLET_SOLANA,
+      }
+    }
+  ];
+}
+
 // --- PUBLIC ROUTES ---
 
 /**
@@ -122,6 +146,49 @@ app.get('/health', (req: Request, res: Response) => {
   });
 });
 
+/**
+ * Start a Sign-In With Solana: returns the message the wallet must sign (Public)
+ * POST /auth/siws/challenge
+ * Body: { address: string }
+ */
+app.post('/auth/siws/challenge', (req: Request, res: Response) => {
+  const { address } = req.body || {};
+  if (!isSolanaAddress(address)) {
+    return res.status(400).json({ error: 'address must be a base58 Solana address' });
+  }
+
+  const challenge = createChallenge(address);
+  res.json({
+    address,
+    nonce: challenge.nonce,
+    message: challenge.message,
+    expiresAt: new Date(challenge.expiresAt).toISOString(),
+  });
+});
+
+/**
+ * Finish a Sign-In With Solana: verifies the signed message and returns a session token (Public)
+ * POST /auth/siws/verify
+ * Body: { address: string, nonce: string, signature: string (base58 or base64) }
+ */
+app.post('/auth/siws/verify', (req: Request, res: Response) => {
+  const { address, nonce, signature } = req.body || {};
+  if (!isSolanaAddress(address) || typeof nonce !== 'string' || typeof signature !== 'string') {
+    return res.status(400).json({ error: 'address, nonce and signature are required' });
+  }
+
+  const result = verifySignIn(address, nonce, signature);
+  if (!result.isValid) {
+    return res.status(401).json({ error: result.invalidReason });
+  }
+  res.json({
+    token: result.token,
+    userId: result.session!.userId,
+    scopes: result.session!.scopes,
+    expiresAt: new Date(result.session!.expiresAt).toISOString(),
+  });
+});
+
 /**
  * Get specialist pricing (Public)
  */
@@ -206,15 +273,20 @@ app.get('/api/reputation/:specialist/proof', (req: Request, res: Response) => {
 
 app.use(authMiddleware);
 
+// Per-user budget (x402 payers have no account; their endpoint has its own limit)
+app.use(rateLimit('user', req => {
+  const userId = req.user?.id;
+  return userId && userId !== 'x402-payer' ? userId : null;
+}));
+
 // Specialist endpoints - returns 402 without payment, 200 with payment
-app.post('/api/specialist/:id', async (req: Request, res: Response) => {
+app.post('/api/specialist/:id', rateLimit('specialistEndpoint', req => (isInternalCall(req) ? null : `${req.params.id}:${req.ip || 'unknown'}`)), async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
-    const { prompt } = req.body;
+    const { prompt, instructions } = req.body;
     
     // Validate specialist ID
-    const validSpecialists: SpecialistType[] = ['magos', 'aura', 'bankr', 'scribe', 'seeker', 'general'];
-    if (!validSpecialists.includes(id as SpecialistType)) {
+    if (!hasSpecialist(id)) {
       return res.status(400).json({ error: 'Invalid specialist ID' });
     }
 
@@ -222,35 +294,23 @@ app.post('/api/specialist/:id', async (req: Request, res: Response) => {
       return res.status(400).json({ error: 'Prompt is required' });
     }
 
-    // Check for x402 payment signature
-    const paymentSignature = req.headers['payment-signature'] || req.headers['x-payment'];
+    // bankr trades need a user: confirmations, policies, contacts and a paper account are per user
+    if (id === 'bankr') {
+      return res.status(403).json({ error: 'bankr is only available through /dispatch' });
+    }
+
+    // Check for x402 payment header
+    const paymentHeader = (req.headers['payment-signature'] || req.headers['x-payment']) as string | undefined;
     
-    const fee = (config.fees as any)[id] || 0;
+    const fee = getSpecialistFee(id);
+    const accepts = buildPaymentRequirements(id, fee);
 
-    if (!paymentSignature && fee > 0) {
+    if (!paymentHeader && fee > 0) {
       // Return 402 with payment requirements (x402 v2 format with accepts array)
-      // Offer Base USDC as primary (we have funds there), Solana devnet as fallback
-      
-      const paymentRequired = {
-        x402Version: 2,
-        accepts: [
-          {
-            scheme: 'exact',
-            network: 'solana:EtWTRABZaYq6iMfeYKouRu166VU2xqa1',
-            asset: DEVNET_USDC_MINT,
-            amount: String(Math.floor(fee * 1_000_000)),
-            payTo: TREASURY_WALLET_SOLANA,
-            extra: {
-              name: `${id} specialist`,
-              description: `Query the ${id} AI specialist`,
-              feePayer: TREASURY_WALLET_SOLANA,
-            }
-          }
-        ]
-      };
+      const paymentRequired = { x402Version: 2, accepts };
       
       // Encode as base64 for header
-      const paymentRequiredBase64 = Buffer.from(JSON.stringify(paymentRequired)).toString('base64');
+      const paymentRequiredBase64 = encodeX402Header(paymentRequired);
       
       console.log(`[x402] Returning 402 for ${id}, fee: ${fee} USDC`);
       res.setHeader('payment-required', paymentRequiredBase64);
@@ -263,30 +323,37 @@ app.post('/api/specialist/:id', async (req: Request, res: Response) => {
     }
 
     if (fee > 0) {
-      console.log(`[x402] Verifying payment for ${id}, signature: ${String(paymentSignature).slice(0, 20)}...`);
-      
-      const sig = paymentSignature as string;
-      if (usedSignatures.has(sig)) {
-        return res.status(402).json({ error: 'Payment signature already used (replay protection)' });
+      const check = await verifyPaymentHeader(paymentHeader as string, accepts);
+      if (!check.valid) {
+        console.log(`[x402] Rejected payment for ${id}: ${check.reason}`);
+        return res.status(402).json({ error: 'Invalid payment', reason: check.reason });
       }
 
-      // For x402 payments via AgentWallet, we trust the x402 facilitator's attestation
-      // The payment header contains a signed receipt from AgentWallet
-      // For production, we'd verify on-chain; for demo, trust the header
-      
-      // Check if it looks like a valid signature/receipt
-      if (sig.length < 20) {
-        return res.status(402).json({ error: 'Invalid payment signature format' });
+      // Replay protection keys on the verified payment, not the raw header
+      const paymentKey = check.verification.txId;
+      if (!getStorage().addUsedSignature(paymentKey)) {
+        return res.status(402).json({ error: 'Payment already used (replay protection)' });
       }
 
-      // Mark signature as used and persist (replay protection)
-      usedSignatures.add(sig);
-      saveUsedSignatures();
-      console.log(`[x402] Payment accepted: ${fee} USDC for ${id}`);
+      const settlement = await settlePayment(check);
+      if (!settlement.success) {
+        getStorage().removeUsedSignature(paymentKey);
+        console.log(`[x402] Settlement failed for ${id}: ${settlement.errorReason}`);
+        return res.status(402).json({ error: 'Payment settlement failed', reason: settlement.errorReason });
+      }
+
+      const paymentResponse = encodeX402Header(settlement);
+      res.setHeader('payment-response', paymentResponse);
+      res.setHeader('x-payment-response', paymentResponse);
+      console.log(`[x402] Payment accepted: ${fee} USDC for ${id} (${settlement.transaction})`);
     }
     
     // Payment verified or not required - execute specialist
-    const result = await callSpecialist(id as SpecialistType, prompt);
+    const result = await callSpecialist(
+      id as SpecialistType,
+      prompt,
+      typeof instructions === 'string' && instructions.trim() ? { instructions } : undefined
+    );
     res.json(result);
   } catch (error: any) {
     res.status(500).json({ error: error.message });
@@ -294,32 +361,66 @@ app.post('/api/specialist/:id', async (req: Request, res: Response) => {
 });
 
 // Endpoint for wallet balances (for frontend display)
-// Uses simulated devnet balances from bankr specialist
-app.get('/api/wallet/balances', async (req: Request, res: Response) => {
+// Returns the caller's bankr paper account
+app.get('/api/wallet/balances', (req: Request, res: Response) => {
   try {
-    const simulated = await getSimulatedBalances();
+    const userId = req.user.id;
+    const account = getPaperAccount(userId);
+    const solanaBalances: Record<string, number> = { sol: 0, usdc: 0, bonk: 0 };
+    for (const [token, amount] of Object.entries(account.balances)) {
+      solanaBalances[token.toLowerCase()] = amount;
+    }
     res.json({
-      solana: {
-        sol: simulated.sol,
-        usdc: simulated.usdc,
-        bonk: simulated.bonk,
-      },
+      solana: solanaBalances,
       evm: { eth: 0, usdc: 0 },
-      transactions: simulated.transactions.slice(-10), // Last 10 transactions
+      balances: account.balances,
+      startingBalances: account.startingBalances,
+      transactions: listPaperTrades(userId, { limit: 10 }).reverse(), // Last 10 trades, oldest first
     });
   } catch (error: any) {
     res.status(500).json({ error: error.message, solana: { sol: 0, usdc: 0 }, evm: { eth: 0, usdc: 0 } });
   }
 });
 
+/**
+ * Full paper trade history for the caller, newest first
+ * GET /api/wallet/trades?limit=50&offset=0
+ */
+app.get('/api/wallet/trades', (req: Request, res: Response) => {
+  const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+  const offset = Math.max(parseInt(req.query.offset as string) || 0, 0);
+  const userId = req.user.id;
+
+  const trades = listPaperTrades(userId, { limit, offset });
+  res.json({ trades, count: trades.length, total: countPaperTrades(userId) });
+});
+
+/**
+ * Reset the caller's paper account, optionally with new starting balances
+ * POST /api/wallet/reset
+ * Body: { balances?: { SOL: 10, USDC: 1000 } }
+ */
+app.post('/api/wallet/reset', requireScope('dispatch'), (req: Request, res: Response) => {
+  const { balances } = req.body || {};
+  if (balances !== undefined) {
+    const errors = validateStartingBalances(balances);
+    if (errors.length > 0) {
+      return res.status(400).json({ error: 'Invalid balances', details: errors });
+    }
+  }
+
+  const account = resetPaperAccount(req.user.id, balances);
+  res.json({ success: true, account });
+});
+
 /**
  * POST /api/vote - Submit a vote on a task response
  * Body: { taskId, specialist, vote }
  */
-app.post('/api/vote', (req: Request, res: Response) => {
+app.post('/api/vote', requireScope('reputation-vote'), (req: Request, res: Response) => {
   try {
     const { taskId, specialist, vote } = req.body;
-    const voterId = (req as any).user.id;
+    const voterId = req.user.id;
     const voterType = 'human';
     
     if (!taskId || !specialist || !vote) {
@@ -337,7 +438,8 @@ app.post('/api/vote', (req: Request, res: Response) => {
       taskId,
       voterId,
       voterType,
-      vote
+      vote,
+      req.user.wallet
     );
     
     res.json(result);
@@ -377,7 +479,7 @@ app.get('/status', async (req: Request, res: Response) => {
         devnet: config.helius.devnet ? 'configured' : 'missing',
         mainnet: config.helius.mainnet ? 'configured' : 'missing',
       },
-      specialists: ['magos', 'aura', 'bankr'],
+      specialists: listSpecialists().map(s => s.id),
       uptime: process.uptime(),
     });
   } catch (error: any) {
@@ -388,25 +490,72 @@ app.get('/status', async (req: Request, res: Response) => {
 /**
  * Submit a task to the dispatcher
  * POST /dispatch
- * Body: { prompt: string, userId?: string, preferredSpecialist?: string, dryRun?: boolean }
+ * Body: { prompt: string, preferredSpecialist?: string, dryRun?: boolean, maxPayment?: { amount, currency } }
+ * Tasks always belong to the authenticated key so budgets cannot be bypassed.
  */
-app.post('/dispatch', async (req: Request, res: Response) => {
+app.post('/dispatch', requireScope('dispatch'), rateLimit('dispatch', req => req.user.id), async (req: Request, res: Response) => {
   try {
-    const { prompt, userId, preferredSpecialist, dryRun, callbackUrl, hiredAgents, approvedAgent, previewOnly } = req.body as DispatchRequest;
+    const {
+      prompt,
+      preferredSpecialist,
+      workflow,
+      dryRun,
+      callbackUrl,
+      callbackEvents,
+      hiredAgents,
+      approvedAgent,
+      previewOnly,
+      maxPayment,
+      customInstructions,
+    } = req.body as DispatchRequest;
 
     if (!prompt) {
       return res.status(400).json({ error: 'Prompt is required' });
     }
 
+    if (workflow) {
+      const errors = validateWorkflowPlan(workflow);
+      if (errors.length > 0) {
+        return res.status(400).json({ error: 'Invalid workflow', details: errors });
+      }
+    }
+
+    if (maxPayment && !(parseFloat(maxPayment.amount) >= 0)) {
+      return res.status(400).json({ error: 'maxPayment.amount must be a non-negative number' });
+    }
+
+    if (customInstructions !== undefined) {
+      const errors = validateInstructionMap(customInstructions);
+      if (errors.length > 0) {
+        return res.status(400).json({ error: 'Invalid customInstructions', details: errors });
+      }
+    }
+
+    if (callbackUrl && !(await validateCallbackUrl(callbackUrl))) {
+      return res.status(400).json({ error: 'Invalid callbackUrl (must be a public http(s) URL)' });
+    }
+
+    if (callbackEvents !== undefined) {
+      const errors = validateWebhookEvents(callbackEvents);
+      if (errors.length > 0) {
+        return res.status(400).json({ error: 'Invalid callbackEvents', details: errors });
+      }
+    }
+
     const result = await dispatch({
       prompt,
-      userId: userId || (req as any).user.id,
+      userId: req.user.id,
       preferredSpecialist,
+      workflow,
       dryRun,
       callbackUrl,
+      callbackEvents,
       hiredAgents,
       approvedAgent,
       previewOnly,
+      maxPayment,
+      customInstructions,
+      scopes: req.user.scopes,
     });
 
     res.status(202).json(result);
@@ -428,7 +577,7 @@ app.get('/status/:taskId', (req: Request, res: Response) => {
   }
 
   // Security: only allow task owner to see task status
-  if (task.userId !== (req as any).user.id) {
+  if (task.userId !== req.user.id) {
     return res.status(403).json({ error: 'Access denied: not your task' });
   }
 
@@ -437,15 +586,532 @@ app.get('/status/:taskId', (req: Request, res: Response) => {
 
 /**
  * Get recent tasks
- * GET /tasks?limit=10
+ * GET /tasks?limit=10&offset=0&status=completed,failed&since=2026-01-01T00:00:00Z
  */
 app.get('/tasks', (req: Request, res: Response) => {
   const limit = Math.min(parseInt(req.query.limit as string) || 10, 50);
-  const user = (req as any).user;
+  const offset = Math.max(parseInt(req.query.offset as string) || 0, 0);
+  const user = req.user;
+
+  const since = req.query.since ? new Date(req.query.since as string) : undefined;
+  if (since && isNaN(since.getTime())) {
+    return res.status(400).json({ error: 'since must be an ISO date' });
+  }
+  const status = req.query.status
+    ? (req.query.status as string).split(',').map(s => s.trim()).filter(Boolean) as TaskStatus[]
+    : undefined;
   
-  // Filter tasks to only return those belonging to the authenticated user
-  const tasks = getRecentTasks(limit * 5).filter(t => t.userId === user.id).slice(0, limit);
-  res.json({ tasks, count: tasks.length });
+  // Only tasks belonging to the authenticated user
+  const query = { userId: user.id, status, since };
+  const tasks = listTasks({ ...query, limit, offset });
+  res.json({ tasks, count: tasks.length, total: countTasks(query) });
+});
+
+/**
+ * Cancel a pending or running task
+ * POST /tasks/:id/cancel
+ */
+app.post('/tasks/:id/cancel', requireScope('dispatch'), (req: Request, res: Response) => {
+  const task = getTask(req.params.id);
+
+  if (!task) {
+    return res.status(404).json({ error: 'Task not found' });
+  }
+  if (task.userId !== req.user.id) {
+    return res.status(403).json({ error: 'Access denied: not your task' });
+  }
+
+  const cancelled = cancelTask(task.id);
+  if (!cancelled) {
+    return res.status(409).json({ error: `Task already ${task.status}` });
+  }
+
+  res.json(cancelled);
+});
+
+/**
+ * Settle the bankr trade a task is waiting on (status awaiting_confirmation)
+ */
+function settleConfirmation(approve: boolean) {
+  return (req: Request, res: Response) => {
+    const task = getTask(req.params.id);
+
+    if (!task) {
+      return res.status(404).json({ error: 'Task not found' });
+    }
+    if (task.userId !== req.user.id) {
+      return res.status(403).json({ error: 'Access denied: not your task' });
+    }
+
+    if (!confirmTask(task.id, approve)) {
+      return res.status(409).json({ error: `Task is ${task.status}, not awaiting confirmation` });
+    }
+
+    // The task moves on asynchronously; subscribers see it as a task_update
+    res.status(202).json({ taskId: task.id, approved: approve });
+  };
+}
+
+/**
+ * Confirm the trade; the bankr hop runs if a fresh quote is no worse than the confirmed one.
+ * Confirming moves funds, so it needs the bankr-execute scope.
+ * POST /tasks/:id/confirm
+ */
+app.post('/tasks/:id/confirm', requireScope('bankr-execute'), settleConfirmation(true));
+
+/**
+ * Reject the trade; the task is cancelled (a workflow's bankr step fails)
+ * POST /tasks/:id/reject
+ */
+app.post('/tasks/:id/reject', requireScope('dispatch'), settleConfirmation(false));
+
+/**
+ * Retry a failed, cancelled or timed out task as a new task
+ * POST /tasks/:id/retry
+ * Body: { fromNode?: string } - for workflows, re-run only this node and its dependents
+ */
+app.post('/tasks/:id/retry', requireScope('dispatch'), rateLimit('dispatch', req => req.user.id), (req: Request, res: Response) => {
+  const task = getTask(req.params.id);
+  const { fromNode } = req.body || {};
+
+  if (!task) {
+    return res.status(404).json({ error: 'Task not found' });
+  }
+  if (task.userId !== req.user.id) {
+    return res.status(403).json({ error: 'Access denied: not your task' });
+  }
+  if (!isRetryable(task)) {
+    return res.status(409).json({ error: `Task is ${task.status}; only failed, cancelled or timed out tasks can be retried` });
+  }
+  if (fromNode !== undefined && typeof fromNode !== 'string') {
+    return res.status(400).json({ error: 'fromNode must be a workflow node id' });
+  }
+
+  try {
+    const retry = retryTask(task.id, { fromNode, scopes: req.user.scopes });
+    res.status(202).json({ taskId: retry.id, status: retry.status, specialist: retry.specialist, retryOf: task.id });
+  } catch (error: any) {
+    res.status(400).json({ error: error.message });
+  }
+});
+
+/**
+ * End the caller's wallet session
+ * POST /auth/logout
+ */
+app.post('/auth/logout', (req: Request, res: Response) => {
+  const authorization = req.headers.authorization || '';
+  if (!req.user.sessionId || !revokeSession(authorization.slice('Bearer '.length).trim())) {
+    return res.status(400).json({ error: 'Not signed in with a wallet session' });
+  }
+  res.status(204).end();
+});
+
+/**
+ * Get the caller's spending budget and remaining allowance
+ * GET /v1/budget
+ */
+app.get('/v1/budget', (req: Request, res: Response) => {
+  res.json(getBudgetStatus(req.user.id));
+});
+
+/**
+ * Update the caller's spending budget (null clears a field)
+ * PUT /v1/budget
+ * Body: { daily?, monthly?, perTask?, perSpecialist?: { [id]: amount } }
+ */
+app.put('/v1/budget', requireScope('bankr-execute'), (req: Request, res: Response) => {
+  const errors = validateBudgetLimits(req.body);
+  if (errors.length > 0) {
+    return res.status(400).json({ error: 'Invalid budget', details: errors });
+  }
+
+  const userId = req.user.id;
+  setBudgetLimits(userId, req.body);
+  res.json(getBudgetStatus(userId));
+});
+
+/**
+ * Get the caller's custom instructions for every specialist
+ * GET /v1/instructions
+ */
+app.get('/v1/instructions', (req: Request, res: Response) => {
+  res.json({ instructions: getInstructions(req.user.id) });
+});
+
+/**
+ * Get the caller's custom instructions for one specialist
+ * GET /v1/instructions/:specialist
+ */
+app.get('/v1/instructions/:specialist', (req: Request, res: Response) => {
+  const { specialist } = req.params;
+  const instructions = getInstructions(req.user.id)[specialist];
+  if (!instructions) {
+    return res.status(404).json({ error: `No instructions for ${specialist}` });
+  }
+  res.json({ specialist, instructions });
+});
+
+/**
+ * Set the caller's custom instructions for a specialist (blank clears them)
+ * PUT /v1/instructions/:specialist
+ * Body: { instructions: string }
+ */
+app.put('/v1/instructions/:specialist', requireScope('dispatch'), (req: Request, res: Response) => {
+  const { specialist } = req.params;
+  const { instructions } = req.body || {};
+
+  if (!hasSpecialist(specialist)) {
+    return res.status(404).json({ error: `Unknown specialist: ${specialist}` });
+  }
+  const error = validateInstruction(instructions);
+  if (error) {
+    return res.status(400).json({ error });
+  }
+
+  const saved = setInstruction(req.user.id, specialist, instructions);
+  res.json({ specialist, instructions: saved[specialist] || '' });
+});
+
+/**
+ * Remove the caller's custom instructions for a specialist
+ * DELETE /v1/instructions/:specialist
+ */
+app.delete('/v1/instructions/:specialist', requireScope('dispatch'), (req: Request, res: Response) => {
+  const { specialist } = req.params;
+  if (!deleteInstruction(req.user.id, specialist)) {
+    return res.status(404).json({ error: `No instructions for ${specialist}` });
+  }
+  res.status(204).end();
+});
+
+/**
+ * List the caller's webhook subscriptions and the secret that signs their task callbackUrls
+ * GET /v1/webhooks
+ */
+app.get('/v1/webhooks', (req: Request, res: Response) => {
+  const userId = req.user.id;
+  res.json({ subscriptions: listSubscriptions(userId), callbackSecret: getCallbackSecret(userId) });
+});
+
+/**
+ * Subscribe a URL to task events (the signing secret is only returned here)
+ * POST /v1/webhooks
+ * Body: { url: string, events?: ('task.status' | 'task.payment' | 'task.finished')[], description?: string }
+ */
+app.post('/v1/webhooks', requireScope('dispatch'), async (req: Request, res: Response) => {
+  const errors = validateWebhookSubscription(req.body);
+  if (errors.length > 0) {
+    return res.status(400).json({ error: 'Invalid subscription', details: errors });
+  }
+
+  const { url, events, description } = req.body;
+  if (!(await validateCallbackUrl(url))) {
+    return res.status(400).json({ error: 'Invalid url (must be a public http(s) URL)' });
+  }
+
+  const subscription = createSubscription(req.user.id, { url, events, description });
+  if (!subscription) {
+    return res.status(409).json({ error: 'Subscription limit reached' });
+  }
+  res.status(201).json(subscription);
+});
+
+/**
+ * Inspect the caller's webhook deliveries, newest first
+ * GET /v1/webhooks/deliveries?status=failed&taskId=...&limit=50
+ */
+app.get('/v1/webhooks/deliveries', (req: Request, res: Response) => {
+  const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+  const status = req.query.status as any;
+  if (status !== undefined && !['pending', 'delivered', 'failed'].includes(status)) {
+    return res.status(400).json({ error: 'status must be pending, delivered or failed' });
+  }
+
+  const deliveries = listDeliveries(req.user.id, {
+    status,
+    taskId: req.query.taskId as string | undefined,
+    limit,
+  });
+  res.json({ deliveries, count: deliveries.length });
+});
+
+/**
+ * Get one webhook delivery with its attempts
+ * GET /v1/webhooks/deliveries/:id
+ */
+app.get('/v1/webhooks/deliveries/:id', (req: Request, res: Response) => {
+  const delivery = getDelivery(req.user.id, req.params.id);
+  if (!delivery) {
+    return res.status(404).json({ error: 'Delivery not found' });
+  }
+  res.json(delivery);
+});
+
+/**
+ * Send a delivery's payload again as a new delivery
+ * POST /v1/webhooks/deliveries/:id/redeliver
+ */
+app.post('/v1/webhooks/deliveries/:id/redeliver', requireScope('dispatch'), (req: Request, res: Response) => {
+  const delivery = redeliver(req.user.id, req.params.id);
+  if (!delivery) {
+    return res.status(404).json({ error: 'Delivery not found' });
+  }
+  res.status(202).json(delivery);
+});
+
+/**
+ * Remove a webhook subscription
+ * DELETE /v1/webhooks/:id
+ */
+app.delete('/v1/webhooks/:id', requireScope('dispatch'), (req: Request, res: Response) => {
+  if (!deleteSubscription(req.user.id, req.params.id)) {
+    return res.status(404).json({ error: 'Subscription not found' });
+  }
+  res.status(204).end();
+});
+
+/**
+ * List the addresses the caller watches for wallet_activity events
+ * GET /v1/watches
+ */
+app.get('/v1/watches', (req: Request, res: Response) => {
+  const watches = listWatches(req.user.id);
+  res.json({ watches, count: watches.length });
+});
+
+/**
+ * Watch an address; new transactions on it arrive as WebSocket wallet_activity events
+ * POST /v1/watches
+ * Body: { address: string, network?: 'devnet' | 'mainnet', label?: string }
+ */
+app.post('/v1/watches', requireScope('dispatch'), (req: Request, res: Response) => {
+  const errors = validateWatch(req.body);
+  if (errors.length > 0) {
+    return res.status(400).json({ error: 'Invalid watch', details: errors });
+  }
+
+  const userId = req.user.id;
+  const { address, network, label } = req.body;
+  if (isWatching(userId, address, network)) {
+    return res.status(409).json({ error: `Already watching ${address} on ${network || 'devnet'}` });
+  }
+  const watch = createWatch(userId, { address, network, label });
+  if (!watch) {
+    return res.status(409).json({ error: 'Watch limit reached' });
+  }
+  res.status(201).json(watch);
+});
+
+/**
+ * Stop watching an address
+ * DELETE /v1/watches/:id
+ */
+app.delete('/v1/watches/:id', requireScope('dispatch'), (req: Request, res: Response) => {
+  if (!deleteWatch(req.user.id, req.params.id)) {
+    return res.status(404).json({ error: 'Watch not found' });
+  }
+  res.status(204).end();
+});
+
+/**
+ * List the caller's contacts (recipients bankr transfers can name)
+ * GET /v1/contacts
+ */
+app.get('/v1/contacts', (req: Request, res: Response) => {
+  const contacts = listContacts(req.user.id);
+  res.json({ contacts, count: contacts.length });
+});
+
+/**
+ * Save a contact
+ * POST /v1/contacts
+ * Body: { name: string, address: string, label?: string, defaultToken?: string }
+ */
+app.post('/v1/contacts', requireScope('bankr-execute'), (req: Request, res: Response) => {
+  const errors = validateContact(req.body);
+  if (errors.length > 0) {
+    return res.status(400).json({ error: 'Invalid contact', details: errors });
+  }
+
+  const userId = req.user.id;
+  if (isContactNameTaken(userId, req.body.name)) {
+    return res.status(409).json({ error: `You already have a contact named ${req.body.name.trim()}` });
+  }
+  const contact = createContact(userId, req.body);
+  if (!contact) {
+    return res.status(409).json({ error: 'Contact limit reached' });
+  }
+  res.status(201).json(contact);
+});
+
+/**
+ * Get one contact
+ * GET /v1/contacts/:id
+ */
+app.get('/v1/contacts/:id', (req: Request, res: Response) => {
+  const contact = getContact(req.user.id, req.params.id);
+  if (!contact) {
+    return res.status(404).json({ error: 'Contact not found' });
+  }
+  res.json(contact);
+});
+
+/**
+ * Change a contact's fields (null removes label or defaultToken)
+ * PUT /v1/contacts/:id
+ * Body: { name?, address?, label?, defaultToken? }
+ */
+app.put('/v1/contacts/:id', requireScope('bankr-execute'), (req: Request, res: Response) => {
+  const errors = validateContact(req.body, true);
+  if (errors.length > 0) {
+    return res.status(400).json({ error: 'Invalid contact', details: errors });
+  }
+
+  const userId = req.user.id;
+  if (!getContact(userId, req.params.id)) {
+    return res.status(404).json({ error: 'Contact not found' });
+  }
+  if (req.body.name !== undefined && isContactNameTaken(userId, req.body.name, req.params.id)) {
+    return res.status(409).json({ error: `You already have a contact named ${req.body.name.trim()}` });
+  }
+  res.json(updateContact(userId, req.params.id, req.body));
+});
+
+/**
+ * Remove a contact
+ * DELETE /v1/contacts/:id
+ */
+app.delete('/v1/contacts/:id', requireScope('bankr-execute'), (req: Request, res: Response) => {
+  if (!deleteContact(req.user.id, req.params.id)) {
+    return res.status(404).json({ error: 'Contact not found' });
+  }
+  res.status(204).end();
+});
+
+/**
+ * Caller's paper positions with cost basis and PnL at current prices
+ * GET /v1/portfolio?method=fifo|average
+ */
+app.get('/v1/portfolio', async (req: Request, res: Response) => {
+  const method = (req.query.method as string) || 'fifo';
+  if (!COST_BASIS_METHODS.includes(method as CostBasisMethod)) {
+    return res.status(400).json({ error: `method must be one of: ${COST_BASIS_METHODS.join(', ')}` });
+  }
+
+  try {
+    res.json(await getPortfolio(req.user.id, method as CostBasisMethod));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Get when the caller's bankr trades need confirming
+ * GET /v1/bankr/confirmation
+ */
+app.get('/v1/bankr/confirmation', (req: Request, res: Response) => {
+  res.json(getConfirmationSettings(req.user.id));
+});
+
+/**
+ * Update the confirmation threshold and trusted recipients (null restores the default)
+ * PUT /v1/bankr/confirmation
+ * Body: { thresholdUsd?, knownAddresses?: string[] }
+ */
+app.put('/v1/bankr/confirmation', requireScope('bankr-execute'), (req: Request, res: Response) => {
+  const errors = validateConfirmationSettings(req.body);
+  if (errors.length > 0) {
+    return res.status(400).json({ error: 'Invalid confirmation settings', details: errors });
+  }
+  res.json(setConfirmationSettings(req.user.id, req.body));
+});
+
+/**
+ * Get the caller's bankr transaction policy and today's usage of its daily limits
+ * GET /v1/bankr/policy
+ */
+app.get('/v1/bankr/policy', (req: Request, res: Response) => {
+  res.json(getTxPolicyStatus(req.user.id));
+});
+
+/**
+ * Update the caller's bankr transaction policy (null removes a rule)
+ * PUT /v1/bankr/policy
+ * Body: { allowedRecipients?, blockedRecipients?, blockedTokens?, maxSlippageBps?,
+ *         maxPriceImpactPct?, maxTransferUsd?, dailyLimits?: { [token]: amount } }
+ */
+app.put('/v1/bankr/policy', requireScope('bankr-execute'), (req: Request, res: Response) => {
+  const errors = validateTxPolicy(req.body);
+  if (errors.length > 0) {
+    return res.status(400).json({ error: 'Invalid policy', details: errors });
+  }
+
+  const userId = req.user.id;
+  setTxPolicy(userId, req.body);
+  res.json(getTxPolicyStatus(userId));
+});
+
+/**
+ * List the caller's bankr DCA schedules, newest first
+ * GET /v1/bankr/schedules?status=active
+ */
+app.get('/v1/bankr/schedules', (req: Request, res: Response) => {
+  const status = req.query.status as DcaStatus | undefined;
+  if (status !== undefined && !['active', 'paused', 'cancelled', 'completed'].includes(status)) {
+    return res.status(400).json({ error: 'status must be active, paused, cancelled or completed' });
+  }
+  const schedules = listSchedules(req.user.id, status);
+  res.json({ schedules, count: schedules.length });
+});
+
+/**
+ * Get one DCA schedule with its fills
+ * GET /v1/bankr/schedules/:id
+ */
+app.get('/v1/bankr/schedules/:id', (req: Request, res: Response) => {
+  const schedule = getSchedule(req.user.id, req.params.id);
+  if (!schedule) {
+    return res.status(404).json({ error: 'Schedule not found' });
+  }
+  res.json(schedule);
+});
+
+/**
+ * List the caller's conditional bankr orders (limit orders, stop-losses), newest first
+ * GET /v1/bankr/orders?status=open
+ */
+app.get('/v1/bankr/orders', (req: Request, res: Response) => {
+  const status = req.query.status as OrderStatus | undefined;
+  if (status !== undefined && !['open', 'executing', 'filled', 'failed', 'cancelled'].includes(status)) {
+    return res.status(400).json({ error: 'status must be open, executing, filled, failed or cancelled' });
+  }
+  const orders = listOrders(req.user.id, status);
+  res.json({ orders, count: orders.length });
+});
+
+/**
+ * Get one conditional order
+ * GET /v1/bankr/orders/:id
+ */
+app.get('/v1/bankr/orders/:id', (req: Request, res: Response) => {
+  const order = getOrder(req.user.id, req.params.id);
+  if (!order) {
+    return res.status(404).json({ error: 'Order not found' });
+  }
+  res.json(order);
+});
+
+/**
+ * Cancel an open order
+ * DELETE /v1/bankr/orders/:id
+ */
+app.delete('/v1/bankr/orders/:id', requireScope('dispatch'), (req: Request, res: Response) => {
+  const order = cancelOrder(req.user.id, req.params.id);
+  if (!order) {
+    return res.status(404).json({ error: 'No open order with that id' });
+  }
+  res.json(order);
 });
 
 /**
@@ -457,6 +1123,113 @@ app.get('/v1/specialists', (req: Request, res: Response) => {
   res.json({ specialists });
 });
 
+/**
+ * Register a specialist at runtime (admin only)
+ * POST /v1/specialists
+ * Body: { id, name, description, capabilities?, fee?, wallet?, routing?: { patterns, weight? }, delegateTo, promptPrefix? }
+ */
+app.post('/v1/specialists', requireScope('admin'), (req: Request, res: Response) => {
+  const errors = validateRegistration(req.body);
+  if (errors.length > 0) {
+    return res.status(400).json({ error: 'Invalid specialist', details: errors });
+  }
+
+  try {
+    const definition = registerRuntimeSpecialist(req.body);
+    res.status(201).json({
+      specialist: {
+        name: definition.id,
+        displayName: definition.name,
+        description: definition.description,
+        capabilities: definition.capabilities,
+        fee: String(definition.fee),
+        builtIn: definition.builtIn,
+      },
+    });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * List API keys, optionally for one user (admin only; hashes are never returned)
+ * GET /v1/keys?userId=usr_...
+ */
+app.get('/v1/keys', requireScope('admin'), (req: Request, res: Response) => {
+  const keys = listApiKeys(req.query.userId as string | undefined).map(toPublicKey);
+  res.json({ keys, count: keys.length });
+});
+
+/**
+ * Mint an API key (admin only). The key is only shown in this response.
+ * POST /v1/keys
+ * Body: { scopes: ApiKeyScope[], userId?: string, name?: string, expiresAt?: string }
+ * Without userId the key belongs to a new user.
+ */
+app.post('/v1/keys', requireScope('admin'), (req: Request, res: Response) => {
+  const errors = validateKeyRequest(req.body);
+  if (errors.length > 0) {
+    return res.status(400).json({ error: 'Invalid key request', details: errors });
+  }
+
+  const { scopes, userId, name, expiresAt } = req.body;
+  const { key, record } = createApiKey({
+    scopes,
+    userId,
+    name,
+    expiresAt: expiresAt !== undefined ? new Date(expiresAt).getTime() : undefined,
+  });
+  res.status(201).json({ key, apiKey: toPublicKey(record) });
+});
+
+/**
+ * Get one API key (admin only)
+ * GET /v1/keys/:id
+ */
+app.get('/v1/keys/:id', requireScope('admin'), (req: Request, res: Response) => {
+  const record = getApiKey(req.params.id);
+  if (!record) {
+    return res.status(404).json({ error: 'API key not found' });
+  }
+  res.json(toPublicKey(record));
+});
+
+/**
+ * Replace an API key with a new one for the same user and scopes (admin only)
+ * POST /v1/keys/:id/rotate
+ * Body: { gracePeriodSeconds?: number } - how long the old key keeps working (default 0)
+ */
+app.post('/v1/keys/:id/rotate', requireScope('admin'), (req: Request, res: Response) => {
+  const { gracePeriodSeconds = 0 } = req.body || {};
+  if (typeof gracePeriodSeconds !== 'number' || !(gracePeriodSeconds >= 0)) {
+    return res.status(400).json({ error: 'gracePeriodSeconds must be a non-negative number' });
+  }
+  if (!getApiKey(req.params.id)) {
+    return res.status(404).json({ error: 'API key not found' });
+  }
+
+  const rotated = rotateApiKey(req.params.id, gracePeriodSeconds * 1000);
+  if (!rotated) {
+    return res.status(409).json({ error: 'API key is revoked or expired' });
+  }
+  res.status(201).json({ key: rotated.key, apiKey: toPublicKey(rotated.record), previous: toPublicKey(rotated.previous) });
+});
+
+/**
+ * Revoke an API key (admin only)
+ * POST /v1/keys/:id/revoke
+ */
+app.post('/v1/keys/:id/revoke', requireScope('admin'), (req: Request, res: Response) => {
+  if (!getApiKey(req.params.id)) {
+    return res.status(404).json({ error: 'API key not found' });
+  }
+  const revoked = revokeApiKey(req.params.id);
+  if (!revoked) {
+    return res.status(409).json({ error: 'API key already revoked' });
+  }
+  res.json(toPublicKey(revoked));
+});
+
 /**
  * Get wallet balances
  * GET /wallet/balances
@@ -519,7 +1292,7 @@ app.get('/solana/transactions/:address', async (req: Request, res: Response) =>
  * Test specialists directly (for debugging)
  * POST /test/:specialist
  */
-app.post('/test/:specialist', async (req: Request, res: Response) => {
+app.post('/test/:specialist', requireScope('dispatch'), async (req: Request, res: Response) => {
   try {
     const { specialist } = req.params;
     const { prompt } = req.body;
@@ -528,25 +1301,17 @@ app.post('/test/:specialist', async (req: Request, res: Response) => {
       return res.status(400).json({ error: 'Prompt is required' });
     }
 
-    // Import specialists dynamically
-    let result;
-    switch (specialist) {
-      case 'magos':
-        const magos = (await import('./specialists/magos')).default;
-        result = await magos.handle(prompt);
-        break;
-      case 'aura':
-        const aura = (await import('./specialists/aura')).default;
-        result = await aura.handle(prompt);
-        break;
-      case 'bankr':
-        const bankr = (await import('./specialists/bankr')).default;
-        result = await bankr.handle(prompt);
-        break;
-      default:
-        return res.status(400).json({ error: 'Unknown specialist' });
+    const definition = getSpecialist(specialist);
+    if (!definition) {
+      return res.status(400).json({ error: 'Unknown specialist' });
+    }
+    // Calling bankr directly would skip the confirmation and policy checks of a dispatched hop
+    if (specialist === 'bankr') {
+      return res.status(403).json({ error: 'bankr is only available through /dispatch' });
     }
 
+    const result = await definition.handler.handle(prompt);
+
     res.json({ specialist, result });
   } catch (error: any) {
     res.status(500).json({ error: error.message });
@@ -560,6 +1325,7 @@ app.post('/test/:specialist', async (req: Request, res: Response) => {
 interface ExtendedWebSocket extends WebSocket {
   isAlive: boolean;
   userId?: string;
+  scopes?: ApiKeyScope[];
   subscriptions?: Map<string, () => void>; // taskId -> unsubscribe function
 }
 
@@ -618,21 +1384,47 @@ wss.on('close', () => {
   clearInterval(interval);
 });
 
+// Order changes go to every socket of the order's owner
+onOrderUpdate(order => {
+  wsClients.forEach((_, ws) => {
+    if (ws.userId !== order.userId) return;
+    sendToClient(ws, {
+      type: 'order_update',
+      taskId: order.taskId || '',
+      payload: order,
+      timestamp: new Date(),
+    });
+  });
+});
+
+// Activity on a watched address goes to every socket of each user watching it
+onWalletActivity((userId, activity) => {
+  wsClients.forEach((_, ws) => {
+    if (ws.userId !== userId) return;
+    sendToClient(ws, {
+      type: 'wallet_activity',
+      taskId: '',
+      payload: activity,
+      timestamp: new Date(),
+    });
+  });
+});
+
 function handleWSMessage(ws: ExtendedWebSocket, message: any) {
   console.log('[WS] Received message:', message.type, message.taskId || '');
   
   // Authentication handler
   if (message.type === 'auth') {
-    const apiKey = message.apiKey;
-    const apiKeysEnv = process.env.API_KEYS || '';
-    const validKeys = apiKeysEnv.split(',').map(k => k.trim()).filter(k => k.length > 0);
-
-    if (apiKey && validKeys.includes(apiKey)) {
-      ws.userId = apiKey;
-      console.log('[WS] Client authenticated:', apiKey);
-      ws.send(JSON.stringify({ type: 'authenticated', userId: ws.userId }));
+    // Wallet session token (Sign-In With Solana) or API key
+    const identity = message.token ? authenticateSession(message.token) : authenticateApiKey(message.apiKey);
+
+    if (identity) {
+      ws.userId = identity.userId;
+      ws.scopes = identity.scopes;
+      console.log('[WS] Client authenticated:', identity.userId, `(${identity.id})`);
+      ws.send(JSON.stringify({ type: 'authenticated', userId: ws.userId, scopes: ws.scopes }));
     } else {
-      console.log('[WS] Auth failed for key:', apiKey);
+      console.log('[WS] Auth failed');
       ws.send(JSON.stringify({ error: 'Authentication failed' }));
     }
     return;
@@ -670,7 +1462,7 @@ function handleWSMessage(ws: ExtendedWebSocket, message: any) {
         wsClients.set(ws, subscriptions);
 
         // Set up subscription for future updates
-        const unsubscribe = subscribeToTask(message.taskId, (updatedTask: Task) => {
+        const unsubscribeUpdates = subscribeToTask(message.taskId, (updatedTask: Task) => {
           sendToClient(ws, {
             type: 'task_update',
             taskId: updatedTask.id,
@@ -679,6 +1471,21 @@ function handleWSMessage(ws: ExtendedWebSocket, message: any) {
           });
         });
 
+        // Partial specialist output as it is produced
+        const unsubscribeChunks = subscribeToTaskChunks(message.taskId, (chunk: TaskChunk) => {
+          sendToClient(ws, {
+            type: 'task_chunk',
+            taskId: chunk.taskId,
+            payload: chunk,
+            timestamp: new Date(),
+          });
+        });
+
+        const unsubscribe = () => {
+          unsubscribeUpdates();
+          unsubscribeChunks();
+        };
+
         // Store unsubscribe function
         if (ws.subscriptions) {
           ws.subscriptions.set(message.taskId, unsubscribe);
@@ -706,16 +1513,39 @@ function handleWSMessage(ws: ExtendedWebSocket, message: any) {
 
     case 'dispatch':
       // Handle dispatch via WebSocket
-      dispatch({
-        prompt: message.prompt,
-        userId: ws.userId, // Use verified userId from socket
-        preferredSpecialist: message.preferredSpecialist,
-        dryRun: message.dryRun,
-      }).then(result => {
-        ws.send(JSON.stringify({
-          type: 'dispatch_result',
-          ...result,
-        }));
+      if (!hasScope(ws.scopes, 'dispatch')) {
+        ws.send(JSON.stringify({ type: 'error', message: 'API key lacks the dispatch scope' }));
+        return;
+      }
+      if (message.customInstructions !== undefined && validateInstructionMap(message.customInstructions).length > 0) {
+        ws.send(JSON.stringify({ type: 'error', message: 'Invalid customInstructions' }));
+        return;
+      }
+      // Same per-user dispatch budget as POST /dispatch
+      consume('dispatch', ws.userId).then(limit => {
+        if (!limit.allowed) {
+          ws.send(JSON.stringify({
+            type: 'error',
+            message: 'Too many requests, please try again later.',
+            retryAfter: Math.ceil(limit.retryAfterMs / 1000),
+          }));
+          return;
+        }
+        return dispatch({
+          prompt: message.prompt,
+          userId: ws.userId, // Use verified userId from socket
+          preferredSpecialist: message.preferredSpecialist,
+          workflow: message.workflow,
+          dryRun: message.dryRun,
+          maxPayment: message.maxPayment,
+          customInstructions: message.customInstructions,
+          scopes: ws.scopes,
+        }).then(result => {
+          ws.send(JSON.stringify({
+            type: 'dispatch_result',
+            ...result,
+          }));
+        });
       }).catch(error => {
         ws.send(JSON.stringify({
           type: 'error',
@@ -724,6 +1554,60 @@ function handleWSMessage(ws: ExtendedWebSocket, message: any) {
       });
       break;
 
+    case 'cancel': {
+      // Cancel a running task; subscribers see the update as a task_update
+      const task = message.taskId ? getTask(message.taskId) : undefined;
+      if (!task) {
+        ws.send(JSON.stringify({ error: 'Task not found' }));
+        return;
+      }
+      if (task.userId !== ws.userId) {
+        ws.send(JSON.stringify({ error: 'Access denied: not your task' }));
+        return;
+      }
+      if (!hasScope(ws.scopes, 'dispatch')) {
+        ws.send(JSON.stringify({ error: 'API key lacks the dispatch scope' }));
+        return;
+      }
+      if (!cancelTask(task.id)) {
+        ws.send(JSON.stringify({ error: `Task already ${task.status}` }));
+        return;
+      }
+      ws.send(JSON.stringify({ type: 'cancelled', taskId: task.id }));
+      break;
+    }
+
+    case 'confirm': {
+      // Confirm ({ approve: true }) or reject the bankr trade a task is waiting on
+      const task = message.taskId ? getTask(message.taskId) : undefined;
+      if (!task) {
+        ws.send(JSON.stringify({ error: 'Task not found' }));
+        return;
+      }
+      if (task.userId !== ws.userId) {
+        ws.send(JSON.stringify({ error: 'Access denied: not your task' }));
+        return;
+      }
+      if (!hasScope(ws.scopes, 'dispatch')) {
+        ws.send(JSON.stringify({ error: 'API key lacks the dispatch scope' }));
+        return;
+      }
+      if (typeof message.approve !== 'boolean') {
+        ws.send(JSON.stringify({ error: 'approve must be true or false' }));
+        return;
+      }
+      if (message.approve && !hasScope(ws.scopes, 'bankr-execute')) {
+        ws.send(JSON.stringify({ error: 'API key lacks the bankr-execute scope' }));
+        return;
+      }
+      if (!confirmTask(task.id, message.approve)) {
+        ws.send(JSON.stringify({ error: `Task is ${task.status}, not awaiting confirmation` }));
+        return;
+      }
+      ws.send(JSON.stringify({ type: message.approve ? 'confirmed' : 'rejected', taskId: task.id }));
+      break;
+    }
+
     case 'ping':
       ws.send(JSON.stringify({ type: 'pong', timestamp: new Date().toISOString() }));
       break;
@@ -735,7 +1619,10 @@ function handleWSMessage(ws: ExtendedWebSocket, message: any) {
 
 function sendToClient(ws: WebSocket, event: WSEvent) {
   if (ws.readyState === WebSocket.OPEN) {
-    console.log('[WS] Sending to client:', event.type, event.taskId || '');
+    // Chunks are too frequent to log individually
+    if (event.type !== 'task_chunk') {
+      console.log('[WS] Sending to client:', event.type, event.taskId || '');
+    }
     ws.send(JSON.stringify(event));
   } else {
     console.log('[WS] Client not ready, state:', ws.readyState);
@@ -767,6 +1654,11 @@ async function start() {
   const balances = await getBalances();
   console.log(`[Hivemind] AgentWallet balances:`, balances);
 
+  resumeWebhookDeliveries();
+  resumeDcaSchedules();
+  startPriceWatch();
+  startWalletWatchers();
+
   server.listen(PORT, () => {
     console.log(`
 ╔═══════════════════════════════════════════════════╗
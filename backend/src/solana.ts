@@ -3,7 +3,12 @@
  * Handles Solana RPC connections, transaction monitoring via Helius
  */
 
-import { Connection, PublicKey, LAMPORTS_PER_SOL } from '@solana/web3.js';
+import { Connection, Keypair, PublicKey, SystemProgram, Transaction, LAMPORTS_PER_SOL, sendAndConfirmTransaction } from '@solana/web3.js';
+import {
+  createAssociatedTokenAccountIdempotentInstruction,
+  createTransferCheckedInstruction,
+  getAssociatedTokenAddressSync,
+} from '@solana/spl-token';
 import axios from 'axios';
 import config from './config';
 
@@ -85,32 +90,43 @@ export async function getRecentTransactions(
 
 /**
  * Monitor address for new transactions (webhook-style polling)
- * Returns a function to stop monitoring
+ * New signatures are passed to `callback` oldest first; `fetchSignatures` can be
+ * replaced (e.g. with a local stub in tests). Returns a function to stop monitoring
  */
 export function monitorAddress(
   address: string,
   callback: (tx: any) => void,
   intervalMs: number = 5000,
-  network: 'devnet' | 'mainnet' = 'devnet'
+  network: 'devnet' | 'mainnet' = 'devnet',
+  fetchSignatures: (address: string, limit: number, network: 'devnet' | 'mainnet') => Promise<any[]> = getRecentTransactions
 ): () => void {
   let lastSeen: string | null = null;
+  let primed = false;
+  let checking = false;
+  const startedAt = Math.floor(Date.now() / 1000);
   
   const check = async () => {
+    if (checking) return;
+    checking = true;
     try {
-      const txs = await getRecentTransactions(address, 5, network);
-      if (txs.length > 0) {
-        const latest = txs[0].signature;
-        if (lastSeen && latest !== lastSeen) {
-          // New transaction(s) detected
-          for (const tx of txs) {
-            if (tx.signature === lastSeen) break;
-            callback(tx);
-          }
+      const txs = await fetchSignatures(address, 5, network);
+      if (primed) {
+        // New transaction(s) detected; older ones are never reported, even if the first check came back empty
+        const fresh: any[] = [];
+        for (const tx of txs) {
+          if (tx.signature === lastSeen || (tx.blockTime && tx.blockTime < startedAt)) break;
+          fresh.push(tx);
         }
-        lastSeen = latest;
+        fresh.reverse().forEach(tx => callback(tx));
       }
+      if (txs.length > 0) {
+        lastSeen = txs[0].signature;
+      }
+      primed = true;
     } catch (error: any) {
       console.error('[Monitor] Error:', error.message);
+    } finally {
+      checking = false;
     }
   };
 
@@ -119,6 +135,7 @@ export function monitorAddress(
   
   // Set up polling
   const interval = setInterval(check, intervalMs);
+  interval.unref?.();
   
   // Return stop function
   return () => {
@@ -155,6 +172,62 @@ export async function getTokenAccounts(
   }
 }
 
+/**
+ * Balance of one SPL mint across an owner's token accounts (from getTokenAccounts).
+ * Decimals are null when the owner holds no account for the mint.
+ */
+export async function getTokenBalance(
+  owner: string,
+  mint: string,
+  network: 'devnet' | 'mainnet' = 'devnet'
+): Promise<{ amount: number; decimals: number | null }> {
+  const accounts = await getTokenAccounts(owner, network);
+  let amount = 0;
+  let decimals: number | null = null;
+  for (const account of accounts) {
+    const info = account.account?.data?.parsed?.info;
+    if (info?.mint !== mint) continue;
+    amount += Number(info.tokenAmount?.uiAmountString ?? info.tokenAmount?.uiAmount ?? 0);
+    decimals = info.tokenAmount?.decimals ?? decimals;
+  }
+  return { amount, decimals };
+}
+
+/**
+ * Send SOL (mint null) or an SPL token from a local keypair. SPL transfers create
+ * the recipient's associated token account first if it doesn't exist.
+ */
+export async function sendTransfer(
+  keypair: Keypair,
+  to: string,
+  mint: string | null,
+  atomicAmount: bigint,
+  decimals: number,
+  network: 'devnet' | 'mainnet' = 'devnet'
+): Promise<{ signature: string; createdTokenAccount: boolean }> {
+  const connection = getConnection(network);
+  const recipient = new PublicKey(to);
+  const tx = new Transaction();
+  let createdTokenAccount = false;
+
+  if (mint === null) {
+    tx.add(SystemProgram.transfer({ fromPubkey: keypair.publicKey, toPubkey: recipient, lamports: atomicAmount }));
+  } else {
+    const mintKey = new PublicKey(mint);
+    const source = getAssociatedTokenAddressSync(mintKey, keypair.publicKey);
+    const destination = getAssociatedTokenAddressSync(mintKey, recipient, true);
+    createdTokenAccount = (await connection.getAccountInfo(destination)) === null;
+    tx.add(
+      createAssociatedTokenAccountIdempotentInstruction(keypair.publicKey, destination, recipient, mintKey),
+      createTransferCheckedInstruction(source, mintKey, destination, keypair.publicKey, atomicAmount, decimals)
+    );
+  }
+
+  const signature = await sendAndConfirmTransaction(connection, tx, [keypair]);
+  console.log(`[Helius] Sent transfer ${signature.slice(0, 16)}...${createdTokenAccount ? ' (created token account)' : ''}`);
+  return { signature, createdTokenAccount };
+}
+
 /**
  * Get transaction details using Helius enhanced transaction API
  */
@@ -186,5 +259,7 @@ export default {
   getRecentTransactions,
   monitorAddress,
   getTokenAccounts,
+  getTokenBalance,
+  sendTransfer,
   getEnhancedTransaction,
 };
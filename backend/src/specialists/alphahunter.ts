@@ -0,0 +1,129 @@
+/**
+ * AlphaHunter Specialist
+ * Early opportunity discovery - scores trending tokens by momentum and volume anomalies
+ */
+
+import { SpecialistContext, SpecialistResult } from '../types';
+import { getTrendingTokens, getMarketData } from './tools';
+import { MarketData } from './tools/coingecko';
+
+/**
+ * AlphaHunter specialist handler
+ */
+export const alphahunter = {
+  name: 'AlphaHunter',
+  description: 'Early Gem Finder - scans trending tokens for momentum and unusual volume',
+
+  async handle(prompt: string, context?: SpecialistContext): Promise<SpecialistResult> {
+    const startTime = Date.now();
+
+    try {
+      const limit = parseLimit(prompt);
+      const data = await huntOpportunities(limit, context?.signal);
+
+      return {
+        success: true,
+        data,
+        confidence: data.confidence,
+        timestamp: new Date(),
+        executionTimeMs: Date.now() - startTime,
+      };
+    } catch (error: any) {
+      console.error('[AlphaHunter] Error:', error.message);
+      return {
+        success: false,
+        data: { error: error.message },
+        timestamp: new Date(),
+        executionTimeMs: Date.now() - startTime,
+      };
+    }
+  },
+};
+
+/**
+ * How many opportunities to return ("top 5 gems")
+ */
+function parseLimit(prompt: string): number {
+  const match = prompt.match(/\btop\s+(\d+)/i);
+  return match ? Math.min(Math.max(parseInt(match[1]), 1), 7) : 3;
+}
+
+/**
+ * Score a token: volume/market-cap turnover, short-term momentum, and room below ATH
+ */
+function scoreToken(market: MarketData): { score: number; signals: string[] } {
+  const signals: string[] = [];
+  let score = 0;
+
+  const turnover = market.marketCap ? (market.volume24h || 0) / market.marketCap : 0;
+  if (turnover > 0.25) {
+    score += 40;
+    signals.push(`Unusual volume (${(turnover * 100).toFixed(0)}% of market cap traded in 24h)`);
+  } else if (turnover > 0.1) {
+    score += 20;
+    signals.push(`Elevated volume (${(turnover * 100).toFixed(0)}% turnover)`);
+  }
+
+  if (market.change24h > 5) {
+    score += Math.min(30, market.change24h);
+    signals.push(`Momentum: +${market.change24h.toFixed(1)}% in 24h`);
+  } else if (market.change24h < -10) {
+    score -= 10;
+    signals.push(`Selling pressure: ${market.change24h.toFixed(1)}% in 24h`);
+  }
+
+  if (market.ath > 0) {
+    const belowAth = 1 - market.price / market.ath;
+    if (belowAth > 0.5) {
+      score += 15;
+      signals.push(`${(belowAth * 100).toFixed(0)}% below ATH`);
+    }
+  }
+
+  if (market.rank && market.rank > 100) {
+    score += 15;
+    signals.push(`Small cap (rank #${market.rank})`);
+  }
+
+  return { score: Math.max(0, Math.min(100, Math.round(score))), signals };
+}
+
+/**
+ * Rank trending tokens by opportunity score
+ */
+async function huntOpportunities(limit: number, signal?: AbortSignal) {
+  const trending = await getTrendingTokens(signal);
+  const candidates = trending.slice(0, 7);
+
+  const scored = await Promise.all(candidates.map(async ({ token }) => {
+    const market = await getMarketData(token, signal);
+    const { score, signals } = scoreToken(market);
+    return {
+      symbol: token,
+      score,
+      signals,
+      price: market.price,
+      change24h: market.change24h,
+      volume24h: market.volume24h,
+      marketCap: market.marketCap,
+    };
+  }));
+
+  const opportunities = scored.sort((a, b) => b.score - a.score).slice(0, limit);
+
+  const lines = opportunities.map((o, i) =>
+    `${i + 1}. **${o.symbol}** — score ${o.score}/100${o.signals.length ? `: ${o.signals.join('; ')}` : ''}`
+  );
+
+  return {
+    summary: opportunities.length > 0
+      ? `🎯 **AlphaHunter Picks**\n\n${lines.join('\n')}\n\n_Not financial advice. Early tokens are highly volatile._`
+      : 'No opportunities found in the current trending set.',
+    tokens: opportunities.map(o => ({ symbol: o.symbol, score: o.score })),
+    opportunities,
+    confidence: opportunities.length > 0 ? 0.6 : 0.3,
+    relatedTokens: opportunities.map(o => o.symbol),
+  };
+}
+
+export default alphahunter;
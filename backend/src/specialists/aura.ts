@@ -6,7 +6,9 @@
 
 import axios from 'axios';
 import config from '../config';
-import { AuraSentiment, SpecialistResult } from '../types';
+import { AuraSentiment, SpecialistContext, SpecialistResult } from '../types';
+import { waitForUpstream } from '../rate-limit';
+import { findTokens } from '../token-registry';
 
 const MOLTX_API = config.specialists.moltx.baseUrl;
 const API_KEY = config.specialists.moltx.apiKey;
@@ -21,7 +23,7 @@ export const aura = {
   /**
    * Main handler - parses prompt and routes to appropriate function
    */
-  async handle(prompt: string): Promise<SpecialistResult> {
+  async handle(prompt: string, context?: SpecialistContext): Promise<SpecialistResult> {
     const startTime = Date.now();
     
     try {
@@ -31,7 +33,7 @@ export const aura = {
       
       switch (intent.type) {
         case 'sentiment':
-          data = await analyzeSentiment(intent.topic || 'crypto');
+          data = await analyzeSentiment(intent.topic || 'crypto', context?.signal);
           break;
         case 'trending':
           data = await getTrending(intent.category || 'all');
@@ -72,10 +74,14 @@ function parseIntent(prompt: string): { type: string; topic?: string; category?:
   
   // Extract topic (token, project, or general topic)
   const stopWords = ['what', 'how', 'when', 'where', 'why', 'who', 'is', 'are', 'the', 'this', 'that', 'sentiment', 'vibe', 'mood', 'tokens'];
-  const matches = prompt.match(/\b(SOL|BTC|ETH|BONK|WIF|JUP|Solana|Bitcoin|Ethereum|[A-Z][a-z]+(?:Fi|Swap|DAO)?)\b/g);
+  // Registry tokens first ("BONK", "$wif", "Solana"), then capitalized project names
+  const token = findTokens(prompt)[0];
+  const matches = prompt.match(/\b([A-Z][a-z]+(?:Fi|Swap|DAO)?)\b/g);
   
   let topic = 'crypto';
-  if (matches) {
+  if (token) {
+    topic = token;
+  } else if (matches) {
     const validTopic = matches.find(m => !stopWords.includes(m.toLowerCase()));
     if (validTopic) topic = validTopic;
   }
@@ -100,12 +106,14 @@ function parseIntent(prompt: string): { type: string; topic?: string; category?:
 /**
  * Analyze sentiment for a topic
  */
-async function analyzeSentiment(topic: string): Promise<AuraSentiment> {
+async function analyzeSentiment(topic: string, signal?: AbortSignal): Promise<AuraSentiment> {
   // Try MoltX API if available
   if (MOLTX_API && API_KEY) {
     try {
+      await waitForUpstream('moltx', signal);
       const response = await axios.get(`${MOLTX_API}/v1/sentiment/${topic}`, {
         headers: { 'X-API-Key': API_KEY },
+        signal,
       });
       return response.data;
     } catch (error) {
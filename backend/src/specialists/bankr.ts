@@ -1,166 +1,88 @@
 /**
  * bankr Specialist - AgentWallet Devnet Integration with Jupiter Routing
  * Uses Jupiter API for quotes/routing visualization
- * Uses Helius for accurate devnet balance
- * Maintains simulated balance state for swap demonstrations
+ * Trades against per-user paper accounts (see paper-accounts.ts)
  */
 
 import axios from 'axios';
-import * as fs from 'fs';
-import * as path from 'path';
-import { BankrAction, SpecialistResult } from '../types';
+import { Keypair, PublicKey } from '@solana/web3.js';
+import { BankrAction, SpecialistContext, SpecialistResult } from '../types';
 import config from '../config';
 import solana from '../solana';
+import { parseSecretKey } from '../x402-client';
+import { getMint, getDecimals, listTradableSymbols, normalizeSymbol } from '../token-registry';
+import {
+  getPaperAccount,
+  getPaperBalance,
+  applyPaperSwap,
+  applyPaperTransfer,
+  resetPaperAccount,
+  listPaperTrades,
+} from '../paper-accounts';
+import { Portfolio, STABLECOINS, getPortfolio, isPortfolioPrompt, parseCostBasisMethod, estimateSwapValueUsd } from '../portfolio';
+import { IntentAction, IntentAmount, STAKED_SOL, parseBankrIntent, describeAmount } from '../bankr-intent';
+import { getTokenPrice } from './tools';
+import { intentContacts } from '../contacts';
+import { logTaskMessage } from '../task-log';
+import {
+  PolicyViolation,
+  checkSwapPolicy,
+  checkTransferPolicy,
+  recordPolicyUsage,
+  slippageFor,
+  describeViolation,
+  policyError,
+} from '../tx-policy';
+import {
+  DcaSchedule,
+  parseDcaCommand,
+  validateDcaSchedule,
+  listSchedules,
+  createSchedule,
+  pauseSchedule,
+  resumeSchedule,
+  cancelSchedule,
+} from '../dca';
+import {
+  LimitOrder,
+  isOrderPrompt,
+  parseOrderCommand,
+  validateOrder,
+  describeOrderKind,
+  listOrders,
+  createOrder,
+  cancelOrder,
+} from '../limit-orders';
 
 const AGENTWALLET_API = config.agentWallet.apiUrl;
 const AGENTWALLET_USERNAME = config.agentWallet.username;
 const AGENTWALLET_TOKEN = config.agentWallet.token;
 
-// AgentWallet Solana address (devnet)
-const SOLANA_ADDRESS = config.agentWallet.solanaAddress || '5xUugg8ysgqpcGneM6qpM2AZ8ZGuMaH5TnGNWdCQC1Z1';
-
 // Jupiter API for quotes (with API key for authenticated access)
 const JUPITER_API = config.jupiter?.baseUrl || 'https://api.jup.ag';
 const JUPITER_ULTRA_API = config.jupiter?.ultraUrl || 'https://api.jup.ag/ultra';
 const JUPITER_API_KEY = config.jupiter?.apiKey || '';
 
-// Well-known token mints
-const TOKEN_MINTS: Record<string, string> = {
-  'SOL': 'So11111111111111111111111111111111111111112',
-  'USDC': 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
-  'USDT': 'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB',
-  'BONK': 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263',
-  'WIF': 'EKpQGSJtjMFqKZ9KQanSqYXRcF8fBopzLHYxdM65zcjm',
-  'JUP': 'JUPyiwrYJFskUPiHa7hkeR8VUtAeFoSYbKedZNsDvCN',
-  'RAY': '4k3Dyjzvzp8eMZWUXbBCjEvwSkkk59S5iCNLY3QrkX6R',
-  'PYTH': 'HZ1JovNiVvGrGNiiYvEozEVgZ58xaU3RKwX8eACQBCt3',
-};
+// Paper account for callers without a user (e.g. direct x402 calls)
+const ANONYMOUS_ACCOUNT = 'anonymous';
 
-// Simulated balance state file
-const SIMULATED_STATE_PATH = path.join(__dirname, '../../data/simulated-balances.json');
-
-interface SimulatedBalances {
-  lastRealBalanceCheck: number;
-  realSOL: number;
-  balances: Record<string, number>;
-  transactions: Array<{
-    type: 'swap' | 'transfer';
-    from: string;
-    to: string;
-    amountIn: number;
-    amountOut: number;
-    timestamp: number;
-    route?: string;
-  }>;
-}
+// Slippage tolerance for quotes, unless the user's policy sets a tighter one
+const DEFAULT_SLIPPAGE_BPS = 100;
 
-/**
- * Load simulated balance state
- */
-function loadSimulatedState(): SimulatedBalances {
-  try {
-    if (fs.existsSync(SIMULATED_STATE_PATH)) {
-      return JSON.parse(fs.readFileSync(SIMULATED_STATE_PATH, 'utf-8'));
-    }
-  } catch (e) {
-    console.log('[bankr] Could not load simulated state, creating new');
-  }
-  
-  return {
-    lastRealBalanceCheck: 0,
-    realSOL: 0,
-    balances: { SOL: 0, USDC: 0 },
-    transactions: [],
-  };
-}
+// Assets AgentWallet's transfer action sends; other tokens need BANKR_SECRET_KEY
+const AGENTWALLET_ASSETS = new Set(['SOL', 'USDC']);
 
-/**
- * Save simulated balance state
- */
-function saveSimulatedState(state: SimulatedBalances): void {
-  try {
-    const dir = path.dirname(SIMULATED_STATE_PATH);
-    if (!fs.existsSync(dir)) {
-      fs.mkdirSync(dir, { recursive: true });
-    }
-    fs.writeFileSync(SIMULATED_STATE_PATH, JSON.stringify(state, null, 2));
-  } catch (e) {
-    console.error('[bankr] Could not save simulated state:', e);
-  }
+// Registry decimals (transfers prefer what the sender's token account reports)
+function tokenDecimals(token: string): number {
+  return getDecimals(token) ?? 6;
 }
 
 /**
- * Sync simulated state with real devnet balance
+ * Convert a decimal amount string to atomic units without float rounding
  */
-async function syncWithRealBalance(): Promise<SimulatedBalances> {
-  const state = loadSimulatedState();
-  const now = Date.now();
-  
-  // Refresh real balance every 5 minutes or if never checked
-  if (now - state.lastRealBalanceCheck > 5 * 60 * 1000 || state.realSOL === 0) {
-    console.log('[bankr] Syncing with real devnet balance via Helius...');
-    const realBalance = await solana.getBalance(SOLANA_ADDRESS, 'devnet');
-    
-    // If this is first sync or balance changed externally, update simulated SOL
-    if (state.realSOL === 0 || Math.abs(realBalance - state.realSOL) > 0.001) {
-      console.log(`[bankr] Real balance: ${realBalance} SOL (was ${state.realSOL})`);
-      state.realSOL = realBalance;
-      state.balances.SOL = realBalance;
-    }
-    
-    state.lastRealBalanceCheck = now;
-    saveSimulatedState(state);
-  }
-  
-  return state;
-}
-
-/**
- * Apply a simulated swap to balances
- */
-function applySimulatedSwap(
-  state: SimulatedBalances,
-  from: string,
-  to: string,
-  amountIn: number,
-  amountOut: number,
-  route?: string
-): SimulatedBalances {
-  const fromToken = from.toUpperCase();
-  const toToken = to.toUpperCase();
-  
-  // Initialize balances if needed
-  if (state.balances[fromToken] === undefined) state.balances[fromToken] = 0;
-  if (state.balances[toToken] === undefined) state.balances[toToken] = 0;
-  
-  // Check if we have enough balance
-  if (state.balances[fromToken] < amountIn) {
-    console.log(`[bankr] Insufficient ${fromToken}: have ${state.balances[fromToken]}, need ${amountIn}`);
-    return state;
-  }
-  
-  // Apply swap
-  state.balances[fromToken] -= amountIn;
-  state.balances[toToken] += amountOut;
-  
-  // Record transaction
-  state.transactions.push({
-    type: 'swap',
-    from: fromToken,
-    to: toToken,
-    amountIn,
-    amountOut,
-    timestamp: Date.now(),
-    route,
-  });
-  
-  // Keep only last 50 transactions
-  if (state.transactions.length > 50) {
-    state.transactions = state.transactions.slice(-50);
-  }
-  
-  saveSimulatedState(state);
-  return state;
+function toAtomicAmount(amount: string, decimals: number): bigint {
+  const [whole, fraction = ''] = amount.trim().split('.');
+  return BigInt(whole || '0') * 10n ** BigInt(decimals) + BigInt(fraction.slice(0, decimals).padEnd(decimals, '0') || '0');
 }
 
 /**
@@ -170,7 +92,8 @@ async function getJupiterQuote(
   inputMint: string,
   outputMint: string,
   amount: string,
-  decimals: number = 9
+  decimals: number = 9,
+  slippageBps: number = DEFAULT_SLIPPAGE_BPS
 ): Promise<any> {
   const amountInSmallestUnit = Math.floor(parseFloat(amount) * Math.pow(10, decimals)).toString();
   
@@ -191,7 +114,7 @@ async function getJupiterQuote(
         inputMint,
         outputMint,
         amount: amountInSmallestUnit,
-        slippageBps: 100, // 1% slippage
+        slippageBps,
         restrictIntermediateTokens: true,
       },
       headers,
@@ -231,26 +154,117 @@ function formatRoutePlan(quote: any): { route: string; hops: any[] } {
   return { route, hops };
 }
 
+export interface TransferReceipt {
+  token: string;
+  mint: string;
+  amount: string;
+  decimals: number;
+  atomicAmount: string;
+  from?: string;
+  to: string;
+  txHash: string;
+  explorer: string;
+  status: string;
+  via: 'agentwallet' | 'keypair';
+  createdTokenAccount?: boolean;  // Keypair transfers only; AgentWallet handles token accounts itself
+}
+
+let transferKeypair: Keypair | null | undefined;
+
+/**
+ * Local signer for transfers (BANKR_SECRET_KEY); transfers go through AgentWallet without one
+ */
+function getTransferKeypair(): Keypair | null {
+  if (transferKeypair === undefined) {
+    transferKeypair = null;
+    if (process.env.BANKR_SECRET_KEY) {
+      try {
+        transferKeypair = parseSecretKey(process.env.BANKR_SECRET_KEY);
+      } catch (error: any) {
+        console.error('[bankr] Invalid BANKR_SECRET_KEY, using AgentWallet:', error.message);
+      }
+    }
+  }
+  return transferKeypair;
+}
+
 /**
- * Execute Solana transfer via AgentWallet (devnet)
+ * Execute a SOL or SPL token transfer (devnet), checking the sender's balance first.
+ * Signs locally with BANKR_SECRET_KEY when set, otherwise sends through AgentWallet.
  */
 async function executeAgentWalletTransfer(
   to: string, 
   amount: string, 
-  asset: 'sol' | 'usdc' = 'sol'
-): Promise<{ txHash: string; explorer: string; status: string }> {
-  console.log(`[bankr] AgentWallet devnet transfer: ${amount} ${asset} to ${to}`);
-  
-  // Convert amount to lamports/smallest unit
-  const decimals = asset === 'sol' ? 9 : 6;
-  const amountInSmallestUnit = Math.floor(parseFloat(amount) * Math.pow(10, decimals)).toString();
-  
+  token: string = 'SOL',
+  userId: string = ANONYMOUS_ACCOUNT
+): Promise<TransferReceipt> {
+  const symbol = normalizeSymbol(token);
+  const mint = getMint(symbol);
+  if (!mint) {
+    throw new Error(`Unknown token ${token}; bankr can send ${listTradableSymbols().join(', ')}`);
+  }
+  try {
+    new PublicKey(to);
+  } catch {
+    throw new Error(`Invalid recipient address: ${to}`);
+  }
+  if (!(parseFloat(amount) > 0)) {
+    throw new Error(`Invalid amount: ${amount}`);
+  }
+  const violation = await checkTransfer(userId, symbol, parseFloat(amount), to);
+  if (violation) {
+    throw policyError(violation);
+  }
+
+  const keypair = getTransferKeypair();
+  if (!keypair && !AGENTWALLET_ASSETS.has(symbol)) {
+    throw new Error(`AgentWallet only sends ${[...AGENTWALLET_ASSETS].join(' and ')}; set BANKR_SECRET_KEY to send ${symbol}`);
+  }
+  const sender = keypair ? keypair.publicKey.toBase58() : config.agentWallet.solanaAddress;
+  console.log(`[bankr] ${keypair ? 'Keypair' : 'AgentWallet'} devnet transfer: ${amount} ${symbol} to ${to}`);
+
+  // Balance check against the sending wallet (SOL balance or its token accounts for the mint)
+  let decimals = tokenDecimals(symbol);
+  if (sender) {
+    let available: number;
+    if (symbol === 'SOL') {
+      available = await solana.getBalance(sender);
+    } else {
+      const balance = await solana.getTokenBalance(sender, mint);
+      available = balance.amount;
+      decimals = balance.decimals ?? decimals;
+    }
+    if (available < parseFloat(amount)) {
+      throw new Error(`Insufficient ${symbol}: wallet holds ${available}, need ${amount}`);
+    }
+  } else {
+    console.log('[bankr] No AgentWallet address configured, skipping balance check');
+  }
+
+  const atomicAmount = toAtomicAmount(amount, decimals);
+  const receipt = { token: symbol, mint, amount, decimals, atomicAmount: atomicAmount.toString(), from: sender || undefined, to };
+
+  if (keypair) {
+    const { signature, createdTokenAccount } = await solana.sendTransfer(
+      keypair, to, symbol === 'SOL' ? null : mint, atomicAmount, decimals
+    );
+    recordPolicyUsage(userId, symbol, parseFloat(amount));
+    return {
+      ...receipt,
+      txHash: signature,
+      explorer: `https://explorer.solana.com/tx/${signature}?cluster=devnet`,
+      status: 'confirmed',
+      via: 'keypair',
+      createdTokenAccount,
+    };
+  }
+
   const response = await axios.post(
     `${AGENTWALLET_API}/wallets/${AGENTWALLET_USERNAME}/actions/transfer-solana`,
     {
       to,
-      amount: amountInSmallestUnit,
-      asset,
+      amount: atomicAmount.toString(),
+      asset: symbol.toLowerCase(),
       network: 'devnet',
     },
     {
@@ -261,26 +275,49 @@ async function executeAgentWalletTransfer(
     }
   );
   
-  return response.data;
+  recordPolicyUsage(userId, symbol, parseFloat(amount));
+  return { ...receipt, ...response.data, via: 'agentwallet' };
 }
 
 /**
- * Execute swap via Jupiter (simulation with real routing and balance tracking)
+ * Check a transfer (devnet or paper) against the sender's transaction policy
  */
-async function executeJupiterSwap(
+async function checkTransfer(userId: string, token: string, amount: number, to: string): Promise<PolicyViolation | null> {
+  const valueUsd = await estimateSwapValueUsd(token, amount, token, amount);
+  return checkTransferPolicy(userId, { token, amount, to, valueUsd });
+}
+
+/**
+ * Record a policy violation in the task's messages
+ */
+function notePolicyViolation(context: SpecialistContext | undefined, error: string): void {
+  if (context?.taskId) {
+    logTaskMessage(context.taskId, 'bankr', `⛔ ${error}`);
+  }
+}
+
+/**
+ * Execute swap via Jupiter (simulation with real routing, tracked in the user's paper account)
+ */
+export async function executeJupiterSwap(
   from: string, 
   to: string, 
-  amount: string
+  amount: string,
+  userId: string
 ): Promise<BankrAction> {
-  console.log(`[bankr] Jupiter swap: ${amount} ${from} -> ${to}`);
+  console.log(`[bankr] Jupiter swap: ${amount} ${from} -> ${to} (${userId.slice(0, 8)}...)`);
   
-  const inputMint = TOKEN_MINTS[from.toUpperCase()] || from;
-  const outputMint = TOKEN_MINTS[to.toUpperCase()] || to;
-  const decimals = from.toUpperCase() === 'SOL' ? 9 : 6;
+  const inputMint = getMint(from) || from;
+  const outputMint = getMint(to) || to;
+  const decimals = tokenDecimals(from);
+  const balancesOf = (balances: Record<string, number>) => ({
+    [from]: balances[from.toUpperCase()]?.toFixed(4) || '0',
+    [to]: balances[to.toUpperCase()]?.toFixed(4) || '0',
+  });
   
   // Prevent circular arbitrage (same token)
   if (inputMint === outputMint) {
-    const state = await syncWithRealBalance();
+    const account = getPaperAccount(userId);
     return {
       type: 'swap',
       status: 'executed',
@@ -292,47 +329,66 @@ async function executeJupiterSwap(
         outputMint,
         estimatedOutput: amount,
         route: 'Direct (same token)',
-        network: 'devnet (simulated)',
-        balancesAfter: {
-          [from]: state.balances[from.toUpperCase()]?.toFixed(4) || '0',
-          [to]: state.balances[to.toUpperCase()]?.toFixed(4) || '0',
-        },
+        network: 'devnet (paper)',
+        balancesAfter: balancesOf(account.balances),
       },
     };
   }
 
-  // Sync with real balance first
-  let state = await syncWithRealBalance();
   const amountIn = parseFloat(amount);
+  const insufficient = (available: number): BankrAction => ({
+    type: 'swap',
+    status: 'failed',
+    details: {
+      error: `Insufficient ${from} balance`,
+      available: available.toFixed(4),
+      required: amountIn.toFixed(4),
+    },
+  });
   
   // Check if we have enough balance
-  const currentBalance = state.balances[from.toUpperCase()] || 0;
+  const balancesBefore = { ...getPaperAccount(userId).balances };
+  const currentBalance = balancesBefore[from.toUpperCase()] || 0;
   if (currentBalance < amountIn) {
+    return insufficient(currentBalance);
+  }
+  
+  // Get Jupiter quote for routing info
+  const quote = await getJupiterQuote(inputMint, outputMint, amount, decimals, slippageFor(userId, DEFAULT_SLIPPAGE_BPS));
+  
+  // Checked against the user's policy once the quote's slippage and price impact are known
+  const violation = checkSwapPolicy(userId, {
+    from,
+    to,
+    amount: amountIn,
+    slippageBps: quote?.outAmount ? quote.slippageBps : undefined,
+    priceImpactPct: quote?.outAmount && quote.priceImpactPct !== undefined ? parseFloat(quote.priceImpactPct) : undefined,
+  });
+  if (violation) {
+    console.log(`[bankr] Swap blocked by policy: ${violation.rule}`);
     return {
       type: 'swap',
       status: 'failed',
-      details: {
-        error: `Insufficient ${from} balance`,
-        available: currentBalance.toFixed(4),
-        required: amountIn.toFixed(4),
-      },
+      details: { error: describeViolation(violation), policyRule: violation.rule },
     };
   }
   
-  // Get Jupiter quote for routing info
-  const quote = await getJupiterQuote(inputMint, outputMint, amount, decimals);
-  
   if (quote && quote.outAmount) {
     const { route, hops } = formatRoutePlan(quote);
-    const outputDecimals = to.toUpperCase() === 'SOL' ? 9 : 6;
+    const outputDecimals = tokenDecimals(to);
     const outAmount = parseInt(quote.outAmount) / Math.pow(10, outputDecimals);
     const outAmountStr = outAmount.toFixed(6);
     
     console.log(`[bankr] Jupiter route: ${route}`);
     console.log(`[bankr] Expected output: ${outAmountStr} ${to}`);
     
-    // Apply simulated swap to balance state
-    state = applySimulatedSwap(state, from, to, amountIn, outAmount, route);
+    // Apply the swap to the paper account (re-checks the balance, which may have moved meanwhile)
+    const valueUsd = await estimateSwapValueUsd(from, amountIn, to, outAmount);
+    const account = applyPaperSwap(userId, from, to, amountIn, outAmount, route, valueUsd);
+    if (!account) {
+      return insufficient(getPaperBalance(userId, from));
+    }
+    recordPolicyUsage(userId, from, amountIn);
     
     // Build response with updated balances
     return {
@@ -349,23 +405,22 @@ async function executeJupiterSwap(
         slippageBps: quote.slippageBps,
         route,
         routePlan: hops,
-        network: 'devnet (simulated)',
+        network: 'devnet (paper)',
         // Include updated balances
-        balancesBefore: {
-          [from]: (currentBalance).toFixed(4),
-          [to]: ((state.balances[to.toUpperCase()] || 0) - outAmount).toFixed(4),
-        },
-        balancesAfter: {
-          [from]: state.balances[from.toUpperCase()]?.toFixed(4) || '0',
-          [to]: state.balances[to.toUpperCase()]?.toFixed(4) || '0',
-        },
+        balancesBefore: balancesOf(balancesBefore),
+        balancesAfter: balancesOf(account.balances),
       },
     };
   }
   
   // Fallback to mock if Jupiter unavailable
   const mockOutput = parseFloat(estimateOutput(from, to, amount));
-  state = applySimulatedSwap(state, from, to, amountIn, mockOutput, 'Mock');
+  const valueUsd = await estimateSwapValueUsd(from, amountIn, to, mockOutput);
+  const account = applyPaperSwap(userId, from, to, amountIn, mockOutput, 'Mock', valueUsd);
+  if (!account) {
+    return insufficient(getPaperBalance(userId, from));
+  }
+  recordPolicyUsage(userId, from, amountIn);
   
   return {
     type: 'swap',
@@ -376,11 +431,8 @@ async function executeJupiterSwap(
       amount,
       estimatedOutput: mockOutput.toFixed(6),
       route: 'Mock routing (Jupiter API unavailable)',
-      network: 'devnet (simulated)',
-      balancesAfter: {
-        [from]: state.balances[from.toUpperCase()]?.toFixed(4) || '0',
-        [to]: state.balances[to.toUpperCase()]?.toFixed(4) || '0',
-      },
+      network: 'devnet (paper)',
+      balancesAfter: balancesOf(account.balances),
     },
   };
 }
@@ -398,6 +450,8 @@ function estimateOutput(from: string, to: string, amount: string): string {
     'WIF_SOL': 0.0118,
     'SOL_JUP': 200,
     'JUP_SOL': 0.005,
+    'SOL_JITOSOL': 0.87,
+    'JITOSOL_SOL': 1.15,
   };
   
   const key = `${from.toUpperCase()}_${to.toUpperCase()}`;
@@ -405,199 +459,206 @@ function estimateOutput(from: string, to: string, amount: string): string {
   return (parseFloat(amount) * rate * 0.995).toFixed(6); // 0.5% slippage
 }
 
-type ParsedAction = {
-  type: 'swap' | 'transfer' | 'balance';
-  from?: string;
-  to?: string;
-  amount?: string;
-  address?: string;
-  token?: string;
-};
+/**
+ * USD price for sizing a trade, stablecoins at $1. Never sizes a trade on a mock price.
+ */
+async function priceUsd(token: string): Promise<number> {
+  if (STABLECOINS.has(token)) return 1;
+  const price = await getTokenPrice(token);
+  if (price.mock || !(price.price > 0)) {
+    throw new Error(`Can't get a live ${token} price right now; give the amount in ${token} instead`);
+  }
+  return price.price;
+}
 
 /**
- * Parse compound intents - handles "buy X and send to Y" patterns
- * Returns array of sequential actions
+ * The amount of `token` a parsed amount comes to, from the paper balance, live
+ * prices or what the previous step produced. Rounds down to the token's decimals.
  */
-function parseCompoundIntent(prompt: string): ParsedAction[] {
-  const lower = prompt.toLowerCase();
-  const actions: ParsedAction[] = [];
-  
-  // Pattern: "buy X SOL worth of BONK and send/transfer to <address>"
-  const buyAndSendMatch = prompt.match(
-    /buy\s+([\d.]+)\s+(\w+)\s+(?:worth\s+)?of\s+(\w+)\s+(?:and|then)\s+(?:send|transfer)\s+(?:it\s+)?to\s+([1-9A-HJ-NP-Za-km-z]{32,44})/i
-  );
-  
-  if (buyAndSendMatch) {
-    const inputAmount = buyAndSendMatch[1];
-    const inputToken = buyAndSendMatch[2].toUpperCase();
-    const outputToken = buyAndSendMatch[3].toUpperCase();
-    const address = buyAndSendMatch[4];
-    
-    // First action: swap
-    actions.push({
-      type: 'swap',
-      amount: inputAmount,
-      from: inputToken,
-      to: outputToken,
-    });
-    
-    // Second action: transfer the output (use 'ALL' as special marker)
-    actions.push({
-      type: 'transfer',
-      token: outputToken,
-      amount: 'ALL', // Will use the output from swap
-      address,
-    });
-    
-    return actions;
+export async function resolveAmount(
+  amount: IntentAmount,
+  token: string,
+  userId: string,
+  previous: { token: string; amount: number } | null
+): Promise<string> {
+  let value: number;
+  switch (amount.kind) {
+    case 'absolute':
+      if (amount.token === token) return amount.value;
+      // "buy 1000 BONK" spends what 1000 BONK costs
+      value = parseFloat(amount.value) * (await priceUsd(amount.token)) / (await priceUsd(token));
+      break;
+    case 'usd':
+      value = amount.usd / (await priceUsd(token));
+      break;
+    case 'percent':
+    case 'all': {
+      const share = amount.kind === 'percent' ? amount.percent / 100 : 1;
+      if (amount.source === 'previous' && !previous) {
+        throw new Error('Nothing to use; the previous step did not complete');
+      }
+      value = (amount.source === 'previous' ? previous!.amount : getPaperBalance(userId, token)) * share;
+      break;
+    }
   }
-  
-  // Pattern: "swap X for Y and send to <address>"
-  const swapAndSendMatch = prompt.match(
-    /(?:swap|trade)\s+([\d.]+)\s+(\w+)\s+(?:for|to)\s+(\w+)\s+(?:and|then)\s+(?:send|transfer)\s+(?:it\s+)?to\s+([1-9A-HJ-NP-Za-km-z]{32,44})/i
-  );
-  
-  if (swapAndSendMatch) {
-    const inputAmount = swapAndSendMatch[1];
-    const inputToken = swapAndSendMatch[2].toUpperCase();
-    const outputToken = swapAndSendMatch[3].toUpperCase();
-    const address = swapAndSendMatch[4];
-    
-    actions.push({
-      type: 'swap',
-      amount: inputAmount,
-      from: inputToken,
-      to: outputToken,
-    });
-    
-    actions.push({
-      type: 'transfer',
-      token: outputToken,
-      amount: 'ALL',
-      address,
-    });
-    
-    return actions;
+
+  const decimals = tokenDecimals(token);
+  const fixed = (Math.floor(value * 10 ** decimals) / 10 ** decimals).toFixed(decimals);
+  const resolved = decimals > 0 ? fixed.replace(/\.?0+$/, '') : fixed;
+  if (!(parseFloat(resolved) > 0)) {
+    throw new Error(`${describeAmount(amount, token)} comes to 0 ${token}`);
   }
-  
-  return actions;
+  return resolved;
 }
 
 /**
- * Parse user intent from prompt - supports compound actions
- * e.g., "buy 1 sol worth of BONK and send it to <address>"
+ * One action of a quoted prompt, as it would execute right now
  */
-function parseIntent(prompt: string): {
-  type: 'swap' | 'transfer' | 'balance';
-  from?: string;
-  to?: string;
-  amount?: string;
-  address?: string;
-} {
-  // First check for compound "buy X and send to Y" pattern
-  const compound = parseCompoundIntent(prompt);
-  if (compound.length > 0) {
-    // Return first action - we'll handle compound in the handler
-    return compound[0];
-  }
-  
+export interface BankrQuoteStep {
+  type: 'swap' | 'stake' | 'transfer';
+  token: string;              // Token spent
+  amount?: string;            // Unset when the amount can't be resolved (see error)
+  to: string;                 // Token bought, or the recipient address for transfers
+  contact?: string;           // Contact the recipient was named as
+  estimatedOutput?: string;
+  minOutput?: string;         // estimatedOutput less the slippage tolerance
+  route?: string;
+  priceImpact?: string;
+  valueUsd?: number;          // Unset without a live price
+  error?: string;
+}
+
+function isResetPrompt(prompt: string): boolean {
   const lower = prompt.toLowerCase();
-  
-  // Extract amount
-  const amountMatch = prompt.match(/([\d.]+)\s*(SOL|USDC|USDT|BONK|WIF|JUP|RAY)/i);
-  const amount = amountMatch ? amountMatch[1] : '0.1';
-  
-  // Detect intent
-  const isAdvice = lower.includes('good') || lower.includes('should') || lower.includes('recommend');
-  
-  if (!isAdvice && (lower.includes('swap') || lower.includes('buy') || lower.includes('sell') || lower.includes('trade') || lower.includes('exchange'))) {
-    // Pattern: "swap/buy/trade 0.1 SOL for/to/with BONK"
-    const swapMatch = prompt.match(/(?:swap|buy|trade|sell|exchange)\s+(?:([\d.]+)\s+)?(\w+)\s+(?:for|to|with)\s+(\w+)/i);
-    if (swapMatch) {
-      let from = swapMatch[2].toUpperCase();
-      let to = swapMatch[3].toUpperCase();
-      let amt = swapMatch[1] || amount;
-      
-      if (lower.includes('with') && lower.indexOf('with') > lower.indexOf(swapMatch[2].toLowerCase())) {
-        [from, to] = [to, from];
-      }
-      
-      return { type: 'swap', amount: amt, from, to };
-    }
-    
-    // Pattern: "buy 0.1 SOL of BONK" means use 0.1 SOL to buy BONK
-    const buyOfMatch = prompt.match(/buy\s+([\d.]+)\s+(\w+)\s+of\s+(\w+)/i);
-    if (buyOfMatch) {
-      const inputAmount = buyOfMatch[1];
-      const inputToken = buyOfMatch[2].toUpperCase();
-      const outputToken = buyOfMatch[3].toUpperCase();
-      return { type: 'swap', amount: inputAmount, from: inputToken, to: outputToken };
-    }
-    
-    // Pattern: "buy BONK with 0.1 SOL"
-    const buyWithMatch = prompt.match(/buy\s+(\w+)\s+with\s+([\d.]+)\s+(\w+)/i);
-    if (buyWithMatch) {
-      const outputToken = buyWithMatch[1].toUpperCase();
-      const inputAmount = buyWithMatch[2];
-      const inputToken = buyWithMatch[3].toUpperCase();
-      return { type: 'swap', amount: inputAmount, from: inputToken, to: outputToken };
+  return lower.includes('reset balance') || lower.includes('sync balance');
+}
+
+/**
+ * Quote the swaps, stakes and transfers a prompt asks for without executing them.
+ * Later steps are sized on the estimated output of earlier ones. Returns an empty
+ * list for prompts that don't move funds now (balances, orders, DCA, unparseable).
+ */
+export async function quoteBankrPrompt(prompt: string, userId: string = ANONYMOUS_ACCOUNT): Promise<BankrQuoteStep[]> {
+  if (isOrderPrompt(prompt) || parseDcaCommand(prompt) || isPortfolioPrompt(prompt) || isResetPrompt(prompt)) {
+    return [];
+  }
+  const intent = parseBankrIntent(prompt, { contacts: intentContacts(userId) });
+  if (intent.error) {
+    return [];
+  }
+
+  const steps: BankrQuoteStep[] = [];
+  let previous: { token: string; amount: number } | null = null;
+  for (const action of intent.actions) {
+    if (action.type === 'balance') continue;
+
+    const token = action.type === 'swap' ? action.from : action.token;
+    const to = action.type === 'swap' ? action.to : action.type === 'stake' ? STAKED_SOL : action.to;
+    const step: BankrQuoteStep = { type: action.type, token, to };
+    if (action.type === 'transfer' && action.contact) step.contact = action.contact;
+    steps.push(step);
+
+    try {
+      step.amount = await resolveAmount(action.amount, token, userId, previous);
+    } catch (error: any) {
+      step.error = error.message;
+      previous = null;
+      continue;
     }
-    
-    if (amountMatch) {
-      const token = amountMatch[2].toUpperCase();
-      if (lower.includes('sell')) {
-        return { type: 'swap', from: token, to: 'USDC', amount };
-      } else {
-        return { type: 'swap', from: 'SOL', to: token === 'SOL' ? 'USDC' : token, amount };
-      }
+
+    const amountIn = parseFloat(step.amount);
+    if (action.type === 'transfer') {
+      step.valueUsd = await estimateSwapValueUsd(token, amountIn, token, amountIn);
+      previous = null;
+      continue;
     }
-    
-    return { type: 'swap', from: 'SOL', to: 'USDC', amount };
+
+    const slippageBps = slippageFor(userId, DEFAULT_SLIPPAGE_BPS);
+    const quote = await getJupiterQuote(getMint(token) || token, getMint(to) || to, step.amount, tokenDecimals(token), slippageBps);
+    const output = quote?.outAmount
+      ? parseInt(quote.outAmount) / Math.pow(10, tokenDecimals(to))
+      : parseFloat(estimateOutput(token, to, step.amount));
+    step.estimatedOutput = output.toFixed(6);
+    step.minOutput = (output * (1 - slippageBps / 10000)).toFixed(6);
+    step.route = quote?.outAmount ? formatRoutePlan(quote).route : 'Mock routing (Jupiter API unavailable)';
+    step.priceImpact = quote?.priceImpactPct;
+    step.valueUsd = await estimateSwapValueUsd(token, amountIn, to, output);
+    previous = { token: to, amount: output };
   }
-  
-  if (lower.includes('transfer') || lower.includes('send') || lower.includes('pay')) {
-    const addressMatch = prompt.match(/[1-9A-HJ-NP-Za-km-z]{32,44}/);
-    return { 
-      type: 'transfer', 
-      address: addressMatch ? addressMatch[0] : undefined,
-      amount,
-    };
+  return steps;
+}
+
+const STEP_TITLES: Record<string, string> = { swap: 'Swap', stake: 'Stake', transfer: 'Transfer' };
+
+/**
+ * One-line description of a compound action step
+ */
+function describeCompoundStep(step: any): string {
+  if (step.status === 'failed' || step.status === 'skipped') {
+    return `Step ${step.step} (${step.type}) ${step.status}${step.error ? `: ${step.error}` : ''}`;
   }
-  
-  return { type: 'balance' };
+  if (step.type === 'swap' || step.type === 'stake') {
+    return `Step ${step.step}: ${step.type} ${step.input} ${step.from} → ${step.output} ${step.to} (${step.status})`;
+  }
+  return `Step ${step.step}: transfer ${step.amount} ${step.token} to ${step.contact || `${step.recipient?.slice(0, 8)}...`} (${step.status})`;
 }
 
 /**
- * Reset simulated balances to real devnet state
+ * Human-readable DCA interval, e.g. "day" or "6 hours"
  */
-async function resetSimulatedBalances(): Promise<SimulatedBalances> {
-  const realBalance = await solana.getBalance(SOLANA_ADDRESS, 'devnet');
-  const state: SimulatedBalances = {
-    lastRealBalanceCheck: Date.now(),
-    realSOL: realBalance,
-    balances: { SOL: realBalance, USDC: 0 },
-    transactions: [],
-  };
-  saveSimulatedState(state);
-  return state;
+function describeInterval(ms: number): string {
+  const units: Array<[string, number]> = [['week', 604800000], ['day', 86400000], ['hour', 3600000], ['minute', 60000]];
+  for (const [unit, size] of units) {
+    if (ms % size === 0) {
+      const count = ms / size;
+      return count === 1 ? unit : `${count} ${unit}s`;
+    }
+  }
+  return `${Math.round(ms / 1000)}s`;
 }
 
 /**
- * Get current simulated balances (for wallet display)
+ * What a schedule fill or an order spends, e.g. "0.1 SOL", "$20 of USDC" or "50% of BONK"
  */
-export async function getSimulatedBalances(): Promise<{
-  sol: number;
-  usdc: number;
-  bonk: number;
-  transactions: Array<{ type: string; from: string; to: string; amountIn: number; amountOut: number; timestamp: number; route?: string }>;
-}> {
-  const state = await syncWithRealBalance();
-  return {
-    sol: state.balances.SOL || 0,
-    usdc: state.balances.USDC || 0,
-    bonk: state.balances.BONK || 0,
-    transactions: state.transactions || [],
-  };
+function describeSize(size: { from: string; amount?: string; usd?: number; fraction?: number }): string {
+  if (size.amount !== undefined) return `${size.amount} ${size.from}`;
+  if (size.usd !== undefined) return `$${size.usd} of ${size.from}`;
+  return `${Math.round((size.fraction || 0) * 100)}% of ${size.from}`;
+}
+
+/**
+ * One-line description of a DCA schedule
+ */
+function describeSchedule(schedule: DcaSchedule): string {
+  return `\`${schedule.id}\` ${describeSize(schedule)} → ${schedule.to} every ${describeInterval(schedule.intervalMs)}, ` +
+    `${schedule.fills.length}/${schedule.totalFills} fills (${schedule.status})`;
+}
+
+/**
+ * One-line description of a conditional order
+ */
+function describeOrder(order: LimitOrder): string {
+  return `\`${order.id}\` ${describeOrderKind(order)}: ${describeSize(order)} → ${order.to} when ${order.token} is ${order.condition} $${order.triggerPrice} (${order.status})`;
+}
+
+const formatUsd = (value: number) => `${value < 0 ? '-' : ''}$${Math.abs(value).toFixed(2)}`;
+const formatPct = (value: number) => `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`;
+
+/**
+ * Portfolio summary with per-position PnL
+ */
+function formatPortfolio(portfolio: Portfolio): string {
+  const { totals } = portfolio;
+  const lines = portfolio.positions.map(p => `• ${p.token}: ${p.amount.toFixed(4)} @ ${formatUsd(p.priceUsd)} = ${formatUsd(p.valueUsd)} ` +
+    `(cost ${formatUsd(p.costBasisUsd)}, unrealized ${formatUsd(p.unrealizedPnlUsd)}, realized ${formatUsd(p.realizedPnlUsd)})` +
+    (p.mockPrice ? ' ⚠️ est. price' : ''));
+  return `📈 **Portfolio** (${portfolio.method === 'fifo' ? 'FIFO' : 'average cost'})\n\n` +
+    `**Positions:**\n${lines.join('\n') || '• No positions'}\n\n` +
+    `**Performance:**\n` +
+    `• Value: ${formatUsd(totals.valueUsd)} (started at ${formatUsd(portfolio.startingValueUsd)})\n` +
+    `• Realized PnL: ${formatUsd(totals.realizedPnlUsd)}\n` +
+    `• Unrealized PnL: ${formatUsd(totals.unrealizedPnlUsd)}\n` +
+    `• Total PnL: ${formatUsd(totals.totalPnlUsd)} (${formatPct(totals.totalPnlPct)})`;
 }
 
 /**
@@ -607,119 +668,184 @@ export const bankr = {
   name: 'bankr',
   description: 'DeFi specialist using Jupiter routing and AgentWallet for transactions',
   
-  async handle(prompt: string): Promise<SpecialistResult> {
+  async handle(prompt: string, context?: SpecialistContext): Promise<SpecialistResult> {
     const startTime = Date.now();
     
     try {
-      // Check for compound actions first
-      const compoundActions = parseCompoundIntent(prompt);
-      if (compoundActions.length > 1) {
-        console.log(`[bankr] Compound intent detected: ${compoundActions.length} actions`);
-        return await this.handleCompoundActions(prompt, compoundActions, startTime);
+      // Conditional orders ("sell half my WIF if it drops below $2")
+      if (isOrderPrompt(prompt)) {
+        console.log('[bankr] Conditional order');
+        return this.handleOrder(prompt, startTime, context);
       }
-      
-      const intent = parseIntent(prompt);
-      console.log(`[bankr] Intent: ${intent.type}`, intent);
-      
+
+      // Recurring buys and their pause/resume/cancel commands
+      const dcaCommand = parseDcaCommand(prompt);
+      if (dcaCommand) {
+        console.log(`[bankr] DCA command: ${dcaCommand.action}`);
+        return this.handleDca(prompt, dcaCommand, startTime, context);
+      }
+
+      // Swaps and balances use the caller's paper account
+      const userId = context?.userId || ANONYMOUS_ACCOUNT;
+
+      // Performance questions ("how is my portfolio doing")
+      if (isPortfolioPrompt(prompt)) {
+        const portfolio = await getPortfolio(userId, parseCostBasisMethod(prompt));
+        return {
+          success: true,
+          data: {
+            type: 'portfolio',
+            status: 'confirmed',
+            details: { portfolio },
+            summary: formatPortfolio(portfolio),
+          },
+          confidence: 0.9,
+          timestamp: new Date(),
+          executionTimeMs: Date.now() - startTime,
+        };
+      }
+
       // Handle reset command
-      if (prompt.toLowerCase().includes('reset balance') || prompt.toLowerCase().includes('sync balance')) {
-        const state = await resetSimulatedBalances();
+      if (isResetPrompt(prompt)) {
+        const account = resetPaperAccount(userId);
         return {
           success: true,
           data: {
             type: 'balance',
             status: 'reset',
             details: {
-              message: 'Balances reset to real devnet state',
-              balances: state.balances,
+              message: 'Paper account reset to its starting balances',
+              balances: account.balances,
             },
           },
           timestamp: new Date(),
           executionTimeMs: Date.now() - startTime,
         };
       }
+
+      // Anything the grammar can't read is answered with what is missing, never a default trade
+      const intent = parseBankrIntent(prompt, { contacts: intentContacts(userId) });
+      if (intent.error) {
+        console.log(`[bankr] Could not parse intent: ${intent.error}`);
+        return {
+          success: false,
+          data: {
+            type: 'balance',
+            status: 'failed',
+            details: { error: intent.error },
+            summary: `❌ ${intent.error}`,
+          },
+          timestamp: new Date(),
+          executionTimeMs: Date.now() - startTime,
+        };
+      }
+
+      if (intent.actions.length > 1) {
+        console.log(`[bankr] Compound intent detected: ${intent.actions.length} actions`);
+        return await this.handleCompoundActions(prompt, intent.actions, startTime, context);
+      }
+      
+      const action = intent.actions[0];
+      console.log(`[bankr] Intent: ${action.type}`, action);
       
       let data: BankrAction;
       let txSignature: string | undefined;
       
-      switch (intent.type) {
+      switch (action.type) {
         case 'swap':
-          data = await executeJupiterSwap(intent.from!, intent.to!, intent.amount!);
+        case 'stake': {
+          // Staking is a Jupiter swap into the liquid staking token
+          const from = action.type === 'swap' ? action.from : action.token;
+          const to = action.type === 'swap' ? action.to : STAKED_SOL;
+          const amount = await resolveAmount(action.amount, from, userId, null);
+          data = await executeJupiterSwap(from, to, amount, userId);
           
-          if (data.status === 'failed') {
-            (data as any).summary = `❌ **Swap Failed**\n• ${data.details.error}\n• Available: ${data.details.available} ${intent.from}\n• Required: ${data.details.required} ${intent.from}`;
+          if (data.status === 'failed' && data.details.policyRule) {
+            notePolicyViolation(context, data.details.error);
+            (data as any).summary = `⛔ **${action.type === 'stake' ? 'Stake' : 'Swap'} Blocked**\n• ${data.details.error}`;
+          } else if (data.status === 'failed') {
+            (data as any).summary = `❌ **${action.type === 'stake' ? 'Stake' : 'Swap'} Failed**\n• ${data.details.error}\n• Available: ${data.details.available} ${from}\n• Required: ${data.details.required} ${from}`;
           } else {
             const routeInfo = data.details.route || 'Direct';
-            (data as any).summary = `🔄 **Swap Executed via Jupiter**\n` +
-              `• Input: ${intent.amount} ${intent.from}\n` +
-              `• Output: ${data.details.estimatedOutput} ${intent.to}\n` +
+            if (action.type === 'stake') {
+              data = { ...data, type: 'stake' };
+            }
+            (data as any).summary = (action.type === 'stake' ? `🥩 **Staked ${from} as ${to} via Jupiter**\n` : `🔄 **Swap Executed via Jupiter**\n`) +
+              `• Input: ${amount} ${from}` + (action.amount.kind === 'absolute' && action.amount.token === from ? '' : ` (${describeAmount(action.amount, from)})`) + `\n` +
+              `• Output: ${data.details.estimatedOutput} ${to}\n` +
               `• Route: ${routeInfo}\n` +
               `• Price Impact: ${data.details.priceImpact || '<0.01'}%\n` +
               `\n📊 **Updated Balances:**\n` +
-              `• ${intent.from}: ${data.details.balancesAfter?.[intent.from!] || '0'}\n` +
-              `• ${intent.to}: ${data.details.balancesAfter?.[intent.to!] || '0'}`;
+              `• ${from}: ${data.details.balancesAfter?.[from] || '0'}\n` +
+              `• ${to}: ${data.details.balancesAfter?.[to] || '0'}`;
           }
           break;
+        }
           
         case 'transfer':
-          if (intent.address) {
-            try {
-              const result = await executeAgentWalletTransfer(
-                intent.address,
-                intent.amount || '0.01',
-                'sol'
-              );
-              txSignature = result.txHash;
-              data = {
-                type: 'transfer',
-                status: 'confirmed',
-                txSignature,
-                details: {
-                  to: intent.address,
-                  amount: intent.amount,
-                  explorer: result.explorer,
-                  network: 'devnet',
-                },
-              };
-              (data as any).summary = `✅ Successfully sent ${intent.amount} SOL to ${intent.address?.slice(0, 8)}...`;
-            } catch (transferError: any) {
-              console.error('[bankr] Transfer execution failed:', transferError.message);
-              data = {
-                type: 'transfer',
-                status: 'failed',
-                details: { 
-                  error: transferError.response?.data?.error || transferError.message,
-                  note: 'Check if devnet wallet has sufficient SOL for gas'
-                },
-              };
-              (data as any).summary = `❌ Transfer failed: ${transferError.message}`;
+          try {
+            // Transfers leave the devnet wallet, whose balance the paper account doesn't track
+            if (action.amount.kind === 'percent' || action.amount.kind === 'all') {
+              throw new Error(`Say how much ${action.token} to send, e.g. "send 0.5 ${action.token} to <address>" or "send $20 of ${action.token} to <address>"`);
             }
-          } else {
+            const receipt = await executeAgentWalletTransfer(
+              action.to,
+              await resolveAmount(action.amount, action.token, userId, null),
+              action.token,
+              userId
+            );
+            txSignature = receipt.txHash;
+            data = {
+              type: 'transfer',
+              status: 'confirmed',
+              txSignature,
+              details: {
+                ...receipt,
+                contact: action.contact,
+                network: 'devnet',
+              },
+            };
+            (data as any).summary = `✅ **Sent ${receipt.amount} ${receipt.token}** to ${action.contact ? `${action.contact} (${receipt.to.slice(0, 8)}...)` : `${receipt.to.slice(0, 8)}...`}\n` +
+              (receipt.token === 'SOL' ? '' : `• Mint: ${receipt.mint.slice(0, 8)}... (${receipt.decimals} decimals)\n`) +
+              (receipt.createdTokenAccount ? `• Created the recipient's ${receipt.token} token account\n` : '') +
+              `• Tx: ${receipt.explorer || receipt.txHash}`;
+          } catch (transferError: any) {
+            console.error('[bankr] Transfer execution failed:', transferError.message);
             data = {
               type: 'transfer',
               status: 'failed',
-              details: { error: 'No recipient address provided.' },
+              details: { 
+                error: transferError.response?.data?.error || transferError.message,
+                token: action.token,
+                policyRule: transferError.policyRule,
+                note: transferError.policyRule ? undefined : 'Check if devnet wallet has sufficient SOL for gas'
+              },
             };
-            (data as any).summary = `❌ Transfer failed: No recipient address provided.`;
+            if (transferError.policyRule) {
+              notePolicyViolation(context, data.details.error);
+              (data as any).summary = `⛔ **Transfer Blocked**\n• ${data.details.error}`;
+            } else {
+              (data as any).summary = `❌ Transfer of ${describeAmount(action.amount, action.token)} failed: ${data.details.error}`;
+            }
           }
           break;
           
         case 'balance':
         default:
-          // Get synced balance state
-          const state = await syncWithRealBalance();
+          const account = getPaperAccount(userId);
           
           // Format balance display
-          const balanceLines = Object.entries(state.balances)
+          const balanceLines = Object.entries(account.balances)
             .filter(([_, v]) => v > 0)
             .map(([token, amount]) => `• ${token}: ${(amount as number).toFixed(4)}`)
             .join('\n');
           
           // Get recent transactions
-          const recentTxs = state.transactions.slice(-5).reverse();
+          const recentTxs = listPaperTrades(userId, { limit: 5 });
           const txLines = recentTxs.length > 0
-            ? recentTxs.map(tx => 
-                `• ${tx.type}: ${tx.amountIn.toFixed(4)} ${tx.from} → ${tx.amountOut.toFixed(4)} ${tx.to}`
+            ? recentTxs.map(tx => tx.type === 'transfer'
+                ? `• transfer: ${tx.amountIn.toFixed(4)} ${tx.from} → ${tx.to.slice(0, 8)}...`
+                : `• swap: ${tx.amountIn.toFixed(4)} ${tx.from} → ${tx.amountOut.toFixed(4)} ${tx.to}`
               ).join('\n')
             : 'No recent transactions';
           
@@ -727,24 +853,23 @@ export const bankr = {
             type: 'balance',
             status: 'confirmed',
             details: {
-              solanaAddress: SOLANA_ADDRESS,
-              network: 'devnet',
-              balances: state.balances,
-              realSOL: state.realSOL,
-              lastSync: new Date(state.lastRealBalanceCheck).toISOString(),
+              account: 'paper',
+              network: 'devnet (paper)',
+              balances: account.balances,
+              startingBalances: account.startingBalances,
               recentTransactions: recentTxs,
             },
           };
           
-          (data as any).summary = `💰 **Wallet Balance** (Devnet)\n` +
-            `📍 \`${SOLANA_ADDRESS.slice(0, 8)}...${SOLANA_ADDRESS.slice(-4)}\`\n\n` +
+          (data as any).summary = `💰 **Paper Account Balance** (Devnet)\n\n` +
             `**Balances:**\n${balanceLines || '• No tokens'}\n\n` +
             `**Recent Activity:**\n${txLines}`;
           break;
       }
       
+      // A blocked or unfunded action is a failure; its error and summary travel in data
       return {
-        success: true,
+        success: data.status !== 'failed',
         data,
         confidence: 0.95,
         timestamp: new Date(),
@@ -765,6 +890,7 @@ export const bankr = {
           type: 'balance',
           status: 'failed',
           details: { error: error.message },
+          summary: `❌ ${error.message}`,
         },
         timestamp: new Date(),
         executionTimeMs: Date.now() - startTime,
@@ -773,89 +899,213 @@ export const bankr = {
   },
 
   /**
-   * Handle compound/multi-step actions (e.g., buy BONK and send to address)
+   * Create, pause, resume, cancel or list the user's DCA schedules (see dca.ts)
+   */
+  handleDca(
+    prompt: string,
+    command: NonNullable<ReturnType<typeof parseDcaCommand>>,
+    startTime: number,
+    context?: SpecialistContext
+  ): SpecialistResult {
+    const fail = (error: string): SpecialistResult => ({
+      success: false,
+      data: { type: 'dca', status: 'failed', details: { error }, summary: `❌ DCA failed: ${error}` },
+      timestamp: new Date(),
+      executionTimeMs: Date.now() - startTime,
+    });
+    const done = (status: BankrAction['status'], details: Record<string, any>, summary: string): SpecialistResult => ({
+      success: true,
+      data: { type: 'dca', status, details, summary },
+      confidence: 0.95,
+      timestamp: new Date(),
+      executionTimeMs: Date.now() - startTime,
+    });
+
+    const userId = context?.userId;
+    if (!userId) {
+      return fail('DCA schedules need an authenticated user');
+    }
+
+    if (command.action === 'invalid') {
+      return fail(command.error);
+    }
+
+    if (command.action === 'create') {
+      const errors = validateDcaSchedule(command);
+      if (errors.length > 0) {
+        return fail(errors.join('; '));
+      }
+      const schedule = createSchedule(userId, { ...command, prompt });
+      if (!schedule) {
+        return fail('Active schedule limit reached; cancel one first');
+      }
+      return done('pending', { schedule }, `📅 **DCA Scheduled**\n` +
+        `• ${describeSize(schedule)} → ${schedule.to} every ${describeInterval(schedule.intervalMs)}\n` +
+        `• ${schedule.totalFills} fills, the first one now\n` +
+        `• ID: \`${schedule.id}\``);
+    }
+
+    if (command.action === 'list') {
+      const schedules = listSchedules(userId);
+      const lines = schedules.map(s => `• ${describeSchedule(s)}`).join('\n');
+      return done('confirmed', { schedules }, `📅 **DCA Schedules**\n${lines || '• None'}`);
+    }
+
+    // pause/resume/cancel one schedule by id, or every schedule it applies to
+    const apply = { pause: pauseSchedule, resume: resumeSchedule, cancel: cancelSchedule }[command.action];
+    const targets = command.id ? [command.id] : listSchedules(userId).map(s => s.id);
+    const changed = targets.map(id => apply(userId, id)).filter((s): s is DcaSchedule => !!s);
+    if (changed.length === 0) {
+      return fail(command.id ? `No schedule ${command.id} to ${command.action}` : `No schedules to ${command.action}`);
+    }
+    const verb = { pause: 'Paused', resume: 'Resumed', cancel: 'Cancelled' }[command.action];
+    return done('confirmed', { schedules: changed }, `📅 **${verb} ${changed.length} DCA schedule(s)**\n` +
+      changed.map(s => `• ${describeSchedule(s)}`).join('\n'));
+  },
+
+  /**
+   * Place, list or cancel the user's conditional orders (see limit-orders.ts)
+   */
+  handleOrder(prompt: string, startTime: number, context?: SpecialistContext): SpecialistResult {
+    const fail = (error: string): SpecialistResult => ({
+      success: false,
+      data: { type: 'monitor', status: 'failed', details: { error }, summary: `❌ Order failed: ${error}` },
+      timestamp: new Date(),
+      executionTimeMs: Date.now() - startTime,
+    });
+    const done = (status: BankrAction['status'], details: Record<string, any>, summary: string): SpecialistResult => ({
+      success: true,
+      data: { type: 'monitor', status, details, summary },
+      confidence: 0.9,
+      timestamp: new Date(),
+      executionTimeMs: Date.now() - startTime,
+    });
+
+    const userId = context?.userId;
+    if (!userId) {
+      return fail('Orders need an authenticated user');
+    }
+
+    // Never fall back to an immediate swap for something that reads like a conditional order
+    const command = parseOrderCommand(prompt);
+    if (!command) {
+      return fail('Could not read the order; try "sell half my WIF if it drops below $2" or "buy $20 of BONK when it hits 0.000025"');
+    }
+    if (command.action === 'invalid') {
+      return fail(command.error);
+    }
+
+    if (command.action === 'create') {
+      const { action, ...order } = command;
+      const errors = validateOrder(order);
+      if (errors.length > 0) {
+        return fail(errors.join('; '));
+      }
+      const placed = createOrder(userId, { ...order, taskId: context?.taskId, prompt });
+      if (!placed) {
+        return fail('Open order limit reached; cancel one first');
+      }
+      return done('pending', { order: placed }, `🎯 **Order Placed**\n• ${describeOrder(placed)}\n` +
+        `• Prices are checked every ${Math.round(config.limitOrders.pollMs / 1000)}s; you'll be notified when it fills`);
+    }
+
+    if (command.action === 'list') {
+      const orders = listOrders(userId);
+      const lines = orders.map(o => `• ${describeOrder(o)}`).join('\n');
+      return done('confirmed', { orders }, `🎯 **Orders**\n${lines || '• None'}`);
+    }
+
+    const targets = command.id ? [command.id] : listOrders(userId, 'open').map(o => o.id);
+    const cancelled = targets.map(id => cancelOrder(userId, id)).filter((o): o is LimitOrder => !!o);
+    if (cancelled.length === 0) {
+      return fail(command.id ? `No open order ${command.id}` : 'No open orders to cancel');
+    }
+    return done('confirmed', { orders: cancelled }, `🎯 **Cancelled ${cancelled.length} order(s)**\n` +
+      cancelled.map(o => `• ${describeOrder(o)}`).join('\n'));
+  },
+
+  /**
+   * Handle compound/multi-step actions (e.g., buy BONK and send to address).
+   * Steps run in order against the paper account; once one fails the rest are skipped.
    */
   async handleCompoundActions(
     prompt: string,
-    actions: ParsedAction[],
-    startTime: number
+    actions: IntentAction[],
+    startTime: number,
+    context?: SpecialistContext
   ): Promise<SpecialistResult> {
     const results: any[] = [];
-    let lastSwapOutput: { token: string; amount: number } | null = null;
-    let state = await syncWithRealBalance();
+    let lastOutput: { token: string; amount: number } | null = null;
+    const userId = context?.userId || ANONYMOUS_ACCOUNT;
     
     for (let i = 0; i < actions.length; i++) {
+      // Don't start another action once the task is cancelled
+      if (context?.signal?.aborted) break;
+
       const action = actions[i];
       console.log(`[bankr] Executing step ${i + 1}/${actions.length}: ${action.type}`);
+
+      if (results.some(r => r.status === 'failed' || r.status === 'skipped')) {
+        results.push({ step: i + 1, type: action.type, status: 'skipped', error: 'an earlier step failed' });
+        context?.emit?.({ kind: 'item', content: describeCompoundStep(results[i]), data: results[i] });
+        continue;
+      }
       
       try {
-        if (action.type === 'swap') {
-          const swapResult = await executeJupiterSwap(action.from!, action.to!, action.amount!);
+        if (action.type === 'swap' || action.type === 'stake') {
+          const from = action.type === 'swap' ? action.from : action.token;
+          const to = action.type === 'swap' ? action.to : STAKED_SOL;
+          const amount = await resolveAmount(action.amount, from, userId, lastOutput);
+          const swapResult = await executeJupiterSwap(from, to, amount, userId);
+          if (swapResult.status === 'failed') {
+            throw Object.assign(new Error(swapResult.details.error || 'Swap failed'), { policyRule: swapResult.details.policyRule });
+          }
           results.push({
             step: i + 1,
-            type: 'swap',
+            type: action.type,
             status: swapResult.status,
-            from: action.from,
-            to: action.to,
-            input: action.amount,
+            from,
+            to,
+            input: amount,
             output: swapResult.details.estimatedOutput,
             route: swapResult.details.route,
           });
-          
-          if (swapResult.status === 'executed' || swapResult.status === 'simulated') {
-            lastSwapOutput = {
-              token: action.to!,
-              amount: parseFloat(swapResult.details.estimatedOutput || '0'),
-            };
-          }
+          lastOutput = { token: to, amount: parseFloat(swapResult.details.estimatedOutput || '0') };
         } else if (action.type === 'transfer') {
-          // Use output from previous swap if amount is 'ALL'
-          let transferAmount = action.amount;
-          let transferToken = action.token || 'SOL';
-          
-          if (transferAmount === 'ALL' && lastSwapOutput) {
-            transferAmount = lastSwapOutput.amount.toFixed(6);
-            transferToken = lastSwapOutput.token;
+          // Paper transfer of what the steps before produced; the devnet wallet is never touched here
+          const sendAmount = parseFloat(await resolveAmount(action.amount, action.token, userId, lastOutput));
+          const violation = await checkTransfer(userId, action.token, sendAmount, action.to);
+          if (violation) {
+            throw policyError(violation);
           }
-          
-          // Simulate transfer for demo
-          state = await syncWithRealBalance();
-          const currentBalance = state.balances[transferToken] || 0;
-          const sendAmount = parseFloat(transferAmount || '0');
-          
-          if (currentBalance < sendAmount) {
+          const account = applyPaperTransfer(userId, action.token, sendAmount, action.to);
+          if (account) {
+            recordPolicyUsage(userId, action.token, sendAmount);
+          }
+
+          if (!account) {
             results.push({
               step: i + 1,
               type: 'transfer',
               status: 'failed',
-              error: `Insufficient ${transferToken} balance`,
-              available: currentBalance,
+              error: `Insufficient ${action.token} balance`,
+              available: getPaperBalance(userId, action.token),
               required: sendAmount,
             });
           } else {
-            // Simulate the transfer (deduct from balance)
-            state.balances[transferToken] = currentBalance - sendAmount;
-            state.transactions.push({
-              type: 'transfer',
-              from: transferToken,
-              to: 'EXTERNAL',
-              amountIn: sendAmount,
-              amountOut: 0,
-              timestamp: Date.now(),
-              route: action.address?.slice(0, 8) + '...',
-            });
-            saveSimulatedState(state);
-            
             results.push({
               step: i + 1,
               type: 'transfer',
               status: 'simulated',
-              token: transferToken,
+              token: action.token,
+              mint: getMint(action.token),
               amount: sendAmount,
-              recipient: action.address,
+              recipient: action.to,
+              contact: action.contact,
               txHash: `sim_${Date.now().toString(36)}`,
             });
           }
+          lastOutput = null;
         }
       } catch (error: any) {
         results.push({
@@ -863,40 +1113,46 @@ export const bankr = {
           type: action.type,
           status: 'failed',
           error: error.message,
+          policyRule: error.policyRule,
         });
+        if (error.policyRule) {
+          notePolicyViolation(context, error.message);
+        }
       }
+
+      const step = results[results.length - 1];
+      context?.emit?.({ kind: 'item', content: describeCompoundStep(step), data: step });
     }
     
     // Build summary
-    const allSuccess = results.every(r => r.status !== 'failed');
-    const swapStep = results.find(r => r.type === 'swap');
-    const transferStep = results.find(r => r.type === 'transfer');
+    const allSuccess = results.every(r => r.status !== 'failed' && r.status !== 'skipped');
     
     let summary = `📦 **Multi-Step Transaction** (${results.length} steps)\n\n`;
     
-    if (swapStep) {
-      summary += `**Step 1: Swap**\n`;
-      summary += `• Input: ${swapStep.input} ${swapStep.from}\n`;
-      summary += `• Output: ${swapStep.output} ${swapStep.to}\n`;
-      summary += `• Route: ${swapStep.route}\n\n`;
-    }
-    
-    if (transferStep) {
-      summary += `**Step 2: Transfer**\n`;
-      if (transferStep.status === 'failed') {
-        summary += `• ❌ ${transferStep.error}\n`;
+    for (const step of results) {
+      summary += `**Step ${step.step}: ${STEP_TITLES[step.type] || step.type}**\n`;
+      if (step.status === 'failed') {
+        summary += `• ${step.policyRule ? '⛔' : '❌'} ${step.error}\n\n`;
+      } else if (step.status === 'skipped') {
+        summary += `• Skipped: ${step.error}\n\n`;
+      } else if (step.type === 'transfer') {
+        summary += `• Amount: ${step.amount} ${step.token}\n`;
+        summary += `• To: ${step.contact ? `${step.contact} (${step.recipient})` : step.recipient}\n`;
+        summary += `• Status: Simulated ✓\n\n`;
       } else {
-        summary += `• Amount: ${transferStep.amount} ${transferStep.token}\n`;
-        summary += `• To: ${transferStep.recipient}\n`;
-        summary += `• Status: Simulated ✓\n`;
+        summary += `• Input: ${step.input} ${step.from}\n`;
+        summary += `• Output: ${step.output} ${step.to}\n`;
+        summary += `• Route: ${step.route}\n\n`;
       }
     }
     
-    summary += `\n📊 **Final Balances:**\n`;
-    summary += `• SOL: ${state.balances.SOL?.toFixed(4) || '0'}\n`;
-    summary += `• USDC: ${state.balances.USDC?.toFixed(4) || '0'}\n`;
-    if (state.balances.BONK) {
-      summary += `• BONK: ${(state.balances.BONK / 1000).toFixed(1)}K\n`;
+    const { balances } = getPaperAccount(userId);
+    summary += `📊 **Final Balances:**\n`;
+    summary += `• SOL: ${balances.SOL?.toFixed(4) || '0'}\n`;
+    summary += `• USDC: ${balances.USDC?.toFixed(4) || '0'}\n`;
+    const traded = new Set<string>(results.flatMap(r => [r.from, r.to, r.token]).filter(t => t && t !== 'SOL' && t !== 'USDC' && balances[t] !== undefined));
+    for (const token of traded) {
+      summary += `• ${token}: ${balances[token].toFixed(4)}\n`;
     }
     
     return {
@@ -907,7 +1163,7 @@ export const bankr = {
         steps: results,
         details: {
           response: summary,
-          balancesAfter: state.balances,
+          balancesAfter: balances,
         },
       },
       timestamp: new Date(),
@@ -8,8 +8,13 @@ import aura from './aura';
 import bankr from './bankr';
 import scribe from './scribe';
 import seeker from './seeker';
+import alphahunter from './alphahunter';
+import riskbot from './riskbot';
+import newsdigest from './newsdigest';
+import whalespy from './whalespy';
+import { listSpecialists } from './registry';
 
-export { magos, aura, bankr, scribe, seeker };
+export { magos, aura, bankr, scribe, seeker, alphahunter, riskbot, newsdigest, whalespy };
 
 export const specialists = {
   magos,
@@ -17,44 +22,25 @@ export const specialists = {
   bankr,
   scribe,
   seeker,
+  alphahunter,
+  riskbot,
+  newsdigest,
+  whalespy,
 };
 
-export const specialistList = [
-  {
-    id: 'magos',
-    name: 'Magos',
-    description: 'Predictive Oracle',
-    capabilities: ['predictions', 'risk-analysis', 'price-targets', 'technical-analysis'],
-    paymentRequired: true,
-  },
-  {
-    id: 'aura',
-    name: 'Aura',
-    description: 'Social Sentinel',
-    capabilities: ['sentiment', 'trending', 'alpha-detection', 'influencer-tracking'],
-    paymentRequired: true,
-  },
-  {
-    id: 'bankr',
-    name: 'Bankr',
-    description: 'Execution Engine',
-    capabilities: ['swap', 'transfer', 'balance', 'dca', 'monitoring'],
-    paymentRequired: true,
-  },
-  {
-    id: 'scribe',
-    name: 'Scribe',
-    description: 'Documentation Assistant',
-    capabilities: ['summarization', 'documentation', 'Q&A'],
-    paymentRequired: true,
-  },
-  {
-    id: 'seeker',
-    name: 'Seeker',
-    description: 'Web Research Specialist',
-    capabilities: ['search', 'research', 'lookup'],
-    paymentRequired: true,
-  },
-];
+/**
+ * Public specialist metadata, read from the registry (includes runtime registrations)
+ */
+export function getSpecialistList() {
+  return listSpecialists()
+    .filter(s => s.id !== 'general')
+    .map(s => ({
+      id: s.id,
+      name: s.name,
+      description: s.description,
+      capabilities: s.capabilities,
+      paymentRequired: s.fee > 0,
+    }));
+}
 
 export default specialists;
@@ -6,7 +6,9 @@
 
 import axios from 'axios';
 import config from '../config';
-import { MagosPrediction, SpecialistResult } from '../types';
+import { MagosPrediction, SpecialistContext, SpecialistResult } from '../types';
+import { waitForUpstream } from '../rate-limit';
+import { findTokens, getFallbackPrice, getToken } from '../token-registry';
 
 const CLAWARENA_API = config.specialists.clawarena?.baseUrl;
 const CLAWARENA_KEY = config.specialists.clawarena?.apiKey;
@@ -20,8 +22,9 @@ export const magos = {
   name: 'Magos',
   description: 'Market Oracle - predictions, risk analysis, and social trend detection',
   
-  async handle(prompt: string): Promise<SpecialistResult> {
+  async handle(prompt: string, context?: SpecialistContext): Promise<SpecialistResult> {
     const startTime = Date.now();
+    const signal = context?.signal;
     
     try {
       const intent = parseIntent(prompt);
@@ -29,10 +32,10 @@ export const magos = {
       
       switch (intent.type) {
         case 'trending':
-          data = await findTrendingTokens(prompt);
+          data = await findTrendingTokens(prompt, signal);
           break;
         case 'predict':
-          data = await predictPrice(intent.token || 'SOL', intent.timeHorizon || '4h');
+          data = await predictPrice(intent.token || 'SOL', intent.timeHorizon || '4h', signal);
           break;
         case 'risk':
           data = await assessRisk(intent.token || 'SOL');
@@ -41,7 +44,7 @@ export const magos = {
           data = await analyzeToken(intent.token || 'SOL');
           break;
         case 'sentiment':
-          data = await analyzeSentiment(intent.token || prompt);
+          data = await analyzeSentiment(intent.token || prompt, signal);
           break;
         default:
           data = await generateInsight(prompt);
@@ -73,8 +76,8 @@ function parseIntent(prompt: string): { type: string; token?: string; timeHorizo
   const lower = prompt.toLowerCase();
   
   // Extract token mention
-  const tokenMatch = prompt.match(/\b(SOL|BTC|ETH|BONK|WIF|JUP|POPCAT|PEPE|DOGE|[A-Za-z0-9]{32,44})\b/i);
-  const token = tokenMatch ? tokenMatch[1].toUpperCase() : undefined;
+  const mintMatch = prompt.match(/\b([1-9A-HJ-NP-Za-km-z]{32,44})\b/);
+  const token = findTokens(prompt, { anyCase: true })[0] || (mintMatch ? getToken(mintMatch[1])?.symbol || mintMatch[1].toUpperCase() : undefined);
   
   // Time horizon
   const timeMatch = prompt.match(/(\d+)\s*(h|hour|hr|d|day|w|week|m|min)/i);
@@ -110,7 +113,7 @@ function parseIntent(prompt: string): { type: string; token?: string; timeHorizo
 /**
  * Find trending tokens from MoltX social data
  */
-async function findTrendingTokens(query: string): Promise<{
+async function findTrendingTokens(query: string, signal?: AbortSignal): Promise<{
   insight: string;
   confidence: number;
   trending: { token: string; mentions: number; sentiment: string }[];
@@ -123,11 +126,13 @@ async function findTrendingTokens(query: string): Promise<{
   
   try {
     // Get trending hashtags
-    const hashtagRes = await axios.get(`${MOLTX_API}/hashtags/trending?limit=20`);
+    await waitForUpstream('moltx', signal);
+    const hashtagRes = await axios.get(`${MOLTX_API}/hashtags/trending?limit=20`, { signal });
     const hashtags = hashtagRes.data?.hashtags || [];
     
     // Get global feed for token mentions
-    const feedRes = await axios.get(`${MOLTX_API}/feed/global?type=post,quote&limit=50`);
+    await waitForUpstream('moltx', signal);
+    const feedRes = await axios.get(`${MOLTX_API}/feed/global?type=post,quote&limit=50`, { signal });
     const posts = feedRes.data?.posts || [];
     
     // Extract token mentions from posts
@@ -144,7 +149,7 @@ async function findTrendingTokens(query: string): Promise<{
     // Also check for cashtags in hashtags
     for (const tag of hashtags) {
       const name = tag.name?.toUpperCase() || '';
-      if (['SOL', 'BONK', 'WIF', 'JUP', 'POPCAT', 'PEPE', 'DOGE', 'ETH', 'BTC'].includes(name)) {
+      if (getToken(name)?.symbol === name) {
         tokenMentions[name] = (tokenMentions[name] || 0) + (tag.count || 5);
       }
     }
@@ -191,7 +196,7 @@ async function findTrendingTokens(query: string): Promise<{
 /**
  * Analyze sentiment for a token
  */
-async function analyzeSentiment(tokenOrQuery: string): Promise<{
+async function analyzeSentiment(tokenOrQuery: string, signal?: AbortSignal): Promise<{
   insight: string;
   confidence: number;
   sentiment: 'bullish' | 'bearish' | 'neutral';
@@ -202,8 +207,10 @@ async function analyzeSentiment(tokenOrQuery: string): Promise<{
   
   try {
     // Search MoltX for mentions
+    await waitForUpstream('moltx', signal);
     const searchRes = await axios.get(`${MOLTX_API}/search/posts`, {
       params: { q: tokenOrQuery, limit: 30 },
+      signal,
     });
     const posts = searchRes.data?.posts || [];
     
@@ -247,7 +254,7 @@ async function analyzeSentiment(tokenOrQuery: string): Promise<{
 /**
  * Get price prediction for a token
  */
-async function predictPrice(token: string, timeHorizon: string = '4h'): Promise<MagosPrediction> {
+async function predictPrice(token: string, timeHorizon: string = '4h', signal?: AbortSignal): Promise<MagosPrediction> {
   console.log(`[Magos] Price prediction for ${token} (${timeHorizon})`);
   
   // Try ClawArena API
@@ -256,6 +263,7 @@ async function predictPrice(token: string, timeHorizon: string = '4h'): Promise<
       const response = await axios.get(`${CLAWARENA_API}/v1/predictions/${token}`, {
         headers: { 'X-API-Key': CLAWARENA_KEY },
         params: { horizon: timeHorizon },
+        signal,
       });
       return response.data;
     } catch (error) {
@@ -264,11 +272,7 @@ async function predictPrice(token: string, timeHorizon: string = '4h'): Promise<
   }
   
   // Generate prediction with reasoning
-  const mockPrices: Record<string, number> = {
-    'SOL': 127.50, 'BTC': 68500, 'ETH': 3520, 'BONK': 0.000028, 'WIF': 2.35, 'JUP': 0.92,
-  };
-  
-  const currentPrice = mockPrices[token] || 1.0;
+  const currentPrice = getFallbackPrice(token) ?? 1.0;
   const volatility = 0.03 + Math.random() * 0.08;
   const direction = Math.random() > 0.45 ? 1 : -1; // slight bullish bias
   const change = direction * volatility * currentPrice;
@@ -286,7 +290,7 @@ async function predictPrice(token: string, timeHorizon: string = '4h'): Promise<
       direction > 0 
         ? 'Accumulation detected, volume increasing, support holding.'
         : 'Distribution pattern, resistance rejection, take profits.'
-    } Target: $${predictedPrice.toFixed(token === 'BONK' ? 8 : 2)}`,
+    } Target: $${predictedPrice.toFixed(currentPrice < 0.01 ? 8 : 2)}`,
   };
 }
 
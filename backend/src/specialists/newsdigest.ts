@@ -0,0 +1,97 @@
+/**
+ * NewsDigest Specialist
+ * Condenses recent crypto news into a short headline digest
+ */
+
+import { SpecialistResult } from '../types';
+import { webSearch } from './tools';
+
+/**
+ * NewsDigest specialist handler
+ */
+export const newsdigest = {
+  name: 'NewsDigest',
+  description: 'Market News Aggregator - concise digests of recent crypto news',
+
+  async handle(prompt: string): Promise<SpecialistResult> {
+    const startTime = Date.now();
+
+    try {
+      const topic = parseTopic(prompt);
+      const data = await buildDigest(topic);
+
+      return {
+        success: true,
+        data,
+        confidence: data.confidence,
+        timestamp: new Date(),
+        executionTimeMs: Date.now() - startTime,
+      };
+    } catch (error: any) {
+      console.error('[NewsDigest] Error:', error.message);
+      return {
+        success: false,
+        data: { error: error.message },
+        timestamp: new Date(),
+        executionTimeMs: Date.now() - startTime,
+      };
+    }
+  },
+};
+
+/**
+ * Strip request phrasing to get the news topic
+ */
+function parseTopic(prompt: string): string {
+  const topic = prompt
+    .replace(/\b(give|get|show)\s+me\b/gi, '')
+    .replace(/\b(a|the|latest|today'?s|recent|news|digest|headlines|recap|roundup|summary|of|on|about|for)\b/gi, '')
+    .replace(/[?.!]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return topic || 'crypto';
+}
+
+/**
+ * Search the last day of news and format a digest
+ */
+async function buildDigest(topic: string) {
+  const query = /crypto|solana|bitcoin|ethereum|defi/i.test(topic) ? `${topic} news` : `${topic} crypto news`;
+  const search = await webSearch(query, { count: 8, freshness: 'pd' });
+
+  // One headline per source domain
+  const seen = new Set<string>();
+  const headlines = search.results.filter(r => {
+    let domain = r.url;
+    try {
+      domain = new URL(r.url).hostname;
+    } catch {
+      // keep full url as key
+    }
+    if (seen.has(domain)) return false;
+    seen.add(domain);
+    return true;
+  }).slice(0, 5);
+
+  const lines = headlines.map(h => `• **${h.title}** — ${truncate(h.description, 140)} ([source](${h.url}))`);
+
+  return {
+    topic,
+    summary: headlines.length > 0
+      ? `📰 **${capitalize(topic)} Digest**\n\n${lines.join('\n')}`
+      : `No recent news found for ${topic}.`,
+    headlines: headlines.map(h => ({ title: h.title, url: h.url, description: h.description, age: h.age })),
+    confidence: headlines.length >= 3 ? 0.8 : 0.5,
+  };
+}
+
+function truncate(text: string, max: number): string {
+  if (!text) return '';
+  return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+export default newsdigest;
@@ -0,0 +1,462 @@
+/**
+ * Specialist Registry
+ * Single source of truth for specialist metadata (name, capabilities, fee, wallet,
+ * routing hints) and handlers. Built-ins are registered at startup; additional
+ * specialists can be registered at runtime and are persisted in storage.
+ */
+
+import config from '../config';
+import { getStorage } from '../storage';
+import { SpecialistContext, SpecialistResult, SpecialistType } from '../types';
+import magos from './magos';
+import aura from './aura';
+import bankr from './bankr';
+import scribe from './scribe';
+import seeker from './seeker';
+import alphahunter from './alphahunter';
+import riskbot from './riskbot';
+import newsdigest from './newsdigest';
+import whalespy from './whalespy';
+import { createRemoteSpecialist, RemoteSpecialistOptions } from './remote';
+
+export interface SpecialistHandler {
+  handle(prompt: string, context?: SpecialistContext): Promise<SpecialistResult>;
+}
+
+export interface SpecialistRouting {
+  patterns: RegExp[];
+  weight: number;
+}
+
+export interface SpecialistDefinition {
+  id: SpecialistType;
+  name: string;           // Display name
+  description: string;
+  capabilities: string[];
+  fee: number;            // USDC per call
+  wallet?: string;        // Receiving address for x402 fees
+  routing?: SpecialistRouting;
+  handler: SpecialistHandler;
+  endpoint?: string;      // Remote x402 agent URL (handler calls it over HTTP)
+  remote?: RemoteSpecialistOptions;
+  timeoutMs?: number;     // Max time per call before the hop is timed out (default: config.specialistTimeoutMs)
+  builtIn: boolean;
+}
+
+/**
+ * Runtime registration payload (POST /v1/specialists).
+ * Runtime specialists either delegate to an existing specialist with an optional
+ * prompt prefix, or point at a remote agent endpoint that speaks x402.
+ */
+export interface SpecialistRegistration {
+  id: string;
+  name: string;
+  description: string;
+  capabilities?: string[];
+  fee?: number;
+  wallet?: string;
+  routing?: { patterns: string[]; weight?: number };
+  delegateTo?: string;
+  promptPrefix?: string;
+  endpoint?: string;
+  apiKey?: string;
+  maxFee?: number;
+  timeoutMs?: number;
+}
+
+const REGISTRY_KEY = 'specialists';
+
+// Ids that are not real specialists and cannot be registered
+const RESERVED_IDS = ['multi-hop', 'dispatcher'];
+
+const registry: Map<string, SpecialistDefinition> = new Map();
+const runtimeRegistrations: Map<string, SpecialistRegistration> = new Map();
+
+/**
+ * Register (or replace) a specialist definition
+ */
+export function registerSpecialist(definition: SpecialistDefinition): SpecialistDefinition {
+  registry.set(definition.id, definition);
+  console.log(`[Registry] Registered specialist: ${definition.id}${definition.builtIn ? '' : ' (runtime)'}`);
+  return definition;
+}
+
+/**
+ * Get a specialist definition by id
+ */
+export function getSpecialist(id: string): SpecialistDefinition | undefined {
+  return registry.get(id);
+}
+
+/**
+ * Whether a specialist id is registered
+ */
+export function hasSpecialist(id: string): boolean {
+  return registry.has(id);
+}
+
+/**
+ * All registered specialists, built-ins first
+ */
+export function listSpecialists(): SpecialistDefinition[] {
+  return Array.from(registry.values());
+}
+
+/**
+ * x402 fee for a specialist (0 for unknown ids)
+ */
+export function getSpecialistFee(id: string): number {
+  return registry.get(id)?.fee || 0;
+}
+
+/**
+ * How long a call to a specialist may take before its hop times out
+ */
+export function getSpecialistTimeout(id: string): number {
+  return registry.get(id)?.timeoutMs || config.specialistTimeoutMs;
+}
+
+/**
+ * Receiving wallet for a specialist's fees
+ */
+export function getSpecialistWallet(id: string): string | undefined {
+  return registry.get(id)?.wallet;
+}
+
+/**
+ * Validate a runtime registration payload. Returns a list of problems (empty if valid).
+ */
+export function validateRegistration(registration: SpecialistRegistration): string[] {
+  const errors: string[] = [];
+
+  if (!registration || typeof registration !== 'object') {
+    return ['Registration body is required'];
+  }
+  if (!registration.id || !/^[a-z][a-z0-9-]{1,31}$/.test(registration.id)) {
+    errors.push('id must be 2-32 lowercase letters, digits or "-", starting with a letter');
+  } else if (RESERVED_IDS.includes(registration.id)) {
+    errors.push(`id "${registration.id}" is reserved`);
+  } else if (registry.get(registration.id)?.builtIn) {
+    errors.push(`id "${registration.id}" is a built-in specialist`);
+  }
+  if (!registration.name) errors.push('name is required');
+  if (!registration.description) errors.push('description is required');
+  if (registration.fee !== undefined && (typeof registration.fee !== 'number' || registration.fee < 0)) {
+    errors.push('fee must be a non-negative number');
+  }
+  if (registration.capabilities !== undefined && !Array.isArray(registration.capabilities)) {
+    errors.push('capabilities must be an array of strings');
+  }
+
+  if (!!registration.delegateTo === !!registration.endpoint) {
+    errors.push('Provide exactly one of delegateTo or endpoint');
+  } else if (registration.delegateTo) {
+    const target = registry.get(registration.delegateTo);
+    if (!target) {
+      errors.push('delegateTo must be a registered specialist');
+    } else if (!target.builtIn) {
+      errors.push('delegateTo must be a built-in specialist');
+    }
+  } else if (!/^https?:\/\/[^\s]+$/i.test(registration.endpoint!)) {
+    errors.push('endpoint must be an http(s) URL');
+  }
+  if (registration.maxFee !== undefined && (typeof registration.maxFee !== 'number' || registration.maxFee < 0)) {
+    errors.push('maxFee must be a non-negative number');
+  }
+  if (registration.timeoutMs !== undefined && (typeof registration.timeoutMs !== 'number' || registration.timeoutMs < 1000)) {
+    errors.push('timeoutMs must be a number of at least 1000');
+  }
+
+  for (const pattern of registration.routing?.patterns || []) {
+    try {
+      new RegExp(pattern, 'i');
+    } catch {
+      errors.push(`Invalid routing pattern: ${pattern}`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Register a specialist at runtime and persist it
+ */
+export function registerRuntimeSpecialist(registration: SpecialistRegistration): SpecialistDefinition {
+  const errors = validateRegistration(registration);
+  if (errors.length > 0) {
+    throw new Error(`Invalid specialist: ${errors.join('; ')}`);
+  }
+
+  const definition = buildRuntimeDefinition(registration);
+  runtimeRegistrations.set(registration.id, registration);
+  saveRuntimeRegistrations();
+  return registerSpecialist(definition);
+}
+
+/**
+ * Build a definition for a runtime registration
+ */
+function buildRuntimeDefinition(registration: SpecialistRegistration): SpecialistDefinition {
+  const delegateTo = registration.delegateTo;
+  const promptPrefix = registration.promptPrefix;
+  const remote: RemoteSpecialistOptions | undefined = registration.endpoint
+    ? { apiKey: registration.apiKey, maxFee: registration.maxFee, timeoutMs: registration.timeoutMs }
+    : undefined;
+
+  return {
+    id: registration.id,
+    name: registration.name,
+    description: registration.description,
+    capabilities: registration.capabilities || [],
+    fee: registration.fee || 0,
+    wallet: registration.wallet,
+    routing: registration.routing?.patterns?.length
+      ? {
+          patterns: registration.routing.patterns.map(p => new RegExp(p, 'i')),
+          weight: registration.routing.weight ?? 1,
+        }
+      : undefined,
+    handler: registration.endpoint
+      ? createRemoteSpecialist(registration.id, registration.endpoint, remote)
+      : {
+          async handle(prompt: string, context?: SpecialistContext): Promise<SpecialistResult> {
+            const target = registry.get(delegateTo!);
+            if (!target) {
+              throw new Error(`Delegate specialist "${delegateTo}" is not registered`);
+            }
+            return target.handler.handle(promptPrefix ? `${promptPrefix}\n\n${prompt}` : prompt, context);
+          },
+        },
+    endpoint: registration.endpoint,
+    remote,
+    timeoutMs: registration.timeoutMs,
+    builtIn: false,
+  };
+}
+
+/**
+ * Persist runtime registrations
+ */
+function saveRuntimeRegistrations(): void {
+  try {
+    getStorage().setDocument(REGISTRY_KEY, Array.from(runtimeRegistrations.values()));
+  } catch (err: any) {
+    console.error('[Registry] Failed to save specialists:', err.message);
+  }
+}
+
+/**
+ * Load runtime registrations saved by previous runs
+ */
+function loadRuntimeRegistrations(): void {
+  try {
+    const saved = getStorage().getDocument<SpecialistRegistration[]>(REGISTRY_KEY);
+    if (!saved) return;
+    for (const registration of saved) {
+      const errors = validateRegistration(registration);
+      if (errors.length > 0) {
+        console.warn(`[Registry] Skipping saved specialist ${registration.id}: ${errors.join('; ')}`);
+        continue;
+      }
+      runtimeRegistrations.set(registration.id, registration);
+      registerSpecialist(buildRuntimeDefinition(registration));
+    }
+  } catch (err: any) {
+    console.error('[Registry] Failed to load specialists:', err.message);
+  }
+}
+
+/**
+ * General fallback - combine insights from multiple specialists
+ */
+const general: SpecialistHandler = {
+  async handle(prompt: string, context?: SpecialistContext): Promise<SpecialistResult> {
+    const startTime = Date.now();
+    const [magosResult, auraResult] = await Promise.all([
+      magos.handle(prompt, context),
+      aura.handle(prompt, context),
+    ]);
+
+    return {
+      success: true,
+      data: {
+        magos: magosResult.data,
+        aura: auraResult.data,
+        combined: "I'm not sure how to help with that. Try asking about wallet balances, market analysis, or social sentiment.",
+      },
+      confidence: ((magosResult.confidence || 0) + (auraResult.confidence || 0)) / 2,
+      timestamp: new Date(),
+      executionTimeMs: Date.now() - startTime,
+    };
+  },
+};
+
+// Built-in specialists
+
+const BUILT_INS: Array<Omit<SpecialistDefinition, 'fee' | 'wallet' | 'builtIn'>> = [
+  {
+    id: 'magos',
+    name: 'Market Oracle',
+    description: 'Market analysis & predictions',
+    capabilities: ['predictions', 'risk-analysis', 'price-targets', 'technical-analysis'],
+    routing: {
+      patterns: [
+        /predict|forecast|price\s+target|will\s+\w+\s+(go|reach|hit)/,
+        /risk|danger|safe|analysis|analyze|technical/,
+        /support|resistance|trend|pattern|chart/,
+      ],
+      weight: 1,
+    },
+    handler: magos,
+  },
+  {
+    id: 'aura',
+    name: 'Social Analyst',
+    description: 'Social sentiment analysis',
+    capabilities: ['sentiment', 'trending', 'alpha-detection', 'influencer-tracking'],
+    routing: {
+      patterns: [
+        /sentiment|vibe|mood|feeling|social/,
+        /trending|hot|popular|alpha|gem/,
+        /influencer|kol|whale\s+watch|twitter|x\s+/,
+        /fomo|fud|hype|buzz/,
+      ],
+      weight: 1,
+    },
+    handler: aura,
+  },
+  {
+    id: 'bankr',
+    name: 'DeFi Executor',
+    description: 'Wallet operations',
+    capabilities: ['swap', 'stake', 'transfer', 'balance', 'portfolio', 'dca', 'limit-orders', 'monitoring'],
+    routing: {
+      patterns: [
+        /swap|trade|buy|sell|exchange|stake/,
+        /transfer|send|withdraw|deposit/,
+        /balance|wallet|holdings|portfolio|p&l|pnl|cost\s+basis/,
+        /dca|dollar\s+cost|recurring|auto-buy/,
+        /limit\s+order|stop[\s-]?loss|take[\s-]?profit/,
+        /solana|sol|transaction|tx/,
+      ],
+      weight: 1,
+    },
+    handler: bankr,
+  },
+  {
+    id: 'seeker',
+    name: 'Web Researcher',
+    description: 'Web research & search',
+    capabilities: ['search', 'research', 'lookup'],
+    routing: {
+      patterns: [
+        /search|find|lookup|what is|who is|where is|news about|latest on/,
+        /research|google|brave|internet|web|look up/,
+        /news|happened|today|recent|current events/,
+        /what happened|tell me about/,
+      ],
+      weight: 1.2,
+    },
+    handler: seeker,
+  },
+  {
+    id: 'scribe',
+    name: 'General Assistant',
+    description: 'General assistant & fallback',
+    capabilities: ['summarization', 'documentation', 'Q&A'],
+    routing: {
+      patterns: [
+        /summarize|explain|write|draft|document/,
+        /help|question|how to|what can you/,
+      ],
+      weight: 0.5,
+    },
+    handler: scribe,
+  },
+  {
+    id: 'alphahunter',
+    name: 'AlphaHunter',
+    description: 'Early opportunity discovery',
+    capabilities: ['discovery', 'momentum', 'volume-anomalies'],
+    routing: {
+      patterns: [
+        /early\s+(gem|token|entry)|100x|moonshot|next\s+big/,
+        /opportunit|hidden\s+gem|undervalued|breakout/,
+      ],
+      weight: 1.3,
+    },
+    handler: alphahunter,
+  },
+  {
+    id: 'riskbot',
+    name: 'RiskBot',
+    description: 'Token risk assessment',
+    capabilities: ['security', 'risk', 'volatility', 'liquidity'],
+    routing: {
+      patterns: [
+        /\brug|honeypot|scam|audit/,
+        /risk\s+(score|profile|assessment)|how\s+risky|is\s+\w+\s+safe/,
+      ],
+      weight: 1.3,
+    },
+    handler: riskbot,
+  },
+  {
+    id: 'newsdigest',
+    name: 'NewsDigest',
+    description: 'Crypto news digest',
+    capabilities: ['news', 'summary', 'headlines'],
+    routing: {
+      patterns: [
+        /digest|headlines|news\s+(recap|roundup|summary)/,
+        /governance|proposal|regulat/,
+      ],
+      weight: 1.3,
+    },
+    handler: newsdigest,
+  },
+  {
+    id: 'whalespy',
+    name: 'WhaleSpy',
+    description: 'Whale wallet tracking',
+    capabilities: ['tracking', 'whale', 'onchain'],
+    routing: {
+      patterns: [
+        /whale|smart\s+money|large\s+(wallet|holder|transaction)/,
+        /accumulat|distribut|inflow|outflow/,
+      ],
+      weight: 1.3,
+    },
+    handler: whalespy,
+  },
+  {
+    id: 'general',
+    name: 'General',
+    description: 'General queries',
+    capabilities: [],
+    handler: general,
+  },
+];
+
+for (const builtIn of BUILT_INS) {
+  registerSpecialist({
+    ...builtIn,
+    fee: (config.fees as Record<string, number>)[builtIn.id] || 0,
+    wallet: config.specialistWallets[builtIn.id],
+    builtIn: true,
+  });
+}
+
+loadRuntimeRegistrations();
+
+export default {
+  registerSpecialist,
+  registerRuntimeSpecialist,
+  validateRegistration,
+  getSpecialist,
+  hasSpecialist,
+  listSpecialists,
+  getSpecialistFee,
+  getSpecialistTimeout,
+  getSpecialistWallet,
+};
@@ -0,0 +1,123 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from '@jest/globals';
+import { callRemoteSpecialist } from './remote';
+import { decodeX402Header, encodeX402Header, setX402Payer, X402Payer } from '../x402-client';
+import { X402PaymentRequirements } from '../types';
+
+const PAY_TO = '5xUugg8ysgqpcGneM6qpM2AZ8ZGuMaH5TnGNWdCQC1Z1';
+const REQUIREMENT: X402PaymentRequirements = {
+  scheme: 'exact',
+  network: 'solana:EtWTRABZaYq6iMfeYKouRu166VU2xqa1',
+  asset: '4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU',
+  amount: '50000',
+  payTo: PAY_TO,
+} as X402PaymentRequirements;
+
+// Mock third-party agent: 402 with a v2 payment-required header until x-payment is sent
+const received: Array<{ headers: http.IncomingHttpHeaders; body: any }> = [];
+let rejectPayments = false;
+
+const agent = http.createServer((req, res) => {
+  let raw = '';
+  req.on('data', chunk => (raw += chunk));
+  req.on('end', () => {
+    const body = JSON.parse(raw);
+    received.push({ headers: req.headers, body });
+    const payment = decodeX402Header(req.headers['x-payment'] as string);
+
+    if (!payment || rejectPayments) {
+      res.writeHead(402, {
+        'Content-Type': 'application/json',
+        'payment-required': encodeX402Header({ x402Version: 2, accepts: [REQUIREMENT] }),
+      });
+      return res.end(JSON.stringify({ error: payment ? 'Payment invalid' : 'Payment required' }));
+    }
+    res.writeHead(200, {
+      'Content-Type': 'application/json',
+      'x-payment-response': encodeX402Header({ success: true, transaction: `tx-${payment.payload.receipt}` }),
+    });
+    res.end(JSON.stringify({ success: true, data: { summary: `echo: ${body.prompt}` }, confidence: 1 }));
+  });
+});
+
+// Payer stub: records what it was asked to pay
+const paid: X402PaymentRequirements[] = [];
+const stubPayer: X402Payer = {
+  name: 'stub',
+  supports: requirement => requirement.scheme === 'exact',
+  async pay(requirement, resource) {
+    paid.push(requirement);
+    return { header: encodeX402Header({ x402Version: 2, resource, payload: { receipt: `r${paid.length}` } }), payer: 'stub' };
+  },
+};
+
+let endpoint: string;
+
+beforeAll(async () => {
+  await new Promise<void>(resolve => agent.listen(0, '127.0.0.1', resolve));
+  endpoint = `http://127.0.0.1:${(agent.address() as AddressInfo).port}/`;
+  setX402Payer(stubPayer);
+});
+
+afterAll(async () => {
+  setX402Payer(null);
+  await new Promise(resolve => agent.close(resolve));
+});
+
+beforeEach(() => {
+  received.length = 0;
+  paid.length = 0;
+  rejectPayments = false;
+});
+
+describe('callRemoteSpecialist', () => {
+  it('pays the 402 and retries with x-payment', async () => {
+    const result = await callRemoteSpecialist('mockagent', endpoint, 'hello');
+
+    expect(result.success).toBe(true);
+    expect(result.data.summary).toBe('echo: hello');
+    expect(paid).toEqual([REQUIREMENT]);
+    expect(received).toHaveLength(2);
+    expect(received[0].headers['x-payment']).toBeUndefined();
+    expect(decodeX402Header(received[1].headers['x-payment'] as string)).toMatchObject({ payload: { receipt: 'r1' }, resource: endpoint });
+  });
+
+  it('records the payment from the x-payment-response header', async () => {
+    const result = await callRemoteSpecialist('mockagent', endpoint, 'hello');
+
+    expect(result.payment).toMatchObject({ amount: '0.05', currency: 'USDC', recipient: PAY_TO, txHash: 'tx-r1' });
+  });
+
+  it('reports the fee without paying on a dry run', async () => {
+    const result = await callRemoteSpecialist('mockagent', endpoint, 'hello', { dryRun: true });
+
+    expect(result.success).toBe(false);
+    expect(result.data).toMatchObject({ error: 'Payment required (dry run)', amount: '0.05', payTo: PAY_TO });
+    expect(paid).toHaveLength(0);
+  });
+
+  it('refuses to pay more than maxFee', async () => {
+    const result = await callRemoteSpecialist('mockagent', endpoint, 'hello', { maxFee: 0.01 });
+
+    expect(result.success).toBe(false);
+    expect(result.data.error).toMatch(/exceeds limit/);
+    expect(paid).toHaveLength(0);
+  });
+
+  it('fails when the agent rejects the payment', async () => {
+    rejectPayments = true;
+
+    const result = await callRemoteSpecialist('mockagent', endpoint, 'hello');
+
+    expect(result.success).toBe(false);
+    expect(result.data.error).toMatch(/Payment rejected.*Payment invalid/);
+  });
+
+  it('sends the API key and instructions the agent was registered with', async () => {
+    await callRemoteSpecialist('mockagent', endpoint, 'hello', { apiKey: 'secret', instructions: 'be brief' });
+
+    expect(received[0].headers['x-api-key']).toBe('secret');
+    expect(received[0].body).toEqual({ prompt: 'hello', instructions: 'be brief' });
+  });
+});
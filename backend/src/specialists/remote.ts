@@ -0,0 +1,126 @@
+/**
+ * Remote Specialists
+ * Third-party agents reached over HTTP. Requests go through the x402 client,
+ * so paid agents answer 402 first and are paid before they respond.
+ */
+
+import { SpecialistContext, SpecialistResult } from '../types';
+import { x402Fetch } from '../x402-client';
+import { createPaymentRecord, logTransaction } from '../x402';
+
+export interface RemoteSpecialistOptions {
+  apiKey?: string;       // Sent as X-API-Key, if the agent needs one
+  timeoutMs?: number;
+  maxFee?: number;       // Max USDC we will pay per call
+}
+
+/**
+ * Call a remote specialist endpoint with { prompt }.
+ * In dry-run mode a 402 is reported as a failed result instead of being paid.
+ */
+export async function callRemoteSpecialist(
+  id: string,
+  endpoint: string,
+  prompt: string,
+  options: RemoteSpecialistOptions & { dryRun?: boolean; signal?: AbortSignal; instructions?: string; headers?: Record<string, string> } = {}
+): Promise<SpecialistResult> {
+  const startTime = Date.now();
+  const body = options.instructions ? { prompt, instructions: options.instructions } : { prompt };
+
+  try {
+    const response = await x402Fetch(endpoint, body, {
+      headers: options.apiKey || options.headers ? { ...options.headers, ...(options.apiKey ? { 'X-API-Key': options.apiKey } : {}) } : undefined,
+      timeoutMs: options.timeoutMs,
+      maxAmount: options.maxFee !== undefined ? Math.floor(options.maxFee * 1_000_000) : undefined,
+      pay: !options.dryRun,
+      signal: options.signal,
+    });
+
+    if (response.status === 402) {
+      const accept = response.paymentRequired?.accepts[0];
+      return {
+        success: false,
+        data: {
+          error: 'Payment required (dry run)',
+          amount: accept ? String(Number(accept.amount) / 1_000_000) : undefined,
+          payTo: accept?.payTo,
+        },
+        timestamp: new Date(),
+        executionTimeMs: Date.now() - startTime,
+      };
+    }
+
+    if (response.status >= 400) {
+      throw new Error(`${id} returned ${response.status}: ${response.body?.error || 'request failed'}`);
+    }
+
+    const result = toSpecialistResult(response.body, startTime);
+
+    if (response.payment) {
+      const { requirement, txSignature } = response.payment;
+      const decimals = requirement.extra?.decimals ?? 6;
+      const record = createPaymentRecord(
+        String(Number(requirement.amount) / Math.pow(10, decimals)),
+        requirement.extra?.currency || 'USDC',
+        'solana',
+        requirement.payTo,
+        txSignature
+      );
+      logTransaction(record);
+      result.payment = record;
+    }
+
+    return result;
+  } catch (error: any) {
+    console.error(`[Remote] ${id} failed:`, error.message);
+    return {
+      success: false,
+      data: { error: error.message },
+      timestamp: new Date(),
+      executionTimeMs: Date.now() - startTime,
+    };
+  }
+}
+
+/**
+ * Accept either a SpecialistResult-shaped body or any JSON answer
+ */
+function toSpecialistResult(body: any, startTime: number): SpecialistResult {
+  if (body && typeof body === 'object' && 'success' in body && 'data' in body) {
+    return {
+      ...body,
+      timestamp: body.timestamp ? new Date(body.timestamp) : new Date(),
+      executionTimeMs: body.executionTimeMs ?? Date.now() - startTime,
+    };
+  }
+
+  return {
+    success: true,
+    data: typeof body === 'string' ? { summary: body } : body,
+    timestamp: new Date(),
+    executionTimeMs: Date.now() - startTime,
+  };
+}
+
+/**
+ * Handler for a remote specialist (used when called outside a task, e.g. /test)
+ */
+export function createRemoteSpecialist(id: string, endpoint: string, options: RemoteSpecialistOptions = {}) {
+  return {
+    name: id,
+    description: `Remote specialist at ${endpoint}`,
+
+    async handle(prompt: string, context?: SpecialistContext): Promise<SpecialistResult> {
+      return callRemoteSpecialist(id, endpoint, prompt, {
+        ...options,
+        signal: context?.signal,
+        instructions: context?.instructions,
+      });
+    },
+  };
+}
+
+export default {
+  callRemoteSpecialist,
+  createRemoteSpecialist,
+};
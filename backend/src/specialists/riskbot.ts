@@ -0,0 +1,126 @@
+/**
+ * RiskBot Specialist
+ * Token risk assessment from market structure: volatility, liquidity, size and drawdown
+ */
+
+import { SpecialistContext, SpecialistResult } from '../types';
+import { getMarketData } from './tools';
+import { MarketData } from './tools/coingecko';
+import { findTokens, normalizeSymbol } from '../token-registry';
+
+/**
+ * RiskBot specialist handler
+ */
+export const riskbot = {
+  name: 'RiskBot',
+  description: 'Security & Risk Auditor - volatility, liquidity and concentration risk for tokens',
+
+  async handle(prompt: string, context?: SpecialistContext): Promise<SpecialistResult> {
+    const startTime = Date.now();
+
+    try {
+      const token = parseToken(prompt);
+      const market = await getMarketData(token, context?.signal);
+      const data = assessRisk(token, market);
+
+      return {
+        success: true,
+        data,
+        confidence: data.confidence,
+        timestamp: new Date(),
+        executionTimeMs: Date.now() - startTime,
+      };
+    } catch (error: any) {
+      console.error('[RiskBot] Error:', error.message);
+      return {
+        success: false,
+        data: { error: error.message },
+        timestamp: new Date(),
+        executionTimeMs: Date.now() - startTime,
+      };
+    }
+  },
+};
+
+/**
+ * Extract the token to assess (defaults to SOL)
+ */
+function parseToken(prompt: string): string {
+  const cashtag = prompt.match(/\$([A-Za-z0-9]{2,10})\b/);
+  if (cashtag) return normalizeSymbol(cashtag[1]);
+  return findTokens(prompt, { anyCase: true })[0] || 'SOL';
+}
+
+/**
+ * Score risk 0-100 from market data; each factor adds to the score and explains why
+ */
+function assessRisk(token: string, market: MarketData) {
+  const factors: string[] = [];
+  let score = 0;
+
+  // Volatility
+  const move24h = Math.abs(market.change24h || 0);
+  const move7d = Math.abs(market.change7d || 0);
+  if (move24h > 20 || move7d > 50) {
+    score += 30;
+    factors.push(`Extreme volatility (${market.change24h.toFixed(1)}% 24h, ${(market.change7d || 0).toFixed(1)}% 7d)`);
+  } else if (move24h > 8 || move7d > 20) {
+    score += 15;
+    factors.push(`High volatility (${market.change24h.toFixed(1)}% 24h)`);
+  }
+
+  // Liquidity: thin volume relative to market cap makes exits expensive
+  const turnover = market.marketCap ? (market.volume24h || 0) / market.marketCap : 0;
+  if (turnover < 0.01) {
+    score += 25;
+    factors.push('Thin liquidity (<1% of market cap traded daily)');
+  } else if (turnover > 1) {
+    score += 15;
+    factors.push('Volume exceeds market cap — possible wash trading or pump');
+  }
+
+  // Size
+  if (!market.marketCap || market.marketCap < 10_000_000) {
+    score += 25;
+    factors.push('Micro cap (< $10M)');
+  } else if (market.marketCap < 100_000_000) {
+    score += 10;
+    factors.push('Small cap (< $100M)');
+  }
+
+  // Supply overhang
+  if (market.totalSupply && market.circulatingSupply && market.circulatingSupply / market.totalSupply < 0.5) {
+    score += 10;
+    factors.push(`Only ${((market.circulatingSupply / market.totalSupply) * 100).toFixed(0)}% of supply circulating (unlock risk)`);
+  }
+
+  // Drawdown
+  if (market.ath > 0 && market.price / market.ath < 0.1) {
+    score += 10;
+    factors.push(`${((1 - market.price / market.ath) * 100).toFixed(0)}% below ATH`);
+  }
+
+  score = Math.min(100, score);
+  const riskLevel = score < 25 ? 'low' : score < 50 ? 'medium' : score < 75 ? 'high' : 'extreme';
+  if (factors.length === 0) {
+    factors.push('Deep liquidity, large cap, normal volatility');
+  }
+
+  return {
+    token,
+    riskLevel,
+    riskScore: score,
+    factors,
+    summary: `🛡️ **${token} Risk: ${riskLevel.toUpperCase()}** (${score}/100)\n\n${factors.map(f => `• ${f}`).join('\n')}\n\n${riskLevel === 'low' || riskLevel === 'medium' ? 'Acceptable for normal position sizing.' : 'Avoid or use minimal exposure.'}`,
+    market: {
+      price: market.price,
+      marketCap: market.marketCap,
+      volume24h: market.volume24h,
+      change24h: market.change24h,
+    },
+    confidence: 0.7,
+    relatedTokens: [token],
+  };
+}
+
+export default riskbot;
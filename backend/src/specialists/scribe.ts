@@ -5,7 +5,8 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
-import { SpecialistResult } from '../types';
+import { SpecialistContext, SpecialistResult } from '../types';
+import { streamText } from './streaming';
 
 // Load system prompt
 const PROMPT_PATH = path.join(__dirname, 'prompts', 'scribe.md');
@@ -21,7 +22,7 @@ export const scribe = {
   description: 'Knowledge synthesizer for summaries, explanations, and documentation',
   systemPrompt,
   
-  async handle(prompt: string): Promise<SpecialistResult> {
+  async handle(prompt: string, context?: SpecialistContext): Promise<SpecialistResult> {
     const startTime = Date.now();
     
     try {
@@ -45,6 +46,9 @@ export const scribe = {
           data = await generalAssist(prompt);
       }
       
+      // Stream the written text to live subscribers before the full result lands
+      await streamText(context, data.details?.response || data.summary, { delayMs: 25 });
+      
       return {
         success: true,
         data,
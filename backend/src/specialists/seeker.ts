@@ -5,7 +5,7 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
-import { SpecialistResult } from '../types';
+import { SpecialistContext, SpecialistResult } from '../types';
 import braveSearchFallback, { SearchResult, braveAISearch } from './tools/brave-search';
 import mcpClient from './tools/mcp-client';
 
@@ -23,7 +23,7 @@ export const seeker = {
   description: 'Web research specialist with real-time search capabilities',
   systemPrompt,
   
-  async handle(prompt: string): Promise<SpecialistResult> {
+  async handle(prompt: string, context?: SpecialistContext): Promise<SpecialistResult> {
     const startTime = Date.now();
     
     try {
@@ -32,16 +32,16 @@ export const seeker = {
       
       switch (intent.type) {
         case 'search':
-          data = await performSearch(intent.query, intent.originalPrompt);
+          data = await performSearch(intent.query, intent.originalPrompt, context);
           break;
         case 'news':
-          data = await searchNews(intent.query);
+          data = await searchNews(intent.query, context);
           break;
         case 'factcheck':
-          data = await factCheck(intent.query);
+          data = await factCheck(intent.query, context);
           break;
         default:
-          data = await performSearch(prompt, prompt);
+          data = await performSearch(prompt, prompt, context);
       }
       
       return {
@@ -124,6 +124,19 @@ async function braveSearch(query: string, count: number = 5): Promise<{ results:
   return { results: fallbackResult.results };
 }
 
+/**
+ * Send each search result to live subscribers as soon as the search returns
+ */
+function emitResults(results: SearchResult[], context?: SpecialistContext): void {
+  for (const result of results) {
+    context?.emit?.({
+      kind: 'item',
+      content: `[${result.title}](${result.url})${result.description ? ` - ${result.description}` : ''}`,
+      data: result,
+    });
+  }
+}
+
 /**
  * Check if query is a simple factual question
  */
@@ -160,7 +173,7 @@ function synthesizeAnswer(query: string, results: SearchResult[]): string {
 /**
  * Perform a general web search
  */
-async function performSearch(query: string, originalPrompt?: string): Promise<{
+async function performSearch(query: string, originalPrompt?: string, context?: SpecialistContext): Promise<{
   summary: string;
   insight: string;
   results: SearchResult[];
@@ -171,6 +184,7 @@ async function performSearch(query: string, originalPrompt?: string): Promise<{
   
   const searchResult = await braveSearch(query, 5);
   const results = searchResult.results;
+  emitResults(results, context);
   
   // Check if original prompt is a simple factual question
   const promptToCheck = originalPrompt || query;
@@ -233,7 +247,7 @@ async function performSearch(query: string, originalPrompt?: string): Promise<{
 /**
  * Search for recent news
  */
-async function searchNews(query: string): Promise<{
+async function searchNews(query: string, context?: SpecialistContext): Promise<{
   summary: string;
   insight: string;
   results: SearchResult[];
@@ -250,6 +264,7 @@ async function searchNews(query: string): Promise<{
   });
   
   const results = fallbackResult.results;
+  emitResults(results, context);
   
   let summary = `📰 **Latest News: ${query}**\n\n`;
   
@@ -286,7 +301,7 @@ async function searchNews(query: string): Promise<{
 /**
  * Fact check a claim
  */
-async function factCheck(query: string): Promise<{
+async function factCheck(query: string, context?: SpecialistContext): Promise<{
   summary: string;
   insight: string;
   results: SearchResult[];
@@ -299,6 +314,7 @@ async function factCheck(query: string): Promise<{
   // Search for the claim + fact check keywords
   const searchResult = await braveSearch(`${query} fact check`, 5);
   const results = searchResult.results;
+  emitResults(results, context);
   
   // Simple heuristic for verdict (in production, use proper fact-checking APIs)
   let verdict: 'true' | 'false' | 'mixed' | 'unverified' = 'unverified';
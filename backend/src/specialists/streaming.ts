@@ -0,0 +1,31 @@
+/**
+ * Streaming Helpers
+ * Partial output for specialists that report progress through context.emit
+ */
+
+import { SpecialistContext } from '../types';
+
+/**
+ * Emit text a few words at a time. Does nothing when nobody is listening.
+ */
+export async function streamText(
+  context: SpecialistContext | undefined,
+  text: string,
+  options: { wordsPerChunk?: number; delayMs?: number } = {}
+): Promise<void> {
+  if (!context?.emit || !text) return;
+
+  // Keep trailing whitespace on each word so chunks concatenate back to the original text
+  const words = text.match(/\S+\s*|\s+/g) || [];
+  const size = options.wordsPerChunk || 4;
+
+  for (let i = 0; i < words.length; i += size) {
+    if (context.signal?.aborted) return;
+    context.emit({ kind: 'text', content: words.slice(i, i + size).join('') });
+    if (options.delayMs) {
+      await new Promise(resolve => setTimeout(resolve, options.delayMs));
+    }
+  }
+}
+
+export default { streamText };
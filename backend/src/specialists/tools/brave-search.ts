@@ -5,6 +5,7 @@
  */
 
 import axios from 'axios';
+import { waitForUpstream } from '../../rate-limit';
 
 // Use environment variables
 const BRAVE_API_KEY = process.env.BRAVE_API_KEY || '';
@@ -81,6 +82,7 @@ export async function braveSearch(
   }
   
   try {
+    await waitForUpstream('brave');
     const response = await axios.get(BRAVE_WEB_URL, {
       headers: {
         'Accept': 'application/json',
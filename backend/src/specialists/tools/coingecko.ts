@@ -4,26 +4,11 @@
  */
 
 import axios from 'axios';
+import { waitForUpstream } from '../../rate-limit';
+import { getCoingeckoId, getFallbackPrice, normalizeSymbol } from '../../token-registry';
 
 const COINGECKO_API = 'https://api.coingecko.com/api/v3';
 
-// Token ID mapping for CoinGecko
-const TOKEN_IDS: Record<string, string> = {
-  'SOL': 'solana',
-  'BTC': 'bitcoin',
-  'ETH': 'ethereum',
-  'BONK': 'bonk',
-  'WIF': 'dogwifcoin',
-  'JUP': 'jupiter-exchange-solana',
-  'POPCAT': 'popcat',
-  'USDC': 'usd-coin',
-  'USDT': 'tether',
-  'RAY': 'raydium',
-  'PYTH': 'pyth-network',
-  'RENDER': 'render-token',
-  'HNT': 'helium',
-};
-
 export interface PriceData {
   token: string;
   price: number;
@@ -32,6 +17,7 @@ export interface PriceData {
   marketCap?: number;
   volume24h?: number;
   lastUpdated: Date;
+  mock?: boolean;        // Fallback figures; CoinGecko was unavailable
 }
 
 export interface MarketData extends PriceData {
@@ -48,10 +34,11 @@ export interface MarketData extends PriceData {
 /**
  * Get current price for a token
  */
-export async function getPrice(token: string): Promise<PriceData> {
-  const tokenId = TOKEN_IDS[token.toUpperCase()] || token.toLowerCase();
+export async function getPrice(token: string, signal?: AbortSignal): Promise<PriceData> {
+  const tokenId = getCoingeckoId(token) || token.toLowerCase();
   
   try {
+    await waitForUpstream('coingecko', signal);
     const response = await axios.get(`${COINGECKO_API}/simple/price`, {
       params: {
         ids: tokenId,
@@ -61,6 +48,7 @@ export async function getPrice(token: string): Promise<PriceData> {
         include_market_cap: true,
         include_24hr_vol: true,
       },
+      signal,
     });
     
     const data = response.data[tokenId];
@@ -69,7 +57,7 @@ export async function getPrice(token: string): Promise<PriceData> {
     }
     
     return {
-      token: token.toUpperCase(),
+      token: normalizeSymbol(token),
       price: data.usd,
       change24h: data.usd_24h_change || 0,
       change7d: data.usd_7d_change,
@@ -86,10 +74,11 @@ export async function getPrice(token: string): Promise<PriceData> {
 /**
  * Get full market data for a token
  */
-export async function getMarketData(token: string): Promise<MarketData> {
-  const tokenId = TOKEN_IDS[token.toUpperCase()] || token.toLowerCase();
+export async function getMarketData(token: string, signal?: AbortSignal): Promise<MarketData> {
+  const tokenId = getCoingeckoId(token) || token.toLowerCase();
   
   try {
+    await waitForUpstream('coingecko', signal);
     const response = await axios.get(`${COINGECKO_API}/coins/${tokenId}`, {
       params: {
         localization: false,
@@ -97,13 +86,14 @@ export async function getMarketData(token: string): Promise<MarketData> {
         community_data: false,
         developer_data: false,
       },
+      signal,
     });
     
     const data = response.data;
     const market = data.market_data;
     
     return {
-      token: token.toUpperCase(),
+      token: normalizeSymbol(token),
       price: market.current_price.usd,
       change24h: market.price_change_percentage_24h || 0,
       change7d: market.price_change_percentage_7d,
@@ -128,9 +118,10 @@ export async function getMarketData(token: string): Promise<MarketData> {
 /**
  * Get trending coins
  */
-export async function getTrending(): Promise<Array<{ token: string; rank: number; price?: number }>> {
+export async function getTrending(signal?: AbortSignal): Promise<Array<{ token: string; rank: number; price?: number }>> {
   try {
-    const response = await axios.get(`${COINGECKO_API}/search/trending`);
+    await waitForUpstream('coingecko', signal);
+    const response = await axios.get(`${COINGECKO_API}/search/trending`, { signal });
     
     return response.data.coins.slice(0, 7).map((item: any, index: number) => ({
       token: item.item.symbol.toUpperCase(),
@@ -153,29 +144,18 @@ export async function getTrending(): Promise<Array<{ token: string; rank: number
  * Mock price data for fallback
  */
 function mockPrice(token: string): PriceData {
-  const mockPrices: Record<string, number> = {
-    'SOL': 127.50,
-    'BTC': 68500,
-    'ETH': 3520,
-    'BONK': 0.000028,
-    'WIF': 2.35,
-    'JUP': 0.92,
-    'POPCAT': 0.45,
-    'USDC': 1.00,
-    'USDT': 1.00,
-  };
-  
-  const price = mockPrices[token.toUpperCase()] || 1.0;
+  const price = getFallbackPrice(token) ?? 1.0;
   const change = -5 + Math.random() * 15; // -5% to +10%
   
   return {
-    token: token.toUpperCase(),
+    token: normalizeSymbol(token),
     price,
     change24h: change,
     change7d: change * 2,
     marketCap: price * 1000000000,
     volume24h: price * 100000000,
     lastUpdated: new Date(),
+    mock: true,
   };
 }
 
@@ -75,22 +75,22 @@ export async function fetchUrl(url: string, maxLength?: number): Promise<string
 /**
  * Get token price - CoinGecko (no MCP equivalent yet)
  */
-export async function getTokenPrice(token: string): Promise<PriceData> {
-  return coingecko.getPrice(token);
+export async function getTokenPrice(token: string, signal?: AbortSignal): Promise<PriceData> {
+  return coingecko.getPrice(token, signal);
 }
 
 /**
  * Get full market data - CoinGecko
  */
-export async function getMarketData(token: string): Promise<MarketData> {
-  return coingecko.getMarketData(token);
+export async function getMarketData(token: string, signal?: AbortSignal): Promise<MarketData> {
+  return coingecko.getMarketData(token, signal);
 }
 
 /**
  * Get trending tokens - CoinGecko
  */
-export async function getTrendingTokens(): Promise<Array<{ token: string; rank: number }>> {
-  return coingecko.getTrending();
+export async function getTrendingTokens(signal?: AbortSignal): Promise<Array<{ token: string; rank: number }>> {
+  return coingecko.getTrending(signal);
 }
 
 /**
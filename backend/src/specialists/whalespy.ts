@@ -0,0 +1,139 @@
+/**
+ * WhaleSpy Specialist
+ * Tracks large holders and wallet activity on Solana via Helius RPC
+ */
+
+import { PublicKey } from '@solana/web3.js';
+import { SpecialistResult } from '../types';
+import solana from '../solana';
+import { findTokens, getMint, getToken } from '../token-registry';
+
+/**
+ * WhaleSpy specialist handler
+ */
+export const whalespy = {
+  name: 'WhaleSpy',
+  description: 'Large Transaction Tracker - whale wallets and holder concentration',
+
+  async handle(prompt: string): Promise<SpecialistResult> {
+    const startTime = Date.now();
+
+    try {
+      const address = prompt.match(/\b([1-9A-HJ-NP-Za-km-z]{32,44})\b/)?.[1];
+      const data = address && !getToken(address)
+        ? await trackWallet(address)
+        : await trackHolders(parseToken(prompt, address));
+
+      return {
+        success: true,
+        data,
+        confidence: data.confidence,
+        timestamp: new Date(),
+        executionTimeMs: Date.now() - startTime,
+      };
+    } catch (error: any) {
+      console.error('[WhaleSpy] Error:', error.message);
+      return {
+        success: false,
+        data: { error: error.message },
+        timestamp: new Date(),
+        executionTimeMs: Date.now() - startTime,
+      };
+    }
+  },
+};
+
+/**
+ * Token to report on (a registry mint address or symbol with a mint; defaults to BONK)
+ */
+function parseToken(prompt: string, address?: string): string {
+  if (address) {
+    const symbol = getToken(address)?.symbol;
+    if (symbol) return symbol;
+  }
+  return findTokens(prompt, { anyCase: true }).find(symbol => getMint(symbol)) || 'BONK';
+}
+
+/**
+ * Recent activity and holdings for a single wallet
+ */
+async function trackWallet(address: string) {
+  const [sol, tokenAccounts, transactions] = await Promise.all([
+    solana.getBalance(address, 'mainnet'),
+    solana.getTokenAccounts(address, 'mainnet'),
+    solana.getRecentTransactions(address, 10, 'mainnet'),
+  ]);
+
+  const holdings = tokenAccounts
+    .map((account: any) => {
+      const info = account.account?.data?.parsed?.info;
+      return {
+        mint: info?.mint,
+        amount: info?.tokenAmount?.uiAmount || 0,
+      };
+    })
+    .filter((h: any) => h.mint && h.amount > 0)
+    .sort((a: any, b: any) => b.amount - a.amount)
+    .slice(0, 10);
+
+  const activity = transactions.map((tx: any) => ({
+    signature: tx.signature,
+    time: tx.blockTime ? new Date(tx.blockTime * 1000).toISOString() : undefined,
+    failed: !!tx.err,
+  }));
+
+  const lastActive = activity[0]?.time ? new Date(activity[0].time).toUTCString() : 'unknown';
+  const isWhale = sol >= 10_000;
+
+  return {
+    address,
+    summary: `🐋 **Wallet ${address.slice(0, 4)}...${address.slice(-4)}**\n\n` +
+      `• SOL: ${sol.toLocaleString(undefined, { maximumFractionDigits: 2 })}${isWhale ? ' (whale)' : ''}\n` +
+      `• Token accounts with balance: ${holdings.length}\n` +
+      `• Recent transactions: ${activity.length} (last active ${lastActive})`,
+    sol,
+    isWhale,
+    holdings,
+    activity,
+    confidence: 0.85,
+  };
+}
+
+/**
+ * Holder concentration for a token: share of supply held by the 10 largest accounts
+ */
+async function trackHolders(token: string) {
+  const mint = new PublicKey(getMint(token)!);
+  const connection = solana.getConnection('mainnet');
+
+  const [largest, supply] = await Promise.all([
+    connection.getTokenLargestAccounts(mint),
+    connection.getTokenSupply(mint),
+  ]);
+
+  const totalSupply = supply.value.uiAmount || 0;
+  const holders = largest.value.slice(0, 10).map(account => ({
+    account: account.address.toBase58(),
+    amount: account.uiAmount || 0,
+    share: totalSupply > 0 ? (account.uiAmount || 0) / totalSupply : 0,
+  }));
+
+  const top10Share = holders.reduce((sum, h) => sum + h.share, 0);
+  const concentration = top10Share > 0.5 ? 'high' : top10Share > 0.25 ? 'moderate' : 'low';
+
+  const lines = holders.slice(0, 5).map((h, i) =>
+    `${i + 1}. ${h.account.slice(0, 4)}...${h.account.slice(-4)} — ${(h.share * 100).toFixed(2)}%`
+  );
+
+  return {
+    token,
+    summary: `🐋 **${token} Whale Watch**\n\nTop 10 accounts hold **${(top10Share * 100).toFixed(1)}%** of supply (${concentration} concentration).\n\n${lines.join('\n')}`,
+    concentration,
+    top10Share,
+    holders,
+    confidence: 0.8,
+    relatedTokens: [token],
+  };
+}
+
+export default whalespy;
@@ -0,0 +1,59 @@
+/**
+ * Storage Codec
+ * JSON (de)serialization for stored records, restoring Date fields on the way out.
+ */
+
+import { PaymentRecord, Task } from '../types';
+
+export function serializeTask(task: Task): string {
+  return JSON.stringify(task);
+}
+
+/**
+ * Parse a stored task, converting dates back to Date objects
+ */
+export function deserializeTask(json: string): Task {
+  return reviveTask(JSON.parse(json));
+}
+
+export function reviveTask(task: any): Task {
+  task.createdAt = new Date(task.createdAt);
+  task.updatedAt = new Date(task.updatedAt);
+  if (task.result?.timestamp) {
+    task.result.timestamp = new Date(task.result.timestamp);
+  }
+  task.payments = (task.payments || []).map(revivePayment);
+  task.messages = task.messages || [];
+  return task as Task;
+}
+
+export function revivePayment<T extends PaymentRecord>(payment: any): T {
+  payment.timestamp = new Date(payment.timestamp);
+  return payment as T;
+}
+
+export function toTime(value: Date | string | number | undefined): number {
+  if (value === undefined) return 0;
+  return value instanceof Date ? value.getTime() : new Date(value).getTime();
+}
+
+// Fields holding the id of the user a nested record belongs to
+const USER_FIELDS = ['userId', 'voterId'];
+
+/**
+ * Copy of a document with user `from` replaced by `to`, at any depth: in entries keyed
+ * by the user ("<from>" or "<from>:...") and in userId / voterId fields. Where `to`
+ * already has an entry of its own, that one is kept.
+ */
+export function reassignUserIn(value: any, from: string, to: string): any {
+  if (Array.isArray(value)) return value.map(item => reassignUserIn(item, from, to));
+  if (!value || typeof value !== 'object') return value;
+
+  const result: Record<string, any> = {};
+  for (const [key, child] of Object.entries(value)) {
+    const renamed = key === from ? to : key.startsWith(`${from}:`) ? `${to}${key.slice(from.length)}` : key;
+    if (renamed !== key && Object.prototype.hasOwnProperty.call(value, renamed)) continue;
+    result[renamed] = USER_FIELDS.includes(key) && child === from ? to : reassignUserIn(child, from, to);
+  }
+  return result;
+}
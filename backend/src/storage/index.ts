@@ -0,0 +1,43 @@
+/**
+ * Storage
+ * Process-wide storage backend. SQLite at data/hivemind.db by default;
+ * STORAGE=memory selects the in-memory backend and STORAGE_PATH moves the database.
+ */
+
+import * as path from 'path';
+import { Storage } from './types';
+import { createSqliteStorage } from './sqlite';
+import { createMemoryStorage } from './memory';
+
+export * from './types';
+export { createSqliteStorage } from './sqlite';
+export { createMemoryStorage } from './memory';
+
+const DATA_DIR = path.join(__dirname, '../../data');
+
+let storage: Storage | null = null;
+
+/**
+ * Get the active storage backend, creating it from the environment on first use
+ */
+export function getStorage(): Storage {
+  if (!storage) {
+    if (process.env.STORAGE === 'memory') {
+      storage = createMemoryStorage();
+    } else {
+      const file = process.env.STORAGE_PATH || path.join(DATA_DIR, 'hivemind.db');
+      storage = createSqliteStorage(file, { importFrom: DATA_DIR });
+    }
+    console.log(`[Storage] Using ${storage.name}`);
+  }
+  return storage;
+}
+
+/**
+ * Replace the storage backend (e.g. an in-memory store in tests)
+ */
+export function setStorage(next: Storage): void {
+  storage = next;
+}
+
+export default { getStorage, setStorage };
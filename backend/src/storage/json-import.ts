@@ -0,0 +1,79 @@
+/**
+ * Legacy JSON Import
+ * One-time import of the JSON files that predate the storage layer
+ * (tasks, payments, reputation, used signatures, simulated balances, budgets,
+ * runtime specialists). The files are left in place untouched.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { Storage } from './types';
+import { reviveTask, revivePayment } from './codec';
+
+function readJson(file: string): any {
+  if (!fs.existsSync(file)) return undefined;
+  try {
+    return JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch (error: any) {
+    console.warn(`[Storage] Skipping unreadable ${path.basename(file)}: ${error.message}`);
+    return undefined;
+  }
+}
+
+/**
+ * Import every legacy JSON file found in dataDir. Returns counts per file.
+ */
+export function importJsonFiles(storage: Storage, dataDir: string): Record<string, number> {
+  const imported: Record<string, number> = {};
+
+  const tasks = readJson(path.join(dataDir, 'tasks.json'));
+  if (tasks && typeof tasks === 'object') {
+    for (const task of Object.values(tasks)) {
+      storage.saveTask(reviveTask(task));
+    }
+    imported['tasks.json'] = Object.keys(tasks).length;
+  }
+
+  const payments = readJson(path.join(dataDir, 'payments.json'));
+  if (Array.isArray(payments)) {
+    for (const payment of payments) {
+      storage.addPayment(revivePayment(payment));
+    }
+    imported['payments.json'] = payments.length;
+  }
+
+  const signatures = readJson(path.join(dataDir, 'used-signatures.json'));
+  if (Array.isArray(signatures)) {
+    for (const signature of signatures) {
+      storage.addUsedSignature(String(signature));
+    }
+    imported['used-signatures.json'] = signatures.length;
+  }
+
+  const budgets = readJson(path.join(dataDir, 'budgets.json'));
+  if (budgets) {
+    storage.setDocument('budget-limits', budgets.limits || {});
+    for (const entry of budgets.ledger || []) {
+      storage.addSpend(entry);
+    }
+    imported['budgets.json'] = (budgets.ledger || []).length;
+  }
+
+  // Whole-document files map straight onto documents
+  const documents: Record<string, string> = {
+    'reputation.json': 'reputation',
+    'simulated-balances.json': 'simulated-balances',
+    'specialists.json': 'specialists',
+  };
+  for (const [file, key] of Object.entries(documents)) {
+    const value = readJson(path.join(dataDir, file));
+    if (value !== undefined) {
+      storage.setDocument(key, value);
+      imported[file] = 1;
+    }
+  }
+
+  return imported;
+}
+
+export default { importJsonFiles };
@@ -0,0 +1,260 @@
+/**
+ * In-Memory Storage
+ * Non-durable backend for tests and throwaway runs (STORAGE=memory).
+ * Records are stored serialized so callers get copies, as with SQLite.
+ */
+
+import { PaymentRecord, Task } from '../types';
+import { Storage, TaskQuery, StoredPayment, SpendEntry, WebhookDelivery, ApiKeyRecord, SessionRecord, PaperTrade } from './types';
+import { serializeTask, deserializeTask, revivePayment, reassignUserIn } from './codec';
+
+export function createMemoryStorage(): Storage {
+  const tasks = new Map<string, { userId?: string; status: string; createdAt: number; json: string }>();
+  const payments: Array<{ id: number; taskId?: string; json: string }> = [];
+  const usedSignatures = new Set<string>();
+  let spend: SpendEntry[] = [];
+  const documents = new Map<string, string>();
+  const deliveries = new Map<string, string>();
+  const apiKeys = new Map<string, string>();
+  const sessions = new Map<string, string>();  // tokenHash -> session
+  const buckets = new Map<string, { tokens: number; updatedAt: number }>();
+  let paperTrades: PaperTrade[] = [];
+  let nextPaymentId = 1;
+
+  function matches(row: { userId?: string; status: string; createdAt: number }, query: TaskQuery): boolean {
+    if (query.userId !== undefined && row.userId !== query.userId) return false;
+    if (query.status !== undefined) {
+      const statuses = Array.isArray(query.status) ? query.status : [query.status];
+      if (!statuses.includes(row.status as any)) return false;
+    }
+    if (query.since && row.createdAt < query.since.getTime()) return false;
+    if (query.until && row.createdAt >= query.until.getTime()) return false;
+    return true;
+  }
+
+  return {
+    name: 'memory',
+
+    getTask(id) {
+      const row = tasks.get(id);
+      return row ? deserializeTask(row.json) : undefined;
+    },
+
+    saveTask(task: Task) {
+      tasks.set(task.id, {
+        userId: task.userId,
+        status: task.status,
+        createdAt: new Date(task.createdAt).getTime(),
+        json: serializeTask(task),
+      });
+    },
+
+    listTasks(query: TaskQuery = {}) {
+      const offset = query.offset || 0;
+      return Array.from(tasks.values())
+        .filter(row => matches(row, query))
+        .sort((a, b) => b.createdAt - a.createdAt)
+        .slice(offset, query.limit !== undefined ? offset + query.limit : undefined)
+        .map(row => deserializeTask(row.json));
+    },
+
+    countTasks(query: TaskQuery = {}) {
+      return Array.from(tasks.values()).filter(row => matches(row, query)).length;
+    },
+
+    addPayment(record: PaymentRecord, taskId?: string) {
+      const id = nextPaymentId++;
+      payments.push({ id, taskId, json: JSON.stringify(record) });
+      return id;
+    },
+
+    listPayments(options = {}) {
+      const rows = payments.filter(p => options.taskId === undefined || p.taskId === options.taskId);
+      const limited = options.limit !== undefined ? rows.slice(-options.limit) : rows;
+      return limited.map(p => revivePayment<StoredPayment>({ ...JSON.parse(p.json), id: p.id, taskId: p.taskId }));
+    },
+
+    addUsedSignature(signature) {
+      if (usedSignatures.has(signature)) return false;
+      usedSignatures.add(signature);
+      return true;
+    },
+
+    hasUsedSignature(signature) {
+      return usedSignatures.has(signature);
+    },
+
+    removeUsedSignature(signature) {
+      usedSignatures.delete(signature);
+    },
+
+    addSpend(entry) {
+      spend.push({ ...entry });
+    },
+
+    listSpend(userId, since) {
+      return spend.filter(e => e.userId === userId && e.timestamp >= since).map(e => ({ ...e }));
+    },
+
+    pruneSpend(before) {
+      spend = spend.filter(e => e.timestamp >= before);
+    },
+
+    saveWebhookDelivery(delivery) {
+      deliveries.set(delivery.id, JSON.stringify(delivery));
+    },
+
+    getWebhookDelivery(id) {
+      const json = deliveries.get(id);
+      return json === undefined ? undefined : JSON.parse(json);
+    },
+
+    listWebhookDeliveries(query = {}) {
+      const rows = Array.from(deliveries.values())
+        .map(json => JSON.parse(json) as WebhookDelivery)
+        .filter(d => query.userId === undefined || d.userId === query.userId)
+        .filter(d => query.taskId === undefined || d.taskId === query.taskId)
+        .filter(d => query.status === undefined || d.status === query.status)
+        .sort((a, b) => b.createdAt - a.createdAt);
+      return query.limit !== undefined ? rows.slice(0, query.limit) : rows;
+    },
+
+    pruneWebhookDeliveries(before) {
+      for (const [id, json] of deliveries) {
+        const delivery = JSON.parse(json) as WebhookDelivery;
+        if (delivery.status !== 'pending' && delivery.createdAt < before) deliveries.delete(id);
+      }
+    },
+
+    saveApiKey(record) {
+      apiKeys.set(record.id, JSON.stringify(record));
+    },
+
+    getApiKey(id) {
+      const json = apiKeys.get(id);
+      return json === undefined ? undefined : JSON.parse(json);
+    },
+
+    getApiKeyByHash(keyHash) {
+      for (const json of apiKeys.values()) {
+        const record = JSON.parse(json) as ApiKeyRecord;
+        if (record.keyHash === keyHash) return record;
+      }
+      return undefined;
+    },
+
+    listApiKeys(userId) {
+      return Array.from(apiKeys.values())
+        .map(json => JSON.parse(json) as ApiKeyRecord)
+        .filter(record => userId === undefined || record.userId === userId)
+        .sort((a, b) => a.createdAt - b.createdAt);
+    },
+
+    saveSession(session) {
+      sessions.set(session.tokenHash, JSON.stringify(session));
+    },
+
+    getSessionByHash(tokenHash) {
+      const json = sessions.get(tokenHash);
+      return json === undefined ? undefined : JSON.parse(json);
+    },
+
+    pruneSessions(before) {
+      for (const [tokenHash, json] of sessions) {
+        if ((JSON.parse(json) as SessionRecord).expiresAt < before) sessions.delete(tokenHash);
+      }
+    },
+
+    getRateLimitBucket(key) {
+      const bucket = buckets.get(key);
+      return bucket ? { key, ...bucket } : undefined;
+    },
+
+    saveRateLimitBuckets(list) {
+      for (const { key, tokens, updatedAt } of list) {
+        buckets.set(key, { tokens, updatedAt });
+      }
+    },
+
+    pruneRateLimits(before) {
+      for (const [key, bucket] of buckets) {
+        if (bucket.updatedAt < before) buckets.delete(key);
+      }
+    },
+
+    addPaperTrade(trade) {
+      paperTrades.push({ ...trade });
+    },
+
+    listPaperTrades(userId, options = {}) {
+      const offset = options.offset ?? 0;
+      return paperTrades
+        .filter(t => t.userId === userId)
+        .reverse()
+        .slice(offset, options.limit === undefined ? undefined : offset + options.limit)
+        .map(t => ({ ...t }));
+    },
+
+    countPaperTrades(userId) {
+      return paperTrades.filter(t => t.userId === userId).length;
+    },
+
+    deletePaperTrades(userId) {
+      paperTrades = paperTrades.filter(t => t.userId !== userId);
+    },
+
+    getDocument(key) {
+      const json = documents.get(key);
+      return json === undefined ? undefined : JSON.parse(json);
+    },
+
+    setDocument(key, value) {
+      documents.set(key, JSON.stringify(value));
+    },
+
+    reassignUser(from, to) {
+      let changed = 0;
+      for (const [id, row] of tasks) {
+        if (row.userId !== from) continue;
+        const task = deserializeTask(row.json);
+        task.userId = to;
+        tasks.set(id, { ...row, userId: to, json: serializeTask(task) });
+        changed++;
+      }
+      for (const [id, json] of deliveries) {
+        const delivery = JSON.parse(json) as WebhookDelivery;
+        if (delivery.userId !== from) continue;
+        deliveries.set(id, JSON.stringify({ ...delivery, userId: to }));
+        changed++;
+      }
+      for (const list of [spend, paperTrades] as Array<Array<{ userId: string }>>) {
+        for (const entry of list) {
+          if (entry.userId !== from) continue;
+          entry.userId = to;
+          changed++;
+        }
+      }
+      for (const key of buckets.keys()) {
+        if (key.slice(key.indexOf(':') + 1) === from) buckets.delete(key);
+      }
+      for (const [key, json] of documents) {
+        const value = JSON.stringify(reassignUserIn(JSON.parse(json), from, to));
+        if (value === json) continue;
+        documents.set(key, value);
+        changed++;
+      }
+      return changed;
+    },
+
+    // Nothing can interleave with a synchronous call; writes are not rolled back on error
+    transaction(fn) {
+      return fn();
+    },
+
+    close() {
+      // Nothing to release
+    },
+  };
+}
+
+export default { createMemoryStorage };
@@ -0,0 +1,195 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import Database from 'better-sqlite3';
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { PaymentRecord, Task } from '../types';
+import { createMemoryStorage, createSqliteStorage, Storage } from './index';
+
+let dir: string;
+const open: Storage[] = [];
+
+function sqlite(options: { importFrom?: string } = {}): Storage {
+  const storage = createSqliteStorage(path.join(dir, 'hivemind.db'), options);
+  open.push(storage);
+  return storage;
+}
+
+function reopen(storage: Storage, options: { importFrom?: string } = {}): Storage {
+  storage.close();
+  open.splice(open.indexOf(storage), 1);
+  return sqlite(options);
+}
+
+function appliedMigrations(): string[] {
+  const db = new Database(path.join(dir, 'hivemind.db'), { readonly: true });
+  try {
+    return (db.prepare('SELECT id FROM migrations ORDER BY id').all() as Array<{ id: string }>).map(r => r.id);
+  } finally {
+    db.close();
+  }
+}
+
+const task = (id: string, userId: string, createdAt: string, status: Task['status'] = 'completed'): Task => ({
+  id,
+  prompt: `prompt ${id}`,
+  userId,
+  status,
+  specialist: 'magos',
+  createdAt: new Date(createdAt),
+  updatedAt: new Date(createdAt),
+  payments: [],
+  messages: [],
+});
+
+const payment: PaymentRecord = {
+  amount: '0.1', currency: 'USDC', network: 'solana', recipient: 'magos', txHash: 'sig-1', status: 'completed', timestamp: new Date('2026-01-02T00:00:00Z'),
+};
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'hivemind-storage-'));
+});
+
+afterEach(() => {
+  open.splice(0).forEach(storage => storage.close());
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('sqlite migrations', () => {
+  it('applies every migration once on a new database', () => {
+    const storage = sqlite();
+    const ids = appliedMigrations();
+    expect(ids[0]).toBe('001_initial_schema');
+    expect(ids).toContain('008_paper_trade_values');
+
+    reopen(storage);
+    expect(appliedMigrations()).toEqual(ids);
+  });
+
+  it('upgrades a database from an older schema and keeps its rows', () => {
+    sqlite().close();
+    open.length = 0;
+
+    // Roll the file back to before 008: no value_usd column, one trade already recorded
+    const db = new Database(path.join(dir, 'hivemind.db'));
+    db.exec(`
+      ALTER TABLE paper_trades DROP COLUMN value_usd;
+      DELETE FROM migrations WHERE id = '008_paper_trade_values';
+      INSERT INTO paper_trades (user_id, type, from_token, to_token, amount_in, amount_out, route, timestamp)
+      VALUES ('user-1', 'swap', 'SOL', 'USDC', 1, 150, 'Direct', 1000);
+    `);
+    db.close();
+
+    const storage = sqlite();
+    expect(appliedMigrations()).toContain('008_paper_trade_values');
+    storage.addPaperTrade({ userId: 'user-1', type: 'swap', from: 'USDC', to: 'SOL', amountIn: 15, amountOut: 0.1, valueUsd: 15, timestamp: 2000 });
+
+    expect(storage.listPaperTrades('user-1')).toEqual([
+      { userId: 'user-1', type: 'swap', from: 'USDC', to: 'SOL', amountIn: 15, amountOut: 0.1, valueUsd: 15, timestamp: 2000 },
+      { userId: 'user-1', type: 'swap', from: 'SOL', to: 'USDC', amountIn: 1, amountOut: 150, route: 'Direct', timestamp: 1000 },
+    ]);
+  });
+});
+
+describe('legacy JSON import', () => {
+  let legacy: string;
+
+  beforeEach(() => {
+    legacy = path.join(dir, 'legacy');
+    fs.mkdirSync(legacy);
+    const write = (file: string, value: any) => fs.writeFileSync(path.join(legacy, file), typeof value === 'string' ? value : JSON.stringify(value));
+    write('tasks.json', { 'task-1': JSON.parse(JSON.stringify({ ...task('task-1', 'user-1', '2026-01-01T00:00:00Z'), payments: [payment] })) });
+    write('payments.json', [JSON.parse(JSON.stringify(payment))]);
+    write('used-signatures.json', ['sig-1', 'sig-2']);
+    write('budgets.json', { limits: { 'user-1': { daily: 5 } }, ledger: [{ userId: 'user-1', taskId: 'task-1', specialist: 'magos', amount: 0.1, timestamp: 1000 }] });
+    write('reputation.json', { magos: { upvotes: 3 } });
+    write('specialists.json', '{ not json');
+  });
+
+  it('imports each file on the first run and leaves the files in place', () => {
+    const before = fs.readFileSync(path.join(legacy, 'tasks.json'), 'utf8');
+    const storage = sqlite({ importFrom: legacy });
+
+    const imported = storage.getTask('task-1')!;
+    expect(imported.createdAt).toEqual(new Date('2026-01-01T00:00:00Z'));
+    expect(imported.payments[0].timestamp).toBeInstanceOf(Date);
+    expect(storage.listPayments()).toHaveLength(1);
+    expect(storage.hasUsedSignature('sig-2')).toBe(true);
+    expect(storage.getDocument('budget-limits')).toEqual({ 'user-1': { daily: 5 } });
+    expect(storage.listSpend('user-1', 0)).toEqual([{ userId: 'user-1', taskId: 'task-1', specialist: 'magos', amount: 0.1, timestamp: 1000 }]);
+    expect(storage.getDocument('reputation')).toEqual({ magos: { upvotes: 3 } });
+    expect(storage.getDocument('specialists')).toBeUndefined();
+    expect(fs.readFileSync(path.join(legacy, 'tasks.json'), 'utf8')).toBe(before);
+  });
+
+  it('never imports again once the migration has run', () => {
+    const storage = sqlite({ importFrom: legacy });
+    storage.setDocument('reputation', { magos: { upvotes: 4 } });
+
+    const reopened = reopen(storage, { importFrom: legacy });
+    expect(reopened.getDocument('reputation')).toEqual({ magos: { upvotes: 4 } });
+    expect(reopened.listPayments()).toHaveLength(1);
+  });
+});
+
+describe('sqlite transactions', () => {
+  it('rolls back every write when the function throws, including nested calls', () => {
+    const storage = sqlite();
+    expect(() => storage.transaction(() => {
+      storage.setDocument('a', 1);
+      storage.transaction(() => storage.addUsedSignature('sig'));
+      throw new Error('abort');
+    })).toThrow('abort');
+
+    expect(storage.getDocument('a')).toBeUndefined();
+    expect(storage.hasUsedSignature('sig')).toBe(false);
+  });
+});
+
+describe.each([
+  ['memory', () => createMemoryStorage()],
+  ['sqlite', () => sqlite()],
+])('%s backend', (_name, create) => {
+  let storage: Storage;
+
+  beforeEach(() => {
+    storage = create();
+  });
+
+  it('lists and counts tasks newest first with filters', () => {
+    storage.saveTask(task('t1', 'alice', '2026-01-01T00:00:00Z'));
+    storage.saveTask(task('t2', 'bob', '2026-01-02T00:00:00Z', 'failed'));
+    storage.saveTask(task('t3', 'alice', '2026-01-03T00:00:00Z', 'failed'));
+
+    expect(storage.listTasks().map(t => t.id)).toEqual(['t3', 't2', 't1']);
+    expect(storage.listTasks({ userId: 'alice' }).map(t => t.id)).toEqual(['t3', 't1']);
+    expect(storage.listTasks({ status: ['failed'], since: new Date('2026-01-02T00:00:00Z'), until: new Date('2026-01-03T00:00:00Z') }).map(t => t.id)).toEqual(['t2']);
+    expect(storage.listTasks({ limit: 1, offset: 1 }).map(t => t.id)).toEqual(['t2']);
+    expect(storage.countTasks({ status: 'failed' })).toBe(2);
+    expect(storage.getTask('t1')!.createdAt).toBeInstanceOf(Date);
+  });
+
+  it('records each x402 signature once', () => {
+    expect(storage.addUsedSignature('sig')).toBe(true);
+    expect(storage.addUsedSignature('sig')).toBe(false);
+    storage.removeUsedSignature('sig');
+    expect(storage.hasUsedSignature('sig')).toBe(false);
+  });
+
+  it('keeps the spend ledger per user and prunes old entries', () => {
+    storage.addSpend({ userId: 'alice', taskId: 't1', specialist: 'magos', amount: 0.1, timestamp: 1000 });
+    storage.addSpend({ userId: 'alice', taskId: 't2', specialist: 'aura', amount: 0.2, timestamp: 3000 });
+    storage.addSpend({ userId: 'bob', taskId: 't3', specialist: 'aura', amount: 0.3, timestamp: 3000 });
+
+    expect(storage.listSpend('alice', 2000).map(e => e.taskId)).toEqual(['t2']);
+    storage.pruneSpend(2000);
+    expect(storage.listSpend('alice', 0).map(e => e.taskId)).toEqual(['t2']);
+  });
+
+  it('stores documents as copies', () => {
+    const value = { nested: { count: 1 } };
+    storage.setDocument('doc', value);
+    value.nested.count = 2;
+    expect(storage.getDocument('doc')).toEqual({ nested: { count: 1 } });
+  });
+});
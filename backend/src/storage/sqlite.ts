@@ -0,0 +1,474 @@
+/**
+ * SQLite Storage
+ * Durable backend on better-sqlite3 (WAL mode). Schema changes are applied as
+ * numbered migrations recorded in the `migrations` table; the first run also
+ * imports the legacy JSON files.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import Database from 'better-sqlite3';
+import { PaymentRecord, Task } from '../types';
+import { Storage, TaskQuery, StoredPayment, SpendEntry, WebhookDelivery, ApiKeyRecord, SessionRecord, PaperTrade, RateLimitBucketState } from './types';
+import { serializeTask, deserializeTask, revivePayment, toTime, reassignUserIn } from './codec';
+import { importJsonFiles } from './json-import';
+
+interface Migration {
+  id: string;
+  up(db: Database.Database, storage: Storage): void;
+}
+
+export interface SqliteStorageOptions {
+  importFrom?: string;   // Directory holding legacy JSON files to import on first run
+}
+
+export function createSqliteStorage(file: string, options: SqliteStorageOptions = {}): Storage {
+  if (file !== ':memory:') {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+  }
+
+  const db = new Database(file);
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+
+  const migrations: Migration[] = [
+    {
+      id: '001_initial_schema',
+      up: db => db.exec(`
+        CREATE TABLE tasks (
+          id TEXT PRIMARY KEY,
+          user_id TEXT,
+          status TEXT NOT NULL,
+          specialist TEXT NOT NULL,
+          created_at INTEGER NOT NULL,
+          updated_at INTEGER NOT NULL,
+          data TEXT NOT NULL
+        );
+        CREATE INDEX idx_tasks_user_created ON tasks (user_id, created_at DESC);
+        CREATE INDEX idx_tasks_status_created ON tasks (status, created_at DESC);
+        CREATE INDEX idx_tasks_created ON tasks (created_at DESC);
+
+        CREATE TABLE payments (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          task_id TEXT,
+          tx_hash TEXT,
+          status TEXT NOT NULL,
+          timestamp INTEGER NOT NULL,
+          data TEXT NOT NULL
+        );
+        CREATE INDEX idx_payments_task ON payments (task_id);
+        CREATE INDEX idx_payments_tx ON payments (tx_hash);
+
+        CREATE TABLE used_signatures (
+          signature TEXT PRIMARY KEY,
+          created_at INTEGER NOT NULL
+        );
+
+        CREATE TABLE spend_ledger (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          user_id TEXT NOT NULL,
+          task_id TEXT NOT NULL,
+          specialist TEXT NOT NULL,
+          amount REAL NOT NULL,
+          timestamp INTEGER NOT NULL
+        );
+        CREATE INDEX idx_spend_user_time ON spend_ledger (user_id, timestamp);
+
+        CREATE TABLE documents (
+          key TEXT PRIMARY KEY,
+          value TEXT NOT NULL,
+          updated_at INTEGER NOT NULL
+        );
+      `),
+    },
+    {
+      id: '002_import_json_files',
+      up: (_db, storage) => {
+        if (!options.importFrom) return;
+        const imported = importJsonFiles(storage, options.importFrom);
+        const summary = Object.entries(imported).map(([f, n]) => `${f}: ${n}`).join(', ');
+        if (summary) console.log(`[Storage] Imported legacy JSON (${summary})`);
+      },
+    },
+    {
+      id: '003_webhook_deliveries',
+      up: db => db.exec(`
+        CREATE TABLE webhook_deliveries (
+          id TEXT PRIMARY KEY,
+          user_id TEXT,
+          task_id TEXT,
+          status TEXT NOT NULL,
+          created_at INTEGER NOT NULL,
+          data TEXT NOT NULL
+        );
+        CREATE INDEX idx_webhook_deliveries_user_created ON webhook_deliveries (user_id, created_at DESC);
+        CREATE INDEX idx_webhook_deliveries_status ON webhook_deliveries (status);
+      `),
+    },
+    {
+      id: '004_api_keys',
+      up: db => db.exec(`
+        CREATE TABLE api_keys (
+          id TEXT PRIMARY KEY,
+          user_id TEXT NOT NULL,
+          key_hash TEXT NOT NULL UNIQUE,
+          created_at INTEGER NOT NULL,
+          data TEXT NOT NULL
+        );
+        CREATE INDEX idx_api_keys_user ON api_keys (user_id, created_at);
+      `),
+    },
+    {
+      id: '005_sessions',
+      up: db => db.exec(`
+        CREATE TABLE sessions (
+          id TEXT PRIMARY KEY,
+          token_hash TEXT NOT NULL UNIQUE,
+          user_id TEXT NOT NULL,
+          expires_at INTEGER NOT NULL,
+          data TEXT NOT NULL
+        );
+        CREATE INDEX idx_sessions_expires ON sessions (expires_at);
+      `),
+    },
+    {
+      id: '006_rate_limits',
+      up: db => db.exec(`
+        CREATE TABLE rate_limits (
+          key TEXT PRIMARY KEY,
+          tokens REAL NOT NULL,
+          updated_at INTEGER NOT NULL
+        );
+      `),
+    },
+    {
+      id: '007_paper_trades',
+      up: db => db.exec(`
+        CREATE TABLE paper_trades (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          user_id TEXT NOT NULL,
+          type TEXT NOT NULL,
+          from_token TEXT NOT NULL,
+          to_token TEXT NOT NULL,
+          amount_in REAL NOT NULL,
+          amount_out REAL NOT NULL,
+          route TEXT,
+          timestamp INTEGER NOT NULL
+        );
+        CREATE INDEX idx_paper_trades_user ON paper_trades (user_id, id);
+      `),
+    },
+    {
+      id: '008_paper_trade_values',
+      up: db => db.exec('ALTER TABLE paper_trades ADD COLUMN value_usd REAL'),
+    },
+  ];
+
+  const statements: Record<string, Database.Statement> = {};
+  const prepare = (sql: string) => (statements[sql] = statements[sql] || db.prepare(sql));
+
+  function whereClause(query: TaskQuery): { sql: string; params: any[] } {
+    const clauses: string[] = [];
+    const params: any[] = [];
+    if (query.userId !== undefined) {
+      clauses.push('user_id = ?');
+      params.push(query.userId);
+    }
+    if (query.status !== undefined) {
+      const statuses = Array.isArray(query.status) ? query.status : [query.status];
+      clauses.push(`status IN (${statuses.map(() => '?').join(', ')})`);
+      params.push(...statuses);
+    }
+    if (query.since) {
+      clauses.push('created_at >= ?');
+      params.push(query.since.getTime());
+    }
+    if (query.until) {
+      clauses.push('created_at < ?');
+      params.push(query.until.getTime());
+    }
+    return { sql: clauses.length ? `WHERE ${clauses.join(' AND ')}` : '', params };
+  }
+
+  const storage: Storage = {
+    name: `sqlite:${file}`,
+
+    getTask(id) {
+      const row = prepare('SELECT data FROM tasks WHERE id = ?').get(id) as { data: string } | undefined;
+      return row ? deserializeTask(row.data) : undefined;
+    },
+
+    saveTask(task: Task) {
+      prepare(`
+        INSERT INTO tasks (id, user_id, status, specialist, created_at, updated_at, data)
+        VALUES (@id, @userId, @status, @specialist, @createdAt, @updatedAt, @data)
+        ON CONFLICT(id) DO UPDATE SET
+          user_id = excluded.user_id, status = excluded.status, specialist = excluded.specialist,
+          updated_at = excluded.updated_at, data = excluded.data
+      `).run({
+        id: task.id,
+        userId: task.userId ?? null,
+        status: task.status,
+        specialist: task.specialist,
+        createdAt: toTime(task.createdAt),
+        updatedAt: toTime(task.updatedAt),
+        data: serializeTask(task),
+      });
+    },
+
+    listTasks(query: TaskQuery = {}) {
+      const { sql, params } = whereClause(query);
+      const rows = db.prepare(`SELECT data FROM tasks ${sql} ORDER BY created_at DESC LIMIT ? OFFSET ?`)
+        .all(...params, query.limit ?? -1, query.offset ?? 0) as Array<{ data: string }>;
+      return rows.map(row => deserializeTask(row.data));
+    },
+
+    countTasks(query: TaskQuery = {}) {
+      const { sql, params } = whereClause(query);
+      return (db.prepare(`SELECT COUNT(*) AS count FROM tasks ${sql}`).get(...params) as { count: number }).count;
+    },
+
+    addPayment(record: PaymentRecord, taskId?: string) {
+      const result = prepare('INSERT INTO payments (task_id, tx_hash, status, timestamp, data) VALUES (?, ?, ?, ?, ?)')
+        .run(taskId ?? null, record.txHash ?? null, record.status, toTime(record.timestamp), JSON.stringify(record));
+      return Number(result.lastInsertRowid);
+    },
+
+    listPayments(options = {}) {
+      const where = options.taskId !== undefined ? 'WHERE task_id = ?' : '';
+      const params: any[] = options.taskId !== undefined ? [options.taskId] : [];
+      // Newest N, returned oldest first like the original log
+      const rows = db.prepare(`SELECT id, task_id, data FROM payments ${where} ORDER BY id DESC LIMIT ?`)
+        .all(...params, options.limit ?? -1) as Array<{ id: number; task_id: string | null; data: string }>;
+      return rows.reverse().map(row => revivePayment<StoredPayment>({
+        ...JSON.parse(row.data),
+        id: row.id,
+        taskId: row.task_id ?? undefined,
+      }));
+    },
+
+    addUsedSignature(signature) {
+      const result = prepare('INSERT OR IGNORE INTO used_signatures (signature, created_at) VALUES (?, ?)').run(signature, Date.now());
+      return result.changes > 0;
+    },
+
+    hasUsedSignature(signature) {
+      return !!prepare('SELECT 1 FROM used_signatures WHERE signature = ?').get(signature);
+    },
+
+    removeUsedSignature(signature) {
+      prepare('DELETE FROM used_signatures WHERE signature = ?').run(signature);
+    },
+
+    addSpend(entry: SpendEntry) {
+      prepare('INSERT INTO spend_ledger (user_id, task_id, specialist, amount, timestamp) VALUES (?, ?, ?, ?, ?)')
+        .run(entry.userId, entry.taskId, entry.specialist, entry.amount, entry.timestamp);
+    },
+
+    listSpend(userId, since) {
+      return prepare(`
+        SELECT user_id AS userId, task_id AS taskId, specialist, amount, timestamp
+        FROM spend_ledger WHERE user_id = ? AND timestamp >= ? ORDER BY timestamp
+      `).all(userId, since) as SpendEntry[];
+    },
+
+    pruneSpend(before) {
+      prepare('DELETE FROM spend_ledger WHERE timestamp < ?').run(before);
+    },
+
+    saveWebhookDelivery(delivery: WebhookDelivery) {
+      prepare(`
+        INSERT INTO webhook_deliveries (id, user_id, task_id, status, created_at, data)
+        VALUES (@id, @userId, @taskId, @status, @createdAt, @data)
+        ON CONFLICT(id) DO UPDATE SET status = excluded.status, data = excluded.data
+      `).run({
+        id: delivery.id,
+        userId: delivery.userId ?? null,
+        taskId: delivery.taskId ?? null,
+        status: delivery.status,
+        createdAt: delivery.createdAt,
+        data: JSON.stringify(delivery),
+      });
+    },
+
+    getWebhookDelivery(id) {
+      const row = prepare('SELECT data FROM webhook_deliveries WHERE id = ?').get(id) as { data: string } | undefined;
+      return row ? JSON.parse(row.data) : undefined;
+    },
+
+    listWebhookDeliveries(query = {}) {
+      const clauses: string[] = [];
+      const params: any[] = [];
+      for (const [column, value] of [['user_id', query.userId], ['task_id', query.taskId], ['status', query.status]]) {
+        if (value !== undefined) {
+          clauses.push(`${column} = ?`);
+          params.push(value);
+        }
+      }
+      const where = clauses.length ? `WHERE ${clauses.join(' AND ')}` : '';
+      const rows = db.prepare(`SELECT data FROM webhook_deliveries ${where} ORDER BY created_at DESC LIMIT ?`)
+        .all(...params, query.limit ?? -1) as Array<{ data: string }>;
+      return rows.map(row => JSON.parse(row.data));
+    },
+
+    pruneWebhookDeliveries(before) {
+      prepare("DELETE FROM webhook_deliveries WHERE status != 'pending' AND created_at < ?").run(before);
+    },
+
+    saveApiKey(record: ApiKeyRecord) {
+      prepare(`
+        INSERT INTO api_keys (id, user_id, key_hash, created_at, data)
+        VALUES (@id, @userId, @keyHash, @createdAt, @data)
+        ON CONFLICT(id) DO UPDATE SET data = excluded.data
+      `).run({ ...record, data: JSON.stringify(record) });
+    },
+
+    getApiKey(id) {
+      const row = prepare('SELECT data FROM api_keys WHERE id = ?').get(id) as { data: string } | undefined;
+      return row ? JSON.parse(row.data) : undefined;
+    },
+
+    getApiKeyByHash(keyHash) {
+      const row = prepare('SELECT data FROM api_keys WHERE key_hash = ?').get(keyHash) as { data: string } | undefined;
+      return row ? JSON.parse(row.data) : undefined;
+    },
+
+    listApiKeys(userId) {
+      const rows = (userId !== undefined
+        ? prepare('SELECT data FROM api_keys WHERE user_id = ? ORDER BY created_at').all(userId)
+        : prepare('SELECT data FROM api_keys ORDER BY created_at').all()) as Array<{ data: string }>;
+      return rows.map(row => JSON.parse(row.data));
+    },
+
+    saveSession(session: SessionRecord) {
+      prepare(`
+        INSERT INTO sessions (id, token_hash, user_id, expires_at, data)
+        VALUES (@id, @tokenHash, @userId, @expiresAt, @data)
+        ON CONFLICT(id) DO UPDATE SET expires_at = excluded.expires_at, data = excluded.data
+      `).run({ ...session, data: JSON.stringify(session) });
+    },
+
+    getSessionByHash(tokenHash) {
+      const row = prepare('SELECT data FROM sessions WHERE token_hash = ?').get(tokenHash) as { data: string } | undefined;
+      return row ? JSON.parse(row.data) : undefined;
+    },
+
+    pruneSessions(before) {
+      prepare('DELETE FROM sessions WHERE expires_at < ?').run(before);
+    },
+
+    getRateLimitBucket(key) {
+      return prepare('SELECT key, tokens, updated_at AS updatedAt FROM rate_limits WHERE key = ?').get(key) as RateLimitBucketState | undefined;
+    },
+
+    saveRateLimitBuckets(buckets) {
+      const save = prepare(`
+        INSERT INTO rate_limits (key, tokens, updated_at) VALUES (@key, @tokens, @updatedAt)
+        ON CONFLICT(key) DO UPDATE SET tokens = excluded.tokens, updated_at = excluded.updated_at
+      `);
+      db.transaction(() => {
+        for (const bucket of buckets) save.run(bucket);
+      })();
+    },
+
+    pruneRateLimits(before) {
+      prepare('DELETE FROM rate_limits WHERE updated_at < ?').run(before);
+    },
+
+    addPaperTrade(trade: PaperTrade) {
+      prepare(`
+        INSERT INTO paper_trades (user_id, type, from_token, to_token, amount_in, amount_out, route, value_usd, timestamp)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(
+        trade.userId, trade.type, trade.from, trade.to, trade.amountIn, trade.amountOut,
+        trade.route ?? null, trade.valueUsd ?? null, trade.timestamp
+      );
+    },
+
+    listPaperTrades(userId, options = {}) {
+      const rows = prepare(`
+        SELECT user_id AS userId, type, from_token AS "from", to_token AS "to",
+          amount_in AS amountIn, amount_out AS amountOut, route, value_usd AS valueUsd, timestamp
+        FROM paper_trades WHERE user_id = ? ORDER BY id DESC LIMIT ? OFFSET ?
+      `).all(userId, options.limit ?? -1, options.offset ?? 0) as Array<PaperTrade & { route: string | null; valueUsd: number | null }>;
+      return rows.map(({ route, valueUsd, ...trade }) => ({
+        ...trade,
+        ...(route === null ? {} : { route }),
+        ...(valueUsd === null ? {} : { valueUsd }),
+      }));
+    },
+
+    countPaperTrades(userId) {
+      return (prepare('SELECT COUNT(*) AS count FROM paper_trades WHERE user_id = ?').get(userId) as { count: number }).count;
+    },
+
+    deletePaperTrades(userId) {
+      prepare('DELETE FROM paper_trades WHERE user_id = ?').run(userId);
+    },
+
+    getDocument(key) {
+      const row = prepare('SELECT value FROM documents WHERE key = ?').get(key) as { value: string } | undefined;
+      return row ? JSON.parse(row.value) : undefined;
+    },
+
+    setDocument(key, value) {
+      prepare(`
+        INSERT INTO documents (key, value, updated_at) VALUES (?, ?, ?)
+        ON CONFLICT(key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at
+      `).run(key, JSON.stringify(value), Date.now());
+    },
+
+    reassignUser(from, to) {
+      let changed = 0;
+      const tasks = prepare('SELECT data FROM tasks WHERE user_id = ?').all(from) as Array<{ data: string }>;
+      for (const row of tasks) {
+        const task = deserializeTask(row.data);
+        task.userId = to;
+        prepare('UPDATE tasks SET user_id = ?, data = ? WHERE id = ?').run(to, serializeTask(task), task.id);
+        changed++;
+      }
+      const deliveries = prepare('SELECT id, data FROM webhook_deliveries WHERE user_id = ?').all(from) as Array<{ id: string; data: string }>;
+      for (const row of deliveries) {
+        prepare('UPDATE webhook_deliveries SET user_id = ?, data = ? WHERE id = ?').run(to, JSON.stringify({ ...JSON.parse(row.data), userId: to }), row.id);
+        changed++;
+      }
+      changed += prepare('UPDATE spend_ledger SET user_id = ? WHERE user_id = ?').run(to, from).changes;
+      changed += prepare('UPDATE paper_trades SET user_id = ? WHERE user_id = ?').run(to, from).changes;
+      prepare("DELETE FROM rate_limits WHERE substr(key, instr(key, ':') + 1) = ?").run(from);
+
+      const documents = prepare('SELECT key, value FROM documents').all() as Array<{ key: string; value: string }>;
+      for (const row of documents) {
+        const value = JSON.stringify(reassignUserIn(JSON.parse(row.value), from, to));
+        if (value === row.value) continue;
+        prepare('UPDATE documents SET value = ?, updated_at = ? WHERE key = ?').run(value, Date.now(), row.key);
+        changed++;
+      }
+      return changed;
+    },
+
+    transaction(fn) {
+      // better-sqlite3 turns nested transactions into savepoints
+      return db.transaction(fn)();
+    },
+
+    close() {
+      db.close();
+    },
+  };
+
+  // Apply pending migrations, each in its own transaction
+  db.exec('CREATE TABLE IF NOT EXISTS migrations (id TEXT PRIMARY KEY, applied_at INTEGER NOT NULL)');
+  const applied = new Set((db.prepare('SELECT id FROM migrations').all() as Array<{ id: string }>).map(r => r.id));
+  for (const migration of migrations) {
+    if (applied.has(migration.id)) continue;
+    db.transaction(() => {
+      migration.up(db, storage);
+      db.prepare('INSERT INTO migrations (id, applied_at) VALUES (?, ?)').run(migration.id, Date.now());
+    })();
+    console.log(`[Storage] Applied migration ${migration.id}`);
+  }
+
+  return storage;
+}
+
+export default { createSqliteStorage };
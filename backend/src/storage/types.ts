@@ -0,0 +1,171 @@
+/**
+ * Storage Types
+ * The persistence interface shared by the SQLite and in-memory backends.
+ * All methods are synchronous so callers can keep their existing control flow
+ * and group writes with transaction().
+ */
+
+import { ApiKeyScope, PaymentRecord, Task, TaskStatus, WebhookEvent } from '../types';
+
+export interface TaskQuery {
+  userId?: string;
+  status?: TaskStatus | TaskStatus[];
+  since?: Date;          // createdAt >= since
+  until?: Date;          // createdAt < until
+  limit?: number;
+  offset?: number;
+}
+
+export interface StoredPayment extends PaymentRecord {
+  id: number;
+  taskId?: string;
+}
+
+export interface SpendEntry {
+  userId: string;
+  taskId: string;
+  specialist: string;
+  amount: number;
+  timestamp: number;
+}
+
+export interface WebhookAttempt {
+  at: number;
+  statusCode?: number;
+  error?: string;
+  durationMs: number;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  userId?: string;
+  subscriptionId?: string;   // Unset for a task's callbackUrl
+  taskId?: string;
+  event: WebhookEvent;
+  url: string;
+  payload: any;
+  status: 'pending' | 'delivered' | 'failed';
+  attempts: WebhookAttempt[];
+  nextAttemptAt?: number;    // When a pending delivery is tried next
+  redeliveryOf?: string;     // Delivery this one manually re-sends
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface WebhookDeliveryQuery {
+  userId?: string;
+  taskId?: string;
+  status?: WebhookDelivery['status'];
+  limit?: number;
+}
+
+export interface ApiKeyRecord {
+  id: string;               // Safe to show and log (key_...)
+  userId: string;           // Stable owner id; survives rotation
+  name?: string;
+  prefix: string;           // Leading characters of the key, to tell keys apart
+  keyHash: string;          // SHA-256 of the key; the key itself is never stored
+  scopes: ApiKeyScope[];
+  createdAt: number;
+  expiresAt?: number;
+  revokedAt?: number;
+  lastUsedAt?: number;
+  rotatedFrom?: string;     // Key this one replaced
+  source?: 'env';           // Imported from API_KEYS / ADMIN_API_KEYS
+}
+
+export interface SessionRecord {
+  id: string;
+  tokenHash: string;        // SHA-256 of the session token
+  userId: string;           // The wallet address
+  wallet: string;
+  scopes: ApiKeyScope[];
+  createdAt: number;
+  expiresAt: number;
+  revokedAt?: number;
+}
+
+export interface RateLimitBucketState {
+  key: string;
+  tokens: number;
+  updatedAt: number;
+}
+
+export interface PaperTrade {
+  userId: string;
+  type: 'swap' | 'transfer';
+  from: string;             // Token spent
+  to: string;               // Token received, or the recipient for transfers
+  amountIn: number;
+  amountOut: number;
+  route?: string;
+  valueUsd?: number;        // USD value of the swap when it executed, if a price was known
+  timestamp: number;
+}
+
+export interface Storage {
+  name: string;
+
+  // Tasks (newest first in listTasks)
+  getTask(id: string): Task | undefined;
+  saveTask(task: Task): void;
+  listTasks(query?: TaskQuery): Task[];
+  countTasks(query?: TaskQuery): number;
+
+  // Payment audit log
+  addPayment(record: PaymentRecord, taskId?: string): number;
+  listPayments(options?: { taskId?: string; limit?: number }): StoredPayment[];
+
+  // x402 replay protection. addUsedSignature returns false if it was already used.
+  addUsedSignature(signature: string): boolean;
+  hasUsedSignature(signature: string): boolean;
+  removeUsedSignature(signature: string): void;
+
+  // Budget spend ledger
+  addSpend(entry: SpendEntry): void;
+  listSpend(userId: string, since: number): SpendEntry[];
+  pruneSpend(before: number): void;
+
+  // Webhook delivery log (newest first in listWebhookDeliveries)
+  saveWebhookDelivery(delivery: WebhookDelivery): void;
+  getWebhookDelivery(id: string): WebhookDelivery | undefined;
+  listWebhookDeliveries(query?: WebhookDeliveryQuery): WebhookDelivery[];
+  pruneWebhookDeliveries(before: number): void;  // Finished deliveries created before this time
+
+  // API keys
+  saveApiKey(record: ApiKeyRecord): void;
+  getApiKey(id: string): ApiKeyRecord | undefined;
+  getApiKeyByHash(keyHash: string): ApiKeyRecord | undefined;
+  listApiKeys(userId?: string): ApiKeyRecord[];  // Oldest first
+
+  // Wallet sign-in sessions
+  saveSession(session: SessionRecord): void;
+  getSessionByHash(tokenHash: string): SessionRecord | undefined;
+  pruneSessions(before: number): void;  // Sessions that expired before this time
+
+  // Rate-limit token buckets as last saved; the limiter keeps live ones in memory
+  // and saves those that changed every few seconds
+  getRateLimitBucket(key: string): RateLimitBucketState | undefined;
+  saveRateLimitBuckets(buckets: RateLimitBucketState[]): void;
+  pruneRateLimits(before: number): void;  // Buckets untouched since this time
+
+  // Paper-trading history (newest first in listPaperTrades)
+  addPaperTrade(trade: PaperTrade): void;
+  listPaperTrades(userId: string, options?: { limit?: number; offset?: number }): PaperTrade[];
+  countPaperTrades(userId: string): number;
+  deletePaperTrades(userId: string): void;
+
+  // Small JSON documents (reputation, paper account balances, registry, settings)
+  getDocument<T = any>(key: string): T | undefined;
+  setDocument(key: string, value: any): void;
+
+  // Move everything stored under one user id to another (tasks, spend, webhook deliveries,
+  // paper trades and user-keyed document entries) and drop its rate-limit buckets.
+  // Returns the number of tasks, rows and documents changed.
+  reassignUser(from: string, to: string): number;
+
+  // Run fn atomically; nested calls join the outer transaction
+  transaction<T>(fn: () => T): T;
+
+  close(): void;
+}
@@ -0,0 +1,32 @@
+/**
+ * Task Log - Adding messages to a task's log from outside the dispatcher
+ *
+ * Background work started by a task (a triggered limit order, a blocked bankr
+ * hop) reports back into that task's messages. The dispatcher imports those
+ * modules, so they can't import it back; instead it registers how messages are
+ * appended here when it loads.
+ */
+
+type TaskMessageWriter = (taskId: string, from: string, content: string) => boolean;
+
+let writer: TaskMessageWriter | null = null;
+
+/**
+ * Set how messages are appended to tasks (the dispatcher does this on load)
+ */
+export function setTaskMessageWriter(next: TaskMessageWriter | null): void {
+  writer = next;
+}
+
+/**
+ * Append a message to a task's log after the fact.
+ * Returns false if the task does not exist or no dispatcher is loaded.
+ */
+export function logTaskMessage(taskId: string, from: string, content: string): boolean {
+  return writer ? writer(taskId, from, content) : false;
+}
+
+export default {
+  logTaskMessage,
+  setTaskMessageWriter,
+};
@@ -0,0 +1,278 @@
+/**
+ * Token Registry - One place for token symbols, mints, decimals and CoinGecko ids
+ *
+ * Loaded from data/tokens.json (TOKEN_LIST_PATH to move it). Specialists and the
+ * dispatcher resolve symbols, names ("solana" → SOL) and mints through it.
+ * `npm run tokens:update` refreshes mints and decimals from Jupiter's token list.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import axios from 'axios';
+import config from './config';
+
+export interface TokenInfo {
+  symbol: string;
+  name: string;
+  mint?: string;              // Solana mainnet mint; absent for tokens we only price
+  decimals?: number;
+  coingeckoId?: string;
+  aliases?: string[];         // Other names it goes by, matched case-insensitively
+  fallbackPriceUsd?: number;  // Mock price when CoinGecko is unavailable
+}
+
+const TOKEN_LIST_PATH = process.env.TOKEN_LIST_PATH || path.join(__dirname, '../data/tokens.json');
+
+let tokens: TokenInfo[] = [];
+let byKey = new Map<string, TokenInfo>();   // Lower-cased symbol or alias -> token
+let byMint = new Map<string, TokenInfo>();
+let aliasPattern: RegExp | null = null;
+let loaded = false;
+
+/**
+ * Validate a token list, returning a list of problems
+ */
+export function validateTokenList(list: any): string[] {
+  if (!Array.isArray(list)) {
+    return ['token list must be an array'];
+  }
+  const errors: string[] = [];
+  const seen = new Set<string>();
+  list.forEach((token, i) => {
+    const label = token?.symbol || `#${i}`;
+    if (typeof token?.symbol !== 'string' || !/^[A-Z0-9]{1,12}$/.test(token.symbol)) {
+      errors.push(`${label}: symbol must be 1-12 upper-case letters or digits`);
+    } else if (seen.has(token.symbol)) {
+      errors.push(`${label}: duplicate symbol`);
+    } else {
+      seen.add(token.symbol);
+    }
+    if (typeof token?.name !== 'string' || !token.name) {
+      errors.push(`${label}: name is required`);
+    }
+    if (token?.mint !== undefined && (typeof token.mint !== 'string' || !/^[1-9A-HJ-NP-Za-km-z]{32,44}$/.test(token.mint))) {
+      errors.push(`${label}: mint must be a base58 address`);
+    }
+    if (token?.mint !== undefined && !(Number.isInteger(token.decimals) && token.decimals >= 0 && token.decimals <= 18)) {
+      errors.push(`${label}: tokens with a mint need decimals between 0 and 18`);
+    }
+    if (token?.aliases !== undefined && !(Array.isArray(token.aliases) && token.aliases.every((a: any) => typeof a === 'string' && a))) {
+      errors.push(`${label}: aliases must be non-empty strings`);
+    }
+  });
+  return errors;
+}
+
+/**
+ * Replace the registry contents (e.g. after an update, or in tests)
+ */
+export function setTokens(list: TokenInfo[]): void {
+  tokens = list.map(token => ({ ...token }));
+  byKey = new Map();
+  byMint = new Map();
+  for (const token of tokens) {
+    byKey.set(token.symbol.toLowerCase(), token);
+    for (const alias of token.aliases || []) {
+      byKey.set(alias.toLowerCase(), token);
+    }
+    if (token.mint) byMint.set(token.mint, token);
+  }
+
+  const aliases = tokens.flatMap(t => t.aliases || []).sort((a, b) => b.length - a.length);
+  aliasPattern = aliases.length > 0
+    ? new RegExp(`\\b(${aliases.map(a => a.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+')).join('|')})\\b`, 'gi')
+    : null;
+  loaded = true;
+}
+
+/**
+ * (Re)load the token list from disk. An unreadable list leaves the registry empty.
+ */
+export function loadTokens(file: string = TOKEN_LIST_PATH): TokenInfo[] {
+  try {
+    const list = JSON.parse(fs.readFileSync(file, 'utf8'));
+    const errors = validateTokenList(list);
+    if (errors.length > 0) {
+      throw new Error(errors.join('; '));
+    }
+    setTokens(list);
+    console.log(`[Tokens] Loaded ${tokens.length} tokens from ${file}`);
+  } catch (error: any) {
+    console.error(`[Tokens] Could not load ${file}:`, error.message);
+    setTokens([]);
+  }
+  return tokens;
+}
+
+function ensureLoaded(): void {
+  if (!loaded) loadTokens();
+}
+
+export function listTokens(): TokenInfo[] {
+  ensureLoaded();
+  return tokens.map(token => ({ ...token }));
+}
+
+/**
+ * Look a token up by symbol, alias, cashtag ("$BONK") or mint
+ */
+export function getToken(query: string): TokenInfo | undefined {
+  ensureLoaded();
+  const trimmed = query.trim();
+  return byMint.get(trimmed) || byKey.get(trimmed.replace(/^\$/, '').replace(/\s+/g, ' ').toLowerCase());
+}
+
+/**
+ * Registry symbol for a symbol, alias or mint, if known
+ */
+export function resolveSymbol(query: string): string | undefined {
+  return getToken(query)?.symbol;
+}
+
+/**
+ * Registry symbol when known, otherwise the input upper-cased (unknown tickers pass through)
+ */
+export function normalizeSymbol(query: string): string {
+  return resolveSymbol(query) || query.trim().replace(/^\$/, '').toUpperCase();
+}
+
+export function getMint(symbol: string): string | undefined {
+  return getToken(symbol)?.mint;
+}
+
+export function getDecimals(symbol: string): number | undefined {
+  return getToken(symbol)?.decimals;
+}
+
+export function getCoingeckoId(symbol: string): string | undefined {
+  return getToken(symbol)?.coingeckoId;
+}
+
+export function getFallbackPrice(symbol: string): number | undefined {
+  return getToken(symbol)?.fallbackPriceUsd;
+}
+
+/**
+ * Symbols of tokens with a Solana mint (what bankr can swap and send)
+ */
+export function listTradableSymbols(): string[] {
+  ensureLoaded();
+  return tokens.filter(t => t.mint).map(t => t.symbol);
+}
+
+/**
+ * Regex source matching any registry symbol or alias (longest first), for building parsers
+ */
+export function tokenPatternSource(): string {
+  ensureLoaded();
+  return [...byKey.keys()]
+    .sort((a, b) => b.length - a.length)
+    .map(key => key.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+'))
+    .join('|');
+}
+
+/**
+ * Registry symbols mentioned in free text, in order of first mention.
+ * Symbols count when upper-case or written as cashtags ("$wif"), so "sol" in
+ * prose isn't a token, unless `anyCase` is set (user prompts like "price of bonk").
+ * Aliases ("solana") match in any case.
+ */
+export function findTokens(text: string, options: { anyCase?: boolean } = {}): string[] {
+  ensureLoaded();
+  const hits: Array<{ index: number; symbol: string }> = [];
+
+  for (const match of text.matchAll(/\$?\b([A-Za-z0-9]{2,12})\b/g)) {
+    const word = match[1];
+    const cashtag = match[0].startsWith('$');
+    if (!cashtag && !options.anyCase && word !== word.toUpperCase()) continue;
+    const token = byKey.get(word.toLowerCase());
+    if (token && (cashtag || token.symbol === word.toUpperCase())) hits.push({ index: match.index!, symbol: token.symbol });
+  }
+  if (aliasPattern) {
+    for (const match of text.matchAll(aliasPattern)) {
+      hits.push({ index: match.index!, symbol: byKey.get(match[1].replace(/\s+/g, ' ').toLowerCase())!.symbol });
+    }
+  }
+
+  hits.sort((a, b) => a.index - b.index);
+  return [...new Set(hits.map(h => h.symbol))];
+}
+
+/**
+ * Refresh names, mints and decimals from Jupiter's token list, and add tokens
+ * by symbol or mint (`queries`). Symbols resolve to Jupiter's verified token.
+ * Writes the list back to disk and reloads the registry.
+ */
+export async function updateTokenList(
+  queries: string[] = [],
+  file: string = TOKEN_LIST_PATH
+): Promise<{ updated: string[]; added: string[]; notFound: string[] }> {
+  // Read the file itself so an unreadable list is never overwritten with an empty one
+  const current: TokenInfo[] = JSON.parse(fs.readFileSync(file, 'utf8'));
+  const invalid = validateTokenList(current);
+  if (invalid.length > 0) {
+    throw new Error(`${file} is invalid: ${invalid.join('; ')}`);
+  }
+  const headers: Record<string, string> = config.jupiter.apiKey ? { 'x-api-key': config.jupiter.apiKey } : {};
+  const search = async (query: string): Promise<any[]> => {
+    const response = await axios.get(`${config.jupiter.baseUrl}/tokens/v2/search`, { params: { query }, headers, timeout: 15000 });
+    return Array.isArray(response.data) ? response.data : [];
+  };
+
+  const updated: string[] = [];
+  const mints = current.filter(t => t.mint).map(t => t.mint!);
+  for (let i = 0; i < mints.length; i += 100) {
+    for (const found of await search(mints.slice(i, i + 100).join(','))) {
+      const token = current.find(t => t.mint === found.id);
+      if (!token) continue;
+      if (token.decimals !== found.decimals || token.name !== found.name) updated.push(token.symbol);
+      token.decimals = found.decimals;
+      token.name = found.name || token.name;
+    }
+  }
+
+  const added: string[] = [];
+  const notFound: string[] = [];
+  for (const query of queries) {
+    const isMint = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/.test(query);
+    const results = await search(query);
+    const found = isMint
+      ? results.find(r => r.id === query)
+      : results.find(r => r.isVerified && r.symbol?.toUpperCase() === query.toUpperCase());
+    if (!found) {
+      notFound.push(query);
+      continue;
+    }
+    const symbol = String(found.symbol).toUpperCase();
+    if (current.some(t => t.symbol === symbol || t.mint === found.id)) continue;
+    current.push({ symbol, name: found.name || symbol, mint: found.id, decimals: found.decimals });
+    added.push(symbol);
+  }
+
+  const errors = validateTokenList(current);
+  if (errors.length > 0) {
+    throw new Error(`Updated token list is invalid: ${errors.join('; ')}`);
+  }
+  fs.writeFileSync(file, JSON.stringify(current, null, 2) + '\n');
+  setTokens(current);
+  console.log(`[Tokens] Updated ${updated.length}, added ${added.length} tokens in ${file}`);
+  return { updated, added, notFound };
+}
+
+export default {
+  listTokens,
+  getToken,
+  resolveSymbol,
+  normalizeSymbol,
+  getMint,
+  getDecimals,
+  getCoingeckoId,
+  getFallbackPrice,
+  listTradableSymbols,
+  tokenPatternSource,
+  findTokens,
+  loadTokens,
+  setTokens,
+  updateTokenList,
+  validateTokenList,
+};
@@ -0,0 +1,161 @@
+import { afterEach, describe, expect, it, jest } from '@jest/globals';
+import {
+  checkSwapPolicy,
+  checkTransferPolicy,
+  describeViolation,
+  getTxPolicy,
+  getTxPolicyStatus,
+  policyError,
+  recordPolicyUsage,
+  setTxPolicy,
+  slippageFor,
+  validateTxPolicy,
+} from './tx-policy';
+
+const FRIEND = '9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM';
+const STRANGER = '7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU';
+
+let userCount = 0;
+const newUser = () => `policy-user-${++userCount}`;
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('validateTxPolicy', () => {
+  it('accepts a full policy and null to clear a rule', () => {
+    expect(validateTxPolicy({
+      allowedRecipients: [FRIEND],
+      blockedRecipients: [STRANGER],
+      blockedTokens: ['$bonk'],
+      maxSlippageBps: 50,
+      maxPriceImpactPct: 1.5,
+      maxTransferUsd: 100,
+      dailyLimits: { SOL: 2 },
+    })).toEqual([]);
+    expect(validateTxPolicy({ maxTransferUsd: null })).toEqual([]);
+  });
+
+  it('reports every problem', () => {
+    expect(validateTxPolicy({
+      maxSpend: 1,
+      allowedRecipients: ['not-an-address'],
+      blockedTokens: [''],
+      maxSlippageBps: 12.5,
+      maxPriceImpactPct: -1,
+      dailyLimits: { SOL: 'lots' },
+    })).toEqual([
+      'Unknown rule maxSpend',
+      'allowedRecipients must be an array of Solana addresses',
+      'blockedTokens must be an array of token symbols',
+      'maxPriceImpactPct must be a non-negative number or null',
+      'maxSlippageBps must be a whole number of basis points',
+      'dailyLimits.SOL must be a non-negative number',
+    ]);
+    expect(validateTxPolicy([])).toEqual(['Policy must be an object']);
+    expect(validateTxPolicy({ dailyLimits: [] })).toEqual(['dailyLimits must be an object of token -> amount']);
+  });
+});
+
+describe('setTxPolicy', () => {
+  it('merges updates, normalizes symbols and removes rules set to null', () => {
+    const userId = newUser();
+    setTxPolicy(userId, { blockedTokens: ['$bonk', 'BONK'], dailyLimits: { sol: 2 }, maxTransferUsd: 100 });
+    const policy = setTxPolicy(userId, { maxTransferUsd: null, maxSlippageBps: 50 });
+
+    expect(policy).toEqual({ blockedTokens: ['BONK'], dailyLimits: { SOL: 2 }, maxSlippageBps: 50 });
+    expect(getTxPolicy(userId)).toEqual(policy);
+    expect(getTxPolicy(newUser())).toEqual({});
+  });
+});
+
+describe('checkSwapPolicy', () => {
+  it('refuses blocked tokens on either side', () => {
+    const userId = newUser();
+    setTxPolicy(userId, { blockedTokens: ['BONK'] });
+
+    expect(checkSwapPolicy(userId, { from: 'SOL', to: 'BONK', amount: 1 })).toEqual({ rule: 'blockedTokens', reason: 'BONK is blocked' });
+    expect(checkSwapPolicy(userId, { from: 'BONK', to: 'SOL', amount: 1 })!.rule).toBe('blockedTokens');
+    expect(checkSwapPolicy(userId, { from: 'SOL', to: 'WIF', amount: 1 })).toBeNull();
+  });
+
+  it('checks slippage and price impact when the quote has them', () => {
+    const userId = newUser();
+    setTxPolicy(userId, { maxSlippageBps: 50, maxPriceImpactPct: 1 });
+
+    expect(checkSwapPolicy(userId, { from: 'SOL', to: 'WIF', amount: 1, slippageBps: 100 })!.reason).toBe('slippage of 100 bps is over the 50 bps maximum');
+    expect(checkSwapPolicy(userId, { from: 'SOL', to: 'WIF', amount: 1, priceImpactPct: 2.5 })!.reason).toBe('price impact of 2.5% is over the 1% maximum');
+    expect(checkSwapPolicy(userId, { from: 'SOL', to: 'WIF', amount: 1, slippageBps: 50, priceImpactPct: 1 })).toBeNull();
+    expect(checkSwapPolicy(userId, { from: 'SOL', to: 'WIF', amount: 1 })).toBeNull();
+  });
+
+  it('quotes with the tighter of the policy and default slippage', () => {
+    const userId = newUser();
+    expect(slippageFor(userId, 100)).toBe(100);
+    setTxPolicy(userId, { maxSlippageBps: 30 });
+    expect(slippageFor(userId, 100)).toBe(30);
+    expect(slippageFor(userId, 10)).toBe(10);
+  });
+});
+
+describe('checkTransferPolicy', () => {
+  it('applies the deny list before the allow list', () => {
+    const userId = newUser();
+    setTxPolicy(userId, { allowedRecipients: [FRIEND, STRANGER], blockedRecipients: [STRANGER] });
+
+    expect(checkTransferPolicy(userId, { token: 'USDC', amount: 5, to: FRIEND, valueUsd: 5 })).toBeNull();
+    expect(checkTransferPolicy(userId, { token: 'USDC', amount: 5, to: STRANGER, valueUsd: 5 })!.rule).toBe('blockedRecipients');
+
+    setTxPolicy(userId, { blockedRecipients: null, allowedRecipients: [FRIEND] });
+    expect(checkTransferPolicy(userId, { token: 'USDC', amount: 5, to: STRANGER, valueUsd: 5 })).toEqual({
+      rule: 'allowedRecipients',
+      reason: `${STRANGER} is not on the allowed recipients list`,
+    });
+  });
+
+  it('refuses transfers over the USD cap or without a live price', () => {
+    const userId = newUser();
+    setTxPolicy(userId, { maxTransferUsd: 100 });
+
+    expect(checkTransferPolicy(userId, { token: 'SOL', amount: 1, to: FRIEND, valueUsd: 100 })).toBeNull();
+    expect(checkTransferPolicy(userId, { token: 'SOL', amount: 2, to: FRIEND, valueUsd: 300 })!.reason).toBe('transfer worth $300.00 is over the $100 maximum');
+    expect(checkTransferPolicy(userId, { token: 'BONK', amount: 1, to: FRIEND })!.reason).toBe('no live BONK price to check the transfer against $100');
+  });
+});
+
+describe('daily limits', () => {
+  it('counts swaps and transfers of a token against one limit per UTC day', () => {
+    jest.useFakeTimers({ now: Date.UTC(2026, 0, 1, 12) });
+    const userId = newUser();
+    setTxPolicy(userId, { dailyLimits: { SOL: 2 } });
+
+    expect(checkSwapPolicy(userId, { from: 'SOL', to: 'USDC', amount: 1.5 })).toBeNull();
+    recordPolicyUsage(userId, 'SOL', 1.5);
+    expect(checkTransferPolicy(userId, { token: 'SOL', amount: 0.5, to: FRIEND })).toBeNull();
+    expect(checkTransferPolicy(userId, { token: 'SOL', amount: 1, to: FRIEND })!.reason).toBe('1.5 + 1 SOL today exceeds the daily limit of 2 SOL');
+    expect(checkSwapPolicy(userId, { from: 'USDC', to: 'SOL', amount: 500 })).toBeNull();
+    expect(getTxPolicyStatus(userId).spentToday).toEqual({ SOL: 1.5 });
+
+    jest.setSystemTime(Date.UTC(2026, 0, 2));
+    expect(getTxPolicyStatus(userId).spentToday).toEqual({});
+    expect(checkSwapPolicy(userId, { from: 'SOL', to: 'USDC', amount: 2 })).toBeNull();
+  });
+
+  it('ignores empty or invalid amounts', () => {
+    const userId = newUser();
+    recordPolicyUsage(userId, 'SOL', 0);
+    recordPolicyUsage(userId, 'SOL', NaN);
+    expect(getTxPolicyStatus(userId).spentToday).toEqual({});
+  });
+});
+
+describe('violations', () => {
+  it('names the rule in the message and on the error', () => {
+    const violation = { rule: 'blockedTokens' as const, reason: 'BONK is blocked' };
+    expect(describeViolation(violation)).toBe('Blocked by policy rule blockedTokens: BONK is blocked');
+
+    const error = policyError(violation);
+    expect(error.message).toBe('Blocked by policy rule blockedTokens: BONK is blocked');
+    expect(error.policyRule).toBe('blockedTokens');
+  });
+});
@@ -0,0 +1,257 @@
+/**
+ * Transaction Policies - Per-user guardrails on what bankr may execute
+ *
+ * Each user may restrict recipients (allow and deny lists), block tokens, cap
+ * slippage, price impact and transfer size, and limit how much of a token is
+ * sold or sent per UTC day. bankr checks every swap and transfer against the
+ * policy before executing it; a violation names the rule it broke.
+ */
+
+import { getStorage } from './storage';
+import { normalizeSymbol } from './token-registry';
+
+export interface TxPolicy {
+  allowedRecipients?: string[];          // When set, transfers may only go to these addresses
+  blockedRecipients?: string[];
+  blockedTokens?: string[];              // Never bought, sold or sent
+  maxSlippageBps?: number;               // Slippage tolerance swaps are quoted with
+  maxPriceImpactPct?: number;
+  maxTransferUsd?: number;               // Transfers worth more are refused (and ones without a live price)
+  dailyLimits?: Record<string, number>;  // Max amount of a token sold or sent per UTC day
+}
+
+export type PolicyRule = keyof TxPolicy;
+
+export interface PolicyViolation {
+  rule: PolicyRule;
+  reason: string;
+}
+
+export interface TxPolicyStatus {
+  userId: string;
+  policy: TxPolicy;
+  spentToday: Record<string, number>;  // Per token, counted against dailyLimits
+}
+
+const POLICIES_KEY = 'tx-policies';
+const USAGE_KEY = 'tx-policy-usage';
+
+const RULES: PolicyRule[] = [
+  'allowedRecipients',
+  'blockedRecipients',
+  'blockedTokens',
+  'maxSlippageBps',
+  'maxPriceImpactPct',
+  'maxTransferUsd',
+  'dailyLimits',
+];
+
+const isAddress = (value: any) => typeof value === 'string' && /^[1-9A-HJ-NP-Za-km-z]{32,44}$/.test(value);
+const isAmount = (value: any) => typeof value === 'number' && isFinite(value) && value >= 0;
+
+function loadPolicies(): Record<string, TxPolicy> {
+  return getStorage().getDocument<Record<string, TxPolicy>>(POLICIES_KEY) || {};
+}
+
+function today(now: Date = new Date()): string {
+  return now.toISOString().slice(0, 10);
+}
+
+/**
+ * Amounts of each token a user has sold or sent today
+ */
+function getSpentToday(userId: string): Record<string, number> {
+  const usage = getStorage().getDocument<Record<string, { day: string; spent: Record<string, number> }>>(USAGE_KEY) || {};
+  const entry = usage[userId];
+  return entry && entry.day === today() ? { ...entry.spent } : {};
+}
+
+export function getTxPolicy(userId: string): TxPolicy {
+  return { ...loadPolicies()[userId] };
+}
+
+/**
+ * Validate a policy update, returning a list of problems (empty if valid)
+ */
+export function validateTxPolicy(update: any): string[] {
+  if (!update || typeof update !== 'object' || Array.isArray(update)) {
+    return ['Policy must be an object'];
+  }
+  const errors: string[] = [];
+  const present = (field: string) => update[field] !== undefined && update[field] !== null;
+
+  for (const field of Object.keys(update)) {
+    if (!RULES.includes(field as PolicyRule)) errors.push(`Unknown rule ${field}`);
+  }
+  for (const field of ['allowedRecipients', 'blockedRecipients']) {
+    if (present(field) && !(Array.isArray(update[field]) && update[field].every(isAddress))) {
+      errors.push(`${field} must be an array of Solana addresses`);
+    }
+  }
+  if (present('blockedTokens') && !(Array.isArray(update.blockedTokens) && update.blockedTokens.every((t: any) => typeof t === 'string' && t.trim()))) {
+    errors.push('blockedTokens must be an array of token symbols');
+  }
+  for (const field of ['maxSlippageBps', 'maxPriceImpactPct', 'maxTransferUsd']) {
+    if (present(field) && !isAmount(update[field])) {
+      errors.push(`${field} must be a non-negative number or null`);
+    }
+  }
+  if (present('maxSlippageBps') && !Number.isInteger(update.maxSlippageBps)) {
+    errors.push('maxSlippageBps must be a whole number of basis points');
+  }
+  if (present('dailyLimits')) {
+    if (typeof update.dailyLimits !== 'object' || Array.isArray(update.dailyLimits)) {
+      errors.push('dailyLimits must be an object of token -> amount');
+    } else {
+      for (const [token, value] of Object.entries(update.dailyLimits)) {
+        if (!isAmount(value)) errors.push(`dailyLimits.${token} must be a non-negative number`);
+      }
+    }
+  }
+  return errors;
+}
+
+/**
+ * Update a user's policy. Rules set to null are removed; token symbols are normalized.
+ */
+export function setTxPolicy(userId: string, update: Record<string, any>): TxPolicy {
+  const policies = loadPolicies();
+  const policy: TxPolicy = { ...policies[userId] };
+  for (const rule of RULES) {
+    if (update[rule] === null) {
+      delete policy[rule];
+    } else if (rule === 'blockedTokens' && update.blockedTokens !== undefined) {
+      policy.blockedTokens = [...new Set<string>(update.blockedTokens.map(normalizeSymbol))];
+    } else if (rule === 'dailyLimits' && update.dailyLimits !== undefined) {
+      policy.dailyLimits = Object.fromEntries(Object.entries(update.dailyLimits).map(([token, limit]) => [normalizeSymbol(token), limit as number]));
+    } else if (update[rule] !== undefined) {
+      (policy as any)[rule] = update[rule];
+    }
+  }
+  policies[userId] = policy;
+  getStorage().setDocument(POLICIES_KEY, policies);
+  console.log(`[TxPolicy] Updated policy for ${userId.slice(0, 8)}...`);
+  return policy;
+}
+
+/**
+ * A user's policy and what today's daily limits have used
+ */
+export function getTxPolicyStatus(userId: string): TxPolicyStatus {
+  return { userId, policy: getTxPolicy(userId), spentToday: getSpentToday(userId) };
+}
+
+function checkToken(policy: TxPolicy, token: string): PolicyViolation | null {
+  if (policy.blockedTokens?.includes(token)) {
+    return { rule: 'blockedTokens', reason: `${token} is blocked` };
+  }
+  return null;
+}
+
+function checkDailyLimit(policy: TxPolicy, userId: string, token: string, amount: number): PolicyViolation | null {
+  const limit = policy.dailyLimits?.[token];
+  if (limit === undefined) return null;
+  const spent = getSpentToday(userId)[token] || 0;
+  if (spent + amount > limit) {
+    return { rule: 'dailyLimits', reason: `${spent} + ${amount} ${token} today exceeds the daily limit of ${limit} ${token}` };
+  }
+  return null;
+}
+
+/**
+ * Slippage tolerance to quote a swap with: the policy's maximum when it is tighter than `fallback`
+ */
+export function slippageFor(userId: string, fallback: number): number {
+  const max = getTxPolicy(userId).maxSlippageBps;
+  return max !== undefined ? Math.min(max, fallback) : fallback;
+}
+
+/**
+ * Check a swap of `amount` `from` into `to`. Quote figures are checked when known.
+ */
+export function checkSwapPolicy(
+  userId: string,
+  swap: { from: string; to: string; amount: number; slippageBps?: number; priceImpactPct?: number }
+): PolicyViolation | null {
+  const policy = getTxPolicy(userId);
+  const blocked = checkToken(policy, swap.from) || checkToken(policy, swap.to);
+  if (blocked) return blocked;
+
+  if (policy.maxSlippageBps !== undefined && swap.slippageBps !== undefined && swap.slippageBps > policy.maxSlippageBps) {
+    return { rule: 'maxSlippageBps', reason: `slippage of ${swap.slippageBps} bps is over the ${policy.maxSlippageBps} bps maximum` };
+  }
+  if (policy.maxPriceImpactPct !== undefined && swap.priceImpactPct !== undefined && swap.priceImpactPct > policy.maxPriceImpactPct) {
+    return { rule: 'maxPriceImpactPct', reason: `price impact of ${swap.priceImpactPct}% is over the ${policy.maxPriceImpactPct}% maximum` };
+  }
+  return checkDailyLimit(policy, userId, swap.from, swap.amount);
+}
+
+/**
+ * Check a transfer of `amount` `token` to `to`. `valueUsd` is unset without a live price.
+ */
+export function checkTransferPolicy(
+  userId: string,
+  transfer: { token: string; amount: number; to: string; valueUsd?: number }
+): PolicyViolation | null {
+  const policy = getTxPolicy(userId);
+  const blocked = checkToken(policy, transfer.token);
+  if (blocked) return blocked;
+
+  if (policy.blockedRecipients?.includes(transfer.to)) {
+    return { rule: 'blockedRecipients', reason: `${transfer.to} is a blocked recipient` };
+  }
+  if (policy.allowedRecipients && !policy.allowedRecipients.includes(transfer.to)) {
+    return { rule: 'allowedRecipients', reason: `${transfer.to} is not on the allowed recipients list` };
+  }
+  if (policy.maxTransferUsd !== undefined) {
+    if (transfer.valueUsd === undefined) {
+      return { rule: 'maxTransferUsd', reason: `no live ${transfer.token} price to check the transfer against $${policy.maxTransferUsd}` };
+    }
+    if (transfer.valueUsd > policy.maxTransferUsd) {
+      return { rule: 'maxTransferUsd', reason: `transfer worth $${transfer.valueUsd.toFixed(2)} is over the $${policy.maxTransferUsd} maximum` };
+    }
+  }
+  return checkDailyLimit(policy, userId, transfer.token, transfer.amount);
+}
+
+/**
+ * Count an executed swap or transfer against the user's daily limits
+ */
+export function recordPolicyUsage(userId: string, token: string, amount: number): void {
+  if (!(amount > 0)) return;
+  const storage = getStorage();
+  storage.transaction(() => {
+    const usage = storage.getDocument<Record<string, { day: string; spent: Record<string, number> }>>(USAGE_KEY) || {};
+    const spent = getSpentToday(userId);
+    spent[token] = (spent[token] || 0) + amount;
+    usage[userId] = { day: today(), spent };
+    storage.setDocument(USAGE_KEY, usage);
+  });
+}
+
+/**
+ * Failure message naming the rule
+ */
+export function describeViolation(violation: PolicyViolation): string {
+  return `Blocked by policy rule ${violation.rule}: ${violation.reason}`;
+}
+
+/**
+ * Error for a violation, with the rule as `policyRule` so callers can report it
+ */
+export function policyError(violation: PolicyViolation): Error & { policyRule: PolicyRule } {
+  return Object.assign(new Error(describeViolation(violation)), { policyRule: violation.rule });
+}
+
+export default {
+  getTxPolicy,
+  setTxPolicy,
+  getTxPolicyStatus,
+  validateTxPolicy,
+  checkSwapPolicy,
+  checkTransferPolicy,
+  recordPolicyUsage,
+  slippageFor,
+  describeViolation,
+  policyError,
+};
@@ -3,7 +3,21 @@
  * Core type definitions for the Hivemind Protocol
  */
 
-export type SpecialistType = 'magos' | 'aura' | 'bankr' | 'general' | 'scribe' | 'seeker' | 'multi-hop';
+export type BuiltInSpecialistType =
+  | 'magos'
+  | 'aura'
+  | 'bankr'
+  | 'general'
+  | 'scribe'
+  | 'seeker'
+  | 'alphahunter'
+  | 'riskbot'
+  | 'newsdigest'
+  | 'whalespy'
+  | 'multi-hop';
+
+// Runtime-registered specialists use arbitrary ids (see specialists/registry.ts)
+export type SpecialistType = BuiltInSpecialistType | (string & {});
 
 export interface Task {
   id: string;
@@ -18,6 +32,7 @@ export interface Task {
   messages: AgentMessage[];
   metadata?: Record<string, any>;
   callbackUrl?: string;  // Webhook to call on completion
+  callbackEvents?: WebhookEvent[];  // Events sent to callbackUrl (default: task.finished)
 }
 
 export interface AgentMessage {
@@ -33,8 +48,39 @@ export type TaskStatus =
   | 'routing'
   | 'processing'
   | 'awaiting_payment'
+  | 'awaiting_confirmation'  // A bankr hop waits for the user to confirm its trade
   | 'completed'
-  | 'failed';
+  | 'failed'
+  | 'budget_exceeded'
+  | 'cancelled'
+  | 'timed_out';
+
+/**
+ * Per-call context handed to specialist handlers
+ */
+export interface SpecialistContext {
+  signal?: AbortSignal;  // Aborted when the task is cancelled or the hop times out
+  taskId?: string;
+  userId?: string;
+  instructions?: string;  // The user's custom instructions for this specialist
+  emit?: (chunk: SpecialistChunk) => void;  // Partial output, forwarded to subscribers as task_chunk
+}
+
+/**
+ * Partial output a specialist emits while it works
+ */
+export interface SpecialistChunk {
+  kind: 'text' | 'item';  // text: continues the running output; item: one discrete piece (search result, action)
+  content: string;
+  data?: any;
+}
+
+export interface TaskChunk extends SpecialistChunk {
+  taskId: string;
+  specialist: string;
+  nodeId?: string;        // Workflow node that produced the chunk
+  seq: number;            // Order within the task
+}
 
 export interface SpecialistResult {
   success: boolean;
@@ -43,6 +89,7 @@ export interface SpecialistResult {
   timestamp: Date;
   executionTimeMs: number;
   cost?: PaymentInfo;
+  payment?: PaymentRecord;  // x402 payment already made to obtain this result (remote specialists)
 }
 
 export interface PaymentInfo {
@@ -62,12 +109,16 @@ export interface DispatchRequest {
   prompt: string;
   userId?: string;
   preferredSpecialist?: SpecialistType;
-  maxPayment?: PaymentInfo;
+  workflow?: WorkflowPlan;  // Explicit DAG of specialist steps (overrides routing)
+  maxPayment?: PaymentInfo;  // Per-task spending cap (amount in USDC), on top of the user's budget
   dryRun?: boolean;
   previewOnly?: boolean;  // Return routing plan without executing
   callbackUrl?: string;  // Webhook URL to POST result on completion
+  callbackEvents?: WebhookEvent[];  // Events to POST to callbackUrl (default: task.finished)
   hiredAgents?: SpecialistType[];  // Only route to specialists in the user's swarm
   approvedAgent?: SpecialistType;  // User approved this agent (bypasses swarm check)
+  customInstructions?: Record<string, string>;  // Per-specialist instructions, over the user's saved ones
+  scopes?: ApiKeyScope[];  // Scopes of the caller's API key (unset = unrestricted, e.g. internal callers)
 }
 
 export interface DispatchResponse {
@@ -87,6 +138,54 @@ export interface DispatchResponse {
   };
 }
 
+// Workflow (DAG) types
+
+/**
+ * Condition on an upstream node's output. The edge is only followed
+ * when the value at `path` (dot notation into the node's SpecialistResult,
+ * e.g. "data.prediction.direction") satisfies the operator.
+ */
+export interface WorkflowCondition {
+  node: string;
+  path: string;
+  op: 'equals' | 'notEquals' | 'in' | 'exists';
+  value?: any;
+}
+
+export interface WorkflowNode {
+  id: string;
+  specialist: SpecialistType;
+  /**
+   * Prompt template. Supports {{prompt}} (the original task prompt) and
+   * {{<nodeId>.summary}}, {{<nodeId>.tokens.0}}, {{<nodeId>.data.<path>}}
+   * references to upstream outputs.
+   */
+  prompt: string;
+  dependsOn?: string[];
+  condition?: WorkflowCondition;
+}
+
+export interface WorkflowPlan {
+  nodes: WorkflowNode[];
+  output?: string;  // Node whose result becomes the task result (defaults to last sink)
+  description?: string;
+}
+
+export type WorkflowNodeStatus = 'pending' | 'running' | 'completed' | 'failed' | 'skipped';
+
+export interface WorkflowNodeState {
+  id: string;
+  specialist: SpecialistType;
+  status: WorkflowNodeStatus;
+  dependsOn: string[];
+  prompt?: string;      // Resolved prompt sent to the specialist
+  summary?: string;
+  error?: string;
+  startedAt?: string;
+  completedAt?: string;
+  reused?: boolean;     // Output carried over from the original run on retry
+}
+
 // Specialist-specific types
 
 export interface MagosPrediction {
@@ -110,15 +209,28 @@ export interface AuraSentiment {
 }
 
 export interface BankrAction {
-  type: 'swap' | 'transfer' | 'balance' | 'dca' | 'monitor';
+  type: 'swap' | 'stake' | 'transfer' | 'balance' | 'dca' | 'monitor' | 'portfolio';
   status: 'executed' | 'pending' | 'simulated' | 'confirmed' | 'failed';
   txSignature?: string;
   details: Record<string, any>;
 }
 
 // WebSocket event types
+/**
+ * Permissions an API key can carry ('admin' implies all of them)
+ */
+export type ApiKeyScope = 'dispatch' | 'bankr-execute' | 'reputation-vote' | 'admin';
+
+/**
+ * Task events delivered to webhooks
+ */
+export type WebhookEvent =
+  | 'task.status'    // Every status change
+  | 'task.payment'   // A payment was recorded for a hop
+  | 'task.finished'; // The task reached a final status (carries the result)
+
 export interface WSEvent {
-  type: 'task_update' | 'payment' | 'specialist_response' | 'error';
+  type: 'task_update' | 'task_chunk' | 'order_update' | 'wallet_activity' | 'payment' | 'specialist_response' | 'error';
   taskId: string;
   payload: any;
   timestamp: Date;
@@ -144,3 +256,22 @@ export interface X402Response {
     network: string;
   };
 }
+
+/**
+ * One entry of an x402 v2 `accepts` array (payment-required header)
+ */
+export interface X402PaymentRequirements {
+  scheme: string;      // 'exact'
+  network: string;     // CAIP-2, e.g. 'solana:EtWTRABZaYq6iMfeYKouRu166VU2xqa1'
+  asset: string;       // Token mint
+  amount: string;      // Atomic units
+  payTo: string;
+  maxTimeoutSeconds?: number;
+  extra?: Record<string, any>;
+}
+
+export interface X402PaymentRequired {
+  x402Version: number;
+  accepts: X402PaymentRequirements[];
+  error?: string;
+}
@@ -0,0 +1,118 @@
+import bs58 from 'bs58';
+import nacl from 'tweetnacl';
+import { afterEach, describe, expect, it, jest } from '@jest/globals';
+import { authenticateSession, createChallenge, isSolanaAddress, revokeSession, verifySignIn } from './wallet-auth';
+
+function wallet() {
+  const keys = nacl.sign.keyPair();
+  return {
+    address: bs58.encode(keys.publicKey),
+    sign: (message: string) => bs58.encode(nacl.sign.detached(new TextEncoder().encode(message), keys.secretKey)),
+  };
+}
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('createChallenge', () => {
+  it('issues a fresh nonce inside a sign-in message', () => {
+    const { address } = wallet();
+    const first = createChallenge(address);
+    const second = createChallenge(address);
+
+    expect(first.nonce).toMatch(/^[0-9a-f]{32}$/);
+    expect(second.nonce).not.toBe(first.nonce);
+    expect(first.message.split('\n')).toEqual(expect.arrayContaining([
+      address,
+      `Nonce: ${first.nonce}`,
+      `Issued At: ${new Date(first.issuedAt).toISOString()}`,
+      `Expiration Time: ${new Date(first.expiresAt).toISOString()}`,
+    ]));
+    expect(first.expiresAt - first.issuedAt).toBe(5 * 60 * 1000);
+  });
+
+  it('recognises Solana addresses', () => {
+    expect(isSolanaAddress(wallet().address)).toBe(true);
+    expect(isSolanaAddress('not-an-address')).toBe(false);
+    expect(isSolanaAddress(bs58.encode(new Uint8Array(31)))).toBe(false);
+    expect(isSolanaAddress(42)).toBe(false);
+  });
+});
+
+describe('verifySignIn', () => {
+  it('opens a session for a valid base58 or base64 signature', () => {
+    const user = wallet();
+    const challenge = createChallenge(user.address);
+    const result = verifySignIn(user.address, challenge.nonce, user.sign(challenge.message));
+
+    expect(result.isValid).toBe(true);
+    expect(result.token).toMatch(/^hms_/);
+    expect(result.session).toMatchObject({ userId: user.address, wallet: user.address, scopes: ['dispatch', 'reputation-vote'] });
+    expect(authenticateSession(result.token)!.id).toBe(result.session!.id);
+
+    const again = createChallenge(user.address);
+    const base64 = Buffer.from(bs58.decode(user.sign(again.message))).toString('base64');
+    expect(verifySignIn(user.address, again.nonce, base64).isValid).toBe(true);
+  });
+
+  it('uses each nonce once, valid or not', () => {
+    const user = wallet();
+    const challenge = createChallenge(user.address);
+
+    expect(verifySignIn(user.address, challenge.nonce, user.sign('something else'))).toEqual({
+      isValid: false,
+      invalidReason: 'Signature does not match the challenge',
+    });
+    expect(verifySignIn(user.address, challenge.nonce, user.sign(challenge.message)).invalidReason).toBe('Unknown or expired nonce');
+  });
+
+  it('refuses a signature from another wallet or for another address', () => {
+    const user = wallet();
+    const other = wallet();
+    const challenge = createChallenge(user.address);
+
+    expect(verifySignIn(other.address, challenge.nonce, other.sign(challenge.message)).invalidReason).toBe('Nonce was issued for a different address');
+    expect(verifySignIn(user.address, challenge.nonce, other.sign(challenge.message)).invalidReason).toBe('Signature does not match the challenge');
+  });
+
+  it('refuses malformed signatures and expired nonces', () => {
+    jest.useFakeTimers({ now: Date.UTC(2026, 0, 1) });
+    const user = wallet();
+
+    const malformed = createChallenge(user.address);
+    expect(verifySignIn(user.address, malformed.nonce, 'abc').invalidReason).toBe('Signature must be a base58 or base64 ed25519 signature');
+
+    const expiring = createChallenge(user.address);
+    jest.setSystemTime(expiring.expiresAt);
+    expect(verifySignIn(user.address, expiring.nonce, user.sign(expiring.message)).invalidReason).toBe('Unknown or expired nonce');
+    expect(verifySignIn(user.address, 'no-such-nonce', user.sign(expiring.message)).invalidReason).toBe('Unknown or expired nonce');
+  });
+});
+
+describe('sessions', () => {
+  function signIn() {
+    const user = wallet();
+    const challenge = createChallenge(user.address);
+    return verifySignIn(user.address, challenge.nonce, user.sign(challenge.message));
+  }
+
+  it('ends a session once', () => {
+    const { token } = signIn();
+    expect(revokeSession(token!)).toBe(true);
+    expect(revokeSession(token!)).toBe(false);
+    expect(authenticateSession(token)).toBeNull();
+    expect(revokeSession('hms_unknown')).toBe(false);
+  });
+
+  it('expires sessions after their lifetime', () => {
+    jest.useFakeTimers({ now: Date.UTC(2026, 0, 1) });
+    const { token, session } = signIn();
+
+    jest.setSystemTime(session!.expiresAt - 1);
+    expect(authenticateSession(token)).not.toBeNull();
+    jest.setSystemTime(session!.expiresAt);
+    expect(authenticateSession(token)).toBeNull();
+    expect(authenticateSession(undefined)).toBeNull();
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * Wallet Auth - Sign-In With Solana
+ *
+ * The server issues a one-time nonce inside a sign-in message; the wallet signs
+ * the message with its ed25519 key and the signature is verified here. A valid
+ * signature yields a session token (Authorization: Bearer, or the WebSocket
+ * `auth` message) whose user id is the wallet address, so tasks, votes and
+ * budgets belong to the wallet.
+ */
+
+import * as crypto from 'crypto';
+import bs58 from 'bs58';
+import nacl from 'tweetnacl';
+import { v4 as uuidv4 } from 'uuid';
+import config from './config';
+import { ApiKeyScope } from './types';
+import { getStorage, SessionRecord } from './storage';
+
+export interface SignInChallenge {
+  address: string;
+  nonce: string;
+  message: string;       // Exact text the wallet must sign
+  issuedAt: number;
+  expiresAt: number;
+}
+
+export interface SignInResult {
+  isValid: boolean;
+  invalidReason?: string;
+  token?: string;        // Session token, only returned here
+  session?: SessionRecord;
+}
+
+const CHALLENGE_TTL_MS = 5 * 60 * 1000;
+const MAX_PENDING_CHALLENGES = 10000;
+
+// Outstanding challenges by nonce; each can be used once
+const challenges: Map<string, SignInChallenge> = new Map();
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Whether a string is a base58 Solana address (32-byte ed25519 public key)
+ */
+export function isSolanaAddress(address: any): boolean {
+  if (typeof address !== 'string') return false;
+  try {
+    return bs58.decode(address).length === 32;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Sign-in message in the Sign-In With Solana layout
+ */
+function buildMessage(address: string, nonce: string, issuedAt: number, expiresAt: number): string {
+  return [
+    `${config.siws.domain} wants you to sign in with your Solana account:`,
+    address,
+    '',
+    'Sign in to Hivemind Protocol to hire specialists with this wallet.',
+    '',
+    'Version: 1',
+    `Nonce: ${nonce}`,
+    `Issued At: ${new Date(issuedAt).toISOString()}`,
+    `Expiration Time: ${new Date(expiresAt).toISOString()}`,
+  ].join('\n');
+}
+
+function pruneChallenges(now: number): void {
+  for (const [nonce, challenge] of challenges) {
+    if (challenge.expiresAt <= now) challenges.delete(nonce);
+  }
+  // Oldest first (Map keeps insertion order)
+  for (const nonce of challenges.keys()) {
+    if (challenges.size < MAX_PENDING_CHALLENGES) break;
+    challenges.delete(nonce);
+  }
+}
+
+/**
+ * Issue a sign-in challenge for a wallet address
+ */
+export function createChallenge(address: string): SignInChallenge {
+  const now = Date.now();
+  pruneChallenges(now);
+
+  const nonce = crypto.randomBytes(16).toString('hex');
+  const expiresAt = now + CHALLENGE_TTL_MS;
+  const challenge: SignInChallenge = {
+    address,
+    nonce,
+    message: buildMessage(address, nonce, now, expiresAt),
+    issuedAt: now,
+    expiresAt,
+  };
+  challenges.set(nonce, challenge);
+  return challenge;
+}
+
+/**
+ * Decode a detached ed25519 signature sent as base58 or base64
+ */
+function decodeSignature(signature: string): Uint8Array | null {
+  try {
+    const decoded = bs58.decode(signature);
+    if (decoded.length === nacl.sign.signatureLength) return decoded;
+  } catch {
+    // Not base58; try base64
+  }
+  const decoded = Buffer.from(signature, 'base64');
+  return decoded.length === nacl.sign.signatureLength ? new Uint8Array(decoded) : null;
+}
+
+/**
+ * Verify a signed challenge and open a session for the wallet.
+ * The nonce is consumed by the first attempt for its address, valid or not.
+ */
+export function verifySignIn(address: string, nonce: string, signature: string): SignInResult {
+  const challenge = challenges.get(nonce);
+  if (!challenge || challenge.expiresAt <= Date.now()) {
+    return { isValid: false, invalidReason: 'Unknown or expired nonce' };
+  }
+  if (challenge.address !== address) {
+    return { isValid: false, invalidReason: 'Nonce was issued for a different address' };
+  }
+  challenges.delete(nonce);
+
+  const decoded = decodeSignature(signature);
+  if (!decoded) {
+    return { isValid: false, invalidReason: 'Signature must be a base58 or base64 ed25519 signature' };
+  }
+  const message = new TextEncoder().encode(challenge.message);
+  if (!nacl.sign.detached.verify(message, decoded, bs58.decode(address))) {
+    return { isValid: false, invalidReason: 'Signature does not match the challenge' };
+  }
+
+  const now = Date.now();
+  const token = `hms_${crypto.randomBytes(32).toString('base64url')}`;
+  const session: SessionRecord = {
+    id: `ses_${uuidv4()}`,
+    tokenHash: hashToken(token),
+    userId: address,
+    wallet: address,
+    scopes: config.siws.sessionScopes as ApiKeyScope[],
+    createdAt: now,
+    expiresAt: now + config.siws.sessionTtlMs,
+  };
+
+  const storage = getStorage();
+  storage.transaction(() => {
+    storage.pruneSessions(now);
+    storage.saveSession(session);
+  });
+  console.log(`[WalletAuth] Signed in ${address.slice(0, 8)}... (${session.id})`);
+  return { isValid: true, token, session };
+}
+
+/**
+ * Look up a session token. Returns null for unknown, revoked or expired sessions.
+ */
+export function authenticateSession(token: string | undefined): SessionRecord | null {
+  if (!token) return null;
+  const session = getStorage().getSessionByHash(hashToken(token));
+  if (!session || session.revokedAt || session.expiresAt <= Date.now()) {
+    return null;
+  }
+  return session;
+}
+
+/**
+ * End a session. Returns false if the token is unknown or already revoked.
+ */
+export function revokeSession(token: string): boolean {
+  const session = getStorage().getSessionByHash(hashToken(token));
+  if (!session || session.revokedAt) return false;
+
+  session.revokedAt = Date.now();
+  getStorage().saveSession(session);
+  console.log(`[WalletAuth] Signed out ${session.wallet.slice(0, 8)}... (${session.id})`);
+  return true;
+}
+
+export default {
+  isSolanaAddress,
+  createChallenge,
+  verifySignIn,
+  authenticateSession,
+  revokeSession,
+};
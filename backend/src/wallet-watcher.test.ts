@@ -0,0 +1,202 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from '@jest/globals';
+import { Keypair, LAMPORTS_PER_SOL } from '@solana/web3.js';
+import config from './config';
+import { getMint } from './token-registry';
+import {
+  createWatch,
+  decodeActivity,
+  deleteWatch,
+  onWalletActivity,
+  setWatcherRpc,
+  startWalletWatchers,
+  stopWalletWatchers,
+  WalletActivity,
+  WatcherRpc,
+  WatchNetwork,
+} from './wallet-watcher';
+
+const POLL_MS = 20;
+const USDC = getMint('USDC')!;
+const newAddress = () => Keypair.generate().publicKey.toBase58();
+
+// RPC stub: signatures per address (newest first) and enhanced transactions by signature
+let signatures: Record<string, Array<{ signature: string; blockTime?: number | null; err?: any }>> = {};
+let enhanced: Record<string, any> = {};
+const signatureCalls: Array<{ address: string; network: WatchNetwork }> = [];
+const pollsOf = (address: string) => signatureCalls.filter(c => c.address === address);
+const enhancedCalls: string[] = [];
+
+const stubRpc: WatcherRpc = {
+  async getSignatures(address, limit, network) {
+    signatureCalls.push({ address, network });
+    return (signatures[address] || []).slice(0, limit);
+  },
+  async getEnhancedTransaction(signature) {
+    enhancedCalls.push(signature);
+    return enhanced[signature] || null;
+  },
+};
+
+/**
+ * Add a transaction to an address, as the newest
+ */
+function addTransaction(address: string, signature: string, tx: { err?: any; enhanced?: any } = {}): void {
+  signatures[address] = [{ signature, blockTime: null, err: tx.err }, ...(signatures[address] || [])];
+  if (tx.enhanced) enhanced[signature] = tx.enhanced;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+async function waitFor(condition: () => boolean, timeoutMs: number = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for wallet activity');
+    await sleep(POLL_MS / 2);
+  }
+}
+
+const delivered: Array<{ userId: string; activity: WalletActivity }> = [];
+let unsubscribe: () => void;
+let userCount = 0;
+const newUser = () => `user-${++userCount}`;
+
+beforeAll(() => {
+  config.walletWatch.pollMs = POLL_MS;
+  setWatcherRpc(stubRpc);
+  unsubscribe = onWalletActivity((userId, activity) => delivered.push({ userId, activity }));
+});
+
+afterAll(() => {
+  unsubscribe();
+  setWatcherRpc(null);
+});
+
+beforeEach(() => {
+  signatures = {};
+  enhanced = {};
+  signatureCalls.length = 0;
+  enhancedCalls.length = 0;
+  delivered.length = 0;
+  startWalletWatchers();
+});
+
+afterEach(() => {
+  stopWalletWatchers();
+});
+
+describe('decodeActivity', () => {
+  const address = newAddress();
+  const other = newAddress();
+
+  it('reads an incoming token transfer', () => {
+    const decoded = decodeActivity(address, {
+      type: 'TRANSFER',
+      description: 'received USDC',
+      tokenTransfers: [{ fromUserAccount: other, toUserAccount: address, tokenAmount: 12.5, mint: USDC }],
+      nativeTransfers: [{ fromUserAccount: other, toUserAccount: address, amount: 5000 }],
+    });
+
+    expect(decoded).toEqual({ type: 'TRANSFER', description: 'received USDC', direction: 'in', amount: 12.5, token: 'USDC', mint: USDC, counterparty: other });
+  });
+
+  it('reads an outgoing SOL transfer in SOL', () => {
+    const decoded = decodeActivity(address, {
+      type: 'TRANSFER',
+      nativeTransfers: [{ fromUserAccount: address, toUserAccount: other, amount: 1.5 * LAMPORTS_PER_SOL }],
+    });
+
+    expect(decoded).toMatchObject({ direction: 'out', amount: 1.5, token: 'SOL', counterparty: other });
+  });
+
+  it('ignores transfers that do not involve the address', () => {
+    const decoded = decodeActivity(address, {
+      type: 'SWAP',
+      tokenTransfers: [{ fromUserAccount: other, toUserAccount: newAddress(), tokenAmount: 3, mint: USDC }],
+      nativeTransfers: [{ fromUserAccount: address, toUserAccount: address, amount: 10 }],
+    });
+
+    expect(decoded).toEqual({ type: 'SWAP', description: undefined });
+  });
+
+  it('marks transactions it cannot decode as unknown', () => {
+    expect(decodeActivity(address, null)).toEqual({ type: 'UNKNOWN' });
+  });
+});
+
+describe('wallet watchers', () => {
+  it('reports new transactions but not those before the watch started', async () => {
+    const address = newAddress();
+    addTransaction(address, 'old');
+    const userId = newUser();
+    const watch = createWatch(userId, { address, label: 'hot wallet' })!;
+    await waitFor(() => pollsOf(address).length > 0);
+
+    addTransaction(address, 'new', {
+      enhanced: { type: 'TRANSFER', timestamp: 1700000000, tokenTransfers: [{ fromUserAccount: newAddress(), toUserAccount: address, tokenAmount: 4, mint: USDC }] },
+    });
+    await waitFor(() => delivered.length > 0);
+
+    expect(delivered).toEqual([{
+      userId,
+      activity: expect.objectContaining({ watchId: watch.id, address, label: 'hot wallet', network: 'devnet', signature: 'new', timestamp: 1700000000000, type: 'TRANSFER', direction: 'in', amount: 4, token: 'USDC', failed: false }),
+    }]);
+    expect(enhancedCalls).toEqual(['new']);
+  });
+
+  it('delivers transactions from one poll oldest first', async () => {
+    const address = newAddress();
+    createWatch(newUser(), { address });
+    await waitFor(() => pollsOf(address).length > 0);
+
+    addTransaction(address, 'first');
+    addTransaction(address, 'second');
+    addTransaction(address, 'third', { err: { InstructionError: [0, 'Custom'] } });
+    await waitFor(() => delivered.length === 3);
+
+    expect(delivered.map(d => d.activity.signature)).toEqual(['first', 'second', 'third']);
+    expect(delivered.map(d => d.activity.failed)).toEqual([false, false, true]);
+    expect(delivered[0].activity.type).toBe('UNKNOWN');
+  });
+
+  it('polls and decodes an address once however many users watch it', async () => {
+    const address = newAddress();
+    const alice = newUser();
+    const bob = newUser();
+    createWatch(alice, { address });
+    createWatch(bob, { address, label: 'whale' });
+    await waitFor(() => pollsOf(address).length > 0);
+
+    addTransaction(address, 'shared');
+    await waitFor(() => delivered.length === 2);
+    await sleep(POLL_MS * 3);
+
+    expect(delivered.map(d => d.userId).sort()).toEqual([alice, bob].sort());
+    expect(delivered.find(d => d.userId === bob)!.activity.label).toBe('whale');
+    // A second monitor would have decoded and delivered it again
+    expect(enhancedCalls).toEqual(['shared']);
+  });
+
+  it('keeps devnet and mainnet watches of an address apart', async () => {
+    const address = newAddress();
+    createWatch(newUser(), { address, network: 'mainnet' });
+    await waitFor(() => pollsOf(address).length > 0);
+
+    expect(pollsOf(address).every(c => c.network === 'mainnet')).toBe(true);
+  });
+
+  it('stops polling an address nobody watches any more', async () => {
+    const address = newAddress();
+    const userId = newUser();
+    const watch = createWatch(userId, { address })!;
+    await waitFor(() => pollsOf(address).length > 0);
+
+    deleteWatch(userId, watch.id);
+    await sleep(POLL_MS);
+    const polls = pollsOf(address).length;
+    addTransaction(address, 'unwatched');
+    await sleep(POLL_MS * 5);
+
+    expect(pollsOf(address)).toHaveLength(polls);
+    expect(delivered).toEqual([]);
+  });
+});
@@ -0,0 +1,310 @@
+/**
+ * Wallet Watcher - Live notifications for activity on watched addresses
+ *
+ * Users watch Solana addresses (their own or anyone else's). Each watched
+ * address is polled by one shared monitor however many users watch it; new
+ * transactions are decoded once with Helius's enhanced transaction API (amount,
+ * token, counterparty) and passed to `onWalletActivity` listeners for every
+ * watcher (the WebSocket `wallet_activity` event). The RPC is replaceable, e.g.
+ * with a local stub in tests.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { LAMPORTS_PER_SOL } from '@solana/web3.js';
+import config from './config';
+import solana from './solana';
+import { getStorage } from './storage';
+import { isSolanaAddress } from './wallet-auth';
+import { getMint, getToken } from './token-registry';
+
+export type WatchNetwork = 'devnet' | 'mainnet';
+
+export interface WalletWatch {
+  id: string;
+  address: string;
+  network: WatchNetwork;
+  label?: string;           // e.g. "my wallet", "whale #3"
+  createdAt: number;
+}
+
+/**
+ * One transaction on a watched address, as delivered to the watcher
+ */
+export interface WalletActivity {
+  watchId: string;
+  address: string;
+  label?: string;
+  network: WatchNetwork;
+  signature: string;
+  timestamp: number;        // Block time (ms), or when it was seen
+  type: string;             // Helius transaction type (TRANSFER, SWAP, ...), UNKNOWN when not decoded
+  direction?: 'in' | 'out'; // Of the main transfer, relative to the watched address
+  amount?: number;
+  token?: string;           // Registry symbol, or the mint for unlisted tokens
+  mint?: string;
+  counterparty?: string;
+  description?: string;
+  failed: boolean;
+}
+
+/**
+ * Where watched addresses' transactions come from (Helius by default)
+ */
+export interface WatcherRpc {
+  getSignatures(address: string, limit: number, network: WatchNetwork): Promise<Array<{ signature: string; blockTime?: number | null; err?: any }>>;
+  getEnhancedTransaction(signature: string, network: WatchNetwork): Promise<any>;
+}
+
+type WalletActivityCallback = (userId: string, activity: WalletActivity) => void;
+
+const WATCHES_KEY = 'wallet-watches';
+const MAX_WATCHES_PER_USER = 20;
+const MAX_LABEL_LENGTH = 64;
+
+const heliusRpc: WatcherRpc = {
+  getSignatures: solana.getRecentTransactions,
+  getEnhancedTransaction: solana.getEnhancedTransaction,
+};
+
+let rpc: WatcherRpc = heliusRpc;
+let running = false;
+// Stop functions of the shared monitors, keyed by network:address
+const monitors: Map<string, () => void> = new Map();
+const listeners: WalletActivityCallback[] = [];
+
+const monitorKey = (network: WatchNetwork, address: string) => `${network}:${address}`;
+
+function loadWatches(): Record<string, WalletWatch[]> {
+  return getStorage().getDocument<Record<string, WalletWatch[]>>(WATCHES_KEY) || {};
+}
+
+/**
+ * Be told about new transactions on every address a user watches
+ */
+export function onWalletActivity(callback: WalletActivityCallback): () => void {
+  listeners.push(callback);
+  return () => {
+    const index = listeners.indexOf(callback);
+    if (index >= 0) listeners.splice(index, 1);
+  };
+}
+
+function notify(userId: string, activity: WalletActivity): void {
+  for (const listener of listeners) {
+    try {
+      listener(userId, activity);
+    } catch (err: any) {
+      console.error('[WalletWatcher] Listener failed:', err.message);
+    }
+  }
+}
+
+/**
+ * Validate a new watch, returning a list of problems (empty if valid)
+ */
+export function validateWatch(body: any): string[] {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return ['Watch must be an object'];
+  }
+  const errors: string[] = [];
+  if (!isSolanaAddress(body.address)) {
+    errors.push('address must be a Solana address');
+  }
+  if (body.network !== undefined && !['devnet', 'mainnet'].includes(body.network)) {
+    errors.push('network must be devnet or mainnet');
+  }
+  if (body.label !== undefined && !(typeof body.label === 'string' && body.label.length <= MAX_LABEL_LENGTH)) {
+    errors.push(`label must be a string of at most ${MAX_LABEL_LENGTH} characters`);
+  }
+  return errors;
+}
+
+/**
+ * A user's watched addresses, in the order they were added
+ */
+export function listWatches(userId: string): WalletWatch[] {
+  return loadWatches()[userId] || [];
+}
+
+/**
+ * Whether the user already watches `address` on `network`
+ */
+export function isWatching(userId: string, address: string, network: WatchNetwork = 'devnet'): boolean {
+  return listWatches(userId).some(w => w.address === address && w.network === network);
+}
+
+/**
+ * Watch an address. Returns null if the user already has the maximum number of watches.
+ */
+export function createWatch(
+  userId: string,
+  options: { address: string; network?: WatchNetwork; label?: string }
+): WalletWatch | null {
+  const all = loadWatches();
+  const mine = all[userId] || [];
+  if (mine.length >= MAX_WATCHES_PER_USER) return null;
+
+  const watch: WalletWatch = {
+    id: `ww_${uuidv4()}`,
+    address: options.address,
+    network: options.network || 'devnet',
+    label: options.label || undefined,
+    createdAt: Date.now(),
+  };
+  all[userId] = [...mine, watch];
+  getStorage().setDocument(WATCHES_KEY, all);
+  console.log(`[WalletWatcher] ${userId.slice(0, 8)}... is watching ${watch.address.slice(0, 8)}... on ${watch.network}`);
+  syncMonitor(watch.network, watch.address);
+  return watch;
+}
+
+/**
+ * Stop watching. Returns false if the user has no such watch.
+ */
+export function deleteWatch(userId: string, id: string): boolean {
+  const all = loadWatches();
+  const mine = all[userId] || [];
+  const watch = mine.find(w => w.id === id);
+  if (!watch) return false;
+
+  all[userId] = mine.filter(w => w.id !== id);
+  getStorage().setDocument(WATCHES_KEY, all);
+  console.log(`[WalletWatcher] Removed watch ${id}`);
+  syncMonitor(watch.network, watch.address);
+  return true;
+}
+
+/**
+ * Users watching an address, with their watch of it
+ */
+function watchersOf(network: WatchNetwork, address: string): Array<{ userId: string; watch: WalletWatch }> {
+  const watchers: Array<{ userId: string; watch: WalletWatch }> = [];
+  for (const [userId, watches] of Object.entries(loadWatches())) {
+    const watch = watches.find(w => w.address === address && w.network === network);
+    if (watch) watchers.push({ userId, watch });
+  }
+  return watchers;
+}
+
+/**
+ * The main transfer of an enhanced transaction, relative to the watched address.
+ * Token transfers win over SOL ones, which are often just fees and rent.
+ */
+export function decodeActivity(
+  address: string,
+  enhanced: any
+): Pick<WalletActivity, 'type' | 'direction' | 'amount' | 'token' | 'mint' | 'counterparty' | 'description'> {
+  if (!enhanced) return { type: 'UNKNOWN' };
+
+  const transfers = [
+    ...(enhanced.tokenTransfers || []).map((t: any) => ({ from: t.fromUserAccount, to: t.toUserAccount, amount: Number(t.tokenAmount), mint: t.mint })),
+    ...(enhanced.nativeTransfers || []).map((t: any) => ({ from: t.fromUserAccount, to: t.toUserAccount, amount: t.amount / LAMPORTS_PER_SOL, mint: getMint('SOL') })),
+  ].filter(t => (t.from === address || t.to === address) && t.from !== t.to && t.amount > 0);
+
+  const decoded = { type: enhanced.type || 'UNKNOWN', description: enhanced.description || undefined };
+  const transfer = transfers[0];
+  if (!transfer) return decoded;
+
+  const incoming = transfer.to === address;
+  return {
+    ...decoded,
+    direction: incoming ? 'in' : 'out',
+    amount: transfer.amount,
+    token: getToken(transfer.mint)?.symbol || transfer.mint,
+    mint: transfer.mint,
+    counterparty: (incoming ? transfer.from : transfer.to) || undefined,
+  };
+}
+
+/**
+ * Decode a new transaction once and deliver it to everyone watching the address
+ */
+async function handleTransaction(network: WatchNetwork, address: string, tx: { signature: string; blockTime?: number | null; err?: any }): Promise<void> {
+  const watchers = watchersOf(network, address);
+  if (watchers.length === 0) return;
+
+  const enhanced = await rpc.getEnhancedTransaction(tx.signature, network);
+  const decoded = decodeActivity(address, enhanced);
+  const blockTime = enhanced?.timestamp || tx.blockTime;
+  for (const { userId, watch } of watchers) {
+    notify(userId, {
+      watchId: watch.id,
+      address,
+      label: watch.label,
+      network,
+      signature: tx.signature,
+      timestamp: blockTime ? blockTime * 1000 : Date.now(),
+      ...decoded,
+      failed: !!(tx.err || enhanced?.transactionError),
+    });
+  }
+}
+
+/**
+ * Start or stop the shared monitor of an address to match whether anyone still watches it
+ */
+function syncMonitor(network: WatchNetwork, address: string): void {
+  if (!running) return;
+  const key = monitorKey(network, address);
+  const watched = watchersOf(network, address).length > 0;
+
+  if (watched && !monitors.has(key)) {
+    const stop = solana.monitorAddress(
+      address,
+      tx => {
+        handleTransaction(network, address, tx).catch(err => console.error('[WalletWatcher] Failed to deliver activity:', err.message));
+      },
+      config.walletWatch.pollMs,
+      network,
+      (a, limit, n) => rpc.getSignatures(a, limit, n)
+    );
+    monitors.set(key, stop);
+  } else if (!watched && monitors.has(key)) {
+    monitors.get(key)!();
+    monitors.delete(key);
+  }
+}
+
+/**
+ * Replace the RPC (e.g. a local stub in tests); null restores Helius.
+ * Running monitors are restarted against it.
+ */
+export function setWatcherRpc(source: WatcherRpc | null): void {
+  rpc = source || heliusRpc;
+  if (running) {
+    stopWalletWatchers();
+    startWalletWatchers();
+  }
+}
+
+/**
+ * Start one monitor per watched address (every WALLET_WATCH_POLL_MS)
+ */
+export function startWalletWatchers(): void {
+  if (running) return;
+  running = true;
+
+  for (const watches of Object.values(loadWatches())) {
+    for (const watch of watches) syncMonitor(watch.network, watch.address);
+  }
+  console.log(`[WalletWatcher] Watching ${monitors.size} address(es) every ${config.walletWatch.pollMs / 1000}s`);
+}
+
+export function stopWalletWatchers(): void {
+  running = false;
+  for (const stop of monitors.values()) stop();
+  monitors.clear();
+}
+
+export default {
+  validateWatch,
+  listWatches,
+  isWatching,
+  createWatch,
+  deleteWatch,
+  decodeActivity,
+  onWalletActivity,
+  setWatcherRpc,
+  startWalletWatchers,
+  stopWalletWatchers,
+};
@@ -0,0 +1,127 @@
+import * as dns from 'dns';
+import axios from 'axios';
+import { afterEach, describe, expect, it, jest } from '@jest/globals';
+import { isBlockedAddress, listDeliveries, queueWebhookEvent, resolveCallbackUrl, validateCallbackUrl } from './webhooks';
+import { Task } from './types';
+
+type Lookup = (hostname: string, options: any) => Promise<dns.LookupAddress[]>;
+
+const resolveTo = (...addresses: string[]) =>
+  jest.spyOn(dns.promises, 'lookup').mockImplementation((async () =>
+    addresses.map(address => ({ address, family: address.includes(':') ? 6 : 4 }))) as Lookup as any);
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('validateCallbackUrl', () => {
+  it.each([
+    'http://127.0.0.1/hook',
+    'http://127.0.0.2/hook',
+    'http://0.0.0.0/hook',
+    'http://[::1]:3000/x',
+    'http://[::]/x',
+    'http://[::ffff:127.0.0.1]/',
+    'http://[::ffff:8.8.8.8]/',
+    'http://100.64.0.1/',
+    'http://10.1.2.3/',
+    'http://172.20.0.1/',
+    'http://192.168.1.1/',
+    'http://169.254.169.254/latest/meta-data',
+    'http://[fc00::1]/',
+    'http://[fd12:3456::1]/',
+    'http://[fe80::1]/',
+    'http://2130706433/',
+    'http://localhost:3000/',
+    'ftp://8.8.8.8/',
+    'not a url',
+  ])('blocks %s', async url => {
+    expect(await validateCallbackUrl(url)).toBe(false);
+  });
+
+  it.each([
+    'https://8.8.8.8/hook',
+    'http://100.63.255.255/',
+    'http://100.128.0.1/',
+    'http://[2606:4700:4700::1111]/hook',
+  ])('allows %s', async url => {
+    expect(await validateCallbackUrl(url)).toBe(true);
+  });
+
+  it('blocks hostnames that resolve to a private address', async () => {
+    resolveTo('10.0.0.5');
+
+    expect(await validateCallbackUrl('https://hooks.example.com/cb')).toBe(false);
+  });
+
+  it('blocks hostnames with any private address among their records', async () => {
+    resolveTo('203.0.113.10', 'fd00::1');
+
+    expect(await validateCallbackUrl('https://hooks.example.com/cb')).toBe(false);
+  });
+
+  it('resolves public hostnames to the address to connect to', async () => {
+    resolveTo('203.0.113.10');
+
+    expect(await resolveCallbackUrl('https://hooks.example.com/cb')).toMatchObject({ address: '203.0.113.10', family: 4 });
+  });
+});
+
+describe('isBlockedAddress', () => {
+  it('blocks anything that is not an IP address', () => {
+    expect(isBlockedAddress('example.com')).toBe(true);
+  });
+});
+
+describe('webhook delivery', () => {
+  const task = (id: string, callbackUrl: string): Task => ({
+    id,
+    prompt: 'p',
+    userId: 'webhook-user',
+    status: 'completed',
+    specialist: 'magos',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    payments: [],
+    messages: [],
+    callbackUrl,
+  });
+
+  async function settled(taskId: string) {
+    for (let i = 0; i < 100; i++) {
+      const delivery = listDeliveries('webhook-user').find(d => d.taskId === taskId);
+      if (delivery && delivery.attempts.length > 0) return delivery;
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+    throw new Error('Delivery was not attempted');
+  }
+
+  it('connects to the address that was checked, even if DNS later changes', async () => {
+    resolveTo('203.0.113.10');
+    const post = jest.spyOn(axios, 'post').mockResolvedValue({ status: 200 } as any);
+
+    queueWebhookEvent(task('task-pinned', 'http://hooks.example.com/cb'), 'task.finished', {});
+    const delivery = await settled('task-pinned');
+    expect(delivery.status).toBe('delivered');
+
+    // Rebind the host to loopback, then resolve it the way the request's socket would
+    resolveTo('127.0.0.1');
+    const agent: any = post.mock.calls[0][2]!.httpAgent;
+    const address = await new Promise(resolve => agent.options.lookup('hooks.example.com', {}, (_err: any, a: string) => resolve(a)));
+    const all = await new Promise(resolve => agent.options.lookup('hooks.example.com', { all: true }, (_err: any, a: any) => resolve(a)));
+
+    expect(address).toBe('203.0.113.10');
+    expect(all).toEqual([{ address: '203.0.113.10', family: 4 }]);
+  });
+
+  it('refuses to deliver to a host that resolves to a private address', async () => {
+    resolveTo('192.168.0.10');
+    const post = jest.spyOn(axios, 'post');
+
+    queueWebhookEvent(task('task-blocked', 'http://hooks.example.com/cb'), 'task.finished', {});
+    const delivery = await settled('task-blocked');
+
+    expect(post).not.toHaveBeenCalled();
+    expect(delivery).toMatchObject({ status: 'failed', attempts: [{ error: 'Blocked invalid URL (SSRF protection)' }] });
+  });
+});
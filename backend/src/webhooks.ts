@@ -0,0 +1,485 @@
+/**
+ * Webhooks - Signed, retried delivery of task events
+ *
+ * Users subscribe URLs to task events (status changes, payments, completion);
+ * a task's own callbackUrl acts as a one-off subscription. Every delivery is
+ * HMAC-signed, retried with exponential backoff and kept in the delivery log
+ * for inspection and manual redelivery.
+ */
+
+import axios from 'axios';
+import * as crypto from 'crypto';
+import * as dns from 'dns';
+import * as http from 'http';
+import * as https from 'https';
+import * as net from 'net';
+import { v4 as uuidv4 } from 'uuid';
+import config from './config';
+import { Task, WebhookEvent } from './types';
+import { getStorage, WebhookDelivery, WebhookDeliveryQuery } from './storage';
+
+export interface WebhookSubscription {
+  id: string;
+  url: string;
+  events: WebhookEvent[];
+  description?: string;
+  secret: string;         // Only returned when the subscription is created
+  createdAt: number;
+}
+
+export const WEBHOOK_EVENTS: WebhookEvent[] = ['task.status', 'task.payment', 'task.finished'];
+
+// Events sent to a task's callbackUrl unless the request picks its own
+const DEFAULT_CALLBACK_EVENTS: WebhookEvent[] = ['task.finished'];
+
+const SUBSCRIPTIONS_KEY = 'webhook-subscriptions';
+const SECRETS_KEY = 'webhook-secrets';
+const MAX_SUBSCRIPTIONS_PER_USER = 20;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+// Finished deliveries older than this are dropped from the log
+const DELIVERY_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Deliveries waiting for their next attempt, and those being sent right now
+const retryTimers: Map<string, NodeJS.Timeout> = new Map();
+const inFlight: Set<string> = new Set();
+
+// Addresses a webhook may never reach: loopback, private, link-local (cloud metadata),
+// carrier-grade NAT, multicast and reserved ranges, and IPv4-mapped IPv6
+// (separate lists: a BlockList matches IPv4 addresses against ::ffff:0:0/96 too)
+const BLOCKED_IPV4 = new net.BlockList();
+for (const [prefix, bits] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.168.0.0', 16], ['224.0.0.0', 4], ['240.0.0.0', 4],
+] as const) {
+  BLOCKED_IPV4.addSubnet(prefix, bits, 'ipv4');
+}
+const BLOCKED_IPV6 = new net.BlockList();
+for (const [prefix, bits] of [
+  ['::', 128], ['::1', 128], ['::ffff:0:0', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const) {
+  BLOCKED_IPV6.addSubnet(prefix, bits, 'ipv6');
+}
+
+/**
+ * Where a callback URL may be delivered: the address its host resolved to when checked
+ */
+export interface CallbackTarget {
+  url: URL;
+  address: string;
+  family: 4 | 6;
+}
+
+/**
+ * Whether an IP address is in a range webhooks may not reach
+ */
+export function isBlockedAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 0) return true;
+  return family === 4 ? BLOCKED_IPV4.check(address, 'ipv4') : BLOCKED_IPV6.check(address, 'ipv6');
+}
+
+/**
+ * Resolve a callback URL once, refusing non-http(s) schemes and hosts with any
+ * address in a blocked range. Returns null if the URL may not be called.
+ */
+export async function resolveCallbackUrl(urlStr: string): Promise<CallbackTarget | null> {
+  let url: URL;
+  try {
+    url = new URL(urlStr);
+  } catch {
+    return null;
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return null;
+  }
+
+  // IPv6 literals keep their brackets in URL.hostname
+  const hostname = url.hostname.toLowerCase().replace(/^\[(.*)\]$/, '$1');
+  let addresses: dns.LookupAddress[];
+  if (net.isIP(hostname)) {
+    addresses = [{ address: hostname, family: net.isIP(hostname) }];
+  } else {
+    try {
+      addresses = await dns.promises.lookup(hostname, { all: true });
+    } catch {
+      return null; // Could not resolve
+    }
+  }
+
+  if (addresses.length === 0 || addresses.some(a => isBlockedAddress(a.address))) {
+    return null;
+  }
+  return { url, address: addresses[0].address, family: addresses[0].family === 6 ? 6 : 4 };
+}
+
+/**
+ * Validates a callback URL to prevent SSRF attacks (see resolveCallbackUrl)
+ */
+export async function validateCallbackUrl(urlStr: string): Promise<boolean> {
+  return (await resolveCallbackUrl(urlStr)) !== null;
+}
+
+/**
+ * An agent that connects to the address a target was checked at, whatever the
+ * host resolves to by the time the request is made (DNS rebinding)
+ */
+function pinnedAgent(target: CallbackTarget): http.Agent {
+  const lookup = (_hostname: string, options: any, callback: (...args: any[]) => void) => {
+    if (options?.all) {
+      callback(null, [{ address: target.address, family: target.family }]);
+    } else {
+      callback(null, target.address, target.family);
+    }
+  };
+  return target.url.protocol === 'https:'
+    ? new https.Agent({ lookup } as https.AgentOptions)
+    : new http.Agent({ lookup } as http.AgentOptions);
+}
+
+/**
+ * Validate an event filter, returning a list of problems
+ */
+export function validateWebhookEvents(events: any): string[] {
+  if (!Array.isArray(events) || events.length === 0) {
+    return [`events must be a non-empty array of: ${WEBHOOK_EVENTS.join(', ')}`];
+  }
+  return events
+    .filter(event => !WEBHOOK_EVENTS.includes(event))
+    .map(event => `Unknown event: ${event}`);
+}
+
+/**
+ * Validate a new subscription (URL safety is checked separately by validateCallbackUrl)
+ */
+export function validateWebhookSubscription(body: any): string[] {
+  if (!body || typeof body !== 'object') {
+    return ['Subscription must be an object'];
+  }
+  const errors: string[] = [];
+  if (typeof body.url !== 'string' || !body.url) {
+    errors.push('url is required');
+  }
+  if (body.events !== undefined) {
+    errors.push(...validateWebhookEvents(body.events));
+  }
+  if (body.description !== undefined && typeof body.description !== 'string') {
+    errors.push('description must be a string');
+  }
+  return errors;
+}
+
+function loadSubscriptions(): Record<string, WebhookSubscription[]> {
+  return getStorage().getDocument<Record<string, WebhookSubscription[]>>(SUBSCRIPTIONS_KEY) || {};
+}
+
+function withoutSecret(subscription: WebhookSubscription): Omit<WebhookSubscription, 'secret'> {
+  const { secret, ...rest } = subscription;
+  return rest;
+}
+
+function generateSecret(): string {
+  return `whsec_${crypto.randomBytes(24).toString('hex')}`;
+}
+
+/**
+ * A user's subscriptions (secrets omitted)
+ */
+export function listSubscriptions(userId: string): Array<Omit<WebhookSubscription, 'secret'>> {
+  return (loadSubscriptions()[userId] || []).map(withoutSecret);
+}
+
+/**
+ * Subscribe a URL to task events. Returns the subscription with its signing secret,
+ * or null if the user already has the maximum number of subscriptions.
+ */
+export function createSubscription(
+  userId: string,
+  options: { url: string; events?: WebhookEvent[]; description?: string }
+): WebhookSubscription | null {
+  const all = loadSubscriptions();
+  const mine = all[userId] || [];
+  if (mine.length >= MAX_SUBSCRIPTIONS_PER_USER) return null;
+
+  const subscription: WebhookSubscription = {
+    id: `wh_${uuidv4()}`,
+    url: options.url,
+    events: options.events || [...WEBHOOK_EVENTS],
+    description: options.description,
+    secret: generateSecret(),
+    createdAt: Date.now(),
+  };
+  all[userId] = [...mine, subscription];
+  getStorage().setDocument(SUBSCRIPTIONS_KEY, all);
+  console.log(`[Webhooks] ${userId.slice(0, 8)}... subscribed ${subscription.url} to ${subscription.events.join(', ')}`);
+  return subscription;
+}
+
+/**
+ * Remove a subscription. Returns false if the user has no such subscription.
+ */
+export function deleteSubscription(userId: string, id: string): boolean {
+  const all = loadSubscriptions();
+  const mine = all[userId] || [];
+  if (!mine.some(s => s.id === id)) return false;
+
+  all[userId] = mine.filter(s => s.id !== id);
+  getStorage().setDocument(SUBSCRIPTIONS_KEY, all);
+  console.log(`[Webhooks] Removed subscription ${id}`);
+  return true;
+}
+
+/**
+ * Secret used to sign deliveries to a user's task callbackUrls (created on first use)
+ */
+export function getCallbackSecret(userId: string): string {
+  const secrets = getStorage().getDocument<Record<string, string>>(SECRETS_KEY) || {};
+  if (!secrets[userId]) {
+    secrets[userId] = generateSecret();
+    getStorage().setDocument(SECRETS_KEY, secrets);
+  }
+  return secrets[userId];
+}
+
+/**
+ * Signature header value for a payload: t=<unix seconds>,v1=<hex HMAC-SHA256 of "t.body">
+ */
+export function signPayload(body: string, secret: string, timestamp: number = Math.floor(Date.now() / 1000)): string {
+  const digest = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${digest}`;
+}
+
+/**
+ * Check a signature header against the raw body (for receivers).
+ * Signatures older than toleranceSec are rejected to limit replays.
+ */
+export function verifyWebhookSignature(body: string, header: string, secret: string, toleranceSec: number = 300): boolean {
+  const parts = Object.fromEntries(header.split(',').map(part => part.split('=', 2) as [string, string]));
+  const timestamp = parseInt(parts.t, 10);
+  if (!timestamp || !parts.v1 || Math.abs(Date.now() / 1000 - timestamp) > toleranceSec) {
+    return false;
+  }
+  const expected = Buffer.from(signPayload(body, secret, timestamp).split('v1=')[1]);
+  const actual = Buffer.from(parts.v1);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+/**
+ * Secret for a delivery: its subscription's, or the owner's callback secret.
+ * Null if the subscription has since been removed.
+ */
+function deliverySecret(delivery: WebhookDelivery): string | null {
+  if (!delivery.subscriptionId) {
+    return getCallbackSecret(delivery.userId || 'anonymous');
+  }
+  const subscription = (loadSubscriptions()[delivery.userId || ''] || []).find(s => s.id === delivery.subscriptionId);
+  return subscription ? subscription.secret : null;
+}
+
+/**
+ * Queue a task event for every matching subscription of the task's owner and the task's callbackUrl
+ */
+export function queueWebhookEvent(task: Task, event: WebhookEvent, data: Record<string, any>): void {
+  const targets: Array<{ url: string; subscriptionId?: string }> = [];
+
+  if (task.userId) {
+    for (const subscription of loadSubscriptions()[task.userId] || []) {
+      if (subscription.events.includes(event)) {
+        targets.push({ url: subscription.url, subscriptionId: subscription.id });
+      }
+    }
+  }
+  if (task.callbackUrl && (task.callbackEvents || DEFAULT_CALLBACK_EVENTS).includes(event)) {
+    targets.push({ url: task.callbackUrl });
+  }
+  if (targets.length === 0) return;
+
+  const payload = { event, taskId: task.id, timestamp: new Date().toISOString(), ...data };
+  const storage = getStorage();
+  const now = Date.now();
+  const deliveries: WebhookDelivery[] = targets.map(target => ({
+    id: uuidv4(),
+    userId: task.userId,
+    subscriptionId: target.subscriptionId,
+    taskId: task.id,
+    event,
+    url: target.url,
+    payload,
+    status: 'pending',
+    attempts: [],
+    nextAttemptAt: now,
+    createdAt: now,
+    updatedAt: now,
+  }));
+
+  storage.transaction(() => {
+    storage.pruneWebhookDeliveries(now - DELIVERY_RETENTION_MS);
+    deliveries.forEach(delivery => storage.saveWebhookDelivery(delivery));
+  });
+  deliveries.forEach(delivery => void attemptDelivery(delivery.id));
+}
+
+/**
+ * Whether a failed attempt is worth retrying (network errors, timeouts, 408, 429 and 5xx)
+ */
+function isRetryable(statusCode?: number): boolean {
+  return statusCode === undefined || statusCode === 408 || statusCode === 429 || statusCode >= 500;
+}
+
+function scheduleAttempt(delivery: WebhookDelivery): void {
+  if (retryTimers.has(delivery.id)) return;
+  const delay = Math.max(0, (delivery.nextAttemptAt || 0) - Date.now());
+  const timer = setTimeout(() => {
+    retryTimers.delete(delivery.id);
+    void attemptDelivery(delivery.id);
+  }, delay);
+  timer.unref?.();
+  retryTimers.set(delivery.id, timer);
+}
+
+/**
+ * Send a pending delivery once, then mark it delivered, failed, or schedule the next attempt.
+ * The URL is re-resolved and checked before every attempt, and the request goes to the
+ * address that was checked, so a hostname cannot be rebound to a private address.
+ */
+async function attemptDelivery(id: string): Promise<void> {
+  if (inFlight.has(id)) return;
+  const delivery = getStorage().getWebhookDelivery(id);
+  if (!delivery || delivery.status !== 'pending') return;
+
+  inFlight.add(id);
+  const started = Date.now();
+  let statusCode: number | undefined;
+  let error: string | undefined;
+  let retryable = true;
+
+  try {
+    const secret = deliverySecret(delivery);
+    const target = secret ? await resolveCallbackUrl(delivery.url) : null;
+    if (!secret) {
+      error = 'Subscription was removed';
+      retryable = false;
+    } else if (!target) {
+      error = 'Blocked invalid URL (SSRF protection)';
+      retryable = false;
+    } else {
+      const body = JSON.stringify(delivery.payload);
+      const agent = pinnedAgent(target);
+      const response = await axios.post(delivery.url, body, {
+        timeout: config.webhooks.timeoutMs,
+        maxRedirects: 0,
+        proxy: false,
+        httpAgent: agent,
+        httpsAgent: agent,
+        validateStatus: () => true,
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'Hivemind-Webhooks/1.0',
+          'X-Hivemind-Event': delivery.event,
+          'X-Hivemind-Delivery': delivery.id,
+          'X-Hivemind-Signature': signPayload(body, secret),
+        },
+      });
+      statusCode = response.status;
+      if (statusCode < 200 || statusCode >= 300) {
+        error = `HTTP ${statusCode}`;
+        retryable = isRetryable(statusCode);
+      }
+    }
+  } catch (err: any) {
+    error = err.message;
+  } finally {
+    inFlight.delete(id);
+  }
+
+  delivery.attempts.push({ at: started, statusCode, error, durationMs: Date.now() - started });
+  delivery.updatedAt = Date.now();
+
+  if (!error) {
+    delivery.status = 'delivered';
+    delivery.nextAttemptAt = undefined;
+    console.log(`[Webhooks] Delivered ${delivery.event} for task ${delivery.taskId} to ${delivery.url}`);
+  } else if (!retryable || delivery.attempts.length >= config.webhooks.maxAttempts) {
+    delivery.status = 'failed';
+    delivery.nextAttemptAt = undefined;
+    console.error(`[Webhooks] Giving up on ${delivery.event} to ${delivery.url} after ${delivery.attempts.length} attempt(s): ${error}`);
+  } else {
+    const delay = Math.min(config.webhooks.retryBaseMs * 2 ** (delivery.attempts.length - 1), MAX_RETRY_DELAY_MS);
+    delivery.nextAttemptAt = Date.now() + delay;
+    console.warn(`[Webhooks] ${delivery.event} to ${delivery.url} failed (${error}), retrying in ${Math.round(delay / 1000)}s`);
+  }
+
+  getStorage().saveWebhookDelivery(delivery);
+  if (delivery.status === 'pending') {
+    scheduleAttempt(delivery);
+  }
+}
+
+/**
+ * A user's delivery log, newest first
+ */
+export function listDeliveries(userId: string, query: Omit<WebhookDeliveryQuery, 'userId'> = {}): WebhookDelivery[] {
+  return getStorage().listWebhookDeliveries({ ...query, userId });
+}
+
+/**
+ * One of a user's deliveries
+ */
+export function getDelivery(userId: string, id: string): WebhookDelivery | undefined {
+  const delivery = getStorage().getWebhookDelivery(id);
+  return delivery && delivery.userId === userId ? delivery : undefined;
+}
+
+/**
+ * Send a delivery's payload again as a new delivery (with a fresh signature and attempt count)
+ */
+export function redeliver(userId: string, id: string): WebhookDelivery | null {
+  const original = getDelivery(userId, id);
+  if (!original) return null;
+
+  const now = Date.now();
+  const delivery: WebhookDelivery = {
+    ...original,
+    id: uuidv4(),
+    status: 'pending',
+    attempts: [],
+    nextAttemptAt: now,
+    redeliveryOf: original.id,
+    createdAt: now,
+    updatedAt: now,
+  };
+  getStorage().saveWebhookDelivery(delivery);
+  console.log(`[Webhooks] Redelivering ${original.id} as ${delivery.id}`);
+  void attemptDelivery(delivery.id);
+  return delivery;
+}
+
+/**
+ * Pick up deliveries left pending by a previous process
+ */
+export function resumeWebhookDeliveries(): number {
+  const pending = getStorage().listWebhookDeliveries({ status: 'pending' });
+  pending.forEach(scheduleAttempt);
+  if (pending.length > 0) {
+    console.log(`[Webhooks] Resuming ${pending.length} pending deliveries`);
+  }
+  return pending.length;
+}
+
+export default {
+  validateCallbackUrl,
+  resolveCallbackUrl,
+  validateWebhookEvents,
+  validateWebhookSubscription,
+  listSubscriptions,
+  createSubscription,
+  deleteSubscription,
+  getCallbackSecret,
+  signPayload,
+  verifyWebhookSignature,
+  queueWebhookEvent,
+  listDeliveries,
+  getDelivery,
+  redeliver,
+  resumeWebhookDeliveries,
+};
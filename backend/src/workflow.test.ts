@@ -0,0 +1,233 @@
+import { describe, expect, it } from '@jest/globals';
+import { SpecialistResult, WorkflowCondition, WorkflowNode, WorkflowPlan } from './types';
+import {
+  describeWorkflow,
+  downstreamNodes,
+  evaluateCondition,
+  matchWorkflowTemplate,
+  runWorkflow,
+  validateWorkflow,
+  WorkflowHooks,
+  workflowSpecialists,
+} from './workflow';
+
+const result = (data: any, success = true): SpecialistResult => ({ success, data, timestamp: new Date(), executionTimeMs: 1 });
+
+/**
+ * Hooks whose nodes answer from `replies` (by node id) after `delays` ms, recording
+ * the prompts they were sent and how many ran at once
+ */
+function stubHooks(replies: Record<string, SpecialistResult | Error>, delays: Record<string, number> = {}) {
+  const prompts: Record<string, string> = {};
+  const started: string[] = [];
+  let active = 0;
+  let maxActive = 0;
+  const hooks: WorkflowHooks = {
+    async runNode(node: WorkflowNode, prompt: string) {
+      prompts[node.id] = prompt;
+      started.push(node.id);
+      maxActive = Math.max(maxActive, ++active);
+      try {
+        await new Promise(resolve => setTimeout(resolve, delays[node.id] ?? 5));
+        const reply = replies[node.id] ?? result({ summary: `${node.id} done` });
+        if (reply instanceof Error) throw reply;
+        return reply;
+      } finally {
+        active--;
+      }
+    },
+    summarize: r => r.data?.summary || r.data?.error || '',
+    extractTokens: text => text.match(/\b[A-Z]{3,}\b/g) || [],
+  };
+  return { hooks, prompts, started, maxActive: () => maxActive };
+}
+
+const REPORT: WorkflowPlan = {
+  nodes: [
+    { id: 'aura', specialist: 'aura', prompt: '{{prompt}}' },
+    { id: 'magos', specialist: 'magos', prompt: 'Outlook for {{aura.tokens.0}}', dependsOn: ['aura'] },
+    { id: 'seeker', specialist: 'seeker', prompt: '{{prompt}} news' },
+    {
+      id: 'scribe',
+      specialist: 'scribe',
+      prompt: 'Summarize: {{magos.summary}} / {{seeker.summary}} / {{magos.data.direction}}',
+      dependsOn: ['magos', 'seeker'],
+    },
+  ],
+};
+
+describe('validateWorkflow', () => {
+  it('accepts a well-formed plan', () => {
+    expect(validateWorkflow(REPORT)).toEqual([]);
+  });
+
+  it('reports every problem with the nodes', () => {
+    const errors = validateWorkflow({
+      nodes: [
+        { id: 'a', specialist: 'aura', prompt: 'hi {{b.summary}}' },
+        { id: 'a', specialist: 'nobody' as any, prompt: ' ', dependsOn: ['a', 'ghost'] },
+        { id: 'prompt', specialist: 'scribe', prompt: 'x', dependsOn: ['a'], condition: { node: 'c', path: 'data.x', op: 'like' as any } },
+      ],
+      output: 'missing',
+    }, id => id !== 'nobody');
+
+    expect(errors).toEqual([
+      'Duplicate node id "a"',
+      'Node id "prompt" is reserved',
+      'Node "a" references "b" in its prompt but does not depend on it',
+      'Node "a" uses unknown specialist "nobody"',
+      'Node "a" is missing a prompt',
+      'Node "a" depends on itself',
+      'Node "a" depends on unknown node "ghost"',
+      'Node "prompt" has a condition on "c" but does not depend on it',
+      'Node "prompt" has unknown condition operator "like"',
+      'Output node "missing" does not exist',
+    ]);
+  });
+
+  it('rejects cycles and empty plans', () => {
+    expect(validateWorkflow({
+      nodes: [
+        { id: 'a', specialist: 'aura', prompt: 'x', dependsOn: ['b'] },
+        { id: 'b', specialist: 'magos', prompt: 'y', dependsOn: ['a'] },
+      ],
+    })).toEqual(['Workflow contains a cycle']);
+    expect(validateWorkflow({ nodes: [] })).toEqual(['Workflow must contain at least one node']);
+  });
+});
+
+describe('evaluateCondition', () => {
+  const upstream = result({ prediction: { direction: 'Bullish' }, score: 3 });
+
+  it.each<[WorkflowCondition, boolean]>([
+    [{ node: 'm', path: 'data.prediction.direction', op: 'equals', value: 'bullish' }, true],
+    [{ node: 'm', path: 'data.direction|data.prediction.direction', op: 'equals', value: 'bullish' }, true],
+    [{ node: 'm', path: 'data.prediction.direction', op: 'notEquals', value: 'bullish' }, false],
+    [{ node: 'm', path: 'data.prediction.direction', op: 'in', value: ['neutral', 'BULLISH'] }, true],
+    [{ node: 'm', path: 'data.score', op: 'exists' }, true],
+    [{ node: 'm', path: 'data.missing', op: 'exists' }, false],
+  ])('%j is %p', (condition, expected) => {
+    expect(evaluateCondition(condition, upstream)).toBe(expected);
+  });
+});
+
+describe('runWorkflow', () => {
+  it('runs independent branches in parallel and fans in', async () => {
+    const { hooks, prompts, started, maxActive } = stubHooks({
+      aura: result({ summary: 'BONK is trending' }),
+      magos: result({ summary: 'BONK looks strong', direction: 'bullish' }),
+    }, { aura: 20, seeker: 5 });
+
+    const run = await runWorkflow(REPORT, 'memecoins', hooks);
+
+    expect(run.success).toBe(true);
+    expect(maxActive()).toBe(2);
+    expect(started.slice(0, 2).sort()).toEqual(['aura', 'seeker']);
+    expect(started[3]).toBe('scribe');
+    expect(prompts).toEqual({
+      aura: 'memecoins',
+      seeker: 'memecoins news',
+      magos: 'Outlook for BONK',
+      scribe: 'Summarize: BONK looks strong / seeker done / bullish',
+    });
+    expect(run.outputNode).toBe('scribe');
+    expect(Object.values(run.states).map(s => s.status)).toEqual(['completed', 'completed', 'completed', 'completed']);
+  });
+
+  it('skips a node whose condition is not met, and everything after it', async () => {
+    const plan = matchWorkflowTemplate('analyze BONK and buy it')!;
+    plan.nodes.push({ id: 'scribe', specialist: 'scribe', prompt: 'Summarize: {{bankr.summary}}', dependsOn: ['bankr'] });
+    const { hooks, started } = stubHooks({ magos: result({ summary: 'BONK looks weak', prediction: { direction: 'bearish' } }) });
+
+    const run = await runWorkflow(plan, 'analyze BONK and buy it', hooks);
+
+    expect(started).toEqual(['magos']);
+    expect(run.success).toBe(true);
+    expect(run.states.bankr).toMatchObject({
+      status: 'skipped',
+      error: 'condition not met (magos.data.prediction.direction|data.direction|data.sentiment equals "bullish")',
+    });
+    expect(run.states.scribe).toMatchObject({ status: 'skipped', error: 'upstream "bankr" skipped' });
+  });
+
+  it('runs a node whose condition is met', async () => {
+    const plan = matchWorkflowTemplate('analyze BONK and buy it')!;
+    const { hooks, prompts } = stubHooks({ magos: result({ summary: 'BONK looks strong', sentiment: 'BULLISH' }) });
+
+    const run = await runWorkflow(plan, 'analyze BONK and buy it', hooks);
+
+    expect(run.states.bankr.status).toBe('completed');
+    expect(prompts.bankr).toBe('Buy 0.1 SOL of BONK');
+  });
+
+  it('skips a node whose template input is missing', async () => {
+    const plan = matchWorkflowTemplate('buy the trending token')!;
+    const { hooks, started } = stubHooks({ aura: result({ summary: 'nothing much today' }) });
+
+    const run = await runWorkflow(plan, 'buy the trending token', hooks);
+
+    expect(started).toEqual(['aura']);
+    expect(run.states.bankr).toMatchObject({ status: 'skipped', error: 'missing input {{aura.tokens.0}}' });
+  });
+
+  it('fails the run when a node fails or throws, skipping its dependents only', async () => {
+    const { hooks, started } = stubHooks({
+      aura: result({ error: 'rate limited' }, false),
+      seeker: new Error('seeker crashed'),
+    });
+
+    const run = await runWorkflow(REPORT, 'memecoins', hooks);
+
+    expect(run.success).toBe(false);
+    expect(started.sort()).toEqual(['aura', 'seeker']);
+    expect(run.states.aura).toMatchObject({ status: 'failed', error: 'rate limited' });
+    expect(run.states.seeker).toMatchObject({ status: 'failed', error: 'seeker crashed' });
+    expect(run.states.magos).toMatchObject({ status: 'skipped', error: 'upstream "aura" failed' });
+    expect(run.states.scribe.status).toBe('skipped');
+  });
+
+  it('reuses seeded outputs instead of running those nodes again', async () => {
+    const { hooks, started, prompts } = stubHooks({ magos: result({ summary: 'WIF looks strong', direction: 'bullish' }) });
+    const seed = {
+      aura: { result: result({ summary: 'WIF is trending' }), summary: 'WIF is trending', tokens: ['WIF'] },
+      seeker: { result: result({ summary: 'no news' }), summary: 'no news', tokens: [] },
+    };
+
+    const run = await runWorkflow(REPORT, 'memecoins', hooks, { seed });
+
+    expect(started).toEqual(['magos', 'scribe']);
+    expect(prompts.magos).toBe('Outlook for WIF');
+    expect(run.states.aura).toMatchObject({ status: 'completed', reused: true });
+  });
+
+  it('throws on a cycle', async () => {
+    const { hooks } = stubHooks({});
+    await expect(runWorkflow({
+      nodes: [
+        { id: 'a', specialist: 'aura', prompt: 'x', dependsOn: ['b'] },
+        { id: 'b', specialist: 'magos', prompt: 'y', dependsOn: ['a'] },
+      ],
+    }, 'p', hooks)).rejects.toThrow('Workflow contains a cycle');
+  });
+});
+
+describe('plan helpers', () => {
+  it('finds every node downstream of a node', () => {
+    expect([...downstreamNodes(REPORT, 'aura')].sort()).toEqual(['aura', 'magos', 'scribe']);
+    expect([...downstreamNodes(REPORT, 'scribe')]).toEqual(['scribe']);
+  });
+
+  it('describes plans by level', () => {
+    expect(describeWorkflow(REPORT)).toBe('aura ∥ seeker → magos → scribe');
+    expect(workflowSpecialists(REPORT)).toEqual(['aura', 'seeker', 'magos', 'scribe']);
+  });
+
+  it('matches templates and returns copies', () => {
+    expect(describeWorkflow(matchWorkflowTemplate('social sentiment and price forecast for SOL')!)).toBe('aura ∥ magos → scribe');
+    expect(matchWorkflowTemplate('search the news and summarize it')!.nodes.map(n => n.id)).toEqual(['seeker', 'scribe']);
+    expect(matchWorkflowTemplate('what is the weather')).toBeNull();
+
+    matchWorkflowTemplate('buy the trending token')!.nodes[1].prompt = 'changed';
+    expect(matchWorkflowTemplate('buy the trending token')!.nodes[1].prompt).toBe('Buy 0.1 SOL of {{aura.tokens.0}}');
+  });
+});
@@ -0,0 +1,502 @@
+/**
+ * Hivemind Workflow Engine
+ * Executes declarative DAGs of specialist steps with parallel branches,
+ * conditional edges and fan-in steps
+ */
+
+import {
+  SpecialistType,
+  SpecialistResult,
+  WorkflowPlan,
+  WorkflowNode,
+  WorkflowCondition,
+  WorkflowNodeState,
+} from './types';
+
+/**
+ * Output of a completed node, as seen by downstream templates and conditions
+ */
+export interface NodeOutput {
+  result: SpecialistResult;
+  summary: string;
+  tokens: string[];
+}
+
+export interface WorkflowHooks {
+  /** Execute a single node with its resolved prompt */
+  runNode: (node: WorkflowNode, prompt: string) => Promise<SpecialistResult>;
+  /** Called whenever a node changes state */
+  onNodeUpdate?: (state: WorkflowNodeState, states: Record<string, WorkflowNodeState>) => void;
+  /** Human-readable summary of a specialist result */
+  summarize: (result: SpecialistResult) => string;
+  /** Token symbols mentioned in a summary (used by {{node.tokens.N}}) */
+  extractTokens: (text: string) => string[];
+}
+
+export interface WorkflowRunOptions {
+  /** Outputs carried over from an earlier run; these nodes are not executed again */
+  seed?: Record<string, NodeOutput>;
+}
+
+export interface WorkflowRunResult {
+  success: boolean;
+  states: Record<string, WorkflowNodeState>;
+  outputs: Record<string, NodeOutput>;
+  order: string[];           // Topological order of node IDs
+  outputNode?: string;       // Node whose result is the workflow result
+}
+
+const TEMPLATE_REF = /\{\{\s*([\w-]+)(?:\.([\w.]+))?\s*\}\}/g;
+
+/**
+ * Read a dot-notation path from an object.
+ * Fallback paths can be separated with `|`; the first defined value wins.
+ */
+function getPath(obj: any, path: string): any {
+  for (const candidate of path.split('|')) {
+    let value = obj;
+    for (const key of candidate.trim().split('.')) {
+      if (value === undefined || value === null) break;
+      value = value[key];
+    }
+    if (value !== undefined && value !== null) return value;
+  }
+  return undefined;
+}
+
+/**
+ * Node IDs referenced by a prompt template (excluding {{prompt}})
+ */
+function templateRefs(template: string): string[] {
+  const refs: string[] = [];
+  for (const match of template.matchAll(TEMPLATE_REF)) {
+    if (match[1] !== 'prompt') refs.push(match[1]);
+  }
+  return refs;
+}
+
+/**
+ * Topologically sort nodes (Kahn's algorithm). Returns null on cycles.
+ */
+function topologicalOrder(nodes: WorkflowNode[]): string[] | null {
+  const inDegree = new Map<string, number>();
+  const dependents = new Map<string, string[]>();
+
+  for (const node of nodes) {
+    inDegree.set(node.id, (node.dependsOn || []).length);
+    for (const dep of node.dependsOn || []) {
+      dependents.set(dep, [...(dependents.get(dep) || []), node.id]);
+    }
+  }
+
+  // Keep declaration order among nodes that are ready at the same time
+  const queue = nodes.filter(n => inDegree.get(n.id) === 0).map(n => n.id);
+  const order: string[] = [];
+
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    order.push(id);
+    for (const next of dependents.get(id) || []) {
+      const remaining = inDegree.get(next)! - 1;
+      inDegree.set(next, remaining);
+      if (remaining === 0) queue.push(next);
+    }
+  }
+
+  return order.length === nodes.length ? order : null;
+}
+
+/**
+ * Validate a workflow plan. Returns a list of human-readable errors (empty if valid).
+ */
+export function validateWorkflow(
+  plan: WorkflowPlan,
+  isKnownSpecialist: (specialist: string) => boolean = () => true
+): string[] {
+  const errors: string[] = [];
+
+  if (!plan || !Array.isArray(plan.nodes) || plan.nodes.length === 0) {
+    return ['Workflow must contain at least one node'];
+  }
+
+  const ids = new Set<string>();
+  for (const node of plan.nodes) {
+    if (!node.id || !/^[\w-]+$/.test(node.id)) {
+      errors.push(`Invalid node id "${node.id}" (use letters, digits, "_" or "-")`);
+      continue;
+    }
+    if (node.id === 'prompt') {
+      errors.push(`Node id "prompt" is reserved`);
+    }
+    if (ids.has(node.id)) {
+      errors.push(`Duplicate node id "${node.id}"`);
+    }
+    ids.add(node.id);
+  }
+
+  for (const node of plan.nodes) {
+    const deps = node.dependsOn || [];
+
+    if (!node.specialist || !isKnownSpecialist(node.specialist) || node.specialist === 'multi-hop') {
+      errors.push(`Node "${node.id}" uses unknown specialist "${node.specialist}"`);
+    }
+    if (typeof node.prompt !== 'string' || node.prompt.trim().length === 0) {
+      errors.push(`Node "${node.id}" is missing a prompt`);
+    }
+    for (const dep of deps) {
+      if (dep === node.id) errors.push(`Node "${node.id}" depends on itself`);
+      else if (!ids.has(dep)) errors.push(`Node "${node.id}" depends on unknown node "${dep}"`);
+    }
+    for (const ref of templateRefs(node.prompt || '')) {
+      if (!deps.includes(ref)) {
+        errors.push(`Node "${node.id}" references "${ref}" in its prompt but does not depend on it`);
+      }
+    }
+    if (node.condition) {
+      if (!deps.includes(node.condition.node)) {
+        errors.push(`Node "${node.id}" has a condition on "${node.condition.node}" but does not depend on it`);
+      }
+      if (!['equals', 'notEquals', 'in', 'exists'].includes(node.condition.op)) {
+        errors.push(`Node "${node.id}" has unknown condition operator "${node.condition.op}"`);
+      }
+      if (node.condition.op === 'in' && !Array.isArray(node.condition.value)) {
+        errors.push(`Node "${node.id}" condition "in" requires an array value`);
+      }
+    }
+  }
+
+  if (plan.output && !ids.has(plan.output)) {
+    errors.push(`Output node "${plan.output}" does not exist`);
+  }
+
+  if (errors.length === 0 && !topologicalOrder(plan.nodes)) {
+    errors.push('Workflow contains a cycle');
+  }
+
+  return errors;
+}
+
+/**
+ * Evaluate a conditional edge against an upstream result
+ */
+export function evaluateCondition(condition: WorkflowCondition, result: SpecialistResult): boolean {
+  const actual = getPath(result, condition.path);
+  const normalize = (v: any) => (typeof v === 'string' ? v.toLowerCase() : v);
+
+  switch (condition.op) {
+    case 'exists':
+      return actual !== undefined;
+    case 'equals':
+      return normalize(actual) === normalize(condition.value);
+    case 'notEquals':
+      return normalize(actual) !== normalize(condition.value);
+    case 'in':
+      return Array.isArray(condition.value) && condition.value.map(normalize).includes(normalize(actual));
+    default:
+      return false;
+  }
+}
+
+/**
+ * Resolve a prompt template against upstream outputs.
+ * Returns null (and the missing reference) if an input is unavailable.
+ */
+function resolveTemplate(
+  template: string,
+  rootPrompt: string,
+  outputs: Record<string, NodeOutput>
+): { prompt: string | null; missing?: string } {
+  let missing: string | undefined;
+
+  const prompt = template.replace(TEMPLATE_REF, (whole, nodeId: string, path?: string) => {
+    if (nodeId === 'prompt' && !path) return rootPrompt;
+
+    const output = outputs[nodeId];
+    const value = output
+      ? getPath({ summary: output.summary, tokens: output.tokens, data: output.result.data }, path || 'summary')
+      : undefined;
+
+    if (value === undefined || (typeof value === 'string' && value.trim() === '')) {
+      missing = missing || whole;
+      return '';
+    }
+    return typeof value === 'string' ? value : JSON.stringify(value);
+  });
+
+  return missing ? { prompt: null, missing } : { prompt };
+}
+
+/**
+ * Create the initial per-node state map for a plan
+ */
+export function initialNodeStates(plan: WorkflowPlan): Record<string, WorkflowNodeState> {
+  const states: Record<string, WorkflowNodeState> = {};
+  for (const node of plan.nodes) {
+    states[node.id] = {
+      id: node.id,
+      specialist: node.specialist,
+      status: 'pending',
+      dependsOn: node.dependsOn || [],
+    };
+  }
+  return states;
+}
+
+/**
+ * Execute a workflow plan. Independent branches run in parallel; a node starts
+ * as soon as all of its dependencies have finished.
+ */
+export async function runWorkflow(
+  plan: WorkflowPlan,
+  rootPrompt: string,
+  hooks: WorkflowHooks,
+  options: WorkflowRunOptions = {}
+): Promise<WorkflowRunResult> {
+  const order = topologicalOrder(plan.nodes);
+  if (!order) {
+    throw new Error('Workflow contains a cycle');
+  }
+
+  const nodesById = new Map(plan.nodes.map(n => [n.id, n]));
+  const states = initialNodeStates(plan);
+  const outputs: Record<string, NodeOutput> = {};
+  const running = new Map<string, Promise<void>>();
+
+  const update = (id: string, patch: Partial<WorkflowNodeState>) => {
+    states[id] = { ...states[id], ...patch };
+    hooks.onNodeUpdate?.(states[id], states);
+  };
+
+  for (const [id, output] of Object.entries(options.seed || {})) {
+    if (!nodesById.has(id)) continue;
+    outputs[id] = output;
+    update(id, { status: 'completed', summary: output.summary, reused: true, completedAt: new Date().toISOString() });
+  }
+
+  const isTerminal = (id: string) => ['completed', 'failed', 'skipped'].includes(states[id].status);
+
+  const start = (node: WorkflowNode, prompt: string) => {
+    update(node.id, { status: 'running', prompt, startedAt: new Date().toISOString() });
+
+    const execution = (async () => {
+      try {
+        const result = await hooks.runNode(node, prompt);
+        const summary = hooks.summarize(result);
+
+        if (result.success) {
+          outputs[node.id] = { result, summary, tokens: hooks.extractTokens(summary) };
+          update(node.id, { status: 'completed', summary, completedAt: new Date().toISOString() });
+        } else {
+          update(node.id, {
+            status: 'failed',
+            summary,
+            error: result.data?.error || 'Specialist reported failure',
+            completedAt: new Date().toISOString(),
+          });
+        }
+      } catch (error: any) {
+        update(node.id, { status: 'failed', error: error.message, completedAt: new Date().toISOString() });
+      }
+    })();
+
+    running.set(node.id, execution.finally(() => running.delete(node.id)));
+  };
+
+  // Decide whether a ready node should run; returns a skip reason if not
+  const skipReason = (node: WorkflowNode): string | null => {
+    for (const dep of node.dependsOn || []) {
+      if (states[dep].status !== 'completed') {
+        return `upstream "${dep}" ${states[dep].status}`;
+      }
+    }
+    if (node.condition && !evaluateCondition(node.condition, outputs[node.condition.node].result)) {
+      const { node: source, path, op, value } = node.condition;
+      return `condition not met (${source}.${path} ${op} ${JSON.stringify(value)})`;
+    }
+    return null;
+  };
+
+  while (true) {
+    let progressed = true;
+    while (progressed) {
+      progressed = false;
+      for (const id of order) {
+        if (states[id].status !== 'pending') continue;
+        const node = nodesById.get(id)!;
+        if (!(node.dependsOn || []).every(isTerminal)) continue;
+
+        progressed = true;
+        const reason = skipReason(node);
+        if (reason) {
+          update(id, { status: 'skipped', error: reason });
+          continue;
+        }
+
+        const { prompt, missing } = resolveTemplate(node.prompt, rootPrompt, outputs);
+        if (prompt === null) {
+          update(id, { status: 'skipped', error: `missing input ${missing}` });
+          continue;
+        }
+
+        start(node, prompt);
+      }
+    }
+
+    if (running.size === 0) break;
+    await Promise.race(running.values());
+  }
+
+  // Default output: the last sink node in topological order
+  const hasDependents = new Set(plan.nodes.flatMap(n => n.dependsOn || []));
+  const sinks = order.filter(id => !hasDependents.has(id));
+  const outputNode = plan.output || sinks[sinks.length - 1];
+
+  return {
+    success: Object.values(states).every(s => s.status !== 'failed'),
+    states,
+    outputs,
+    order,
+    outputNode,
+  };
+}
+
+/**
+ * A node and every node downstream of it (its transitive dependents)
+ */
+export function downstreamNodes(plan: WorkflowPlan, nodeId: string): Set<string> {
+  const affected = new Set<string>([nodeId]);
+  let grew = true;
+  while (grew) {
+    grew = false;
+    for (const node of plan.nodes) {
+      if (!affected.has(node.id) && (node.dependsOn || []).some(dep => affected.has(dep))) {
+        affected.add(node.id);
+        grew = true;
+      }
+    }
+  }
+  return affected;
+}
+
+/**
+ * Built-in workflow templates, matched against the prompt in order
+ */
+const WORKFLOW_TEMPLATES: Array<{ name: string; match: (lower: string) => boolean; plan: WorkflowPlan }> = [
+  {
+    // "buy" + "trending" = aura → bankr
+    name: 'trending-buy',
+    match: lower => lower.includes('buy') && (lower.includes('trending') || lower.includes('popular') || lower.includes('hot') || lower.includes('sentiment')),
+    plan: {
+      description: 'Find a trending token, then buy it',
+      nodes: [
+        { id: 'aura', specialist: 'aura', prompt: '{{prompt}}' },
+        { id: 'bankr', specialist: 'bankr', prompt: 'Buy 0.1 SOL of {{aura.tokens.0}}', dependsOn: ['aura'] },
+      ],
+    },
+  },
+  {
+    // "analyze" + "buy" = magos → bankr, only if the outlook is bullish
+    name: 'analyze-buy',
+    match: lower => (lower.includes('analyze') || lower.includes('research')) && lower.includes('buy'),
+    plan: {
+      description: 'Analyze a token, then buy it if the outlook is bullish',
+      nodes: [
+        { id: 'magos', specialist: 'magos', prompt: '{{prompt}}' },
+        {
+          id: 'bankr',
+          specialist: 'bankr',
+          prompt: 'Buy 0.1 SOL of {{magos.tokens.0}}',
+          dependsOn: ['magos'],
+          condition: {
+            node: 'magos',
+            path: 'data.prediction.direction|data.direction|data.sentiment',
+            op: 'equals',
+            value: 'bullish',
+          },
+        },
+      ],
+    },
+  },
+  {
+    // "research" + "summary" = seeker → scribe
+    name: 'research-summary',
+    match: lower => (lower.includes('research') || lower.includes('search') || lower.includes('news')) && (lower.includes('summary') || lower.includes('summarize')),
+    plan: {
+      description: 'Research a topic, then summarize the findings',
+      nodes: [
+        { id: 'seeker', specialist: 'seeker', prompt: '{{prompt}}' },
+        { id: 'scribe', specialist: 'scribe', prompt: 'Summarize: {{seeker.summary}}', dependsOn: ['seeker'] },
+      ],
+    },
+  },
+  {
+    // "sentiment" + "prediction" = (aura ∥ magos) → scribe
+    name: 'market-report',
+    match: lower => (lower.includes('sentiment') || lower.includes('social')) && (lower.includes('predict') || lower.includes('forecast') || lower.includes('outlook')),
+    plan: {
+      description: 'Gather sentiment and price outlook in parallel, then write a combined report',
+      nodes: [
+        { id: 'aura', specialist: 'aura', prompt: '{{prompt}}' },
+        { id: 'magos', specialist: 'magos', prompt: '{{prompt}}' },
+        {
+          id: 'scribe',
+          specialist: 'scribe',
+          prompt: 'Summarize: Social sentiment. {{aura.summary}}. Market outlook. {{magos.summary}}',
+          dependsOn: ['aura', 'magos'],
+        },
+      ],
+    },
+  },
+];
+
+/**
+ * Match a prompt against the built-in workflow templates
+ */
+export function matchWorkflowTemplate(prompt: string): WorkflowPlan | null {
+  const lower = prompt.toLowerCase();
+  const template = WORKFLOW_TEMPLATES.find(t => t.match(lower));
+  if (!template) return null;
+
+  // Return a copy so callers can't mutate the template
+  return JSON.parse(JSON.stringify(template.plan));
+}
+
+/**
+ * Short description of a plan, e.g. "aura ∥ magos → scribe"
+ */
+export function describeWorkflow(plan: WorkflowPlan): string {
+  const order = topologicalOrder(plan.nodes) || plan.nodes.map(n => n.id);
+  const depth = new Map<string, number>();
+  const byId = new Map(plan.nodes.map(n => [n.id, n]));
+
+  for (const id of order) {
+    const deps = byId.get(id)?.dependsOn || [];
+    depth.set(id, deps.length === 0 ? 0 : Math.max(...deps.map(d => depth.get(d) || 0)) + 1);
+  }
+
+  const levels: string[][] = [];
+  for (const id of order) {
+    const level = depth.get(id)!;
+    levels[level] = [...(levels[level] || []), byId.get(id)!.specialist];
+  }
+
+  return levels.map(l => l.join(' ∥ ')).join(' → ');
+}
+
+/**
+ * Specialists used by a plan, in topological order
+ */
+export function workflowSpecialists(plan: WorkflowPlan): SpecialistType[] {
+  const order = topologicalOrder(plan.nodes) || plan.nodes.map(n => n.id);
+  const byId = new Map(plan.nodes.map(n => [n.id, n]));
+  return order.map(id => byId.get(id)!.specialist);
+}
+
+export default {
+  validateWorkflow,
+  runWorkflow,
+  downstreamNodes,
+  matchWorkflowTemplate,
+  describeWorkflow,
+  workflowSpecialists,
+};
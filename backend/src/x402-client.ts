@@ -0,0 +1,266 @@
+/**
+ * x402 Client
+ * Calls x402-gated HTTP endpoints: on a 402 response, decodes the v2
+ * `payment-required` header, pays through a pluggable payer and retries
+ * with the `x-payment` header.
+ */
+
+import axios from 'axios';
+import bs58 from 'bs58';
+import { Connection, Keypair, PublicKey, Transaction } from '@solana/web3.js';
+import {
+  createTransferCheckedInstruction,
+  getAssociatedTokenAddressSync,
+  getMint,
+} from '@solana/spl-token';
+import config from './config';
+import { X402PaymentRequired, X402PaymentRequirements } from './types';
+
+/**
+ * Result of paying one x402 requirement
+ */
+export interface X402PaymentResult {
+  header: string;        // Value for the x-payment header (base64 JSON payload)
+  payer: string;         // Paying address (or 'demo')
+  txSignature?: string;  // Set when the payer submitted the transaction itself
+}
+
+/**
+ * Pays x402 requirements. Implementations decide how (demo receipt, local keypair, custodial wallet...).
+ */
+export interface X402Payer {
+  name: string;
+  supports(requirement: X402PaymentRequirements): boolean;
+  pay(requirement: X402PaymentRequirements, resource: string): Promise<X402PaymentResult>;
+}
+
+export interface X402FetchOptions {
+  payer?: X402Payer;
+  headers?: Record<string, string>;
+  timeoutMs?: number;
+  maxAmount?: number;     // Max atomic units we are willing to pay
+  pay?: boolean;          // false = report the 402 instead of paying (dry runs)
+  signal?: AbortSignal;   // Aborts the request (and skips paying) when triggered
+}
+
+export interface X402FetchResult {
+  status: number;
+  body: any;
+  paymentRequired?: X402PaymentRequired;
+  payment?: {
+    requirement: X402PaymentRequirements;
+    payer: string;
+    txSignature?: string;
+    response?: any;       // Decoded x-payment-response header, if the server sent one
+  };
+}
+
+/**
+ * Encode a JSON value for an x402 header
+ */
+export function encodeX402Header(value: any): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64');
+}
+
+/**
+ * Decode a base64 JSON x402 header (returns null if malformed)
+ */
+export function decodeX402Header<T = any>(header: string | undefined | null): T | null {
+  if (!header) return null;
+  try {
+    return JSON.parse(Buffer.from(header, 'base64').toString('utf8')) as T;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Demo payer: produces a receipt-style payload without moving funds.
+ * Accepted by Hivemind's own gated endpoints in demo mode.
+ */
+export const demoPayer: X402Payer = {
+  name: 'demo',
+  supports: () => true,
+  async pay(requirement: X402PaymentRequirements, resource: string): Promise<X402PaymentResult> {
+    const receipt = `demo-${Date.now()}-${Math.random().toString(36).slice(2, 12)}`;
+    return {
+      header: encodeX402Header({
+        x402Version: 2,
+        scheme: requirement.scheme,
+        network: requirement.network,
+        resource,
+        payload: { receipt },
+      }),
+      payer: 'demo',
+    };
+  },
+};
+
+/**
+ * Keypair payer: signs an SPL transferChecked for the exact amount to payTo.
+ * If the requirement names a feePayer (facilitator), the transaction is partially
+ * signed and left for the facilitator to co-sign and submit; otherwise the payer
+ * covers fees itself. The transfer is the only instruction: a co-signing fee payer
+ * refuses anything else (e.g. creating payTo's token account at its expense).
+ */
+export function createKeypairPayer(keypair: Keypair, rpcUrl: string = config.helius.devnet): X402Payer {
+  const connection = new Connection(rpcUrl, 'confirmed');
+
+  return {
+    name: `keypair:${keypair.publicKey.toBase58()}`,
+    supports: requirement => requirement.scheme === 'exact' && requirement.network.startsWith('solana'),
+    async pay(requirement: X402PaymentRequirements): Promise<X402PaymentResult> {
+      const mint = new PublicKey(requirement.asset);
+      const payTo = new PublicKey(requirement.payTo);
+      const feePayer = requirement.extra?.feePayer ? new PublicKey(requirement.extra.feePayer) : keypair.publicKey;
+
+      const mintInfo = await getMint(connection, mint);
+      const source = getAssociatedTokenAddressSync(mint, keypair.publicKey);
+      const destination = getAssociatedTokenAddressSync(mint, payTo, true);
+
+      const tx = new Transaction();
+      tx.add(
+        createTransferCheckedInstruction(
+          source,
+          mint,
+          destination,
+          keypair.publicKey,
+          BigInt(requirement.amount),
+          mintInfo.decimals
+        )
+      );
+      tx.feePayer = feePayer;
+      tx.recentBlockhash = (await connection.getLatestBlockhash()).blockhash;
+      tx.partialSign(keypair);
+
+      const transaction = tx.serialize({ requireAllSignatures: false }).toString('base64');
+
+      return {
+        header: encodeX402Header({
+          x402Version: 2,
+          accepted: requirement,
+          payload: { transaction },
+        }),
+        payer: keypair.publicKey.toBase58(),
+      };
+    },
+  };
+}
+
+/**
+ * Parse a secret key from base58 or a JSON byte array (solana-keygen format)
+ */
+export function parseSecretKey(secret: string): Keypair {
+  const trimmed = secret.trim();
+  const bytes = trimmed.startsWith('[')
+    ? Uint8Array.from(JSON.parse(trimmed))
+    : bs58.decode(trimmed);
+  return Keypair.fromSecretKey(bytes);
+}
+
+let defaultPayer: X402Payer | null = null;
+
+/**
+ * Override the default payer (pass null to restore the environment default)
+ */
+export function setX402Payer(payer: X402Payer | null): void {
+  defaultPayer = payer;
+}
+
+/**
+ * Default payer: explicit override, then X402_PAYER_SECRET_KEY, then the demo payer
+ */
+export function getX402Payer(): X402Payer {
+  if (defaultPayer) return defaultPayer;
+  if (process.env.X402_PAYER_SECRET_KEY) {
+    try {
+      defaultPayer = createKeypairPayer(parseSecretKey(process.env.X402_PAYER_SECRET_KEY));
+      return defaultPayer;
+    } catch (error: any) {
+      console.error('[x402-Client] Invalid X402_PAYER_SECRET_KEY, using demo payer:', error.message);
+    }
+  }
+  return demoPayer;
+}
+
+/**
+ * Read the payment requirements from a 402 response (header first, then body)
+ */
+function readPaymentRequired(headers: Record<string, any>, body: any): X402PaymentRequired | null {
+  const fromHeader = decodeX402Header<X402PaymentRequired>(headers['payment-required'] || headers['x-payment-required']);
+  if (fromHeader?.accepts?.length) return fromHeader;
+  if (Array.isArray(body?.accepts) && body.accepts.length > 0) {
+    return { x402Version: body.x402Version || 1, accepts: body.accepts, error: body.error };
+  }
+  return null;
+}
+
+/**
+ * POST to an x402-gated endpoint, paying once if the server asks for it
+ */
+export async function x402Fetch(url: string, body: any, options: X402FetchOptions = {}): Promise<X402FetchResult> {
+  const payer = options.payer || getX402Payer();
+  const request = (extraHeaders: Record<string, string> = {}) => axios.post(url, body, {
+    headers: { 'Content-Type': 'application/json', ...options.headers, ...extraHeaders },
+    timeout: options.timeoutMs || 30000,
+    signal: options.signal,
+    validateStatus: () => true,
+  });
+
+  const first = await request();
+  if (first.status !== 402) {
+    return { status: first.status, body: first.data };
+  }
+
+  const paymentRequired = readPaymentRequired(first.headers, first.data);
+  if (!paymentRequired) {
+    throw new Error(`402 from ${url} without payment requirements`);
+  }
+
+  const requirement = paymentRequired.accepts.find(r => payer.supports(r));
+  if (!requirement) {
+    throw new Error(`No supported payment option from ${url} (payer: ${payer.name})`);
+  }
+  if (options.maxAmount !== undefined && Number(requirement.amount) > options.maxAmount) {
+    throw new Error(`Payment of ${requirement.amount} exceeds limit ${options.maxAmount} for ${url}`);
+  }
+  if (options.pay === false) {
+    return { status: 402, body: first.data, paymentRequired };
+  }
+  if (options.signal?.aborted) {
+    throw new Error(`Request to ${url} aborted before payment`);
+  }
+
+  console.log(`[x402-Client] Paying ${requirement.amount} (${requirement.asset.slice(0, 8)}...) to ${requirement.payTo.slice(0, 8)}... via ${payer.name}`);
+  const payment = await payer.pay(requirement, url);
+
+  const second = await request({ 'x-payment': payment.header });
+  const paymentResponse = decodeX402Header(second.headers['x-payment-response'] || second.headers['payment-response']);
+
+  if (second.status === 402) {
+    throw new Error(`Payment rejected by ${url}: ${second.data?.error || 'unknown error'}`);
+  }
+
+  return {
+    status: second.status,
+    body: second.data,
+    paymentRequired,
+    payment: {
+      requirement,
+      payer: payment.payer,
+      txSignature: paymentResponse?.transaction || payment.txSignature,
+      response: paymentResponse || undefined,
+    },
+  };
+}
+
+export default {
+  x402Fetch,
+  getX402Payer,
+  setX402Payer,
+  createKeypairPayer,
+  parseSecretKey,
+  demoPayer,
+  encodeX402Header,
+  decodeX402Header,
+};
@@ -0,0 +1,256 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from '@jest/globals';
+import { ComputeBudgetProgram, Keypair, PublicKey, SystemProgram, TransactionInstruction, TransactionMessage, VersionedTransaction } from '@solana/web3.js';
+import { createTransferCheckedInstruction, getAssociatedTokenAddressSync } from '@solana/spl-token';
+import {
+  createFacilitatorVerifier,
+  createSolanaVerifier,
+  PaymentVerifier,
+  settlePayment,
+  verifyPaymentHeader,
+  X402PaymentPayload,
+} from './x402-verify';
+import { encodeX402Header } from './x402-client';
+import { X402PaymentRequirements } from './types';
+
+const MINT = new PublicKey('4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU');
+const payTo = Keypair.generate().publicKey;
+const payer = Keypair.generate();
+const feePayer = Keypair.generate();
+
+const REQUIREMENT: X402PaymentRequirements = {
+  scheme: 'exact',
+  network: 'solana:EtWTRABZaYq6iMfeYKouRu166VU2xqa1',
+  asset: MINT.toBase58(),
+  amount: '50000',
+  payTo: payTo.toBase58(),
+  extra: { feePayer: feePayer.publicKey.toBase58() },
+};
+
+const paymentHeader = (payload: X402PaymentPayload['payload'], accepted: X402PaymentRequirements = REQUIREMENT) =>
+  encodeX402Header({ x402Version: 2, accepted, payload });
+
+// ============================================
+// Facilitator stub
+// ============================================
+
+const calls: Array<{ route: string; body: any }> = [];
+let facilitatorReply: Record<string, any> = {};
+
+const facilitator = http.createServer((req, res) => {
+  let raw = '';
+  req.on('data', chunk => (raw += chunk));
+  req.on('end', () => {
+    const route = (req.url || '').replace(/^\//, '');
+    calls.push({ route, body: JSON.parse(raw) });
+    const reply = facilitatorReply[route];
+    res.writeHead(reply ? 200 : 500, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(reply || { error: `no ${route} reply` }));
+  });
+});
+
+let verifier: PaymentVerifier;
+
+beforeAll(async () => {
+  await new Promise<void>(resolve => facilitator.listen(0, '127.0.0.1', resolve));
+  verifier = createFacilitatorVerifier(`http://127.0.0.1:${(facilitator.address() as AddressInfo).port}/`);
+});
+
+afterAll(async () => {
+  await new Promise(resolve => facilitator.close(resolve));
+});
+
+beforeEach(() => {
+  calls.length = 0;
+  facilitatorReply = {};
+});
+
+describe('facilitator verifier', () => {
+  it('verifies and settles through /verify and /settle', async () => {
+    facilitatorReply = {
+      verify: { isValid: true, payer: 'payer1' },
+      settle: { success: true, transaction: 'sig1', network: REQUIREMENT.network, payer: 'payer1' },
+    };
+
+    const check = await verifyPaymentHeader(paymentHeader({ transaction: 'dHg=' }), [REQUIREMENT], verifier);
+    expect(check.valid).toBe(true);
+    expect(check.requirement).toEqual(REQUIREMENT);
+    expect(check.verification).toMatchObject({ isValid: true, payer: 'payer1' });
+    expect(check.verification?.txId).toBeTruthy();
+
+    const settled = await settlePayment(check, verifier);
+    expect(settled).toEqual({ success: true, transaction: 'sig1', network: REQUIREMENT.network, payer: 'payer1', errorReason: undefined });
+
+    expect(calls.map(c => c.route)).toEqual(['verify', 'settle']);
+    expect(calls[0].body).toMatchObject({ x402Version: 2, paymentRequirements: REQUIREMENT, paymentPayload: { payload: { transaction: 'dHg=' } } });
+  });
+
+  it('passes on the reason a payment is invalid', async () => {
+    facilitatorReply = { verify: { isValid: false, invalidReason: 'insufficient_funds' } };
+
+    const check = await verifyPaymentHeader(paymentHeader({ transaction: 'dHg=' }), [REQUIREMENT], verifier);
+
+    expect(check).toMatchObject({ valid: false, reason: 'insufficient_funds' });
+  });
+
+  it('fails when the facilitator errors', async () => {
+    const check = await verifyPaymentHeader(paymentHeader({ transaction: 'dHg=' }), [REQUIREMENT], verifier);
+
+    expect(check.valid).toBe(false);
+    expect(check.reason).toMatch(/Facilitator verify failed: no verify reply/);
+  });
+
+  it('does not settle a payment that failed verification', async () => {
+    const settled = await settlePayment({ valid: false, reason: 'bad' }, verifier);
+
+    expect(settled).toMatchObject({ success: false, errorReason: 'bad' });
+    expect(calls).toHaveLength(0);
+  });
+
+  it('never asks the facilitator about a payment for a requirement we did not issue', async () => {
+    const check = await verifyPaymentHeader(paymentHeader({ transaction: 'dHg=' }, { ...REQUIREMENT, amount: '1' }), [REQUIREMENT], verifier);
+
+    expect(check).toMatchObject({ valid: false, reason: 'Amount mismatch: expected 50000, got 1' });
+    expect(calls).toHaveLength(0);
+  });
+
+  it('rejects demo receipts unless they are explicitly accepted', async () => {
+    facilitatorReply = { verify: { isValid: false, invalidReason: 'not a transaction' } };
+
+    const check = await verifyPaymentHeader(paymentHeader({ receipt: 'demo-123' }), [REQUIREMENT], verifier);
+
+    expect(check).toMatchObject({ valid: false, reason: 'not a transaction' });
+    expect(calls.map(c => c.route)).toEqual(['verify']);
+  });
+});
+
+// ============================================
+// Local instruction checks
+// ============================================
+
+const source = getAssociatedTokenAddressSync(MINT, payer.publicKey);
+const destination = getAssociatedTokenAddressSync(MINT, payTo, true);
+
+function transferTx(
+  options: { amount?: bigint; to?: PublicKey; authority?: Keypair; budget?: TransactionInstruction[]; extra?: TransactionInstruction[] } = {}
+): string {
+  const authority = options.authority || payer;
+  const message = new TransactionMessage({
+    payerKey: feePayer.publicKey,
+    recentBlockhash: Keypair.generate().publicKey.toBase58(),
+    instructions: [
+      ...(options.budget || [ComputeBudgetProgram.setComputeUnitLimit({ units: 20000 }), ComputeBudgetProgram.setComputeUnitPrice({ microLamports: 1000 })]),
+      createTransferCheckedInstruction(
+        getAssociatedTokenAddressSync(MINT, authority.publicKey),
+        MINT,
+        options.to || destination,
+        authority.publicKey,
+        options.amount ?? 50000n,
+        6
+      ),
+      ...(options.extra || []),
+    ],
+  }).compileToV0Message();
+  const tx = new VersionedTransaction(message);
+  tx.sign([authority]);
+  return Buffer.from(tx.serialize()).toString('base64');
+}
+
+describe('solana verifier', () => {
+  const solanaVerifier = createSolanaVerifier({ rpcUrl: 'http://127.0.0.1:1', feePayerKeypair: feePayer });
+  const verify = (transaction: string, verifierUnderTest: PaymentVerifier = solanaVerifier) =>
+    verifyPaymentHeader(paymentHeader({ transaction }), [REQUIREMENT], verifierUnderTest);
+
+  it('accepts a signed transferChecked it can co-sign as fee payer', async () => {
+    const check = await verify(transferTx());
+
+    expect(check.valid).toBe(true);
+    expect(check.verification?.payer).toBe(payer.publicKey.toBase58());
+  });
+
+  it('uses the transfer authority signature as the replay id', async () => {
+    const first = await verify(transferTx());
+    const second = await verify(transferTx());
+
+    expect(first.verification?.txId).toBeTruthy();
+    expect(first.verification?.txId).not.toBe(second.verification?.txId);
+  });
+
+  it('rejects instructions other than compute budget and the transfer', async () => {
+    const drain = SystemProgram.transfer({ fromPubkey: payer.publicKey, toPubkey: Keypair.generate().publicKey, lamports: 1 });
+
+    const check = await verify(transferTx({ extra: [drain] }));
+
+    expect(check).toMatchObject({ valid: false, reason: `Unexpected instruction for program ${SystemProgram.programId.toBase58()}` });
+  });
+
+  it('rejects a priority fee that would drain the fee payer', async () => {
+    const budget = [ComputeBudgetProgram.setComputeUnitLimit({ units: 200000 }), ComputeBudgetProgram.setComputeUnitPrice({ microLamports: 10_000_000_000 })];
+
+    const check = await verify(transferTx({ budget }));
+
+    expect(check).toMatchObject({ valid: false, reason: 'Compute unit price 10000000000 exceeds 50000 micro-lamports' });
+  });
+
+  it('rejects a compute unit limit over the cap', async () => {
+    const check = await verify(transferTx({ budget: [ComputeBudgetProgram.setComputeUnitLimit({ units: 1_400_000 })] }));
+
+    expect(check).toMatchObject({ valid: false, reason: 'Compute unit limit 1400000 exceeds 200000' });
+  });
+
+  it('rejects repeated compute budget instructions', async () => {
+    const price = ComputeBudgetProgram.setComputeUnitPrice({ microLamports: 1000 });
+
+    const check = await verify(transferTx({ budget: [price, price] }));
+
+    expect(check).toMatchObject({ valid: false, reason: 'Duplicate SetComputeUnitPrice instruction' });
+  });
+
+  it('rejects other compute budget instructions', async () => {
+    const check = await verify(transferTx({ budget: [ComputeBudgetProgram.requestHeapFrame({ bytes: 256 * 1024 })] }));
+
+    expect(check).toMatchObject({ valid: false, reason: 'Compute budget instruction RequestHeapFrame is not allowed' });
+  });
+
+  it('rejects a second transfer', async () => {
+    const second = createTransferCheckedInstruction(source, MINT, destination, payer.publicKey, 1n, 6);
+
+    const check = await verify(transferTx({ extra: [second] }));
+
+    expect(check).toMatchObject({ valid: false, reason: 'Expected exactly one transferChecked instruction, found 2' });
+  });
+
+  it('rejects a transfer the fee payer authorizes', async () => {
+    const check = await verify(transferTx({ authority: feePayer }));
+
+    expect(check).toMatchObject({ valid: false, reason: 'Fee payer may not be a source or authority of the payment' });
+  });
+
+  it('rejects the wrong amount', async () => {
+    const check = await verify(transferTx({ amount: 49999n }));
+
+    expect(check).toMatchObject({ valid: false, reason: 'Transfer amount 49999 does not match 50000' });
+  });
+
+  it('rejects a transfer to someone other than payTo', async () => {
+    const check = await verify(transferTx({ to: getAssociatedTokenAddressSync(MINT, Keypair.generate().publicKey) }));
+
+    expect(check).toMatchObject({ valid: false, reason: 'Transfer destination does not match payTo' });
+  });
+
+  it('rejects a tampered signature', async () => {
+    const tx = VersionedTransaction.deserialize(Buffer.from(transferTx(), 'base64'));
+    tx.signatures[1][0] ^= 0xff;
+
+    const check = await verify(Buffer.from(tx.serialize()).toString('base64'));
+
+    expect(check).toMatchObject({ valid: false, reason: `Invalid signature for ${payer.publicKey.toBase58()}` });
+  });
+
+  it('requires the fee payer signature when it has no key to co-sign with', async () => {
+    const check = await verify(transferTx(), createSolanaVerifier({ rpcUrl: 'http://127.0.0.1:1' }));
+
+    expect(check).toMatchObject({ valid: false, reason: `Missing signature for ${feePayer.publicKey.toBase58()}` });
+  });
+});
@@ -0,0 +1,477 @@
+/**
+ * x402 Payment Verification
+ * Verifies and settles x402 payment payloads sent to Hivemind's gated endpoints.
+ * The verifier is pluggable: a local Solana verifier (default), an HTTP facilitator,
+ * or any stub implementing PaymentVerifier.
+ */
+
+import axios from 'axios';
+import * as crypto from 'crypto';
+import bs58 from 'bs58';
+import nacl from 'tweetnacl';
+import { ComputeBudgetInstruction, ComputeBudgetProgram, Connection, Keypair, PublicKey, TransactionInstruction, TransactionMessage, VersionedTransaction } from '@solana/web3.js';
+import {
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+  TokenInstruction,
+  decodeTransferCheckedInstruction,
+  getAssociatedTokenAddressSync,
+} from '@solana/spl-token';
+import config from './config';
+import { decodeX402Header, parseSecretKey } from './x402-client';
+import { X402PaymentRequirements } from './types';
+
+/**
+ * Decoded x-payment / payment-signature header
+ */
+export interface X402PaymentPayload {
+  x402Version: number;
+  accepted?: X402PaymentRequirements;  // v2: the option the client chose
+  scheme?: string;                     // v1 / demo receipts
+  network?: string;
+  resource?: string;
+  payload: {
+    transaction?: string;              // base64 serialized Solana transaction
+    receipt?: string;                  // demo receipt
+    [key: string]: any;
+  };
+}
+
+export interface VerifyResult {
+  isValid: boolean;
+  invalidReason?: string;
+  payer?: string;
+  txId?: string;         // Stable id of the verified payment, used for replay protection
+}
+
+export interface SettleResult {
+  success: boolean;
+  errorReason?: string;
+  transaction?: string;  // On-chain signature (or receipt id)
+  network: string;
+  payer?: string;
+}
+
+/**
+ * Verifies and settles a payment against the requirement it claims to satisfy
+ */
+export interface PaymentVerifier {
+  name: string;
+  verify(payment: X402PaymentPayload, requirement: X402PaymentRequirements): Promise<VerifyResult>;
+  settle(payment: X402PaymentPayload, requirement: X402PaymentRequirements): Promise<SettleResult>;
+}
+
+/**
+ * Outcome of checking a payment header against the accepts list we issued
+ */
+export interface PaymentCheck {
+  valid: boolean;
+  reason?: string;
+  payment?: X402PaymentPayload;
+  requirement?: X402PaymentRequirements;
+  verification?: VerifyResult;
+}
+
+/**
+ * Decode a raw payment header into a payload (null if malformed)
+ */
+export function decodePaymentHeader(header: string | undefined | null): X402PaymentPayload | null {
+  const decoded = decodeX402Header<X402PaymentPayload>(header);
+  if (!decoded || typeof decoded !== 'object' || !decoded.payload || typeof decoded.payload !== 'object') {
+    return null;
+  }
+  return decoded;
+}
+
+/**
+ * Find the accepts entry a payment refers to.
+ * v2 payloads echo the full requirement and every field must match what we issued;
+ * older payloads only name scheme + network.
+ */
+export function matchRequirement(
+  payment: X402PaymentPayload,
+  accepts: X402PaymentRequirements[]
+): { requirement?: X402PaymentRequirements; reason?: string } {
+  if (payment.accepted) {
+    const a = payment.accepted;
+    const sameOption = accepts.filter(r => r.scheme === a.scheme && r.network === a.network);
+    if (sameOption.length === 0) return { reason: `Unsupported scheme/network: ${a.scheme}/${a.network}` };
+
+    const requirement = sameOption.find(r => r.asset === a.asset && r.payTo === a.payTo && String(r.amount) === String(a.amount));
+    if (!requirement) {
+      const r = sameOption[0];
+      if (r.asset !== a.asset) return { reason: `Asset mismatch: expected ${r.asset}` };
+      if (r.payTo !== a.payTo) return { reason: `payTo mismatch: expected ${r.payTo}` };
+      return { reason: `Amount mismatch: expected ${r.amount}, got ${a.amount}` };
+    }
+    return { requirement };
+  }
+
+  const requirement = accepts.find(r => r.scheme === (payment.scheme || 'exact') && (!payment.network || r.network === payment.network));
+  return requirement ? { requirement } : { reason: `Unsupported scheme/network: ${payment.scheme}/${payment.network}` };
+}
+
+// ============================================
+// Solana transaction helpers
+// ============================================
+
+interface DecodedTransfer {
+  tx: VersionedTransaction;
+  payer: PublicKey;          // Transfer authority
+  payerSignature: string;    // bs58 signature of the transfer authority
+  feePayer: PublicKey;
+  missingSigners: PublicKey[];
+}
+
+/**
+ * Check a payment's compute budget instructions: at most one unit limit and one
+ * unit price, within the configured caps, since the fee payer pays for them
+ */
+function computeBudgetProblem(instructions: TransactionInstruction[]): string | null {
+  const seen = new Set<string>();
+  for (const ix of instructions) {
+    let type: string;
+    try {
+      type = ComputeBudgetInstruction.decodeInstructionType(ix);
+    } catch {
+      return 'Unsupported compute budget instruction';
+    }
+    if (type !== 'SetComputeUnitLimit' && type !== 'SetComputeUnitPrice') {
+      return `Compute budget instruction ${type} is not allowed`;
+    }
+    if (seen.has(type)) return `Duplicate ${type} instruction`;
+    seen.add(type);
+
+    if (type === 'SetComputeUnitLimit') {
+      const { units } = ComputeBudgetInstruction.decodeSetComputeUnitLimit(ix);
+      if (units > config.x402.maxComputeUnitLimit) {
+        return `Compute unit limit ${units} exceeds ${config.x402.maxComputeUnitLimit}`;
+      }
+    } else {
+      const { microLamports } = ComputeBudgetInstruction.decodeSetComputeUnitPrice(ix);
+      if (BigInt(microLamports) > BigInt(config.x402.maxComputeUnitPrice)) {
+        return `Compute unit price ${microLamports} exceeds ${config.x402.maxComputeUnitPrice} micro-lamports`;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Decode a payment transaction and check it pays exactly `requirement`.
+ * Only capped compute-budget instructions and the one transferChecked are allowed, and
+ * the fee payer may not appear in any of them, since we co-sign as the fee payer.
+ */
+function decodeTransfer(transaction: string, requirement: X402PaymentRequirements): { transfer?: DecodedTransfer; reason?: string } {
+  let tx: VersionedTransaction;
+  try {
+    tx = VersionedTransaction.deserialize(Buffer.from(transaction, 'base64'));
+  } catch {
+    return { reason: 'Malformed transaction' };
+  }
+
+  if (tx.message.addressTableLookups?.length) {
+    return { reason: 'Address lookup tables are not supported' };
+  }
+
+  const instructions = TransactionMessage.decompile(tx.message).instructions;
+  const isTransfer = (ix: typeof instructions[number]) =>
+    (ix.programId.equals(TOKEN_PROGRAM_ID) || ix.programId.equals(TOKEN_2022_PROGRAM_ID)) &&
+    ix.data[0] === TokenInstruction.TransferChecked;
+  const transfers = instructions.filter(isTransfer);
+  if (transfers.length !== 1) {
+    return { reason: `Expected exactly one transferChecked instruction, found ${transfers.length}` };
+  }
+  const other = instructions.find(ix => !isTransfer(ix) && !ix.programId.equals(ComputeBudgetProgram.programId));
+  if (other) {
+    return { reason: `Unexpected instruction for program ${other.programId.toBase58()}` };
+  }
+  const budgetProblem = computeBudgetProblem(instructions.filter(ix => ix.programId.equals(ComputeBudgetProgram.programId)));
+  if (budgetProblem) return { reason: budgetProblem };
+
+  // The fee payer's key must not be usable as a source or authority
+  const feePayer = tx.message.staticAccountKeys[0];
+  if (instructions.some(ix => ix.keys.some(key => key.pubkey.equals(feePayer)))) {
+    return { reason: 'Fee payer may not be a source or authority of the payment' };
+  }
+
+  let decoded;
+  try {
+    decoded = decodeTransferCheckedInstruction(transfers[0], transfers[0].programId);
+  } catch (error: any) {
+    return { reason: `Invalid transfer instruction: ${error.message}` };
+  }
+
+  const mint = new PublicKey(requirement.asset);
+  const expectedDestination = getAssociatedTokenAddressSync(mint, new PublicKey(requirement.payTo), true, decoded.programId);
+
+  if (!decoded.keys.mint.pubkey.equals(mint)) return { reason: 'Transfer mint does not match asset' };
+  if (!decoded.keys.destination.pubkey.equals(expectedDestination)) return { reason: 'Transfer destination does not match payTo' };
+  if (decoded.data.amount !== BigInt(requirement.amount)) {
+    return { reason: `Transfer amount ${decoded.data.amount} does not match ${requirement.amount}` };
+  }
+
+  // Check every present signature and collect the ones still missing
+  const message = tx.message.serialize();
+  const signerKeys = tx.message.staticAccountKeys.slice(0, tx.message.header.numRequiredSignatures);
+  const missingSigners: PublicKey[] = [];
+  for (let i = 0; i < signerKeys.length; i++) {
+    const signature = tx.signatures[i];
+    if (!signature || signature.every(b => b === 0)) {
+      missingSigners.push(signerKeys[i]);
+      continue;
+    }
+    if (!nacl.sign.detached.verify(message, signature, signerKeys[i].toBytes())) {
+      return { reason: `Invalid signature for ${signerKeys[i].toBase58()}` };
+    }
+  }
+
+  const payer = decoded.keys.owner.pubkey;
+  const payerIndex = signerKeys.findIndex(k => k.equals(payer));
+  if (payerIndex === -1 || missingSigners.some(k => k.equals(payer))) {
+    return { reason: 'Transfer is not signed by its authority' };
+  }
+
+  return {
+    transfer: {
+      tx,
+      payer,
+      payerSignature: bs58.encode(tx.signatures[payerIndex]),
+      feePayer,
+      missingSigners,
+    },
+  };
+}
+
+/**
+ * Replay key for a payment: the transfer authority's signature when the payload
+ * carries a decodable transaction, otherwise a hash of the payload itself
+ */
+export function paymentId(payment: X402PaymentPayload): string {
+  if (payment.payload.transaction) {
+    try {
+      const tx = VersionedTransaction.deserialize(Buffer.from(payment.payload.transaction, 'base64'));
+      const signed = tx.signatures.find(s => !s.every(b => b === 0));
+      if (signed) return bs58.encode(signed);
+    } catch {
+      // Fall through to the payload hash
+    }
+  }
+  if (payment.payload.receipt) return `receipt:${payment.payload.receipt}`;
+  return crypto.createHash('sha256').update(JSON.stringify(payment.payload)).digest('hex');
+}
+
+// ============================================
+// Verifiers
+// ============================================
+
+/**
+ * Local Solana verifier: checks the signed transfer itself and submits it.
+ * When the requirement names a feePayer, `feePayerKeypair` must be that key so the
+ * transaction can be co-signed before submission.
+ */
+export function createSolanaVerifier(options: { rpcUrl?: string; feePayerKeypair?: Keypair } = {}): PaymentVerifier {
+  const connection = new Connection(options.rpcUrl || config.helius.devnet, 'confirmed');
+
+  return {
+    name: 'solana',
+
+    async verify(payment, requirement) {
+      if (!payment.payload.transaction) {
+        return { isValid: false, invalidReason: 'Payment payload has no transaction' };
+      }
+      const { transfer, reason } = decodeTransfer(payment.payload.transaction, requirement);
+      if (!transfer) return { isValid: false, invalidReason: reason };
+
+      for (const missing of transfer.missingSigners) {
+        const canCoSign = options.feePayerKeypair && missing.equals(options.feePayerKeypair.publicKey);
+        if (!canCoSign) {
+          return { isValid: false, invalidReason: `Missing signature for ${missing.toBase58()}`, payer: transfer.payer.toBase58() };
+        }
+      }
+
+      return { isValid: true, payer: transfer.payer.toBase58(), txId: transfer.payerSignature };
+    },
+
+    async settle(payment, requirement) {
+      const { transfer, reason } = decodeTransfer(payment.payload.transaction || '', requirement);
+      if (!transfer) return { success: false, errorReason: reason, network: requirement.network };
+
+      try {
+        if (transfer.missingSigners.length > 0 && options.feePayerKeypair) {
+          transfer.tx.sign([options.feePayerKeypair]);
+        }
+        const signature = await connection.sendRawTransaction(transfer.tx.serialize());
+        const confirmation = await connection.confirmTransaction(signature, 'confirmed');
+        if (confirmation.value.err) {
+          return { success: false, errorReason: JSON.stringify(confirmation.value.err), network: requirement.network, transaction: signature };
+        }
+        console.log(`[x402-Verify] Settled ${requirement.amount} from ${transfer.payer.toBase58().slice(0, 8)}...: ${signature}`);
+        return { success: true, transaction: signature, network: requirement.network, payer: transfer.payer.toBase58() };
+      } catch (error: any) {
+        return { success: false, errorReason: error.message, network: requirement.network };
+      }
+    },
+  };
+}
+
+/**
+ * HTTP facilitator verifier: delegates to a facilitator's /verify and /settle endpoints
+ */
+export function createFacilitatorVerifier(url: string, options: { timeoutMs?: number } = {}): PaymentVerifier {
+  const baseUrl = url.replace(/\/$/, '');
+  const post = async (route: string, payment: X402PaymentPayload, requirement: X402PaymentRequirements) => {
+    const response = await axios.post(`${baseUrl}/${route}`, {
+      x402Version: payment.x402Version,
+      paymentPayload: payment,
+      paymentRequirements: requirement,
+    }, { timeout: options.timeoutMs || 30000 });
+    return response.data;
+  };
+
+  return {
+    name: `facilitator:${baseUrl}`,
+
+    async verify(payment, requirement) {
+      try {
+        const data = await post('verify', payment, requirement);
+        return {
+          isValid: !!data?.isValid,
+          invalidReason: data?.invalidReason,
+          payer: data?.payer,
+          txId: paymentId(payment),
+        };
+      } catch (error: any) {
+        return { isValid: false, invalidReason: `Facilitator verify failed: ${error.response?.data?.error || error.message}` };
+      }
+    },
+
+    async settle(payment, requirement) {
+      try {
+        const data = await post('settle', payment, requirement);
+        return {
+          success: !!data?.success,
+          errorReason: data?.errorReason,
+          transaction: data?.transaction,
+          network: data?.network || requirement.network,
+          payer: data?.payer,
+        };
+      } catch (error: any) {
+        return { success: false, errorReason: `Facilitator settle failed: ${error.response?.data?.error || error.message}`, network: requirement.network };
+      }
+    },
+  };
+}
+
+/**
+ * Accepts receipts produced by the demo payer. Only used when X402_ACCEPT_DEMO_RECEIPTS is set
+ * (and payments are not enforced), since anyone can make one up.
+ */
+export const demoReceiptVerifier: PaymentVerifier = {
+  name: 'demo',
+  async verify(payment) {
+    const receipt = payment.payload.receipt;
+    if (typeof receipt !== 'string' || !receipt.startsWith('demo-')) {
+      return { isValid: false, invalidReason: 'Not a demo receipt' };
+    }
+    return { isValid: true, payer: 'demo', txId: `receipt:${receipt}` };
+  },
+  async settle(payment, requirement) {
+    return { success: true, transaction: payment.payload.receipt, network: requirement.network, payer: 'demo' };
+  },
+};
+
+let verifierOverride: PaymentVerifier | null = null;
+let defaultVerifier: PaymentVerifier | null = null;
+
+/**
+ * Override the payment verifier (pass null to restore the environment default)
+ */
+export function setPaymentVerifier(verifier: PaymentVerifier | null): void {
+  verifierOverride = verifier;
+}
+
+/**
+ * Active verifier: explicit override, then X402_FACILITATOR_URL, then the local Solana verifier
+ */
+export function getPaymentVerifier(): PaymentVerifier {
+  if (verifierOverride) return verifierOverride;
+  if (!defaultVerifier) {
+    if (process.env.X402_FACILITATOR_URL) {
+      defaultVerifier = createFacilitatorVerifier(process.env.X402_FACILITATOR_URL);
+    } else {
+      defaultVerifier = createSolanaVerifier({ feePayerKeypair: getFeePayerKeypair() || undefined });
+    }
+  }
+  return defaultVerifier;
+}
+
+let feePayerKeypair: Keypair | null | undefined;
+
+/**
+ * Keypair used to co-sign and pay fees for incoming payments (X402_FEE_PAYER_SECRET_KEY)
+ */
+export function getFeePayerKeypair(): Keypair | null {
+  if (feePayerKeypair === undefined) {
+    feePayerKeypair = null;
+    if (process.env.X402_FEE_PAYER_SECRET_KEY) {
+      try {
+        feePayerKeypair = parseSecretKey(process.env.X402_FEE_PAYER_SECRET_KEY);
+      } catch (error: any) {
+        console.error('[x402-Verify] Invalid X402_FEE_PAYER_SECRET_KEY:', error.message);
+      }
+    }
+  }
+  return feePayerKeypair;
+}
+
+/**
+ * Decode a payment header, match it against the accepts we issued and verify it
+ */
+export async function verifyPaymentHeader(
+  header: string,
+  accepts: X402PaymentRequirements[],
+  verifier: PaymentVerifier = getPaymentVerifier()
+): Promise<PaymentCheck> {
+  const payment = decodePaymentHeader(header);
+  if (!payment) return { valid: false, reason: 'Malformed payment header' };
+
+  const { requirement, reason } = matchRequirement(payment, accepts);
+  if (!requirement) return { valid: false, reason, payment };
+
+  const activeVerifier = payment.payload.receipt && config.acceptDemoReceipts ? demoReceiptVerifier : verifier;
+  const verification = await activeVerifier.verify(payment, requirement);
+  if (!verification.isValid) {
+    return { valid: false, reason: verification.invalidReason || 'Payment verification failed', payment, requirement, verification };
+  }
+
+  return { valid: true, payment, requirement, verification: { ...verification, txId: verification.txId || paymentId(payment) } };
+}
+
+/**
+ * Settle a verified payment with the verifier that verified it
+ */
+export async function settlePayment(
+  check: PaymentCheck,
+  verifier: PaymentVerifier = getPaymentVerifier()
+): Promise<SettleResult> {
+  if (!check.valid || !check.payment || !check.requirement) {
+    return { success: false, errorReason: check.reason || 'Payment not verified', network: check.requirement?.network || 'unknown' };
+  }
+  const activeVerifier = check.payment.payload.receipt && config.acceptDemoReceipts ? demoReceiptVerifier : verifier;
+  return activeVerifier.settle(check.payment, check.requirement);
+}
+
+export default {
+  verifyPaymentHeader,
+  settlePayment,
+  decodePaymentHeader,
+  matchRequirement,
+  paymentId,
+  createSolanaVerifier,
+  createFacilitatorVerifier,
+  demoReceiptVerifier,
+  setPaymentVerifier,
+  getPaymentVerifier,
+  getFeePayerKeypair,
+};
@@ -39,6 +39,23 @@ const SPECIALIST_NAMES: Record<string, string> = {
   'multi-hop': 'Multi-hop Orchestrator',
 };
 
+// Statuses that end a task without a result
+type FailureStatus = 'failed' | 'budget_exceeded' | 'cancelled' | 'timed_out';
+
+const FAILURE_MESSAGES: Record<FailureStatus, string> = {
+  failed: 'Task failed',
+  budget_exceeded: 'Spending budget reached',
+  cancelled: 'Task cancelled',
+  timed_out: 'Task timed out',
+};
+
+const FAILURE_DETAILS: Record<FailureStatus, string> = {
+  failed: 'An unexpected error occurred',
+  budget_exceeded: 'Stopped before paying: this would exceed your spending budget',
+  cancelled: 'The task was cancelled before it finished',
+  timed_out: 'A specialist took too long to respond',
+};
+
 const SPECIALIST_FEES: Record<string, number> = {
   bankr: 0.0001,
   scribe: 0.0001,
@@ -100,7 +117,12 @@ export default function CommandCenter() {
     messages,
     payments,
     result,
+    workflowNodes,
+    chunks,
+    confirmation,
     subscribe,
+    cancel,
+    confirm,
     reset,
   } = useWebSocket();
 
@@ -120,6 +142,18 @@ export default function CommandCenter() {
     localStorage.setItem('queryHistory', JSON.stringify(queryHistory));
   }, [queryHistory]);
 
+  // Custom instructions are stored server-side against the API key
+  useEffect(() => {
+    fetch(`${API_URL}/v1/instructions`, {
+      headers: { 'X-API-Key': process.env.NEXT_PUBLIC_API_KEY || 'demo-key' },
+    })
+      .then(res => (res.ok ? res.json() : null))
+      .then(data => {
+        if (data?.instructions) setCustomInstructions(data.instructions);
+      })
+      .catch(e => console.error('Failed to load custom instructions', e));
+  }, []);
+
   // Add activity when task status changes
   useEffect(() => {
     if (taskStatus && currentTaskId) {
@@ -138,6 +172,10 @@ export default function CommandCenter() {
           message = `Awaiting payment confirmation`;
           type = 'processing';
           break;
+        case 'awaiting_confirmation':
+          message = `Waiting for you to confirm the trade`;
+          type = 'processing';
+          break;
         case 'processing':
           message = `Processing with ${specialistName}`;
           type = 'processing';
@@ -226,8 +264,11 @@ export default function CommandCenter() {
             });
           }
           break;
+        case 'budget_exceeded':
+        case 'cancelled':
+        case 'timed_out':
         case 'failed':
-          message = `Task failed`;
+          message = FAILURE_MESSAGES[taskStatus];
           type = 'error';
           setIsLoading(false);
           const totalCostFailed = payments.reduce((sum, p) => sum + p.amount, 0);
@@ -236,7 +277,7 @@ export default function CommandCenter() {
           setLastResult({
             query: currentPrompt,
             status: 'failure',
-            result: error || 'An unexpected error occurred',
+            result: error || FAILURE_DETAILS[taskStatus],
             cost: totalCostFailed,
             specialist: SPECIALIST_NAMES[specialistIdFailed] || specialistIdFailed,
             taskId: currentTaskId || undefined,
@@ -467,8 +508,21 @@ export default function CommandCenter() {
       ...prev,
       [agentId]: instructions
     }));
+
+    fetch(`${API_URL}/v1/instructions/${agentId}`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-API-Key': process.env.NEXT_PUBLIC_API_KEY || 'demo-key',
+      },
+      body: JSON.stringify({ instructions }),
+    }).catch(e => console.error('Failed to save custom instructions', e));
   }, []);
 
+  const handleCancel = useCallback(() => {
+    if (currentTaskId) cancel(currentTaskId);
+  }, [currentTaskId, cancel]);
+
   const handleReRun = useCallback((prompt: string) => {
     setReRunPrompt(prompt);
     setActiveView('dispatch');
@@ -485,7 +539,7 @@ export default function CommandCenter() {
         setShowAddToSwarm(pendingAdd);
         delete (window as any).__pendingSwarmAdd;
       }
-    } else if (taskStatus === 'failed') {
+    } else if (taskStatus && taskStatus in FAILURE_MESSAGES) {
       setIsLoading(false);
       delete (window as any).__pendingSwarmAdd;
     }
@@ -621,6 +675,7 @@ export default function CommandCenter() {
                     <TaskInput 
                       key="task-input"
                       onSubmit={handleSubmit} 
+                      onCancel={handleCancel}
                       isLoading={isLoading}
                       disabled={false}
                       initialAgentId={preSelectedAgent}
@@ -646,6 +701,7 @@ export default function CommandCenter() {
                       currentStep={currentStep}
                       taskStatus={taskStatus}
                       hiredAgents={hiredAgents}
+                      workflowNodes={workflowNodes}
                       onAgentClick={(specialist) => setSelectedAgent(specialist)}
                     />
                   </motion.div>
@@ -702,6 +758,7 @@ export default function CommandCenter() {
                   <ResultDisplay 
                     taskStatus={taskStatus} 
                     result={result}
+                    chunks={chunks}
                     error={error || undefined}
                   />
                 </motion.div>
@@ -771,6 +828,19 @@ export default function CommandCenter() {
         />
       )}
 
+      {/* Confirmation for bankr trades the task is waiting on */}
+      {confirmation && currentTaskId && (
+        <ApprovalPopup
+          isOpen={true}
+          specialist="bankr"
+          specialistInfo={{ name: SPECIALIST_NAMES.bankr, description: '', fee: String(SPECIALIST_FEES.bankr), feeCurrency: 'USDC' }}
+          prompt={confirmation.prompt}
+          confirmation={confirmation}
+          onApprove={() => confirm(currentTaskId, true)}
+          onCancel={() => confirm(currentTaskId, false)}
+        />
+      )}
+
       {/* Approval Popup for non-swarm agents */}
       {pendingApproval && (
         <ApprovalPopup
@@ -1,7 +1,8 @@
 'use client';
 
 import { motion, AnimatePresence } from 'framer-motion';
-import { X, CheckCircle, AlertCircle, Coins, TrendingUp, User } from 'lucide-react';
+import { X, CheckCircle, AlertCircle, Coins, TrendingUp, User, ShieldAlert } from 'lucide-react';
+import type { TradeConfirmation, TradeQuoteStep } from '@/types';
 
 interface SpecialistInfo {
   name: string;
@@ -16,15 +17,25 @@ interface ApprovalPopupProps {
   specialist: string;
   specialistInfo: SpecialistInfo;
   prompt: string;
+  confirmation?: TradeConfirmation;  // Set to confirm a bankr trade instead of adding an agent
   onApprove: () => void;
   onCancel: () => void;
 }
 
+const shorten = (address: string) => `${address.slice(0, 4)}...${address.slice(-4)}`;
+
+function describeStep(step: TradeQuoteStep): string {
+  if (step.error) return `${step.type} ${step.token}: ${step.error}`;
+  if (step.type === 'transfer') return `Send ${step.amount} ${step.token} to ${step.contact ? `${step.contact} (${shorten(step.to)})` : shorten(step.to)}`;
+  return `${step.type === 'stake' ? 'Stake' : 'Swap'} ${step.amount} ${step.token} → ~${parseFloat(step.estimatedOutput || '0')} ${step.to}`;
+}
+
 export function ApprovalPopup({
   isOpen,
   specialist,
   specialistInfo,
   prompt,
+  confirmation,
   onApprove,
   onCancel,
 }: ApprovalPopupProps) {
@@ -44,7 +55,7 @@ export function ApprovalPopup({
             animate={{ opacity: 1 }}
             exit={{ opacity: 0 }}
             className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50"
-            onClick={onCancel}
+            onClick={confirmation ? undefined : onCancel}
           />
 
           {/* Modal */}
@@ -61,14 +72,14 @@ export function ApprovalPopup({
                 <div className="flex items-center justify-between">
                   <div className="flex items-center gap-3">
                     <div className="w-10 h-10 rounded-full bg-gradient-to-br from-cyan-400 to-purple-500 flex items-center justify-center">
-                      <User className="w-5 h-5 text-white" />
+                      {confirmation ? <ShieldAlert className="w-5 h-5 text-white" /> : <User className="w-5 h-5 text-white" />}
                     </div>
                     <div>
                       <h3 className="text-lg font-semibold text-white">
-                        Add {specialistInfo.name} to Swarm?
+                        {confirmation ? 'Confirm Trade?' : `Add ${specialistInfo.name} to Swarm?`}
                       </h3>
                       <p className="text-sm text-gray-400">
-                        This agent is not in your swarm
+                        {confirmation ? `${specialistInfo.name} is waiting for your go-ahead` : 'This agent is not in your swarm'}
                       </p>
                     </div>
                   </div>
@@ -83,37 +94,59 @@ export function ApprovalPopup({
 
               {/* Content */}
               <div className="px-6 py-5 space-y-4">
-                {/* Agent Info */}
-                <div className="bg-black/30 rounded-xl p-4 space-y-3">
-                  <div className="flex items-center justify-between">
-                    <span className="text-gray-400 text-sm">Specialist</span>
-                    <span className="text-white font-medium">{specialistInfo.name}</span>
-                  </div>
-                  <div className="flex items-center justify-between">
-                    <span className="text-gray-400 text-sm">Description</span>
-                    <span className="text-gray-300 text-sm">{specialistInfo.description}</span>
+                {/* Trade Quote */}
+                {confirmation && (
+                  <div className="bg-black/30 rounded-xl p-4 space-y-3">
+                    {confirmation.quote.map((step, i) => (
+                      <div key={i} className="flex items-center justify-between gap-3">
+                        <span className="text-white text-sm">{describeStep(step)}</span>
+                        <span className="text-cyan-400 font-medium text-sm whitespace-nowrap">
+                          {step.valueUsd !== undefined ? `$${step.valueUsd.toFixed(2)}` : '—'}
+                        </span>
+                      </div>
+                    ))}
+                    {confirmation.quote.some(step => step.route) && (
+                      <div className="flex items-center justify-between">
+                        <span className="text-gray-400 text-sm">Route</span>
+                        <span className="text-gray-300 text-sm">{confirmation.quote.find(step => step.route)?.route}</span>
+                      </div>
+                    )}
                   </div>
-                  <div className="flex items-center justify-between">
-                    <span className="text-gray-400 text-sm flex items-center gap-1">
-                      <Coins className="w-4 h-4" /> Price per request
-                    </span>
-                    <span className="text-cyan-400 font-medium">{feeDisplay}</span>
-                  </div>
-                  {specialistInfo.successRate && (
+                )}
+
+                {/* Agent Info */}
+                {!confirmation && (
+                  <div className="bg-black/30 rounded-xl p-4 space-y-3">
+                    <div className="flex items-center justify-between">
+                      <span className="text-gray-400 text-sm">Specialist</span>
+                      <span className="text-white font-medium">{specialistInfo.name}</span>
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <span className="text-gray-400 text-sm">Description</span>
+                      <span className="text-gray-300 text-sm">{specialistInfo.description}</span>
+                    </div>
                     <div className="flex items-center justify-between">
                       <span className="text-gray-400 text-sm flex items-center gap-1">
-                        <TrendingUp className="w-4 h-4" /> Success rate
-                      </span>
-                      <span className="text-green-400 font-medium">
-                        {specialistInfo.successRate}%
+                        <Coins className="w-4 h-4" /> Price per request
                       </span>
+                      <span className="text-cyan-400 font-medium">{feeDisplay}</span>
                     </div>
-                  )}
-                </div>
+                    {specialistInfo.successRate && (
+                      <div className="flex items-center justify-between">
+                        <span className="text-gray-400 text-sm flex items-center gap-1">
+                          <TrendingUp className="w-4 h-4" /> Success rate
+                        </span>
+                        <span className="text-green-400 font-medium">
+                          {specialistInfo.successRate}%
+                        </span>
+                      </div>
+                    )}
+                  </div>
+                )}
 
                 {/* Your Request */}
                 <div>
-                  <p className="text-gray-400 text-sm mb-2">Your request:</p>
+                  <p className="text-gray-400 text-sm mb-2">{confirmation ? 'Trade request:' : 'Your request:'}</p>
                   <p className="text-white bg-black/30 rounded-lg px-3 py-2 text-sm italic">
                     "{prompt.length > 100 ? prompt.slice(0, 100) + '...' : prompt}"
                   </p>
@@ -122,9 +155,15 @@ export function ApprovalPopup({
                 {/* Info Banner */}
                 <div className="flex items-start gap-2 text-amber-400/80 text-sm bg-amber-500/10 rounded-lg p-3">
                   <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
-                  <p>
-                    This is a one-time route. You can add this agent to your swarm after the task completes.
-                  </p>
+                  {confirmation ? (
+                    <ul className="space-y-1">
+                      {confirmation.reasons.map(reason => <li key={reason}>{reason}</li>)}
+                    </ul>
+                  ) : (
+                    <p>
+                      This is a one-time route. You can add this agent to your swarm after the task completes.
+                    </p>
+                  )}
                 </div>
               </div>
 
@@ -134,14 +173,14 @@ export function ApprovalPopup({
                   onClick={onCancel}
                   className="flex-1 px-4 py-2.5 rounded-xl border border-white/10 text-gray-300 hover:bg-white/5 transition-colors font-medium"
                 >
-                  Cancel
+                  {confirmation ? 'Reject' : 'Cancel'}
                 </button>
                 <button
                   onClick={onApprove}
                   className="flex-1 px-4 py-2.5 rounded-xl bg-gradient-to-r from-cyan-500 to-purple-500 text-white font-medium hover:shadow-lg hover:shadow-cyan-500/20 transition-all flex items-center justify-center gap-2"
                 >
                   <CheckCircle className="w-4 h-4" />
-                  Approve & Run
+                  {confirmation ? 'Confirm Trade' : 'Approve & Run'}
                 </button>
               </div>
             </div>
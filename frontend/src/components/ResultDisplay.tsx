@@ -2,11 +2,12 @@
 
 import { motion, AnimatePresence } from 'framer-motion';
 import { CheckCircle, XCircle, Loader2, Sparkles, TrendingUp, Brain, Zap } from 'lucide-react';
-import type { TaskStatus } from '@/types';
+import type { TaskChunk, TaskStatus } from '@/types';
 
 interface ResultDisplayProps {
   taskStatus: TaskStatus | null;
   result: unknown;
+  chunks?: TaskChunk[];
   error?: string;
   className?: string;
 }
@@ -32,7 +33,7 @@ interface SpecialistResult {
   timestamp?: string;
 }
 
-export function ResultDisplay({ taskStatus, result, error, className = '' }: ResultDisplayProps) {
+export function ResultDisplay({ taskStatus, result, chunks = [], error, className = '' }: ResultDisplayProps) {
   
   const formatHumanReadable = (data: unknown): React.ReactNode => {
     if (!data) return null;
@@ -212,6 +213,54 @@ export function ResultDisplay({ taskStatus, result, error, className = '' }: Res
     );
   };
 
+  // Partial output while the task runs, grouped by the node (or specialist) that produced it
+  const renderChunks = (items: TaskChunk[]): React.ReactNode => {
+    const groups: { key: string; text: string; items: string[] }[] = [];
+    for (const chunk of [...items].sort((a, b) => a.seq - b.seq)) {
+      const key = chunk.nodeId || chunk.specialist;
+      let group = groups.find(g => g.key === key);
+      if (!group) {
+        group = { key, text: '', items: [] };
+        groups.push(group);
+      }
+      if (chunk.kind === 'text') {
+        group.text += chunk.content;
+      } else {
+        group.items.push(chunk.content);
+      }
+    }
+
+    return (
+      <div className="space-y-4">
+        {groups.map(group => (
+          <div key={group.key} className="space-y-2">
+            <h4 className="text-xs font-semibold uppercase tracking-wider text-[#00F0FF]">{group.key}</h4>
+            {group.items.length > 0 && (
+              <ul className="space-y-1">
+                {group.items.map((item, i) => (
+                  <motion.li
+                    key={i}
+                    initial={{ opacity: 0, x: -10 }}
+                    animate={{ opacity: 1, x: 0 }}
+                    className="text-sm text-[var(--text-secondary)]"
+                  >
+                    • {item}
+                  </motion.li>
+                ))}
+              </ul>
+            )}
+            {group.text && (
+              <p className="text-sm text-[var(--text-primary)] leading-relaxed whitespace-pre-wrap">
+                {group.text}
+                <span className="animate-pulse text-[#00F0FF]">▍</span>
+              </p>
+            )}
+          </div>
+        ))}
+      </div>
+    );
+  };
+
   if (!taskStatus && !result && !error) {
     return null;
   }
@@ -233,11 +282,17 @@ export function ResultDisplay({ taskStatus, result, error, className = '' }: Res
                 Task Completed
               </span>
             </>
-          ) : taskStatus === 'failed' ? (
+          ) : taskStatus === 'failed' || taskStatus === 'budget_exceeded' || taskStatus === 'cancelled' || taskStatus === 'timed_out' ? (
             <>
               <XCircle size={16} className="text-red-500" />
               <span className="text-sm font-medium text-red-500">
-                Task Failed
+                {taskStatus === 'budget_exceeded'
+                  ? 'Budget Exceeded'
+                  : taskStatus === 'cancelled'
+                    ? 'Task Cancelled'
+                    : taskStatus === 'timed_out'
+                      ? 'Task Timed Out'
+                      : 'Task Failed'}
               </span>
             </>
           ) : taskStatus === 'executing' || taskStatus === 'planning' || taskStatus === 'processing' ? (
@@ -268,6 +323,8 @@ export function ResultDisplay({ taskStatus, result, error, className = '' }: Res
             <div className="p-4 rounded-lg bg-red-500/10 border border-red-500/20">
               <p className="text-sm text-red-500">{error}</p>
             </div>
+          ) : (taskStatus === 'executing' || taskStatus === 'processing') && chunks.length > 0 ? (
+            renderChunks(chunks)
           ) : taskStatus === 'executing' || taskStatus === 'planning' || taskStatus === 'processing' ? (
             <div className="flex items-center justify-center py-8">
               <motion.div
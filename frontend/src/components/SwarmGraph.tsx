@@ -13,13 +13,14 @@ import {
 } from '@xyflow/react';
 import { motion } from 'framer-motion';
 import { Brain, Sparkles, LineChart, Wallet, Activity, Target, Shield, Newspaper, Eye, FileText, Search } from 'lucide-react';
-import type { SpecialistType } from '@/types';
+import type { SpecialistType, WorkflowNodeState } from '@/types';
 
 interface SwarmGraphProps {
   activeSpecialist: string | null;
   currentStep: { specialist: string; action: string } | null;
   taskStatus: string | null;
   hiredAgents?: string[];
+  workflowNodes?: WorkflowNodeState[];
   onAgentClick?: (specialist: SpecialistType) => void;
 }
 
@@ -115,7 +116,7 @@ function AgentNode({ data }: { data: {
   specialist: SpecialistType; 
   isActive: boolean; 
   isCenter: boolean;
-  status?: 'ready' | 'active' | 'complete' | 'idle';
+  status?: 'ready' | 'active' | 'complete' | 'failed' | 'skipped' | 'idle';
   currentAction?: string;
 }}) {
   const config = SPECIALISTS[data.specialist];
@@ -123,6 +124,8 @@ function AgentNode({ data }: { data: {
   
   const isReady = data.status === 'ready';
   const isComplete = data.status === 'complete';
+  const isFailed = data.status === 'failed';
+  const isSkipped = data.status === 'skipped';
   const isActive = data.isActive || data.status === 'active';
 
   return (
@@ -130,7 +133,7 @@ function AgentNode({ data }: { data: {
       initial={{ scale: 0, opacity: 0 }}
       animate={{ 
         scale: 1, 
-        opacity: 1,
+        opacity: isSkipped ? 0.5 : 1,
         boxShadow: isActive 
           ? `0 0 30px ${config.glowColor}, 0 0 60px ${config.glowColor}`
           : isReady
@@ -151,7 +154,7 @@ function AgentNode({ data }: { data: {
         ${isReady ? 'border-dashed' : 'border-solid'}
       `}
       style={{
-        borderColor: isActive ? config.color : isReady ? config.color : 'rgba(255,255,255,0.1)',
+        borderColor: isFailed ? '#ef4444' : isActive ? config.color : isReady ? config.color : 'rgba(255,255,255,0.1)',
         borderWidth: isActive ? 3 : isReady ? 2 : 1,
       }}
     >
@@ -200,10 +203,11 @@ function AgentNode({ data }: { data: {
       {/* Status indicator */}
       <div 
         className={`absolute -top-1 -right-1 w-4 h-4 rounded-full flex items-center justify-center border border-[var(--bg-primary)] ${
-          isActive ? 'bg-green-500' : isReady ? 'bg-blue-500' : isComplete ? 'bg-green-600' : 'bg-gray-500'
+          isActive ? 'bg-green-500' : isFailed ? 'bg-red-500' : isReady ? 'bg-blue-500' : isComplete ? 'bg-green-600' : 'bg-gray-500'
         }`}
       >
         {isComplete && <span className="text-[8px] text-white">✓</span>}
+        {isFailed && <span className="text-[8px] text-white">✕</span>}
       </div>
 
       {/* Current action tooltip */}
@@ -223,6 +227,21 @@ function AgentNode({ data }: { data: {
 
 const nodeTypes = { agent: AgentNode };
 
+// Collapse workflow node states into one status per specialist (a specialist can appear in several nodes)
+const WORKFLOW_STATUS_PRIORITY = ['running', 'failed', 'completed', 'skipped', 'pending'] as const;
+
+function getWorkflowStatuses(workflowNodes: WorkflowNodeState[]): Record<string, WorkflowNodeState['status']> {
+  const statuses: Record<string, WorkflowNodeState['status']> = {};
+  workflowNodes.forEach(node => {
+    const id = node.specialist.toLowerCase();
+    const current = statuses[id];
+    if (!current || WORKFLOW_STATUS_PRIORITY.indexOf(node.status) < WORKFLOW_STATUS_PRIORITY.indexOf(current)) {
+      statuses[id] = node.status;
+    }
+  });
+  return statuses;
+}
+
 // Calculate node positions in a circle around center
 function getNodePositions(centerX: number, centerY: number, radius: number, extraAgents: string[] = []) {
   const baseSpecialists: SpecialistType[] = ['bankr', 'scribe', 'seeker'];
@@ -248,12 +267,23 @@ function getNodePositions(centerX: number, centerY: number, radius: number, extr
   });
 }
 
-export function SwarmGraph({ activeSpecialist, currentStep, taskStatus, hiredAgents = [], onAgentClick }: SwarmGraphProps) {
+export function SwarmGraph({ activeSpecialist, currentStep, taskStatus, hiredAgents = [], workflowNodes = [], onAgentClick }: SwarmGraphProps) {
   const centerX = 200;
   const centerY = 150;
   const radius = 140;
 
-  const positions = useMemo(() => getNodePositions(centerX, centerY, radius, hiredAgents), [hiredAgents]);
+  // Specialists taking part in the current workflow are shown even if not hired
+  const workflowSpecialists = useMemo(
+    () => workflowNodes.map(node => node.specialist).sort().join(','),
+    [workflowNodes]
+  );
+  const graphAgents = useMemo(
+    () => [...hiredAgents, ...(workflowSpecialists ? workflowSpecialists.split(',') : [])],
+    [hiredAgents, workflowSpecialists]
+  );
+  const workflowStatuses = useMemo(() => getWorkflowStatuses(workflowNodes), [workflowNodes]);
+
+  const positions = useMemo(() => getNodePositions(centerX, centerY, radius, graphAgents), [graphAgents]);
   
   const initialNodes: Node[] = useMemo(() => [
     {
@@ -321,16 +351,27 @@ export function SwarmGraph({ activeSpecialist, currentStep, taskStatus, hiredAge
     const activeId = currentStep?.specialist?.toLowerCase() || 
                      (taskStatus === 'planning' ? 'dispatcher' : null);
     
+    const hasWorkflow = Object.keys(workflowStatuses).length > 0;
+
     setNodes(nds => nds.map(node => {
-      const isCurrentActive = node.id === activeId || (taskStatus === 'executing' && node.id === 'dispatcher');
+      const workflowStatus = workflowStatuses[node.id];
+      const isCurrentActive = hasWorkflow && node.id !== 'dispatcher'
+        ? workflowStatus === 'running'
+        : node.id === activeId || (taskStatus === 'executing' && node.id === 'dispatcher');
       let status = node.data.status;
       
-      if (isCurrentActive) {
+      if (workflowStatus && workflowStatus !== 'pending') {
+        status = workflowStatus === 'running' ? 'active'
+          : workflowStatus === 'completed' ? 'complete'
+          : workflowStatus;
+      } else if (isCurrentActive) {
         status = 'active';
       } else if (taskStatus === 'completed' && node.data.status === 'active') {
         status = 'complete';
       } else if (hiredAgents.includes(node.id) && status !== 'complete' && status !== 'active') {
         status = 'ready';
+      } else if (workflowStatus === 'pending') {
+        status = 'idle';
       }
 
       return {
@@ -361,7 +402,7 @@ export function SwarmGraph({ activeSpecialist, currentStep, taskStatus, hiredAge
         },
       };
     }));
-  }, [currentStep, taskStatus, hiredAgents, setNodes, setEdges]);
+  }, [currentStep, taskStatus, hiredAgents, workflowStatuses, setNodes, setEdges]);
 
   return (
     <div className="w-full h-full min-h-[300px] glass-panel overflow-hidden">
@@ -2,11 +2,12 @@
 
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Sparkles, Zap, TrendingUp, Coins, Loader2, AlertCircle, CheckCircle2, ChevronRight } from 'lucide-react';
+import { Sparkles, Zap, TrendingUp, Coins, Loader2, AlertCircle, CheckCircle2, ChevronRight, XCircle } from 'lucide-react';
 import { SpecialistPricing, SpecialistType } from '../types';
 
 interface TaskInputProps {
   onSubmit: (prompt: string) => void;
+  onCancel?: () => void;
   isLoading: boolean;
   disabled?: boolean;
   initialAgentId?: string | null;
@@ -38,6 +39,7 @@ const SPECIALIST_NAMES: Record<string, string> = {
 
 export function TaskInput({ 
   onSubmit, 
+  onCancel,
   isLoading, 
   disabled, 
   initialAgentId, 
@@ -197,6 +199,17 @@ export function TaskInput({
                   </>
                 )}
               </motion.button>
+
+              {isLoading && onCancel && (
+                <button
+                  type="button"
+                  onClick={onCancel}
+                  className="flex items-center gap-2 px-4 py-4 rounded-xl text-sm font-medium bg-white/5 text-white/60 hover:text-red-400 hover:bg-red-500/10 transition-colors"
+                >
+                  <XCircle size={18} />
+                  <span>Cancel</span>
+                </button>
+              )}
             </div>
 
             {/* Bottom Info Bar */}
@@ -2,7 +2,7 @@
 
 import { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Wallet, Copy, Check, ExternalLink, RefreshCw, Activity, ChevronDown, ChevronUp } from 'lucide-react';
+import { Wallet, Copy, Check, ExternalLink, RefreshCw, Activity, ChevronDown, ChevronUp, TrendingUp, TrendingDown } from 'lucide-react';
 
 interface WalletPanelProps {
   className?: string;
@@ -15,6 +15,26 @@ interface TokenBalance {
   color: string;
 }
 
+interface PortfolioPosition {
+  token: string;
+  amount: number;
+  valueUsd: number;
+  unrealizedPnlUsd: number;
+  unrealizedPnlPct: number;
+  realizedPnlUsd: number;
+}
+
+interface PortfolioSummary {
+  positions: PortfolioPosition[];
+  totals: {
+    valueUsd: number;
+    realizedPnlUsd: number;
+    unrealizedPnlUsd: number;
+    totalPnlUsd: number;
+    totalPnlPct: number;
+  };
+}
+
 const TREASURY_ADDRESS = '5xUugg8ysgqpcGneM6qpM2AZ8ZGuMaH5TnGNWdCQC1Z1';
 const AGENTWALLET_USERNAME = 'claw';
 
@@ -36,6 +56,7 @@ export function WalletPanel({ className = '' }: WalletPanelProps) {
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
   const [showAllTokens, setShowAllTokens] = useState(false);
+  const [portfolio, setPortfolio] = useState<PortfolioSummary | null>(null);
 
   const truncateAddress = (address: string) => {
     return `${address.slice(0, 6)}...${address.slice(-4)}`;
@@ -51,7 +72,14 @@ export function WalletPanel({ className = '' }: WalletPanelProps) {
     setIsRefreshing(true);
     try {
       const apiUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3000';
-      const response = await fetch(`${apiUrl}/api/wallet/balances`);
+      const headers = { 'X-API-Key': process.env.NEXT_PUBLIC_API_KEY || 'demo-key' };
+      const [response, portfolioResponse] = await Promise.all([
+        fetch(`${apiUrl}/api/wallet/balances`, { headers }),
+        fetch(`${apiUrl}/v1/portfolio`, { headers }),
+      ]);
+      if (portfolioResponse.ok) {
+        setPortfolio(await portfolioResponse.json());
+      }
       if (response.ok) {
         const data = await response.json();
         
@@ -132,6 +160,12 @@ export function WalletPanel({ className = '' }: WalletPanelProps) {
     return amount.toFixed(config.decimals);
   };
 
+  const formatUsd = (value: number): string =>
+    `${value < 0 ? '-' : ''}$${Math.abs(value).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+  const pnlColor = (value: number): string =>
+    value >= 0 ? 'text-[var(--accent-green)]' : 'text-[var(--accent-red)]';
+
   // Fetch on mount and every 15 seconds
   useEffect(() => {
     fetchBalance();
@@ -293,6 +327,38 @@ export function WalletPanel({ className = '' }: WalletPanelProps) {
           </>
         )}
 
+        {/* Portfolio (cost basis and PnL) */}
+        {portfolio && (
+          <div className="glass-panel-subtle p-3 rounded-lg space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="text-xs text-[var(--text-muted)]">Portfolio</span>
+              <span className="text-sm font-semibold text-[var(--text-primary)]">
+                {formatUsd(portfolio.totals.valueUsd)}
+              </span>
+            </div>
+            <div className="flex items-center justify-between text-xs">
+              <span className="text-[var(--text-muted)]">Total PnL</span>
+              <span className={`flex items-center gap-1 ${pnlColor(portfolio.totals.totalPnlUsd)}`}>
+                {portfolio.totals.totalPnlUsd >= 0 ? <TrendingUp size={12} /> : <TrendingDown size={12} />}
+                {formatUsd(portfolio.totals.totalPnlUsd)} ({portfolio.totals.totalPnlPct.toFixed(2)}%)
+              </span>
+            </div>
+            <div className="flex items-center justify-between text-[10px] text-[var(--text-muted)]">
+              <span>Realized <span className={pnlColor(portfolio.totals.realizedPnlUsd)}>{formatUsd(portfolio.totals.realizedPnlUsd)}</span></span>
+              <span>Unrealized <span className={pnlColor(portfolio.totals.unrealizedPnlUsd)}>{formatUsd(portfolio.totals.unrealizedPnlUsd)}</span></span>
+            </div>
+            {portfolio.positions.filter(p => p.amount > 0).map((position) => (
+              <div key={position.token} className="flex items-center justify-between text-xs">
+                <span className="text-[var(--text-secondary)]">{position.token}</span>
+                <span className="text-[var(--text-secondary)]">{formatUsd(position.valueUsd)}</span>
+                <span className={pnlColor(position.unrealizedPnlUsd)}>
+                  {position.unrealizedPnlPct >= 0 ? '+' : ''}{position.unrealizedPnlPct.toFixed(2)}%
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
         {/* Footer Links */}
         <div className="flex items-center justify-between pt-2 border-t border-[var(--glass-border)]">
           <motion.button
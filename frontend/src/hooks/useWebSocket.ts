@@ -1,12 +1,12 @@
 'use client';
 
 import { useEffect, useRef, useState, useCallback } from 'react';
-import type { AgentMessage, Payment, TaskStatus } from '@/types';
+import type { AgentMessage, Payment, TaskChunk, TaskStatus, TradeConfirmation, WorkflowNodeState } from '@/types';
 
 const WS_URL = process.env.NEXT_PUBLIC_WS_URL || 'ws://localhost:3000/ws';
 
 interface WSEvent {
-  type: 'task:status' | 'task_update' | 'agent:message' | 'payment' | 'task:complete' | 'welcome' | 'subscribed';
+  type: 'task:status' | 'task_update' | 'task_chunk' | 'agent:message' | 'payment' | 'task:complete' | 'welcome' | 'subscribed';
   taskId?: string;
   status?: TaskStatus;
   step?: { specialist: string; action: string };
@@ -27,8 +27,13 @@ export interface UseWebSocketReturn {
   messages: AgentMessage[];
   payments: Payment[];
   result: unknown;
+  workflowNodes: WorkflowNodeState[];
+  chunks: TaskChunk[];
+  confirmation: TradeConfirmation | null;
   subscribe: (taskId: string) => void;
   unsubscribe: (taskId: string) => void;
+  cancel: (taskId: string) => void;
+  confirm: (taskId: string, approve: boolean) => void;
   reset: () => void;
 }
 
@@ -40,6 +45,9 @@ export function useWebSocket(): UseWebSocketReturn {
   const [messages, setMessages] = useState<AgentMessage[]>([]);
   const [payments, setPayments] = useState<Payment[]>([]);
   const [result, setResult] = useState<unknown>(null);
+  const [workflowNodes, setWorkflowNodes] = useState<WorkflowNodeState[]>([]);
+  const [chunks, setChunks] = useState<TaskChunk[]>([]);
+  const [confirmation, setConfirmation] = useState<TradeConfirmation | null>(null);
   const subscribedTaskRef = useRef<string | null>(null);
 
   useEffect(() => {
@@ -109,6 +117,10 @@ export function useWebSocket(): UseWebSocketReturn {
                   if (specialist) {
                     setCurrentStep({ specialist, action: 'processing' });
                   }
+                  // Per-node status for workflow (DAG) tasks
+                  setWorkflowNodes(task.metadata?.workflow?.nodes || []);
+                  // Trade waiting for the user to confirm or reject it
+                  setConfirmation(task.status === 'awaiting_confirmation' ? task.metadata?.confirmation || null : null);
                   if (task.status === 'completed' && task.result) {
                     setResult(task.result);
                   }
@@ -137,6 +149,13 @@ export function useWebSocket(): UseWebSocketReturn {
                 }
                 break;
 
+              case 'task_chunk':
+                // Partial output from a specialist that is still working
+                if (data.payload) {
+                  setChunks(prev => [...prev, data.payload as TaskChunk]);
+                }
+                break;
+
               case 'agent:message':
                 setMessages(prev => [...prev, {
                   id: `${Date.now()}`,
@@ -201,12 +220,27 @@ export function useWebSocket(): UseWebSocketReturn {
     }
   }, []);
 
+  const cancel = useCallback((taskId: string) => {
+    if (socketRef.current?.readyState === WebSocket.OPEN) {
+      socketRef.current.send(JSON.stringify({ type: 'cancel', taskId }));
+    }
+  }, []);
+
+  const confirm = useCallback((taskId: string, approve: boolean) => {
+    if (socketRef.current?.readyState === WebSocket.OPEN) {
+      socketRef.current.send(JSON.stringify({ type: 'confirm', taskId, approve }));
+    }
+  }, []);
+
   const reset = useCallback(() => {
     setTaskStatus(null);
     setCurrentStep(null);
     setMessages([]);
     setPayments([]);
     setResult(null);
+    setWorkflowNodes([]);
+    setChunks([]);
+    setConfirmation(null);
   }, []);
 
   return {
@@ -216,8 +250,13 @@ export function useWebSocket(): UseWebSocketReturn {
     messages,
     payments,
     result,
+    workflowNodes,
+    chunks,
+    confirmation,
     subscribe,
     unsubscribe,
+    cancel,
+    confirm,
     reset,
   };
 }
@@ -66,11 +66,63 @@ export type TaskStatus =
   | 'idle'
   | 'routing'
   | 'awaiting_payment'
+  | 'awaiting_confirmation'
   | 'processing'
   | 'executing'
   | 'planning'
   | 'completed'
-  | 'failed';
+  | 'failed'
+  | 'budget_exceeded'
+  | 'cancelled'
+  | 'timed_out';
+
+export type WorkflowNodeStatus = 'pending' | 'running' | 'completed' | 'failed' | 'skipped';
+
+// Partial specialist output streamed over the WebSocket (task_chunk)
+export interface TaskChunk {
+  taskId: string;
+  specialist: string;
+  nodeId?: string;
+  seq: number;
+  kind: 'text' | 'item';
+  content: string;
+  data?: unknown;
+}
+
+// A bankr trade waiting for the user to confirm it (task.metadata.confirmation)
+export interface TradeQuoteStep {
+  type: 'swap' | 'stake' | 'transfer';
+  token: string;
+  amount?: string;
+  to: string;               // Token bought, or the recipient address for transfers
+  contact?: string;         // Contact the recipient was named as
+  estimatedOutput?: string;
+  route?: string;
+  priceImpact?: string;
+  valueUsd?: number;
+  error?: string;
+}
+
+export interface TradeConfirmation {
+  prompt: string;
+  nodeId?: string;
+  reasons: string[];
+  quote: TradeQuoteStep[];
+  requestedAt: string;
+  expiresAt: string;
+}
+
+export interface WorkflowNodeState {
+  id: string;
+  specialist: string;
+  status: WorkflowNodeStatus;
+  dependsOn: string[];
+  prompt?: string;
+  summary?: string;
+  error?: string;
+  startedAt?: string;
+  completedAt?: string;
+}
 
 export interface WalletBalance {
   address: string;